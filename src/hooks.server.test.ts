@@ -0,0 +1,141 @@
+/**
+ * Server Hook Unit Tests
+ *
+ * Tests which proxy requests the hook lets through to their routes and
+ * refreshing expired access tokens against a stubbed token endpoint.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import type { Cookies, RequestEvent } from '@sveltejs/kit';
+import { handle } from './hooks.server';
+
+vi.mock('$env/dynamic/private', () => ({
+    env: { GOOGLE_CLIENT_ID: 'client-id', GOOGLE_CLIENT_SECRET: 'client-secret' },
+}));
+
+// Cookie jar holding the given cookies
+function cookieJar(initial: Record<string, string> = {}): Cookies {
+    const values = new Map(Object.entries(initial));
+    return {
+        get: (name: string) => values.get(name),
+        getAll: () => Array.from(values, ([name, value]) => ({ name, value })),
+        set: (name: string, value: string) => {
+            values.set(name, value);
+        },
+        delete: (name: string) => {
+            values.delete(name);
+        },
+        serialize: () => '',
+    };
+}
+
+// Run the hook for a request; the route answers 200 "ok"
+async function run(path: string, cookies: Cookies) {
+    const resolve = vi.fn(async () => new Response('ok'));
+    const event = { url: new URL(path, 'http://localhost'), cookies } as unknown as RequestEvent;
+    const response = await handle({ event, resolve });
+    return { response, resolve };
+}
+
+describe('handle', () => {
+    beforeEach(() => {
+        vi.useFakeTimers();
+        vi.setSystemTime(Date.UTC(2024, 0, 1));
+        vi.spyOn(console, 'warn').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+        vi.unstubAllGlobals();
+        vi.restoreAllMocks();
+    });
+
+    it('should pass other routes through', async () => {
+        const { response } = await run('/auth/google', cookieJar());
+        expect(response.status).toBe(200);
+    });
+
+    describe('Google proxy', () => {
+        it('should require an account', async () => {
+            const { response } = await run('/api/google/calendars', cookieJar());
+            expect(response.status).toBe(400);
+        });
+
+        it('should leave valid sessions alone', async () => {
+            const { response } = await run(
+                '/api/google/calendars?account=42',
+                cookieJar({ google_access_token_42: 'token' })
+            );
+
+            expect(response.status).toBe(200);
+            expect(response.headers.has('X-Google-Token-Expires-At')).toBe(false);
+        });
+
+        it('should refresh expired access tokens and report the new expiry', async () => {
+            vi.stubGlobal('fetch', vi.fn(async () => Response.json({ access_token: 'new', expires_in: 3600 })));
+            const cookies = cookieJar({ google_refresh_token_42: 'refresh-1' });
+
+            const { response } = await run('/api/google/calendars?account=42', cookies);
+
+            expect(response.status).toBe(200);
+            expect(await response.text()).toBe('ok');
+            expect(response.headers.get('X-Google-Token-Expires-At')).toBe(String(Date.UTC(2024, 0, 1) + 3600 * 1000));
+            expect(cookies.get('google_access_token_42')).toBe('new');
+        });
+
+        it('should ask for reconsent when the refresh token was revoked', async () => {
+            vi.stubGlobal('fetch', vi.fn(async () => Response.json({ error: 'invalid_grant' }, { status: 400 })));
+
+            const { response, resolve } = await run(
+                '/api/google/calendars?account=42',
+                cookieJar({ google_refresh_token_42: 'revoked' })
+            );
+
+            expect(response.status).toBe(401);
+            expect(await response.json()).toEqual({ error: 'Google session expired', reconsent: true });
+            expect(resolve).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('CalDAV proxy', () => {
+        it('should refuse requests without a Google session', async () => {
+            const { response, resolve } = await run('/api/caldav/calendars', cookieJar());
+
+            expect(response.status).toBe(401);
+            expect(resolve).not.toHaveBeenCalled();
+        });
+
+        it('should serve requests whose token Google confirms', async () => {
+            const tokeninfo = vi.fn(async () => Response.json({ aud: 'client-id', sub: '123', expires_in: '3599' }));
+            vi.stubGlobal('fetch', tokeninfo);
+
+            const { response } = await run(
+                '/api/caldav/calendars',
+                cookieJar({ theme: 'dark', google_access_token_123: 'real-token' })
+            );
+
+            expect(response.status).toBe(200);
+            expect(tokeninfo).toHaveBeenCalledWith('https://oauth2.googleapis.com/tokeninfo', expect.anything());
+        });
+
+        it('should refuse made-up token cookies', async () => {
+            vi.stubGlobal('fetch', vi.fn(async () => Response.json({ error: 'invalid_token' }, { status: 400 })));
+
+            const { response, resolve } = await run('/api/caldav/calendars', cookieJar({ google_access_token_x: '1' }));
+
+            expect(response.status).toBe(401);
+            expect(resolve).not.toHaveBeenCalled();
+        });
+
+        it('should refuse tokens filed under another account', async () => {
+            vi.stubGlobal('fetch', vi.fn(async () => Response.json({ aud: 'client-id', sub: '999', expires_in: '3599' })));
+
+            const { response } = await run(
+                '/api/caldav/calendars',
+                cookieJar({ google_access_token_123: 'someone-elses-token' })
+            );
+
+            expect(response.status).toBe(401);
+        });
+    });
+});
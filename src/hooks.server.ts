@@ -0,0 +1,66 @@
+/**
+ * Server hooks
+ *
+ * Keeps Google API proxy requests authenticated: when the access token
+ * cookie has expired, the refresh token is exchanged transparently before
+ * the route runs. The new expiry is reported in a response header so the
+ * client can update its auth state. Requests name their Google account
+ * with the `account` query parameter.
+ *
+ * The CalDAV proxy uses server-side credentials, so it is only served to
+ * browsers whose Google access token Google confirms was issued to this
+ * app; a cookie by itself proves nothing.
+ */
+
+import { json, type Handle } from '@sveltejs/kit';
+import {
+    ensureAccessToken,
+    getAccountId,
+    getSessionAccountId,
+    hasVerifiedSession,
+    TOKEN_EXPIRES_HEADER,
+} from '$lib/server/googleAuth';
+
+export const handle: Handle = async ({ event, resolve }) => {
+    const isGoogle = event.url.pathname.startsWith('/api/google/');
+    const isCalDAV = event.url.pathname.startsWith('/api/caldav/');
+
+    if (!isGoogle && !isCalDAV) {
+        return resolve(event);
+    }
+
+    const accountId = isGoogle
+        ? getAccountId(event.url)
+        : getAccountId(event.url) ?? getSessionAccountId(event.cookies);
+
+    if (!accountId) {
+        return isGoogle
+            ? json({ error: 'account required' }, { status: 400 })
+            : json({ error: 'Sign in required' }, { status: 401 });
+    }
+
+    const auth = await ensureAccessToken(event.cookies, accountId);
+
+    if (auth.status === 'reconsent') {
+        return json({ error: 'Google session expired', reconsent: true }, { status: 401 });
+    }
+
+    if (isCalDAV && !await hasVerifiedSession(event.cookies, accountId)) {
+        return json({ error: 'Sign in required' }, { status: 401 });
+    }
+
+    const response = await resolve(event);
+
+    if (auth.status !== 'refreshed') {
+        return response;
+    }
+
+    // Responses passed through from fetch have immutable headers
+    const headers = new Headers(response.headers);
+    headers.set(TOKEN_EXPIRES_HEADER, String(auth.expiresAt));
+    return new Response(response.body, {
+        status: response.status,
+        statusText: response.statusText,
+        headers,
+    });
+};
@@ -3,6 +3,12 @@
  * 
  * Wraps any CalendarProvider and caches event data for faster subsequent queries.
  * The cache is read-only and never modifies the underlying provider data.
+ *
+ * Events are partitioned per calendar, each partition with an interval set of
+ * the ranges it loaded and when. Ranges older than the event TTL are still
+ * served but marked stale, so the caller can revalidate them in the
+ * background. Optionally persists loaded ranges to disk: ranges found there
+ * are served (stale) before the network is asked.
  */
 
 import type { CalendarEvent } from '$lib/types/Event';
@@ -14,7 +20,9 @@ import type {
     FetchEventsOptions,
     FetchResult,
 } from './CalendarProvider';
-import { eventStore, EventStore } from '$lib/events/EventStore';
+import { EventStore } from '$lib/events/EventStore';
+import { IntervalSet } from '$lib/events/IntervalSet';
+import type { PersistentEventCache } from '$lib/events/PersistentEventCache';
 
 /**
  * Cache entry with TTL information
@@ -33,24 +41,48 @@ export interface CachingProviderConfig {
     eventTTL?: number;
     /** Time-to-live for cached calendar list in milliseconds (default: 30 minutes) */
     calendarsTTL?: number;
-    /** Use shared EventStore for efficient queries (default: true) */
-    useSharedEventStore?: boolean;
+    /** Persist loaded ranges and sync tokens to disk under this provider ID */
+    persistence?: {
+        cache: PersistentEventCache;
+        providerId: string;
+    };
 }
 
 const DEFAULT_EVENT_TTL = 5 * 60 * 1000; // 5 minutes
 const DEFAULT_CALENDARS_TTL = 30 * 60 * 1000; // 30 minutes
 
+/** Partition key for requests without a calendar filter */
+const ALL_CALENDARS = '';
+
+/**
+ * Cached events of one calendar and the ranges loaded for it
+ */
+interface Partition {
+    events: EventStore;
+    ranges: IntervalSet;
+    /** Ranges written to disk, by `start:end` */
+    persisted: Map<string, { start: number; end: number }>;
+}
+
+/**
+ * Calendar an event belongs to (providers put the calendar ID in `category`)
+ */
+function getCalendarKey(event: CalendarEvent): string {
+    return event.calendarId ?? event.category ?? ALL_CALENDARS;
+}
+
 /**
  * CachingProvider wraps a CalendarProvider with a read-only caching layer
  */
 export class CachingProvider implements CalendarProvider {
     private provider: CalendarProvider;
-    private config: Required<CachingProviderConfig>;
+    private config: Required<Omit<CachingProviderConfig, 'persistence'>>;
+    private persistence: CachingProviderConfig['persistence'];
 
     // Cache storage
     private calendarsCache: CacheEntry<CalendarInfo[]> | null = null;
-    private eventCache: EventStore;
-    private loadedRanges: { start: number; end: number }[] = [];
+    /** Cached events per calendar ID (ALL_CALENDARS when fetched without a calendar filter) */
+    private partitions = new Map<string, Partition>();
 
     readonly type: ProviderType;
     readonly name: string;
@@ -61,14 +93,11 @@ export class CachingProvider implements CalendarProvider {
         this.config = {
             eventTTL: config.eventTTL ?? DEFAULT_EVENT_TTL,
             calendarsTTL: config.calendarsTTL ?? DEFAULT_CALENDARS_TTL,
-            useSharedEventStore: config.useSharedEventStore ?? true,
         };
+        this.persistence = config.persistence;
 
         this.type = provider.type;
         this.name = `${provider.name} (Cached)`;
-
-        // Use shared EventStore or create private one
-        this.eventCache = this.config.useSharedEventStore ? eventStore : new EventStore();
     }
 
     // =========================================
@@ -119,70 +148,94 @@ export class CachingProvider implements CalendarProvider {
         return result;
     }
 
+    /**
+     * Serve a range from the cache, fetching only the calendars that haven't
+     * loaded it yet. Ranges past their TTL (or read from disk) are served with
+     * `stale: true`; call revalidate() to refresh them.
+     */
     async fetchEvents(options: FetchEventsOptions): Promise<FetchResult<CalendarEvent[]>> {
         const { startTime, endTime } = options;
-
-        // Check if this range is fully covered by cached ranges
-        const isCovered = this.isRangeCovered(startTime, endTime);
-
-        if (isCovered) {
-            // Query from cache using EventStore's O(log n) query
-            const cachedEvents = this.eventCache.queryRange(startTime, endTime);
-
-            // Apply additional filters if needed
-            let filtered = cachedEvents;
-            if (options.calendarIds && options.calendarIds.length > 0) {
-                filtered = filtered.filter(e =>
-                    e.category && options.calendarIds!.includes(e.category)
-                );
+        const now = Date.now();
+        const keys = this.getCalendarKeys(options);
+
+        const missing = keys.filter(key => !this.partitions.get(key)?.ranges.covers(startTime, endTime));
+        let stale = keys.some(key => !missing.includes(key)
+            && !this.partitions.get(key)!.ranges.covers(startTime, endTime, now - this.config.eventTTL));
+
+        let result: FetchResult<CalendarEvent[]> = { data: [], hasMore: false };
+        if (missing.length > 0) {
+            // Ranges loaded in an earlier session are served from disk first
+            const syncToken = await this.readPersisted(missing, startTime, endTime);
+            if (syncToken !== null) {
+                result = { data: [], hasMore: false, syncToken: syncToken || undefined };
+                stale = true;
+            } else {
+                result = await this.provider.fetchEvents({
+                    ...options,
+                    calendarIds: options.calendarIds?.length ? missing : undefined,
+                });
+                this.storeFetched(missing, startTime, endTime, result, now);
             }
-
-            return {
-                data: filtered,
-                hasMore: false,
-            };
         }
 
-        // Fetch from provider and cache
-        const result = await this.provider.fetchEvents(options);
-
-        if (!result.error && result.data.length > 0) {
-            // Add to cache
-            this.eventCache.addEvents(result.data);
+        // A failure without details only concerns the calendars that were fetched
+        const calendarErrors = result.calendarErrors
+            ?? (result.error ? missing.map(calendarId => ({ calendarId, message: result.error as string })) : undefined);
 
-            // Mark range as loaded
-            this.addLoadedRange(startTime, endTime);
-        }
+        return {
+            ...result,
+            data: keys.flatMap(key => this.partitions.get(key)?.events.queryRange(startTime, endTime) ?? []),
+            hasMore: false,
+            calendarErrors,
+            stale: stale || undefined,
+        };
+    }
 
+    /**
+     * Fetch a range from the provider even if it is cached, replacing the
+     * cached events of the fetched calendars (use after a stale result)
+     */
+    async revalidate(options: FetchEventsOptions): Promise<FetchResult<CalendarEvent[]>> {
+        const { startTime, endTime } = options;
+        const now = Date.now();
+        const result = await this.provider.fetchEvents(options);
+        this.storeFetched(this.getCalendarKeys(options), startTime, endTime, result, now);
         return result;
     }
 
     async getEvent(eventId: string): Promise<CalendarEvent | null> {
         // Check cache first
-        const cached = this.eventCache.getById(eventId);
-        if (cached) return cached;
-
-        // Fallback to provider
-        const event = await this.provider.getEvent(eventId);
-
-        // Cache the event if found
-        if (event) {
-            this.eventCache.addEvents([event]);
+        for (const partition of Array.from(this.partitions.values())) {
+            const cached = partition.events.getById(eventId);
+            if (cached) return cached;
         }
 
-        return event;
+        // Fallback to provider
+        return this.provider.getEvent(eventId);
     }
 
-    async fetchChanges(syncToken: string): Promise<FetchResult<CalendarEvent[]>> {
+    async fetchChanges(syncToken: string, calendarIds?: string[]): Promise<FetchResult<CalendarEvent[]>> {
         if (!this.provider.fetchChanges) {
             return { data: [], hasMore: false };
         }
 
-        const result = await this.provider.fetchChanges(syncToken);
+        const result = await this.provider.fetchChanges(syncToken, calendarIds);
 
-        // Update cache with changes
-        if (!result.error && result.data.length > 0) {
-            this.eventCache.addEvents(result.data);
+        // Update cache with changes; cancelled events are tombstones
+        if ((!result.error || result.calendarErrors?.length) && result.data.length > 0) {
+            const cancelledIds = result.data.filter(e => e.status === 'cancelled').map(e => e.id);
+            for (const partition of Array.from(this.partitions.values())) {
+                partition.events.remove(cancelledIds);
+            }
+            for (const event of result.data.filter(e => e.status !== 'cancelled')) {
+                // Changes to calendars that were never loaded aren't cached
+                const partition = this.partitions.get(getCalendarKey(event)) ?? this.partitions.get(ALL_CALENDARS);
+                partition?.events.upsert([event]);
+            }
+            this.persistChanged(result.data);
+        }
+        if (this.persistence && result.syncToken) {
+            this.persistence.cache.putSyncToken(this.persistence.providerId, result.syncToken);
         }
 
         return result;
@@ -197,11 +250,24 @@ export class CachingProvider implements CalendarProvider {
      */
     clearCache(): void {
         this.calendarsCache = null;
-        this.loadedRanges = [];
+        this.partitions.clear();
 
-        // Only clear event cache if we have our own (not shared)
-        if (!this.config.useSharedEventStore) {
-            this.eventCache.clear();
+        // What's on disk is just as stale
+        if (this.persistence) {
+            this.persistence.cache.clearProvider(this.persistence.providerId);
+        }
+    }
+
+    /**
+     * Forget the cached events of some calendars (e.g., when one is toggled
+     * or its series changed), leaving the others untouched
+     */
+    invalidateCalendars(calendarIds: string[]): void {
+        for (const calendarId of calendarIds) {
+            this.partitions.delete(calendarId);
+            if (this.persistence) {
+                this.persistence.cache.retainRanges(this.persistence.providerId, calendarId, []);
+            }
         }
     }
 
@@ -213,28 +279,107 @@ export class CachingProvider implements CalendarProvider {
     }
 
     /**
-     * Check if a time range is fully covered by cached data
+     * Partition keys of a request
      */
-    private isRangeCovered(start: number, end: number): boolean {
-        for (const range of this.loadedRanges) {
-            if (range.start <= start && range.end >= end) {
-                return true;
+    private getCalendarKeys(options: FetchEventsOptions): string[] {
+        return options.calendarIds?.length ? options.calendarIds : [ALL_CALENDARS];
+    }
+
+    private getPartition(key: string): Partition {
+        let partition = this.partitions.get(key);
+        if (!partition) {
+            partition = { events: new EventStore(), ranges: new IntervalSet(), persisted: new Map() };
+            this.partitions.set(key, partition);
+        }
+        return partition;
+    }
+
+    /**
+     * Replace the cached events of a calendar in a range. Events the provider
+     * no longer returns for the range were deleted remotely.
+     */
+    private replaceRange(key: string, start: number, end: number, events: CalendarEvent[], fetchedAt: number) {
+        const partition = this.getPartition(key);
+        const fresh = new Set(events.map(e => e.id));
+        const removed = partition.events.queryRange(start, end).filter(e => !fresh.has(e.id));
+
+        partition.events.remove(removed.map(e => e.id));
+        partition.events.upsert(events);
+        partition.ranges.add(start, end, fetchedAt);
+    }
+
+    /**
+     * Load calendars' ranges persisted by an earlier session into memory.
+     * They count as fetched at time 0, so they are stale until revalidated.
+     * @returns the persisted sync token ('' if none), or null unless every calendar was on disk
+     */
+    private async readPersisted(keys: string[], start: number, end: number): Promise<string | null> {
+        if (!this.persistence) return null;
+        const { cache, providerId } = this.persistence;
+
+        const persisted = await cache.readRange(providerId, keys, start, end);
+        if (!persisted) return null;
+
+        for (const key of keys) {
+            const events = key === ALL_CALENDARS ? persisted : persisted.filter(e => getCalendarKey(e) === key);
+            this.replaceRange(key, start, end, events, 0);
+            this.getPartition(key).persisted.set(`${start}:${end}`, { start, end });
+        }
+        return await cache.getSyncToken(providerId) ?? '';
+    }
+
+    /**
+     * Cache (and persist) the calendars a fetch returned, empty ones included.
+     * With partial results, calendars that loaded are cached and failed ones
+     * are fetched again next time.
+     */
+    private storeFetched(
+        keys: string[],
+        start: number,
+        end: number,
+        result: FetchResult<CalendarEvent[]>,
+        fetchedAt: number
+    ) {
+        const failedIds = new Set(result.calendarErrors?.map(e => e.calendarId));
+        if (result.error && failedIds.size === 0) {
+            return;
+        }
+
+        const eventsByCalendar = new Map<string, CalendarEvent[]>();
+        for (const key of keys.filter(k => !failedIds.has(k))) {
+            const events = key === ALL_CALENDARS ? result.data : result.data.filter(e => getCalendarKey(e) === key);
+            this.replaceRange(key, start, end, events, fetchedAt);
+            eventsByCalendar.set(key, events);
+        }
+
+        if (this.persistence) {
+            const { cache, providerId } = this.persistence;
+            for (const key of Array.from(eventsByCalendar.keys())) {
+                this.getPartition(key).persisted.set(`${start}:${end}`, { start, end });
+            }
+            cache.writeRange(providerId, eventsByCalendar, start, end);
+            if (result.syncToken) {
+                cache.putSyncToken(providerId, result.syncToken);
             }
         }
-        return false;
     }
 
     /**
-     * Add a loaded range, merging with adjacent ranges
+     * Rewrite the persisted ranges of calendars with changes from memory.
+     * Ranges persisted by earlier sessions can't be patched and are dropped.
      */
-    private addLoadedRange(start: number, end: number): void {
-        // Simple implementation: just add the range
-        // A more sophisticated version would merge overlapping ranges
-        this.loadedRanges.push({ start, end });
-
-        // Limit stored ranges to prevent memory growth
-        if (this.loadedRanges.length > 100) {
-            this.loadedRanges = this.loadedRanges.slice(-50);
+    private persistChanged(changes: CalendarEvent[]) {
+        if (!this.persistence) return;
+        const { cache, providerId } = this.persistence;
+
+        const keys = new Set(changes.map(getCalendarKey));
+        for (const key of Array.from(keys)) {
+            const partition = this.partitions.get(key);
+            const ranges = Array.from(partition?.persisted.values() ?? []);
+            for (const { start, end } of ranges) {
+                cache.writeRange(providerId, new Map([[key, partition!.events.queryRange(start, end)]]), start, end);
+            }
+            cache.retainRanges(providerId, key, ranges);
         }
     }
 }
@@ -0,0 +1,98 @@
+/**
+ * CalDAVProvider Unit Tests
+ *
+ * Tests turning sync-collection deletions into tombstones, also for
+ * objects loaded in an earlier session, limiting syncs to some calendars
+ * and syncing past calendars that fail, against stubbed proxy routes.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { CalDAVProvider } from './CalDAVProvider';
+import type { PersistentEventCache } from '$lib/events/PersistentEventCache';
+
+const CALENDAR = '/alice/personal/';
+
+function ics(uid: string, summary: string): string {
+    return [
+        'BEGIN:VCALENDAR',
+        'BEGIN:VEVENT',
+        `UID:${uid}`,
+        'DTSTART:20240110T090000Z',
+        'DTEND:20240110T100000Z',
+        `SUMMARY:${summary}`,
+        'END:VEVENT',
+        'END:VCALENDAR',
+    ].join('\r\n');
+}
+
+// Provider state store standing in for IndexedDB, shared across "sessions"
+function stateCache() {
+    const states = new Map<string, unknown>();
+    return {
+        getProviderState: async (providerId: string) => states.get(providerId) ?? null,
+        putProviderState: async (providerId: string, state: unknown) => {
+            states.set(providerId, state);
+        },
+    } as unknown as PersistentEventCache;
+}
+
+// Proxy routes: one object in the calendar, which the next sync deletes
+function proxyRoutes(url: string): Response {
+    if (url.startsWith('/api/caldav/events')) {
+        return Response.json({ items: [{ href: `${CALENDAR}dentist.ics`, data: ics('dentist', 'Dentist') }] });
+    }
+    if (url.startsWith('/api/caldav/changes')) {
+        return Response.json({ items: [], deleted: [`${CALENDAR}dentist.ics`], syncToken: 'token-2' });
+    }
+    return Response.json({ items: [] });
+}
+
+describe('CalDAVProvider', () => {
+    beforeEach(() => {
+        vi.stubGlobal('fetch', vi.fn(async (url: string) => proxyRoutes(url)));
+    });
+
+    afterEach(() => {
+        vi.unstubAllGlobals();
+    });
+
+    describe('fetchChanges', () => {
+        it('should send tombstones for deleted objects loaded in an earlier session', async () => {
+            const cache = stateCache();
+            const range = { startTime: Date.UTC(2024, 0, 1), endTime: Date.UTC(2024, 1, 1), calendarIds: [CALENDAR] };
+            const [loaded] = (await new CalDAVProvider(cache).fetchEvents(range)).data;
+
+            // After a reload, the provider starts without the objects in memory
+            const reloaded = new CalDAVProvider(cache);
+            const changes = await reloaded.fetchChanges(JSON.stringify({ [CALENDAR]: 'token-1' }));
+
+            expect(changes.data.map(e => [e.id, e.status])).toEqual([[loaded.id, 'cancelled']]);
+        });
+
+        it('should only sync the given calendars', async () => {
+            const provider = new CalDAVProvider(stateCache());
+            const token = JSON.stringify({ [CALENDAR]: 'token-1', '/alice/work/': 'token-1' });
+
+            await provider.fetchChanges(token, ['/alice/work/']);
+
+            const urls = vi.mocked(fetch).mock.calls.map(([url]) => String(url));
+            expect(urls).toEqual([`/api/caldav/changes?${new URLSearchParams({ calendarId: '/alice/work/', syncToken: 'token-1' })}`]);
+        });
+
+        it('should report failed calendars and sync the rest', async () => {
+            const provider = new CalDAVProvider(stateCache());
+            const token = JSON.stringify({ '/alice/offline/': 'token-1', '/alice/html/': 'token-1', [CALENDAR]: 'token-1' });
+            vi.stubGlobal('fetch', vi.fn(async (url: string) => {
+                if (url.includes(encodeURIComponent('/alice/offline/'))) throw new TypeError('Failed to fetch');
+                if (url.includes(encodeURIComponent('/alice/html/'))) return new Response('<html>Bad gateway</html>');
+                return Response.json({ items: [{ href: `${CALENDAR}lunch.ics`, data: ics('lunch', 'Lunch') }], syncToken: 'token-2' });
+            }));
+
+            const result = await provider.fetchChanges(token);
+
+            expect(result.data.map(e => e.title)).toEqual(['Lunch']);
+            expect(result.calendarErrors?.map(e => e.calendarId)).toEqual(['/alice/offline/', '/alice/html/']);
+            expect(JSON.parse(result.syncToken!)).toEqual({ '/alice/offline/': 'token-1', '/alice/html/': 'token-1', [CALENDAR]: 'token-2' });
+        });
+    });
+});
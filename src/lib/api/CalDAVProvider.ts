@@ -0,0 +1,396 @@
+/**
+ * CalDAVProvider - Fetches calendar data from a CalDAV server
+ *
+ * Implements the CalendarProvider interface.
+ * Uses server-side proxy routes (/api/caldav/*) so credentials never reach
+ * the browser. Calendar objects are parsed with the shared iCalendar parser
+ * and recurring events are expanded for the requested range.
+ */
+
+import type { CalendarEvent } from '$lib/types/Event';
+import type {
+    CalendarProvider,
+    ProviderType,
+    AuthState,
+    CalendarError,
+    CalendarInfo,
+    FetchEventsOptions,
+    FetchResult,
+} from './CalendarProvider';
+import { isAbortError, providerRegistry } from './CalendarProvider';
+import { parseIcs } from '$lib/ical/IcsParser';
+import { persistentEventCache, type PersistentEventCache } from '$lib/events/PersistentEventCache';
+import { computeDurationImportance } from '$lib/events/importance';
+import { expandEvents, getSeriesEvents, isRecurring } from '$lib/events/recurrence';
+
+/** Default color for calendars without an Apple calendar-color */
+const DEFAULT_COLOR = '#7986cb';
+
+/** Registry ID, also the key of the persisted href index */
+const PROVIDER_ID = 'caldav';
+
+/**
+ * Calendar collection as returned by the proxy routes
+ */
+interface CalDAVCalendarResponse {
+    href: string;
+    displayName: string;
+    color?: string;
+    readOnly: boolean;
+    syncToken?: string;
+}
+
+/**
+ * Calendar object as returned by the proxy routes
+ */
+interface CalDAVObjectResponse {
+    href: string;
+    etag?: string;
+    data: string;
+}
+
+/**
+ * CalDAV Provider
+ *
+ * Sync tokens are tracked per calendar. The token handed out in
+ * FetchResult.syncToken is a JSON map of calendar href -> server token.
+ */
+export class CalDAVProvider implements CalendarProvider {
+    readonly type: ProviderType = 'caldav';
+    readonly name = 'CalDAV';
+    readonly supportsWrite = false; // Read-only for safety
+
+    private calendars = new Map<string, CalendarInfo>();
+    private syncTokens = new Map<string, string>();
+    /**
+     * Object href -> event IDs parsed from it (needed to apply deletions).
+     * Persisted with the cached events, which outlive this session.
+     */
+    private hrefIndex = new Map<string, string[]>();
+    private hrefIndexLoaded: Promise<void> | null = null;
+    /** Object href -> unexpanded recurring events parsed from it (for export) */
+    private seriesIndex = new Map<string, CalendarEvent[]>();
+    private isConfigured = false;
+    private cache: PersistentEventCache;
+
+    constructor(cache: PersistentEventCache = persistentEventCache) {
+        this.cache = cache;
+    }
+
+    // =========================================
+    // Authentication
+    // =========================================
+
+    getAuthState(): AuthState {
+        // Credentials live in server environment variables
+        return {
+            isAuthenticated: this.isConfigured,
+            scopes: ['read'],
+        };
+    }
+
+    async authenticate(): Promise<AuthState> {
+        await this.getCalendars();
+        return this.getAuthState();
+    }
+
+    async signOut(): Promise<void> {
+        this.calendars.clear();
+        this.syncTokens.clear();
+        this.hrefIndex.clear();
+        this.hrefIndexLoaded = Promise.resolve();
+        this.saveHrefIndex();
+        this.seriesIndex.clear();
+        this.isConfigured = false;
+    }
+
+    // =========================================
+    // Read Operations
+    // =========================================
+
+    async getCalendars(): Promise<FetchResult<CalendarInfo[]>> {
+        try {
+            const response = await fetch('/api/caldav/calendars');
+
+            if (!response.ok) {
+                return {
+                    data: [],
+                    hasMore: false,
+                    error: `Failed to fetch calendars: ${response.status}`,
+                };
+            }
+
+            const data: { items?: CalDAVCalendarResponse[] } = await response.json();
+
+            const calendars: CalendarInfo[] = (data.items || []).map((item, index) => {
+                if (item.syncToken && !this.syncTokens.has(item.href)) {
+                    this.syncTokens.set(item.href, item.syncToken);
+                }
+                return {
+                    id: item.href,
+                    name: item.displayName,
+                    color: item.color || DEFAULT_COLOR,
+                    isReadOnly: item.readOnly,
+                    isPrimary: index === 0,
+                    providerType: 'caldav' as const,
+                };
+            });
+
+            this.calendars = new Map(calendars.map(c => [c.id, c]));
+            this.isConfigured = true;
+
+            return {
+                data: calendars,
+                hasMore: false,
+            };
+        } catch (err) {
+            return {
+                data: [],
+                hasMore: false,
+                error: err instanceof Error ? err.message : 'Unknown error',
+            };
+        }
+    }
+
+    async fetchEvents(options: FetchEventsOptions): Promise<FetchResult<CalendarEvent[]>> {
+        const { startTime, endTime, calendarIds, expandRecurring = true, signal } = options;
+        const calendarsToFetch = calendarIds && calendarIds.length > 0
+            ? calendarIds
+            : Array.from(this.calendars.keys());
+
+        const allEvents: CalendarEvent[] = [];
+        const calendarErrors: CalendarError[] = [];
+        await this.loadHrefIndex();
+
+        for (const calId of calendarsToFetch) {
+            try {
+                const params = new URLSearchParams({
+                    calendarId: calId,
+                    timeMin: new Date(startTime).toISOString(),
+                    timeMax: new Date(endTime).toISOString(),
+                });
+
+                const response = await fetch(`/api/caldav/events?${params}`, { signal });
+
+                if (!response.ok) {
+                    calendarErrors.push({
+                        calendarId: calId,
+                        message: `${calId}: ${response.status}`,
+                        status: response.status,
+                    });
+                    continue;
+                }
+
+                const data = await response.json();
+                const events = this.mapObjects(data.items || [], calId);
+                allEvents.push(...(expandRecurring ? expandEvents(events, startTime, endTime) : events));
+            } catch (err) {
+                if (isAbortError(err)) throw err;
+                calendarErrors.push({
+                    calendarId: calId,
+                    message: `${calId}: ${err instanceof Error ? err.message : 'Unknown error'}`,
+                });
+            }
+        }
+
+        this.saveHrefIndex();
+
+        return {
+            data: allEvents,
+            syncToken: this.encodeSyncTokens(),
+            hasMore: false,
+            error: calendarErrors.length > 0
+                ? `Failed to fetch events (${calendarErrors.map(e => e.message).join(', ')})`
+                : undefined,
+            calendarErrors,
+        };
+    }
+
+    async getEvent(eventId: string): Promise<CalendarEvent | null> {
+        // Events are only known once fetched; no single-object lookup by UID
+        return null;
+    }
+
+    async getRecurringSeries(seriesId: string): Promise<CalendarEvent[]> {
+        for (const events of this.seriesIndex.values()) {
+            const series = getSeriesEvents(events, seriesId);
+            if (series.length > 0) return series;
+        }
+        return [];
+    }
+
+    /**
+     * Fetch changes for every calendar in the sync token, or the given ones.
+     * Deleted objects are returned as events with status 'cancelled'. A
+     * calendar that fails to sync keeps its token and doesn't stop the others.
+     */
+    async fetchChanges(syncToken: string, calendarIds?: string[]): Promise<FetchResult<CalendarEvent[]>> {
+        const tokens = this.decodeSyncTokens(syncToken);
+        const changes: CalendarEvent[] = [];
+        const resyncCalendarIds: string[] = [];
+        const calendarErrors: CalendarError[] = [];
+        await this.loadHrefIndex();
+
+        for (const [calId, token] of tokens) {
+            if (calendarIds && !calendarIds.includes(calId)) continue;
+            // Calendars that fail to sync keep the token they came with
+            if (!this.syncTokens.has(calId)) this.syncTokens.set(calId, token);
+
+            let data: { items?: CalDAVObjectResponse[]; deleted?: string[]; syncToken?: string };
+            try {
+                const params = new URLSearchParams({ calendarId: calId, syncToken: token });
+                const response = await fetch(`/api/caldav/changes?${params}`);
+
+                if (response.status === 410) {
+                    // Token expired on the server: the next full fetch starts over
+                    this.syncTokens.delete(calId);
+                    resyncCalendarIds.push(calId);
+                    continue;
+                }
+
+                if (!response.ok) {
+                    calendarErrors.push({
+                        calendarId: calId,
+                        message: `${calId}: ${response.status}`,
+                        status: response.status,
+                    });
+                    continue;
+                }
+
+                data = await response.json();
+            } catch (err) {
+                calendarErrors.push({
+                    calendarId: calId,
+                    message: `${calId}: ${err instanceof Error ? err.message : 'Unknown error'}`,
+                });
+                continue;
+            }
+
+            for (const href of data.deleted || []) {
+                for (const id of this.hrefIndex.get(href) || []) {
+                    changes.push(this.createTombstone(id, calId));
+                }
+                this.hrefIndex.delete(href);
+                this.seriesIndex.delete(href);
+            }
+
+            // Objects whose events were removed (e.g. a deleted override) also need tombstones
+            for (const item of data.items || []) {
+                const previousIds = this.hrefIndex.get(item.href) || [];
+                const events = this.mapObjects([item], calId);
+                const currentIds = new Set(events.map(e => e.id));
+                for (const id of previousIds) {
+                    if (!currentIds.has(id)) changes.push(this.createTombstone(id, calId));
+                }
+                changes.push(...events);
+            }
+
+            if (data.syncToken) {
+                this.syncTokens.set(calId, data.syncToken);
+            }
+        }
+
+        this.saveHrefIndex();
+
+        return {
+            data: changes,
+            syncToken: this.encodeSyncTokens(),
+            hasMore: false,
+            error: calendarErrors.length > 0
+                ? `Failed to sync (${calendarErrors.map(e => e.message).join(', ')})`
+                : undefined,
+            resyncCalendarIds,
+            calendarErrors,
+        };
+    }
+
+    // =========================================
+    // Helpers
+    // =========================================
+
+    /**
+     * Restore the href index of an earlier session once. Entries parsed in
+     * this session take precedence.
+     */
+    private loadHrefIndex(): Promise<void> {
+        this.hrefIndexLoaded ??= this.cache
+            .getProviderState<Record<string, string[]>>(PROVIDER_ID)
+            .then(state => {
+                for (const [href, ids] of Object.entries(state ?? {})) {
+                    if (!this.hrefIndex.has(href)) this.hrefIndex.set(href, ids);
+                }
+            });
+        return this.hrefIndexLoaded;
+    }
+
+    private saveHrefIndex(): void {
+        this.cache.putProviderState(PROVIDER_ID, Object.fromEntries(this.hrefIndex));
+    }
+
+    /**
+     * Parse calendar objects into events and remember which href they came from
+     * (plus the unexpanded recurring events, which expansion would lose)
+     */
+    private mapObjects(items: CalDAVObjectResponse[], calendarId: string): CalendarEvent[] {
+        const color = this.calendars.get(calendarId)?.color || DEFAULT_COLOR;
+        const events: CalendarEvent[] = [];
+
+        for (const item of items) {
+            const parsed = parseIcs(item.data, {
+                calendarId,
+                color,
+                idPrefix: 'caldav',
+                source: 'caldav',
+            });
+            const colored = parsed.events.map(e => ({ ...e, color }));
+            this.hrefIndex.set(item.href, colored.map(e => e.id));
+
+            const recurring = colored.filter(e => isRecurring(e) || e.recurringEventId);
+            if (recurring.length > 0) {
+                this.seriesIndex.set(item.href, recurring);
+            } else {
+                this.seriesIndex.delete(item.href);
+            }
+            events.push(...colored);
+        }
+
+        return events;
+    }
+
+    /**
+     * Placeholder for a removed event, so consumers can drop it by ID
+     */
+    private createTombstone(id: string, calendarId: string): CalendarEvent {
+        return {
+            id,
+            title: '',
+            startTime: 0,
+            endTime: 0,
+            color: DEFAULT_COLOR,
+            category: calendarId,
+            source: 'caldav',
+            importance: computeDurationImportance(0, 0),
+            isLifeEvent: false,
+            status: 'cancelled',
+        };
+    }
+
+    private encodeSyncTokens(): string | undefined {
+        if (this.syncTokens.size === 0) return undefined;
+        return JSON.stringify(Object.fromEntries(this.syncTokens));
+    }
+
+    private decodeSyncTokens(syncToken: string): Map<string, string> {
+        try {
+            return new Map(Object.entries(JSON.parse(syncToken) as Record<string, string>));
+        } catch {
+            return new Map();
+        }
+    }
+}
+
+/**
+ * Singleton instance, registered with the global provider registry
+ */
+export const caldavProvider = new CalDAVProvider();
+providerRegistry.register(PROVIDER_ID, caldavProvider, true);
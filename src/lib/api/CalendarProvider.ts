@@ -9,6 +9,7 @@
  */
 
 import type { CalendarEvent } from '$lib/types/Event';
+import { providerHealthStore } from '$lib/stores/providerHealthStore';
 
 /**
  * Authentication state for a calendar provider
@@ -31,12 +32,16 @@ export interface CalendarInfo {
     isReadOnly: boolean;
     isPrimary: boolean;
     providerType: ProviderType;
+    /** Registry ID of the provider instance serving this calendar, when a type has several (e.g. Google accounts); defaults to providerType */
+    providerId?: string;
+    /** Calendar time zone (IANA name), if the provider reports one */
+    timeZone?: string;
 }
 
 /**
  * Supported calendar provider types
  */
-export type ProviderType = 'mock' | 'google' | 'apple' | 'caldav';
+export type ProviderType = 'mock' | 'google' | 'apple' | 'caldav' | 'ics' | 'manual';
 
 /**
  * Options for fetching events
@@ -50,8 +55,22 @@ export interface FetchEventsOptions {
     calendarIds?: string[];
     /** Maximum number of events to return */
     limit?: number;
-    /** Whether to include recurring event instances */
+    /** Whether to expand recurring events into instances (default: true) */
     expandRecurring?: boolean;
+    /** Abandons the request; providers reject with an AbortError */
+    signal?: AbortSignal;
+    /**
+     * Receives events as soon as part of the result (e.g. one calendar) has
+     * loaded; the final result still contains them
+     */
+    onProgress?: (events: CalendarEvent[]) => void;
+}
+
+/**
+ * Check whether an error comes from an aborted request
+ */
+export function isAbortError(err: unknown): boolean {
+    return err instanceof DOMException && err.name === 'AbortError';
 }
 
 /**
@@ -65,6 +84,60 @@ export interface FetchResult<T> {
     hasMore: boolean;
     /** Error message if failed */
     error?: string;
+    /** True if a write was rejected because the event changed remotely */
+    conflict?: boolean;
+    /** Calendars whose sync token expired (fetchChanges); reload them in full */
+    resyncCalendarIds?: string[];
+    /** Calendars that failed while the rest of the request succeeded (partial results) */
+    calendarErrors?: CalendarError[];
+    /** Served from the persisted cache; revalidate in the background */
+    stale?: boolean;
+}
+
+/**
+ * Why a provider request failed, as reported by the proxy routes
+ */
+export type ProviderErrorCode =
+    /** Too many requests; retry after a while (see retryAfter) */
+    | 'rate_limited'
+    /** Daily quota used up; retrying today won't help */
+    | 'quota_exceeded'
+    /** The upstream service failed or is unreachable; worth retrying */
+    | 'unavailable'
+    | 'unauthenticated'
+    | 'forbidden'
+    | 'not_found'
+    /** The event changed upstream since it was loaded (ETag mismatch) */
+    | 'conflict'
+    /** An incremental sync token expired; reload in full */
+    | 'sync_token_expired'
+    | 'bad_request'
+    | 'aborted'
+    | 'internal';
+
+/**
+ * Failure of a single calendar within a fetch
+ */
+export interface CalendarError {
+    calendarId: string;
+    message: string;
+    /** HTTP status of the failed request; undefined for network errors */
+    status?: number;
+    /** Failure reason, when the provider knows it */
+    code?: ProviderErrorCode;
+    /** How long to wait before retrying (ms), when the provider was told */
+    retryAfter?: number;
+}
+
+/**
+ * Check whether a failure is likely to go away when retried: rate limits,
+ * upstream outages and network errors
+ */
+export function isTransientError(error: CalendarError): boolean {
+    if (error.code) {
+        return error.code === 'rate_limited' || error.code === 'unavailable';
+    }
+    return error.status === undefined || error.status === 429 || error.status >= 500;
 }
 
 /**
@@ -134,10 +207,18 @@ export interface CalendarProvider {
     getEvent(eventId: string): Promise<CalendarEvent | null>;
 
     /**
-     * Fetch incremental changes since last sync
+     * Fetch incremental changes since last sync.
+     * Deleted events are returned with status 'cancelled'.
      * @param syncToken Token from previous fetch
+     * @param calendarIds Only sync these calendars (default: all in the token)
+     */
+    fetchChanges?(syncToken: string, calendarIds?: string[]): Promise<FetchResult<CalendarEvent[]>>;
+
+    /**
+     * Unexpanded events of a recurring series: the master (RRULE, EXDATE,
+     * RDATE) first, then its overrides. Empty if the series is unknown.
      */
-    fetchChanges?(syncToken: string): Promise<FetchResult<CalendarEvent[]>>;
+    getRecurringSeries?(seriesId: string): Promise<CalendarEvent[]>;
 
     // =========================================
     // Write Operations (Optional, Restricted)
@@ -192,8 +273,15 @@ export class ReadOnlyProvider implements CalendarProvider {
         return this.provider.getEvent(eventId);
     }
 
-    fetchChanges(syncToken: string): Promise<FetchResult<CalendarEvent[]>> | undefined {
-        return this.provider.fetchChanges?.(syncToken);
+    async fetchChanges(syncToken: string, calendarIds?: string[]): Promise<FetchResult<CalendarEvent[]>> {
+        if (!this.provider.fetchChanges) {
+            return { data: [], hasMore: false };
+        }
+        return this.provider.fetchChanges(syncToken, calendarIds);
+    }
+
+    async getRecurringSeries(seriesId: string): Promise<CalendarEvent[]> {
+        return this.provider.getRecurringSeries?.(seriesId) ?? [];
     }
 
     // Write operations are explicitly not implemented
@@ -241,14 +329,19 @@ export class ProviderRegistry {
     }
 
     /**
-     * Fetch events from all providers
+     * Fetch events from all providers. Failures are recorded per provider in
+     * the health store; the events of the providers that succeeded are returned.
      */
     async fetchAllEvents(options: FetchEventsOptions): Promise<CalendarEvent[]> {
         const results = await Promise.all(
-            this.getAll().map(p => p.fetchEvents(options).catch(err => {
-                console.error(`Error fetching from ${p.name}:`, err);
-                return { data: [], hasMore: false, error: err.message } as FetchResult<CalendarEvent[]>;
-            }))
+            Array.from(this.providers).map(async ([id, p]) => {
+                const result = await p.fetchEvents(options).catch(err => {
+                    console.error(`Error fetching from ${p.name}:`, err);
+                    return { data: [], hasMore: false, error: err.message } as FetchResult<CalendarEvent[]>;
+                });
+                providerHealthStore.recordResult(id, options.calendarIds ?? [], result);
+                return result;
+            })
         );
 
         return results.flatMap(r => r.data);
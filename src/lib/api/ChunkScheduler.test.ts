@@ -0,0 +1,91 @@
+/**
+ * ChunkScheduler Unit Tests
+ *
+ * Tests centre-first ordering, the concurrency cap and aborting loads
+ * that left the viewport.
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { ChunkScheduler, distanceToTime, type ScheduledChunk } from './ChunkScheduler';
+
+function chunk(start: number): ScheduledChunk {
+    return { id: `chunk-${start}`, startTime: start, endTime: start + 10 };
+}
+
+// Task whose loads finish only when released
+function controllableTask() {
+    const started: { chunk: ScheduledChunk; signal: AbortSignal; finish: () => void }[] = [];
+    const task = vi.fn((c: ScheduledChunk, signal: AbortSignal) => new Promise<void>((resolve, reject) => {
+        started.push({ chunk: c, signal, finish: resolve });
+        signal.addEventListener('abort', () => reject(new DOMException('Aborted', 'AbortError')));
+    }));
+    return { task, started };
+}
+
+describe('ChunkScheduler', () => {
+    it('should measure distance to the nearest edge of a chunk', () => {
+        expect(distanceToTime(chunk(10), 15)).toBe(0);
+        expect(distanceToTime(chunk(10), 0)).toBe(10);
+        expect(distanceToTime(chunk(10), 25)).toBe(5);
+    });
+
+    it('should start chunks nearest the centre first, up to the cap', () => {
+        const { task, started } = controllableTask();
+        const scheduler = new ChunkScheduler(task, 2);
+
+        scheduler.schedule([chunk(0), chunk(10), chunk(20), chunk(30), chunk(40)], { startTime: 0, endTime: 50 });
+
+        expect(started.map(s => s.chunk.startTime)).toEqual([20, 10]);
+        expect(scheduler.activeCount).toBe(2);
+        expect(scheduler.pendingCount).toBe(3);
+    });
+
+    it('should start the next chunk when one finishes', async () => {
+        const { task, started } = controllableTask();
+        const scheduler = new ChunkScheduler(task, 1);
+
+        scheduler.schedule([chunk(0), chunk(10)], { startTime: 0, endTime: 20 });
+        started[0].finish();
+        await vi.waitFor(() => expect(started).toHaveLength(2));
+
+        expect(scheduler.isScheduled(started[0].chunk.id)).toBe(false);
+    });
+
+    it('should abort loads outside the new range and keep those inside', async () => {
+        const { task, started } = controllableTask();
+        const scheduler = new ChunkScheduler(task, 2);
+
+        scheduler.schedule([chunk(0), chunk(10)], { startTime: 0, endTime: 20 });
+        scheduler.schedule([chunk(10), chunk(20)], { startTime: 10, endTime: 30 });
+
+        const load = (start: number) => started.filter(s => s.chunk.startTime === start);
+        expect(load(0)[0].signal.aborted).toBe(true);
+        expect(load(10)[0].signal.aborted).toBe(false);
+
+        // chunk(10) keeps loading rather than starting again; chunk(20) takes the free slot
+        expect(load(10)).toHaveLength(1);
+        expect(load(20)).toHaveLength(1);
+    });
+
+    it('should not queue chunks inside a larger chunk that is loading', () => {
+        const { task, started } = controllableTask();
+        const scheduler = new ChunkScheduler(task);
+
+        scheduler.schedule([{ id: 'big', startTime: 0, endTime: 100 }], { startTime: 0, endTime: 100 });
+        scheduler.schedule([chunk(0), chunk(100)], { startTime: 0, endTime: 110 });
+
+        expect(started.map(s => s.chunk.id)).toEqual(['big', 'chunk-100']);
+    });
+
+    it('should abort everything on cancelAll', () => {
+        const { task, started } = controllableTask();
+        const scheduler = new ChunkScheduler(task, 1);
+
+        scheduler.schedule([chunk(0), chunk(10)], { startTime: 0, endTime: 20 });
+        scheduler.cancelAll();
+
+        expect(started[0].signal.aborted).toBe(true);
+        expect(scheduler.activeCount).toBe(0);
+        expect(scheduler.pendingCount).toBe(0);
+    });
+});
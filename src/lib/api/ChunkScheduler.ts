@@ -0,0 +1,128 @@
+/**
+ * ChunkScheduler - Orders and throttles chunk loads for the viewport
+ *
+ * Chunks nearest the viewport centre load first, at most a few at a time.
+ * Each load gets an AbortSignal; loads of chunks the viewport has moved
+ * away from are aborted so they stop using the network.
+ */
+
+/** Default number of chunks loading at once */
+const DEFAULT_MAX_CONCURRENT = 4;
+
+/**
+ * A loadable span of time
+ */
+export interface ScheduledChunk {
+    id: string;
+    startTime: number;
+    endTime: number;
+}
+
+/**
+ * Loads a chunk; should reject (or stop early) once the signal aborts
+ */
+export type ChunkTask<C extends ScheduledChunk> = (chunk: C, signal: AbortSignal) => Promise<void>;
+
+/**
+ * Distance from a chunk to a point in time (0 if the chunk contains it)
+ */
+export function distanceToTime(chunk: ScheduledChunk, time: number): number {
+    if (time < chunk.startTime) return chunk.startTime - time;
+    if (time >= chunk.endTime) return time - chunk.endTime;
+    return 0;
+}
+
+export class ChunkScheduler<C extends ScheduledChunk = ScheduledChunk> {
+    private task: ChunkTask<C>;
+    private maxConcurrent: number;
+
+    /** Chunks waiting to load, nearest the viewport centre first */
+    private queue: C[] = [];
+
+    /** Chunks loading, with the controller that aborts them */
+    private running = new Map<string, { chunk: C; controller: AbortController }>();
+
+    constructor(task: ChunkTask<C>, maxConcurrent = DEFAULT_MAX_CONCURRENT) {
+        this.task = task;
+        this.maxConcurrent = maxConcurrent;
+    }
+
+    /**
+     * Replace the queue with the chunks a viewport needs. Loads of chunks
+     * outside the viewport range are aborted; those still inside keep going.
+     * @param range - The (buffered) viewport range the chunks cover
+     */
+    schedule(chunks: C[], range: { startTime: number; endTime: number }): void {
+        for (const [id, { chunk, controller }] of Array.from(this.running)) {
+            if (chunk.endTime <= range.startTime || chunk.startTime >= range.endTime) {
+                controller.abort();
+                this.running.delete(id);
+            }
+        }
+
+        // Chunks inside a loading one (possibly of another size) are covered by it
+        const loading = Array.from(this.running.values()).map(r => r.chunk);
+        const center = (range.startTime + range.endTime) / 2;
+        this.queue = chunks
+            .filter(chunk => !loading.some(l => l.startTime <= chunk.startTime && l.endTime >= chunk.endTime))
+            .sort((a, b) => distanceToTime(a, center) - distanceToTime(b, center));
+
+        this.pump();
+    }
+
+    /**
+     * Abort every load and empty the queue
+     */
+    cancelAll(): void {
+        for (const { controller } of Array.from(this.running.values())) {
+            controller.abort();
+        }
+        this.running.clear();
+        this.queue = [];
+    }
+
+    /**
+     * Check whether a chunk is loading or queued
+     */
+    isScheduled(id: string): boolean {
+        return this.running.has(id) || this.queue.some(chunk => chunk.id === id);
+    }
+
+    /** Number of chunks loading */
+    get activeCount(): number {
+        return this.running.size;
+    }
+
+    /** Number of chunks waiting to load */
+    get pendingCount(): number {
+        return this.queue.length;
+    }
+
+    /**
+     * Start queued chunks while there is capacity
+     */
+    private pump(): void {
+        while (this.running.size < this.maxConcurrent && this.queue.length > 0) {
+            this.start(this.queue.shift()!);
+        }
+    }
+
+    private start(chunk: C): void {
+        const controller = new AbortController();
+        this.running.set(chunk.id, { chunk, controller });
+
+        this.task(chunk, controller.signal)
+            .catch(err => {
+                if (!controller.signal.aborted) {
+                    console.error(`Error loading chunk ${chunk.id}:`, err);
+                }
+            })
+            .finally(() => {
+                // An aborted chunk may have been scheduled again meanwhile
+                if (this.running.get(chunk.id)?.controller === controller) {
+                    this.running.delete(chunk.id);
+                }
+                this.pump();
+            });
+    }
+}
@@ -0,0 +1,351 @@
+/**
+ * EventLoader Unit Tests
+ *
+ * Tests loading chunks from registered providers through their caches,
+ * per-calendar selection, partial and progressive results, retries,
+ * backoff on rate limits, targeted syncs and aborting loads out of view.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { get } from 'svelte/store';
+import type { CalendarEvent } from '$lib/types/Event';
+import type { CalendarInfo, CalendarProvider, FetchEventsOptions, FetchResult } from './CalendarProvider';
+import { providerRegistry } from './CalendarProvider';
+import { eventLoader } from './EventLoader';
+import { eventStore } from '$lib/events/EventStore';
+import { persistentEventCache } from '$lib/events/PersistentEventCache';
+import { providerHealthStore, calendarHealth } from '$lib/stores/providerHealthStore';
+
+const DAY = 24 * 60 * 60 * 1000;
+const START = Date.UTC(2024, 0, 15);
+
+// Helper to create a provider event in a calendar
+function event(id: string, calendarId: string): CalendarEvent {
+    return {
+        id,
+        title: id,
+        startTime: START,
+        endTime: START + DAY,
+        color: '#4285f4',
+        importance: { duration: 0.5, aiScore: 0.5, manual: 0.5, effective: 0.5 },
+        isLifeEvent: false,
+        source: 'manual',
+        category: calendarId,
+    };
+}
+
+function calendar(id: string, providerId: string, color: string): CalendarInfo {
+    return { id, name: id, color, isReadOnly: true, isPrimary: false, providerType: 'mock', providerId };
+}
+
+// Events of the given calendars in a range
+function select(events: CalendarEvent[], options: FetchEventsOptions): CalendarEvent[] {
+    return events.filter(e => options.calendarIds?.includes(e.category || '')
+        && e.endTime > options.startTime && e.startTime < options.endTime);
+}
+
+// Minimal provider serving fixed events, recording each fetch
+function testProvider(events: CalendarEvent[]) {
+    const fetchEvents = vi.fn(async (options: FetchEventsOptions): Promise<FetchResult<CalendarEvent[]>> => ({
+        data: select(events, options),
+        hasMore: false,
+    }));
+    const provider: CalendarProvider = {
+        type: 'mock',
+        name: 'Test',
+        supportsWrite: false,
+        getAuthState: () => ({ isAuthenticated: true, scopes: [] }),
+        authenticate: async () => ({ isAuthenticated: true, scopes: [] }),
+        signOut: async () => {},
+        getCalendars: async () => ({ data: [], hasMore: false }),
+        fetchEvents,
+        getEvent: async () => null,
+    };
+    return { provider, fetchEvents };
+}
+
+// Load the viewport around START and wait for the chunks to arrive
+async function loadViewport() {
+    eventLoader.updateViewport(START - DAY, START + DAY);
+    await vi.advanceTimersByTimeAsync(1000);
+}
+
+describe('EventLoader', () => {
+    beforeEach(() => {
+        vi.useFakeTimers();
+        eventStore.clear();
+        eventLoader.clearCache();
+        providerHealthStore.reset();
+    });
+
+    afterEach(() => {
+        providerRegistry.unregister('test-a');
+        providerRegistry.unregister('test-b');
+        vi.restoreAllMocks();
+        vi.useRealTimers();
+    });
+
+    it('should fan out over registered providers and tag their events', async () => {
+        providerRegistry.register('test-a', testProvider([event('a1', 'cal-a')]).provider);
+        providerRegistry.register('test-b', testProvider([event('b1', 'cal-b')]).provider);
+        eventLoader.setCalendars([calendar('cal-a', 'test-a', '#111111'), calendar('cal-b', 'test-b', '#222222')]);
+
+        await loadViewport();
+
+        expect(eventStore.getById('a1')).toMatchObject({ providerId: 'test-a', calendarId: 'cal-a', color: '#111111' });
+        expect(eventStore.getById('b1')).toMatchObject({ providerId: 'test-b', calendarId: 'cal-b', color: '#222222' });
+    });
+
+    it('should serve reloaded chunks from the cache', async () => {
+        const { provider, fetchEvents } = testProvider([event('a1', 'cal-a')]);
+        providerRegistry.register('test-a', provider);
+        eventLoader.setCalendars([calendar('cal-a', 'test-a', '#111111')]);
+
+        await loadViewport();
+        const fetches = fetchEvents.mock.calls.length;
+
+        eventStore.clear();
+        eventLoader.clearCache();
+        await loadViewport();
+
+        expect(fetchEvents).toHaveBeenCalledTimes(fetches);
+        expect(eventStore.getById('a1')).toBeDefined();
+    });
+
+    it('should load chunks again once they are older than the event TTL', async () => {
+        const { provider, fetchEvents } = testProvider([event('a1', 'cal-a')]);
+        providerRegistry.register('test-a', provider);
+        eventLoader.setCalendars([calendar('cal-a', 'test-a', '#111111')]);
+        await loadViewport();
+        fetchEvents.mockClear();
+
+        await loadViewport();
+        expect(fetchEvents).not.toHaveBeenCalled();
+
+        await vi.advanceTimersByTimeAsync(5 * 60 * 1000);
+        await loadViewport();
+        expect(fetchEvents).toHaveBeenCalled();
+        expect(eventStore.getById('a1')).toBeDefined();
+    });
+
+    it('should load only newly selected calendars', async () => {
+        const { provider, fetchEvents } = testProvider([event('a1', 'cal-a'), event('b1', 'cal-b')]);
+        providerRegistry.register('test-a', provider);
+        eventLoader.setCalendars([calendar('cal-a', 'test-a', '#111111')]);
+        await loadViewport();
+        fetchEvents.mockClear();
+
+        eventLoader.setCalendars([calendar('cal-a', 'test-a', '#111111'), calendar('cal-b', 'test-a', '#222222')]);
+        await loadViewport();
+
+        expect(fetchEvents).toHaveBeenCalled();
+        expect(fetchEvents.mock.calls.every(([options]) => options.calendarIds?.join() === 'cal-b')).toBe(true);
+        expect(eventStore.getById('a1')).toBeDefined();
+        expect(eventStore.getById('b1')).toBeDefined();
+    });
+
+    it('should evict only the events of deselected calendars', async () => {
+        const { provider, fetchEvents } = testProvider([event('a1', 'cal-a'), event('b1', 'cal-b')]);
+        providerRegistry.register('test-a', provider);
+        eventLoader.setCalendars([calendar('cal-a', 'test-a', '#111111'), calendar('cal-b', 'test-a', '#222222')]);
+        await loadViewport();
+        fetchEvents.mockClear();
+
+        eventLoader.setCalendars([calendar('cal-a', 'test-a', '#111111')]);
+        await loadViewport();
+
+        expect(eventStore.getById('a1')).toBeDefined();
+        expect(eventStore.getById('b1')).toBeUndefined();
+        expect(fetchEvents).not.toHaveBeenCalled();
+    });
+
+    it('should skip calendars whose provider is not registered', async () => {
+        eventLoader.setCalendars([calendar('cal-a', 'test-a', '#111111')]);
+
+        await loadViewport();
+
+        expect(eventStore.size).toBe(0);
+    });
+
+    it('should keep partial results and retry the failed calendar', async () => {
+        const events = [event('a1', 'cal-a'), event('b1', 'cal-b')];
+        const { provider, fetchEvents } = testProvider(events);
+        // cal-b fails to load the chunk holding its event
+        fetchEvents.mockImplementation(async options => select(events, options).some(e => e.id === 'b1')
+            ? {
+                data: select(events, { ...options, calendarIds: ['cal-a'] }),
+                hasMore: false,
+                error: 'Failed to fetch events (cal-b: 500)',
+                calendarErrors: [{ calendarId: 'cal-b', message: 'cal-b: 500', status: 500 }],
+            }
+            : { data: select(events, options), hasMore: false });
+        providerRegistry.register('test-a', provider);
+        eventLoader.setCalendars([calendar('cal-a', 'test-a', '#111111'), calendar('cal-b', 'test-a', '#222222')]);
+
+        await loadViewport();
+
+        expect(eventStore.getById('a1')).toBeDefined();
+        expect(eventStore.getById('b1')).toBeUndefined();
+        expect(get(calendarHealth)['cal-a'].status).toBe('ok');
+        const [failed] = get(calendarHealth)['cal-b'].failedChunks;
+        expect(failed).toBeDefined();
+
+        fetchEvents.mockImplementation(async options => ({ data: select(events, options), hasMore: false }));
+        await eventLoader.retryChunk(failed.startTime, failed.endTime);
+
+        expect(fetchEvents).toHaveBeenLastCalledWith(expect.objectContaining({ calendarIds: ['cal-b'] }));
+        expect(eventStore.getById('b1')).toBeDefined();
+        expect(get(calendarHealth)['cal-b'].status).toBe('ok');
+    });
+
+    it('should retry rate-limited calendars by themselves and not count them as loaded', async () => {
+        const events = [event('a1', 'cal-a')];
+        const { provider, fetchEvents } = testProvider(events);
+        fetchEvents.mockImplementationOnce(async options => ({
+            data: [],
+            hasMore: false,
+            error: 'Failed to fetch events',
+            calendarErrors: (options.calendarIds ?? []).map(calendarId => ({
+                calendarId,
+                message: `${calendarId}: 429`,
+                status: 429,
+                code: 'rate_limited' as const,
+                retryAfter: 5000,
+            })),
+        }));
+        providerRegistry.register('test-a', provider);
+        eventLoader.setCalendars([calendar('cal-a', 'test-a', '#111111')]);
+
+        await loadViewport();
+        const chunk = fetchEvents.mock.calls[0][0];
+        expect(eventLoader.isLoaded(chunk.startTime, chunk.endTime)).toBe(false);
+        const calls = fetchEvents.mock.calls.length;
+
+        // Panning doesn't bring the retry forward
+        eventLoader.updateViewport(START - DAY, START + DAY);
+        await vi.advanceTimersByTimeAsync(1000);
+        expect(fetchEvents.mock.calls.filter(([o]) => o.startTime === chunk.startTime)).toHaveLength(1);
+
+        await vi.advanceTimersByTimeAsync(5000);
+        expect(fetchEvents.mock.calls.length).toBeGreaterThan(calls);
+        expect(eventLoader.isLoaded(chunk.startTime, chunk.endTime)).toBe(true);
+    });
+
+    it('should leave permanently failed chunks to an explicit retry', async () => {
+        const { provider, fetchEvents } = testProvider([event('a1', 'cal-a')]);
+        fetchEvents.mockImplementation(async options => ({
+            data: [],
+            hasMore: false,
+            calendarErrors: (options.calendarIds ?? []).map(calendarId => ({
+                calendarId,
+                message: `${calendarId}: 404`,
+                status: 404,
+                code: 'not_found' as const,
+            })),
+        }));
+        providerRegistry.register('test-a', provider);
+        eventLoader.setCalendars([calendar('cal-a', 'test-a', '#111111')]);
+
+        await loadViewport();
+        const calls = fetchEvents.mock.calls.length;
+        eventLoader.updateViewport(START - DAY, START + DAY);
+        await vi.advanceTimersByTimeAsync(60_000);
+
+        expect(fetchEvents).toHaveBeenCalledTimes(calls);
+        expect(eventLoader.isLoaded(START, START + DAY)).toBe(false);
+    });
+
+    it('should show calendars as they arrive, before the rest of the chunk', async () => {
+        const finishers: (() => void)[] = [];
+        const { provider, fetchEvents } = testProvider([]);
+        fetchEvents.mockImplementation(options => new Promise(resolve => {
+            const a1 = select([event('a1', 'cal-a')], options);
+            options.onProgress?.(a1);
+            finishers.push(() => resolve({ data: [...a1, ...select([event('b1', 'cal-b')], options)], hasMore: false }));
+        }));
+        providerRegistry.register('test-a', provider);
+        eventLoader.setCalendars([calendar('cal-a', 'test-a', '#111111'), calendar('cal-b', 'test-a', '#222222')]);
+
+        await loadViewport();
+        expect(eventStore.getById('a1')).toMatchObject({ color: '#111111', providerId: 'test-a' });
+        expect(eventStore.getById('b1')).toBeUndefined();
+
+        finishers.forEach(finish => finish());
+        await vi.advanceTimersByTimeAsync(1000);
+        expect(eventStore.getById('b1')).toMatchObject({ color: '#222222' });
+    });
+
+    it('should abort loads the viewport moved away from', async () => {
+        const signals: AbortSignal[] = [];
+        const { provider, fetchEvents } = testProvider([]);
+        fetchEvents.mockImplementation(options => new Promise((_, reject) => {
+            signals.push(options.signal!);
+            options.signal!.addEventListener('abort', () => reject(new DOMException('Aborted', 'AbortError')));
+        }));
+        providerRegistry.register('test-a', provider);
+        eventLoader.setCalendars([calendar('cal-a', 'test-a', '#111111')]);
+
+        await loadViewport();
+        const firstLoads = signals.length;
+        eventLoader.updateViewport(START + 1000 * DAY, START + 1002 * DAY);
+        await vi.advanceTimersByTimeAsync(1000);
+
+        expect(signals.slice(0, firstLoads).every(signal => signal.aborted)).toBe(true);
+        expect(signals.length).toBeGreaterThan(firstLoads);
+        // Aborting is not a failure, and nothing was marked loaded
+        expect(get(calendarHealth)['cal-a']?.status).not.toBe('degraded');
+        expect(eventLoader.isLoaded(START, START + DAY)).toBe(false);
+    });
+
+    it('should sync only the calendars reported changed', async () => {
+        const { provider } = testProvider([event('a1', 'cal-a')]);
+        provider.fetchEvents = async options => ({ data: select([event('a1', 'cal-a')], options), hasMore: false, syncToken: 'token' });
+        const fetchChanges = vi.fn(async (): Promise<FetchResult<CalendarEvent[]>> => ({
+            data: [{ ...event('a1', 'cal-a'), title: 'Moved' }],
+            hasMore: false,
+        }));
+        provider.fetchChanges = fetchChanges;
+        providerRegistry.register('test-a', provider);
+        eventLoader.setCalendars([calendar('cal-a', 'test-a', '#111111'), calendar('cal-b', 'test-a', '#222222')]);
+        await loadViewport();
+
+        await eventLoader.syncChanges(['cal-a', 'elsewhere']);
+
+        expect(fetchChanges).toHaveBeenCalledWith('token', ['cal-a']);
+        expect(eventStore.getById('a1')).toMatchObject({ title: 'Moved', color: '#111111' });
+    });
+
+    it('should record failed syncs instead of rejecting, and retry with the same token', async () => {
+        vi.spyOn(console, 'error').mockImplementation(() => {});
+        const { provider } = testProvider([event('a1', 'cal-a')]);
+        provider.fetchEvents = async options => ({ data: select([event('a1', 'cal-a')], options), hasMore: false, syncToken: 'token' });
+        const fetchChanges = vi.fn(async (_token: string): Promise<FetchResult<CalendarEvent[]>> => {
+            throw new TypeError('Failed to fetch');
+        });
+        provider.fetchChanges = fetchChanges;
+        providerRegistry.register('test-a', provider);
+        eventLoader.setCalendars([calendar('cal-a', 'test-a', '#111111')]);
+        await loadViewport();
+
+        await expect(eventLoader.syncChanges()).resolves.toBeUndefined();
+        await eventLoader.syncChanges();
+
+        expect(get(calendarHealth)['cal-a']).toMatchObject({ status: 'degraded', error: 'Failed to fetch' });
+        expect(fetchChanges.mock.calls.map(([token]) => token)).toEqual(['token', 'token']);
+        expect(eventStore.getById('a1')).toBeDefined();
+    });
+
+    it('should paint persisted chunks and reconcile them with the provider', async () => {
+        const { provider, fetchEvents } = testProvider([event('a1', 'cal-a')]);
+        vi.spyOn(persistentEventCache, 'readRange').mockResolvedValue([event('a1', 'cal-a'), event('gone', 'cal-a')]);
+        providerRegistry.register('test-a', provider);
+        eventLoader.setCalendars([calendar('cal-a', 'test-a', '#111111')]);
+
+        await loadViewport();
+
+        // Every chunk was fetched once more in the background; deleted events are gone
+        expect(fetchEvents).toHaveBeenCalled();
+        expect(eventStore.getById('a1')).toMatchObject({ color: '#111111' });
+        expect(eventStore.getById('gone')).toBeUndefined();
+    });
+});
@@ -2,20 +2,41 @@
  * EventLoader - Manages lazy loading of calendar events based on viewport
  * 
  * Key features:
- * - Chunk-based loading (6-month chunks)
+ * - Chunk-based loading, with chunks from a day to a year depending on zoom
+ * - Chunks nearest the viewport centre load first, a few at a time
+ * - Loads the viewport moved away from are aborted
  * - Debounced requests to avoid excessive API calls
  * - Non-blocking: yields to render thread during batch processing
- * - Deduplication of loaded/in-flight chunks
+ * - Deduplication of loaded/in-flight ranges, tracked per calendar so
+ *   selecting a calendar loads only that calendar
+ * - Incremental sync: after the first load only deltas are pulled
+ * - Recurring events are expanded by the providers, one chunk at a time
+ * - Providers are resolved through the registry, each behind its own cache
+ * - Partial results: failures are tracked per calendar and can be retried;
+ *   rate limits and outages retry by themselves with backoff, and a chunk a
+ *   calendar failed to load never counts as loaded
+ * - Chunks loaded in earlier sessions paint from disk, then revalidate
  */
 
 import type { CalendarEvent } from '$lib/types/Event';
-import type { CalendarInfo } from './CalendarProvider';
-import { googleProvider } from './GoogleCalendarProvider';
+import type { CalendarError, CalendarInfo, CalendarProvider, FetchResult } from './CalendarProvider';
+import { isAbortError, isTransientError, providerRegistry } from './CalendarProvider';
+import { CachingProvider } from './CachingProvider';
+import { ChunkScheduler } from './ChunkScheduler';
 import { eventStore } from '$lib/events/EventStore';
+import { IntervalSet } from '$lib/events/IntervalSet';
+import { persistentEventCache } from '$lib/events/PersistentEventCache';
+import { isRecurring } from '$lib/events/recurrence';
 import { eventLoadingStore, type LoadingRegion } from '$lib/stores/eventLoadingStore';
+import { providerHealthStore, type FailedChunk, type ProviderHealthState } from '$lib/stores/providerHealthStore';
 
-/** Size of each chunk in milliseconds (6 months) */
-const CHUNK_SIZE_MS = 6 * 30 * 24 * 60 * 60 * 1000; // ~6 months
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Chunk sizes, finest first: a day, a week, ~a month, ~6 months, a year */
+const CHUNK_SIZES_MS = [DAY_MS, 7 * DAY_MS, 30 * DAY_MS, 6 * 30 * DAY_MS, 365 * DAY_MS];
+
+/** Use the finest chunk size that covers the visible range in this many chunks */
+const CHUNKS_PER_VIEW = 4;
 
 /** Debounce delay before fetching after viewport changes */
 const DEBOUNCE_MS = 150;
@@ -26,6 +47,39 @@ const BATCH_SIZE = 100;
 /** How far ahead/behind current viewport to prefetch */
 const PREFETCH_BUFFER = 0.5; // 50% of visible range on each side
 
+/** Automatic retries of a chunk a calendar failed to load with a transient error */
+const MAX_LOAD_RETRIES = 3;
+
+/** Delay before the first automatic retry, unless the provider said; doubles with every retry */
+const RETRY_BASE_MS = 2000;
+
+/** Age at which loaded chunks load again, served stale by the cache while it revalidates */
+const EVENT_TTL_MS = 5 * 60 * 1000;
+
+/**
+ * Chunk size for a visible range: days when zoomed in, years when zoomed out
+ */
+function getChunkSize(visibleRange: number): number {
+    return CHUNK_SIZES_MS.find(size => size * CHUNKS_PER_VIEW >= visibleRange)
+        ?? CHUNK_SIZES_MS[CHUNK_SIZES_MS.length - 1];
+}
+
+/**
+ * Registry ID of the provider serving a calendar: its own provider ID when
+ * the type has several instances (Google accounts), otherwise its type
+ */
+function getProviderKey(calendar: CalendarInfo): string {
+    return calendar.providerId ?? calendar.providerType;
+}
+
+/**
+ * A registered provider and the cache the loader reads it through
+ */
+interface CachedSource {
+    provider: CalendarProvider;
+    cache: CachingProvider;
+}
+
 /**
  * Represents a chunk of time that can be loaded
  */
@@ -39,11 +93,24 @@ interface Chunk {
  * EventLoader singleton - manages lazy loading of events
  */
 class EventLoader {
-    /** Set of chunk IDs that have been loaded */
-    private loadedChunks = new Set<string>();
+    /** Ranges each calendar has loaded (chunks of any size), by calendar ID */
+    private loadedRanges = new Map<string, IntervalSet>();
 
-    /** Set of chunk IDs currently being loaded */
-    private loadingChunks = new Set<string>();
+    /**
+     * Ranges each calendar failed to load, by calendar ID. The fetch time
+     * holds when a range may load again: Infinity once it is left to
+     * retryCalendar/retryChunk.
+     */
+    private failedRanges = new Map<string, IntervalSet>();
+
+    /** Failed loads by calendar and chunk (`calendarId|chunkId`), for backoff */
+    private failureCounts = new Map<string, number>();
+
+    /** Pending automatic retries */
+    private retryTimers = new Set<ReturnType<typeof setTimeout>>();
+
+    /** Orders, throttles and aborts chunk loads */
+    private scheduler = new ChunkScheduler<Chunk>((chunk, signal) => this.loadChunk(chunk, signal));
 
     /** Debounce timer for viewport updates */
     private debounceTimer: ReturnType<typeof setTimeout> | null = null;
@@ -51,21 +118,80 @@ class EventLoader {
     /** Calendar IDs to fetch from */
     private calendarIds: string[] = [];
 
-    /** Color map for calendars */
-    private calendarColorMap = new Map<string, string>();
+    /** Calendar IDs grouped by the provider that serves them (see getProviderKey) */
+    private calendarIdsByProvider = new Map<string, string[]>();
+
+    /** Info of each selected calendar, used to tag and colour its events */
+    private calendarInfo = new Map<string, CalendarInfo>();
+
+    /** Caching wrappers around registered providers, by registry ID */
+    private sources = new Map<string, CachedSource>();
 
     /** Last requested viewport range */
     private lastViewport: { startTime: number; endTime: number } | null = null;
 
+    /** Latest sync token returned by each provider */
+    private syncTokens = new Map<string, string>();
+
+    /** Whether a sync is in flight (syncs never overlap) */
+    private isSyncing = false;
+
+    /** Calendars to sync when the sync in flight is done ('all': every calendar) */
+    private queuedSync: Set<string> | 'all' | null = null;
+
     /**
-     * Set the calendars to fetch events from
+     * Set the calendars to fetch events from. Newly added calendars load on
+     * the next viewport update; removed ones are evicted from the store and
+     * caches. Calendars that stay keep everything they loaded.
      */
     setCalendars(calendars: CalendarInfo[]) {
+        const selected = new Set(calendars.map(c => c.id));
+        const removed = new Set(Array.from(this.calendarInfo.keys()).filter(id => !selected.has(id)));
+
+        if (removed.size > 0) {
+            eventStore.removeWhere(e => removed.has(e.calendarId || ''));
+            for (const id of Array.from(removed)) {
+                this.sources.get(getProviderKey(this.calendarInfo.get(id)!))?.cache.invalidateCalendars([id]);
+                this.loadedRanges.delete(id);
+                this.failedRanges.delete(id);
+            }
+        }
+
         this.calendarIds = calendars.map(c => c.id);
-        this.calendarColorMap.clear();
+        this.calendarIdsByProvider.clear();
+        this.calendarInfo.clear();
         for (const cal of calendars) {
-            this.calendarColorMap.set(cal.id, cal.color);
+            this.calendarInfo.set(cal.id, cal);
+            const key = getProviderKey(cal);
+            const ids = this.calendarIdsByProvider.get(key) ?? [];
+            ids.push(cal.id);
+            this.calendarIdsByProvider.set(key, ids);
+        }
+    }
+
+    /**
+     * Get the cached provider registered under a key. The cache is rebuilt
+     * when the registry entry is replaced and dropped when it is removed.
+     */
+    private getProvider(key: string): CachingProvider | undefined {
+        const provider = providerRegistry.get(key);
+        const source = this.sources.get(key);
+
+        if (!provider) {
+            this.sources.delete(key);
+            return undefined;
+        }
+        if (source?.provider === provider) {
+            return source.cache;
         }
+
+        // The cache has its own stores: the shared one holds only what is on screen
+        const cache = new CachingProvider(provider, {
+            eventTTL: EVENT_TTL_MS,
+            persistence: { cache: persistentEventCache, providerId: key },
+        });
+        this.sources.set(key, { provider, cache });
+        return cache;
     }
 
     /**
@@ -89,7 +215,7 @@ class EventLoader {
     /**
      * Fetch chunks for the current viewport
      */
-    private async fetchVisibleChunks() {
+    private fetchVisibleChunks() {
         if (!this.lastViewport || this.calendarIds.length === 0) {
             return;
         }
@@ -98,79 +224,425 @@ class EventLoader {
         const visibleRange = endTime - startTime;
 
         // Add prefetch buffer
-        const bufferedStart = startTime - visibleRange * PREFETCH_BUFFER;
-        const bufferedEnd = endTime + visibleRange * PREFETCH_BUFFER;
+        const range = {
+            startTime: startTime - visibleRange * PREFETCH_BUFFER,
+            endTime: endTime + visibleRange * PREFETCH_BUFFER,
+        };
 
-        // Find chunks that need to be loaded
-        const chunks = this.getChunksForRange(bufferedStart, bufferedEnd);
-        const chunksToLoad = chunks.filter(
-            chunk => !this.loadedChunks.has(chunk.id) && !this.loadingChunks.has(chunk.id)
-        );
+        // Find chunks some calendar still needs, at a granularity matching the zoom
+        const chunks = this.getChunksForRange(range.startTime, range.endTime, getChunkSize(visibleRange))
+            .filter(chunk => this.getMissingCalendars(chunk).size > 0);
 
-        if (chunksToLoad.length === 0) {
-            return;
+        // Nearest the centre first; loads that fell out of range are aborted
+        this.scheduler.schedule(chunks, range);
+    }
+
+    /**
+     * Load a single chunk of events for the calendars that haven't loaded it
+     */
+    private async loadChunk(chunk: Chunk, signal: AbortSignal) {
+        await this.fetchChunk(chunk, this.getMissingCalendars(chunk), signal);
+
+        // Calendars selected while the chunk was loading still need it
+        if (this.getMissingCalendars(chunk).size > 0) {
+            this.fetchVisibleChunks();
         }
+    }
 
-        // Load each chunk
-        for (const chunk of chunksToLoad) {
-            // Don't await - let them load in parallel without blocking
-            this.loadChunk(chunk);
+    /**
+     * Calendars that haven't loaded all of a chunk within the event TTL,
+     * grouped by provider. Calendars that failed to load it and aren't due
+     * for a retry are left out.
+     */
+    private getMissingCalendars(chunk: Chunk): Map<string, string[]> {
+        const missing = new Map<string, string[]>();
+        const fresh = Date.now() - EVENT_TTL_MS;
+        // Failed ranges due at or before now are missing again
+        const notDue = Date.now() + 1;
+        for (const [key, calendarIds] of Array.from(this.calendarIdsByProvider)) {
+            const ids = calendarIds.filter(id => !this.loadedRanges.get(id)?.covers(chunk.startTime, chunk.endTime, fresh)
+                && !this.failedRanges.get(id)?.covers(chunk.startTime, chunk.endTime, notDue));
+            if (ids.length > 0) {
+                missing.set(key, ids);
+            }
         }
+        return missing;
     }
 
     /**
-     * Load a single chunk of events
+     * Record that a calendar has loaded a chunk
      */
-    private async loadChunk(chunk: Chunk) {
-        if (this.loadingChunks.has(chunk.id)) {
-            return; // Already loading
+    private markLoaded(calendarId: string, chunk: Chunk) {
+        let ranges = this.loadedRanges.get(calendarId);
+        if (!ranges) {
+            ranges = new IntervalSet();
+            this.loadedRanges.set(calendarId, ranges);
         }
+        ranges.add(chunk.startTime, chunk.endTime);
+
+        this.failedRanges.get(calendarId)?.remove(chunk.startTime, chunk.endTime);
+        this.failureCounts.delete(`${calendarId}|${chunk.id}`);
+    }
 
-        this.loadingChunks.add(chunk.id);
+    /**
+     * Record that a calendar failed to load a chunk. Rate limits and outages
+     * are retried after the delay the provider asked for, or with backoff,
+     * while the chunk is still in view; other failures wait for an explicit
+     * retry.
+     */
+    private markFailed(calendarId: string, chunk: Chunk, error: CalendarError) {
+        const key = `${calendarId}|${chunk.id}`;
+        const failures = (this.failureCounts.get(key) ?? 0) + 1;
+        this.failureCounts.set(key, failures);
+
+        let ranges = this.failedRanges.get(calendarId);
+        if (!ranges) {
+            ranges = new IntervalSet();
+            this.failedRanges.set(calendarId, ranges);
+        }
+
+        if (!isTransientError(error) || failures > MAX_LOAD_RETRIES) {
+            ranges.add(chunk.startTime, chunk.endTime, Infinity);
+            return;
+        }
+
+        // Jitter keeps calendars that failed together from retrying together
+        const backoff = RETRY_BASE_MS * 2 ** (failures - 1);
+        const delay = error.retryAfter ?? backoff / 2 + Math.random() * backoff / 2;
+        ranges.add(chunk.startTime, chunk.endTime, Date.now() + delay);
+
+        const timer = setTimeout(() => {
+            this.retryTimers.delete(timer);
+            this.fetchVisibleChunks();
+        }, delay);
+        this.retryTimers.add(timer);
+    }
+
+    /**
+     * Record which calendars of a provider loaded a chunk and which failed
+     */
+    private recordOutcome(chunk: Chunk, calendarIds: string[], result: FetchResult<CalendarEvent[]>) {
+        const failures: CalendarError[] = result.calendarErrors ?? (result.error
+            ? calendarIds.map(calendarId => ({ calendarId, message: result.error as string }))
+            : []);
+        const failed = new Map(failures.map(f => [f.calendarId, f]));
+
+        for (const id of calendarIds) {
+            // Calendars removed while the chunk was loading are not tracked anymore
+            if (!this.calendarInfo.has(id)) continue;
+
+            const failure = failed.get(id);
+            if (failure) {
+                this.markFailed(id, chunk, failure);
+            } else {
+                this.markLoaded(id, chunk);
+            }
+        }
+    }
+
+    /**
+     * Fetch a chunk from the given providers and add the events to the store
+     * @throws an AbortError if the signal aborts
+     */
+    private async fetchChunk(chunk: Chunk, calendarIdsByProvider: Map<string, string[]>, signal?: AbortSignal) {
         const region: LoadingRegion = {
             startTime: chunk.startTime,
             endTime: chunk.endTime,
         };
         eventLoadingStore.startLoading(region);
 
+        // Events already shown through progress callbacks
+        const delivered = new Set<string>();
+
         try {
-            const result = await googleProvider.fetchEvents({
-                startTime: chunk.startTime,
-                endTime: chunk.endTime,
-                calendarIds: this.calendarIds,
-            });
-
-            if (result.error) {
-                console.error(`Failed to load chunk ${chunk.id}:`, result.error);
-                eventLoadingStore.setError(result.error);
-            } else if (result.data.length > 0) {
-                // Apply calendar colors to events
-                const coloredEvents = result.data.map(event => ({
-                    ...event,
-                    color: this.calendarColorMap.get(event.category || '') || event.color || '#4285f4',
-                }));
+            const results = await Promise.all(
+                Array.from(calendarIdsByProvider).map(async ([key, calendarIds]): Promise<FetchResult<CalendarEvent[]>> => {
+                    const provider = this.getProvider(key);
+                    if (!provider) {
+                        // Nothing to load until the provider registers
+                        this.recordOutcome(chunk, calendarIds, { data: [], hasMore: false });
+                        return { data: [], hasMore: false };
+                    }
+                    const result = await provider.fetchEvents({
+                        startTime: chunk.startTime,
+                        endTime: chunk.endTime,
+                        calendarIds,
+                        signal,
+                        onProgress: (events) => {
+                            // Show calendars as they arrive rather than with the slowest one
+                            const partial = this.tagEvents(events, key).filter(e => this.calendarInfo.has(e.calendarId || ''));
+                            partial.forEach(e => delivered.add(e.id));
+                            if (partial.length > 0) {
+                                eventStore.upsert(partial);
+                            }
+                        },
+                    }).catch((err): FetchResult<CalendarEvent[]> => {
+                        if (isAbortError(err)) throw err;
+                        return {
+                            data: [],
+                            hasMore: false,
+                            error: err instanceof Error ? err.message : 'Unknown error',
+                        };
+                    });
+                    if (result.syncToken) {
+                        this.syncTokens.set(key, result.syncToken);
+                    }
+                    if (result.stale) {
+                        // Painted from disk; reconcile with the provider in the background
+                        this.revalidate(key, calendarIds, chunk);
+                    } else {
+                        providerHealthStore.recordResult(key, calendarIds, result, chunk);
+                    }
+                    this.recordOutcome(chunk, calendarIds, result);
+                    return { ...result, data: this.tagEvents(result.data, key) };
+                })
+            );
+
+            const errors = results.filter(r => r.error).map(r => r.error as string);
+            // Calendars removed while the chunk was loading are not wanted anymore
+            const events = results.flatMap(r => r.data)
+                .filter(e => this.calendarInfo.has(e.calendarId || '') && !delivered.has(e.id));
+
+            if (errors.length > 0) {
+                console.error(`Failed to load chunk ${chunk.id}:`, errors.join('; '));
+                eventLoadingStore.setError(errors.join('; '));
+            }
 
+            if (events.length > 0) {
                 // Add events in batches to avoid blocking render thread
-                await this.addEventsBatched(coloredEvents);
+                await this.addEventsBatched(events);
             }
-
-            this.loadedChunks.add(chunk.id);
         } catch (err) {
+            if (isAbortError(err)) throw err;
             console.error(`Error loading chunk ${chunk.id}:`, err);
             eventLoadingStore.setError(err instanceof Error ? err.message : 'Unknown error');
         } finally {
-            this.loadingChunks.delete(chunk.id);
             eventLoadingStore.finishLoading(region);
         }
     }
 
     /**
-     * Add events to store in batches, yielding to render thread between batches
+     * Fetch a chunk that was served from disk again and reconcile the store
+     * with it. If the provider can't be reached, the persisted events stay.
+     */
+    private async revalidate(key: string, calendarIds: string[], chunk: Chunk) {
+        const provider = this.getProvider(key);
+        if (!provider) return;
+
+        const result = await provider.revalidate({
+            startTime: chunk.startTime,
+            endTime: chunk.endTime,
+            calendarIds,
+        }).catch((err): FetchResult<CalendarEvent[]> => ({
+            data: [],
+            hasMore: false,
+            error: err instanceof Error ? err.message : 'Unknown error',
+        }));
+        if (result.syncToken) {
+            this.syncTokens.set(key, result.syncToken);
+        }
+        providerHealthStore.recordResult(key, calendarIds, result, chunk);
+
+        const failedIds = new Set(result.calendarErrors?.map(e => e.calendarId));
+        if (result.error && failedIds.size === 0) {
+            return;
+        }
+
+        // Events of the refreshed calendars that are gone were deleted meanwhile
+        const refreshed = new Set(calendarIds.filter(id => !failedIds.has(id)));
+        const fresh = this.tagEvents(result.data, key);
+        const freshIds = new Set(fresh.map(e => e.id));
+        const removed = eventStore
+            .queryRange(chunk.startTime, chunk.endTime)
+            .filter(e => e.providerId === key && refreshed.has(e.calendarId || '') && !freshIds.has(e.id));
+        eventStore.remove(removed.map(e => e.id));
+        eventStore.upsert(fresh);
+    }
+
+    /**
+     * Load the chunks a calendar failed to load again. A calendar that failed
+     * outside a chunk (during a sync) is reloaded in full.
+     */
+    async retryCalendar(calendarId: string): Promise<void> {
+        const calendar = this.calendarInfo.get(calendarId);
+        if (!calendar) return;
+
+        const key = getProviderKey(calendar);
+        let failedChunks: FailedChunk[] = [];
+        providerHealthStore.subscribe(s => {
+            failedChunks = s.providers[key]?.calendars[calendarId]?.failedChunks ?? [];
+        })();
+        if (failedChunks.length === 0) {
+            this.resync(new Set([calendarId]));
+            return;
+        }
+
+        await Promise.all(failedChunks.map(chunk =>
+            this.fetchChunk(this.toChunk(chunk), new Map([[key, [calendarId]]]))
+        ));
+    }
+
+    /**
+     * Load a chunk again for every calendar that failed to load it
+     */
+    async retryChunk(startTime: number, endTime: number): Promise<void> {
+        let providers: ProviderHealthState['providers'] = {};
+        providerHealthStore.subscribe(s => {
+            providers = s.providers;
+        })();
+        const calendarIdsByProvider = new Map<string, string[]>();
+
+        for (const [key, calendarIds] of Array.from(this.calendarIdsByProvider)) {
+            const failed = calendarIds.filter(id => providers[key]?.calendars[id]?.failedChunks.some(
+                c => c.startTime === startTime && c.endTime === endTime
+            ));
+            if (failed.length > 0) {
+                calendarIdsByProvider.set(key, failed);
+            }
+        }
+
+        if (calendarIdsByProvider.size > 0) {
+            await this.fetchChunk(this.toChunk({ startTime, endTime }), calendarIdsByProvider);
+        }
+    }
+
+    /**
+     * Pull changes since the last load from every provider that supports it.
+     * Cancelled events are removed from the store, changed ones replaced.
+     * Calendars whose sync token expired, or with a changed recurring
+     * series (instances are generated per chunk), are reloaded in full.
+     * Failed syncs go to the provider health store; this never rejects.
+     * @param calendarIds Only sync these calendars (e.g. reported changed by live updates)
+     */
+    async syncChanges(calendarIds?: string[]): Promise<void> {
+        if (this.calendarIds.length === 0) {
+            return;
+        }
+        if (this.isSyncing) {
+            // The sync in flight may have missed these changes; sync again after it
+            this.queueSync(calendarIds);
+            return;
+        }
+
+        this.isSyncing = true;
+        try {
+            const resyncIds = new Set<string>();
+
+            for (const [key, token] of Array.from(this.syncTokens)) {
+                const provider = this.getProvider(key);
+                const providerCalendarIds = this.calendarIdsByProvider.get(key);
+                const syncIds = calendarIds ? providerCalendarIds?.filter(id => calendarIds.includes(id)) : providerCalendarIds;
+                if (!provider || !syncIds?.length) {
+                    continue;
+                }
+
+                let result: FetchResult<CalendarEvent[]>;
+                try {
+                    result = await provider.fetchChanges(token, calendarIds ? syncIds : undefined);
+                } catch (err) {
+                    // Offline or a broken response: the token stays, and the next sync tries again
+                    result = { data: [], hasMore: false, error: err instanceof Error ? err.message : 'Unknown error' };
+                }
+                if (result.error) {
+                    console.error(`Failed to sync ${key} changes:`, result.error);
+                }
+                providerHealthStore.recordResult(key, syncIds, result);
+                if (result.syncToken) {
+                    this.syncTokens.set(key, result.syncToken);
+                }
+                result.resyncCalendarIds?.forEach(id => resyncIds.add(id));
+
+                const activeIds = new Set(this.calendarIds);
+                const changes = this.tagEvents(result.data, key).filter(e => activeIds.has(e.calendarId || ''));
+
+                // Instances of a deleted series go with it
+                const cancelledIds = new Set(changes.filter(e => e.status === 'cancelled').map(e => e.id));
+                if (cancelledIds.size > 0) {
+                    eventStore.removeWhere(e =>
+                        cancelledIds.has(e.id) || (!!e.recurringEventId && cancelledIds.has(e.recurringEventId))
+                    );
+                }
+
+                const updated = changes.filter(e => e.status !== 'cancelled');
+                for (const event of updated.filter(isRecurring)) {
+                    resyncIds.add(event.calendarId || '');
+                }
+                eventStore.upsert(updated.filter(e => !isRecurring(e)));
+            }
+
+            if (resyncIds.size > 0) {
+                this.resync(resyncIds);
+            }
+        } finally {
+            this.isSyncing = false;
+        }
+
+        const queued = this.queuedSync;
+        this.queuedSync = null;
+        if (queued) {
+            await this.syncChanges(queued === 'all' ? undefined : Array.from(queued));
+        }
+    }
+
+    /**
+     * Remember calendars to sync after the sync in flight
+     */
+    private queueSync(calendarIds?: string[]) {
+        if (!calendarIds || this.queuedSync === 'all') {
+            this.queuedSync = 'all';
+            return;
+        }
+        const queued = this.queuedSync ?? new Set<string>();
+        calendarIds.forEach(id => queued.add(id));
+        this.queuedSync = queued;
+    }
+
+    /**
+     * Drop the events of the given calendars and load the viewport again
+     */
+    private resync(calendarIds: Set<string>) {
+        eventStore.removeWhere(e => calendarIds.has(e.calendarId || ''));
+
+        // Cached copies of those calendars are just as stale
+        for (const id of Array.from(calendarIds)) {
+            const calendar = this.calendarInfo.get(id);
+            if (calendar) {
+                this.sources.get(getProviderKey(calendar))?.cache.invalidateCalendars([id]);
+            }
+            this.loadedRanges.delete(id);
+            this.failedRanges.delete(id);
+        }
+
+        // Only these calendars load again
+        this.fetchVisibleChunks();
+    }
+
+    /**
+     * Tag events with the provider and calendar they came from, and colour
+     * them from that calendar's info. Providers put the calendar ID in
+     * `category`.
+     */
+    private tagEvents(events: CalendarEvent[], providerId: string): CalendarEvent[] {
+        return events.map(event => {
+            const calendarId = event.calendarId ?? event.category;
+            const calendar = calendarId ? this.calendarInfo.get(calendarId) : undefined;
+            return {
+                ...event,
+                providerId,
+                calendarId,
+                color: calendar?.color || event.color || '#4285f4',
+            };
+        });
+    }
+
+    /**
+     * Add events to store in batches, yielding to render thread between batches.
+     * Events already in the store are replaced (they may have been rescheduled).
      */
     private async addEventsBatched(events: CalendarEvent[]): Promise<void> {
         for (let i = 0; i < events.length; i += BATCH_SIZE) {
             const batch = events.slice(i, i + BATCH_SIZE);
-            eventStore.addEvents(batch);
+            eventStore.upsert(batch);
 
             // Yield to render thread if more batches remaining
             if (i + BATCH_SIZE < events.length) {
@@ -179,23 +651,26 @@ class EventLoader {
         }
     }
 
+    /**
+     * Chunk covering exactly the given range
+     */
+    private toChunk({ startTime, endTime }: { startTime: number; endTime: number }): Chunk {
+        return { id: `chunk-${startTime}-${endTime}`, startTime, endTime };
+    }
+
     /**
      * Get chunk boundaries for a time range
      */
-    private getChunksForRange(startTime: number, endTime: number): Chunk[] {
+    private getChunksForRange(startTime: number, endTime: number, chunkSize: number): Chunk[] {
         const chunks: Chunk[] = [];
 
         // Align to chunk boundaries
-        const firstChunkStart = Math.floor(startTime / CHUNK_SIZE_MS) * CHUNK_SIZE_MS;
-        const lastChunkStart = Math.floor(endTime / CHUNK_SIZE_MS) * CHUNK_SIZE_MS;
+        const firstChunkStart = Math.floor(startTime / chunkSize) * chunkSize;
+        const lastChunkStart = Math.floor(endTime / chunkSize) * chunkSize;
 
-        for (let chunkStart = firstChunkStart; chunkStart <= lastChunkStart; chunkStart += CHUNK_SIZE_MS) {
-            const chunkEnd = chunkStart + CHUNK_SIZE_MS;
-            chunks.push({
-                id: `chunk-${chunkStart}`,
-                startTime: chunkStart,
-                endTime: chunkEnd,
-            });
+        for (let chunkStart = firstChunkStart; chunkStart <= lastChunkStart; chunkStart += chunkSize) {
+            const chunkEnd = chunkStart + chunkSize;
+            chunks.push(this.toChunk({ startTime: chunkStart, endTime: chunkEnd }));
         }
 
         return chunks;
@@ -205,30 +680,37 @@ class EventLoader {
      * Check if a time range has been fully loaded
      */
     isLoaded(startTime: number, endTime: number): boolean {
-        const chunks = this.getChunksForRange(startTime, endTime);
-        return chunks.every(chunk => this.loadedChunks.has(chunk.id));
+        return this.calendarIds.every(id => this.loadedRanges.get(id)?.covers(startTime, endTime));
     }
 
     /**
      * Clear all loaded chunks (e.g., when calendars change)
      */
     clearCache() {
-        this.loadedChunks.clear();
-        this.loadingChunks.clear();
+        this.loadedRanges.clear();
+        this.failedRanges.clear();
+        this.failureCounts.clear();
+        this.scheduler.cancelAll();
+        this.syncTokens.clear();
         if (this.debounceTimer) {
             clearTimeout(this.debounceTimer);
             this.debounceTimer = null;
         }
+        for (const timer of Array.from(this.retryTimers)) {
+            clearTimeout(timer);
+        }
+        this.retryTimers.clear();
         eventLoadingStore.reset();
     }
 
     /**
      * Get stats for debugging
      */
-    getStats(): { loadedChunks: number; loadingChunks: number } {
+    getStats(): { loadedRanges: number; loadingChunks: number; queuedChunks: number } {
         return {
-            loadedChunks: this.loadedChunks.size,
-            loadingChunks: this.loadingChunks.size,
+            loadedRanges: Array.from(this.loadedRanges.values()).reduce((sum, ranges) => sum + ranges.size, 0),
+            loadingChunks: this.scheduler.activeCount,
+            queuedChunks: this.scheduler.pendingCount,
         };
     }
 }
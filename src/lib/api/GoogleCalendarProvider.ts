@@ -3,6 +3,8 @@
  * 
  * Implements the CalendarProvider interface.
  * Uses server-side proxy routes for token security.
+ * One instance serves one connected Google account; instances are created
+ * and registered in the ProviderRegistry as accounts connect.
  */
 
 import type { CalendarEvent } from '$lib/types/Event';
@@ -10,56 +12,124 @@ import type {
     CalendarProvider,
     ProviderType,
     AuthState,
+    CalendarError,
     CalendarInfo,
     FetchEventsOptions,
     FetchResult,
+    ProviderErrorCode,
+    WriteOperation,
 } from './CalendarProvider';
-import { authStore } from '$lib/stores/authStore';
+import { isAbortError, providerRegistry } from './CalendarProvider';
+import { authStore, saveAuthState, GOOGLE_WRITE_SCOPE } from '$lib/stores/authStore';
+import { providerHealthStore } from '$lib/stores/providerHealthStore';
+import { eventStore } from '$lib/events/EventStore';
+import { persistentEventCache } from '$lib/events/PersistentEventCache';
+import { eventPipeline } from '$lib/events/EventPipeline';
+import { readEventStream } from './eventStream';
+import {
+    buildGoogleEventId,
+    mapGoogleEvents,
+    parseGoogleEventId,
+    toGoogleEventResource,
+    type GoogleMappingContext,
+    type GoogleReminder,
+} from './GoogleEventMapper';
 
 /**
  * Google Calendar Provider
  * 
  * Note: All API calls go through server-side proxy routes
  * to keep access tokens secure (stored in HTTP-only cookies).
+ *
+ * Writes are opt-in: supportsWrite is only true once the user has granted
+ * the calendar.events scope via /auth/google?access=write.
+ *
+ * Sync tokens are tracked per calendar. The token handed out in
+ * FetchResult.syncToken is a JSON map of calendar ID -> Google nextSyncToken.
+ *
+ * Every request names the account (`?account=<id>`) so the server picks
+ * that account's token cookies.
  */
 export class GoogleCalendarProvider implements CalendarProvider {
     readonly type: ProviderType = 'google';
-    readonly name = 'Google Calendar';
-    readonly supportsWrite = false; // Read-only for safety
+    readonly name: string;
+
+    /** Google user ID of the account this instance serves */
+    readonly accountId: string;
+
+    /** Email of the account, used as login hint when re-authenticating */
+    readonly email: string;
+
+    private syncTokens = new Map<string, string>();
+
+    /** Per-calendar time zone and default reminders, from the calendar list */
+    private calendarContexts = new Map<string, Omit<GoogleMappingContext, 'calendarId'>>();
+
+    constructor(accountId: string, email: string) {
+        this.accountId = accountId;
+        this.email = email;
+        this.name = `Google Calendar (${email})`;
+    }
+
+    /** ID of this instance in the ProviderRegistry */
+    get providerId(): string {
+        return googleProviderId(this.accountId);
+    }
+
+    get supportsWrite(): boolean {
+        return authStore.hasWriteAccess(this.accountId);
+    }
+
+    /**
+     * Whether a calendar belongs to this account (known after getCalendars)
+     */
+    hasCalendar(calendarId: string): boolean {
+        return this.calendarContexts.has(calendarId);
+    }
 
     // =========================================
     // Authentication
     // =========================================
 
     getAuthState(): AuthState {
-        let state: AuthState = {
-            isAuthenticated: false,
-            scopes: ['calendar.readonly'],
+        const account = authStore.getAccount(this.accountId);
+
+        return {
+            isAuthenticated: !!account,
+            userId: this.accountId,
+            email: this.email,
+            expiresAt: account?.expiresAt || undefined,
+            scopes: account?.scopes.includes(GOOGLE_WRITE_SCOPE)
+                ? ['calendar.readonly', 'calendar.events']
+                : ['calendar.readonly'],
         };
-
-        authStore.subscribe(s => {
-            state = {
-                isAuthenticated: s.isConnected,
-                email: s.email || undefined,
-                expiresAt: s.expiresAt || undefined,
-                scopes: ['calendar.readonly'],
-            };
-        })();
-
-        return state;
     }
 
     async authenticate(): Promise<AuthState> {
         // Redirect to OAuth endpoint
-        window.location.href = '/auth/google';
+        window.location.href = `/auth/google?${new URLSearchParams({ login_hint: this.email })}`;
 
         // This won't actually return since we're redirecting
         return this.getAuthState();
     }
 
+    /**
+     * Redirect to the consent screen with the elevated (read/write) scope
+     */
+    requestWriteAccess(): void {
+        window.location.href = `/auth/google?${new URLSearchParams({ access: 'write', login_hint: this.email })}`;
+    }
+
+    /**
+     * Sign this account out; other accounts stay connected.
+     * Removing the account from authStore also unregisters this instance.
+     */
     async signOut(): Promise<void> {
-        await fetch('/auth/logout', { method: 'POST' });
-        authStore.disconnect();
+        await fetch(this.withAccount('/auth/logout'), { method: 'POST' }).catch(() => {});
+        this.syncTokens.clear();
+        this.calendarContexts.clear();
+        authStore.disconnect(this.accountId);
+        authStore.subscribe(saveAuthState)();
     }
 
     // =========================================
@@ -68,7 +138,7 @@ export class GoogleCalendarProvider implements CalendarProvider {
 
     async getCalendars(): Promise<FetchResult<CalendarInfo[]>> {
         try {
-            const response = await fetch('/api/google/calendars');
+            const response = await this.request('/api/google/calendars');
 
             if (!response.ok) {
                 return {
@@ -81,14 +151,22 @@ export class GoogleCalendarProvider implements CalendarProvider {
             const data = await response.json();
 
             // Map Google's calendar format to our CalendarInfo
-            const calendars: CalendarInfo[] = data.items?.map((item: any) => ({
-                id: item.id,
-                name: item.summary,
-                color: item.backgroundColor || '#4285f4',
-                isReadOnly: item.accessRole === 'reader',
-                isPrimary: item.primary || false,
-                providerType: 'google' as const,
-            })) || [];
+            const calendars: CalendarInfo[] = data.items?.map((item: any) => {
+                this.calendarContexts.set(item.id, {
+                    timeZone: item.timeZone,
+                    defaultReminders: item.defaultReminders as GoogleReminder[] | undefined,
+                });
+                return {
+                    id: item.id,
+                    name: item.summary,
+                    color: item.backgroundColor || '#4285f4',
+                    isReadOnly: item.accessRole === 'reader',
+                    isPrimary: item.primary || false,
+                    providerType: 'google' as const,
+                    providerId: this.providerId,
+                    timeZone: item.timeZone,
+                };
+            }) || [];
 
             return {
                 data: calendars,
@@ -104,132 +182,488 @@ export class GoogleCalendarProvider implements CalendarProvider {
     }
 
     async fetchEvents(options: FetchEventsOptions): Promise<FetchResult<CalendarEvent[]>> {
-        const { startTime, endTime, calendarIds } = options;
+        const { startTime, endTime, calendarIds, signal } = options;
 
         try {
-            // Get selected calendar IDs from auth store if not specified
+            // Get this account's selected calendar IDs from auth store if not specified
             let calendarsToFetch = calendarIds;
             if (!calendarsToFetch || calendarsToFetch.length === 0) {
                 authStore.subscribe(s => {
-                    calendarsToFetch = s.selectedCalendarIds;
+                    calendarsToFetch = s.selectedCalendarIds.filter(id => this.hasCalendar(id));
                 })();
             }
 
-            // Fetch events from all selected calendars
+            // Load all selected calendars in one streamed request; one failing
+            // calendar doesn't fail the rest, and each is handed on as it arrives
             const allEvents: CalendarEvent[] = [];
+            const calendarErrors: CalendarError[] = [];
+            const pending = new Set(calendarsToFetch || []);
+
+            if (pending.size > 0) {
+                const params = new URLSearchParams({
+                    timeMin: new Date(startTime).toISOString(),
+                    timeMax: new Date(endTime).toISOString(),
+                });
+                for (const calId of pending) {
+                    params.append('calendarId', calId);
+                }
+
+                const response = await this.request(`/api/google/events-batch?${params}`, { signal });
+
+                if (response.ok && response.body) {
+                    await readEventStream(response.body, message => {
+                        pending.delete(message.calendarId);
+
+                        if (message.type === 'error') {
+                            calendarErrors.push({
+                                calendarId: message.calendarId,
+                                message: message.message,
+                                status: message.status,
+                                code: message.code,
+                                retryAfter: message.retryAfter,
+                            });
+                            return;
+                        }
+
+                        // The last page carries the token for later incremental syncs
+                        if (message.syncToken) {
+                            this.syncTokens.set(message.calendarId, message.syncToken);
+                        }
+                        allEvents.push(...message.events);
+                        options.onProgress?.(message.events);
+                    });
+                }
+
+                // Calendars the stream never answered for (failed request or cut-off stream)
+                const failure = response.ok ? null : await this.toCalendarError(response, '');
+                for (const calId of pending) {
+                    calendarErrors.push(failure
+                        ? { ...failure, calendarId: calId, message: `${calId}: ${response.status}` }
+                        : { calendarId: calId, message: `${calId}: incomplete response` });
+                }
+            }
+
+            return {
+                data: allEvents,
+                syncToken: this.encodeSyncTokens(),
+                hasMore: false,
+                error: calendarErrors.length > 0
+                    ? `Failed to fetch events (${calendarErrors.map(e => e.message).join(', ')})`
+                    : undefined,
+                calendarErrors,
+            };
+        } catch (err) {
+            if (isAbortError(err)) throw err;
+            return {
+                data: [],
+                hasMore: false,
+                error: err instanceof Error ? err.message : 'Unknown error',
+            };
+        }
+    }
+
+    /**
+     * Fetch a single event; the calendar ID is encoded in the event ID
+     * @returns null for unknown, deleted or non-Google event IDs
+     */
+    async getEvent(eventId: string): Promise<CalendarEvent | null> {
+        const parsed = parseGoogleEventId(eventId);
+        if (!parsed) return null;
 
-            for (const calId of calendarsToFetch || []) {
-                let pageToken: string | undefined;
+        try {
+            const params = new URLSearchParams({ calendarId: parsed.calendarId });
+            const response = await this.request(
+                `/api/google/events/${encodeURIComponent(parsed.eventId)}?${params}`
+            );
+
+            if (!response.ok) return null;
+
+            const item = await response.json();
+            if (item.status === 'cancelled') return null;
 
+            return this.mapEvents([item], parsed.calendarId)[0] ?? null;
+        } catch {
+            return null;
+        }
+    }
+
+    /**
+     * The series master, whose recurrence carries RRULE, EXDATE and RDATE.
+     * Modified instances are only known from the loaded (expanded) events.
+     */
+    async getRecurringSeries(seriesId: string): Promise<CalendarEvent[]> {
+        const master = await this.getEvent(seriesId);
+        return master ? [master] : [];
+    }
+
+    /**
+     * Fetch changes for every calendar in the sync token, or the given ones.
+     * Calendars whose token expired (410 Gone) are listed in resyncCalendarIds.
+     */
+    async fetchChanges(syncToken: string, calendarIds?: string[]): Promise<FetchResult<CalendarEvent[]>> {
+        const tokens = this.decodeSyncTokens(syncToken);
+        const changes: CalendarEvent[] = [];
+        const resyncCalendarIds: string[] = [];
+        const calendarErrors: CalendarError[] = [];
+
+        for (const [calId, token] of tokens) {
+            if (calendarIds && !calendarIds.includes(calId)) continue;
+
+            // Another sync may already have advanced this calendar
+            const currentToken = this.syncTokens.get(calId) ?? token;
+            let pageToken: string | undefined;
+            const calendarChanges: CalendarEvent[] = [];
+
+            try {
                 do {
                     const params = new URLSearchParams({
                         calendarId: calId,
-                        timeMin: new Date(startTime).toISOString(),
-                        timeMax: new Date(endTime).toISOString(),
+                        syncToken: currentToken,
                         singleEvents: 'true',
-                        maxResults: '2500',
                     });
+                    if (pageToken) params.set('pageToken', pageToken);
 
-                    if (pageToken) {
-                        params.set('pageToken', pageToken);
-                    }
+                    const response = await this.request(`/api/google/events?${params}`);
 
-                    const response = await fetch(`/api/google/events?${params}`);
+                    if (response.status === 410) {
+                        this.syncTokens.delete(calId);
+                        resyncCalendarIds.push(calId);
+                        calendarChanges.length = 0;
+                        break;
+                    }
 
                     if (!response.ok) {
-                        pageToken = undefined;
+                        calendarErrors.push(await this.toCalendarError(response, calId));
+                        calendarChanges.length = 0;
                         break;
                     }
 
                     const data = await response.json();
+                    const items: any[] = data.items || [];
 
-                    // Map Google's event format to our CalendarEvent
-                    const events = this.mapGoogleEvents(data.items || [], calId);
-                    allEvents.push(...events);
+                    for (const item of items.filter(i => i.status === 'cancelled')) {
+                        calendarChanges.push(this.createTombstone(item.id, calId));
+                    }
+                    calendarChanges.push(
+                        ...await this.mapPage(items.filter(i => i.status !== 'cancelled'), calId, data.timeZone)
+                    );
 
-                    // Continue if there are more pages
                     pageToken = data.nextPageToken;
+                    if (data.nextSyncToken) {
+                        this.syncTokens.set(calId, data.nextSyncToken);
+                    }
                 } while (pageToken);
+            } catch (err) {
+                calendarErrors.push({
+                    calendarId: calId,
+                    message: `${calId}: ${err instanceof Error ? err.message : 'Unknown error'}`,
+                });
+                calendarChanges.length = 0;
             }
 
-            return {
-                data: allEvents,
-                hasMore: false,
-            };
+            changes.push(...calendarChanges);
+        }
+
+        return {
+            data: changes,
+            syncToken: this.encodeSyncTokens(),
+            hasMore: false,
+            error: calendarErrors.length > 0
+                ? `Failed to sync (${calendarErrors.map(e => e.message).join(', ')})`
+                : undefined,
+            resyncCalendarIds,
+            calendarErrors,
+        };
+    }
+
+    // =========================================
+    // Write Operations
+    // =========================================
+
+    /**
+     * Create, update or delete an event and apply the result to the EventStore.
+     * Updates and deletes send the event's ETag; if the event changed in Google
+     * the result has `conflict` set and the store receives the current version.
+     * @throws Error if write access has not been granted
+     */
+    async executeWrite(operation: WriteOperation): Promise<FetchResult<CalendarEvent>> {
+        if (!this.supportsWrite) {
+            throw new Error('Write access to Google Calendar has not been granted');
+        }
+
+        const { type, event, calendarId } = operation;
+        const params = new URLSearchParams({ calendarId });
+
+        if (type !== 'create' && !event.id) {
+            throw new Error(`Event ID required for ${type}`);
+        }
+
+        try {
+            let response: Response;
+
+            if (type === 'create') {
+                response = await this.request(`/api/google/events?${params}`, {
+                    method: 'POST',
+                    headers: { 'Content-Type': 'application/json' },
+                    body: JSON.stringify(toGoogleEventResource(event, this.calendarContexts.get(calendarId)?.timeZone)),
+                });
+            } else {
+                const headers: Record<string, string> = {};
+                if (event.etag) headers['If-Match'] = event.etag;
+
+                const googleId = parseGoogleEventId(event.id!)?.eventId ?? event.id!;
+                const url = `/api/google/events/${encodeURIComponent(googleId)}?${params}`;
+
+                if (type === 'update') {
+                    headers['Content-Type'] = 'application/json';
+                    response = await this.request(url, {
+                        method: 'PATCH',
+                        headers,
+                        body: JSON.stringify(toGoogleEventResource(event, this.calendarContexts.get(calendarId)?.timeZone)),
+                    });
+                } else {
+                    response = await this.request(url, { method: 'DELETE', headers });
+                }
+            }
+
+            if (response.status === 412) {
+                const data = await response.json();
+                const current = data.current
+                    ? this.mapEvents([data.current], calendarId)[0]
+                    : undefined;
+
+                if (current) {
+                    eventStore.upsert([current]);
+                }
+
+                return {
+                    data: current ?? (event as CalendarEvent),
+                    hasMore: false,
+                    conflict: true,
+                    error: data.error || 'Event was modified in Google Calendar',
+                };
+            }
+
+            if (!response.ok) {
+                return {
+                    data: event as CalendarEvent,
+                    hasMore: false,
+                    error: `Failed to ${type} event: ${response.status}`,
+                };
+            }
+
+            if (type === 'delete') {
+                eventStore.remove([event.id!]);
+                return { data: event as CalendarEvent, hasMore: false };
+            }
+
+            const saved = this.mapEvents([await response.json()], calendarId)[0];
+            if (!saved) {
+                return { data: event as CalendarEvent, hasMore: false, error: 'Unexpected response from Google' };
+            }
+            eventStore.upsert([saved]);
+
+            return { data: saved, hasMore: false };
         } catch (err) {
             return {
-                data: [],
+                data: event as CalendarEvent,
                 hasMore: false,
                 error: err instanceof Error ? err.message : 'Unknown error',
             };
         }
     }
 
-    async getEvent(eventId: string): Promise<CalendarEvent | null> {
-        // Would need calendar ID to fetch single event
-        // For now, return null
-        return null;
-    }
-
     // =========================================
     // Helpers
     // =========================================
 
-    private mapGoogleEvents(items: any[], calendarId: string): CalendarEvent[] {
-        return items.map((item: any, index: number) => {
-            // Parse start/end times (can be date or dateTime)
-            const startTime = item.start?.dateTime
-                ? new Date(item.start.dateTime).getTime()
-                : new Date(item.start?.date || Date.now()).getTime();
+    /**
+     * Call a proxy route, keeping the auth state in sync with token refreshes.
+     * The server refreshes expired tokens itself; if Google still answers 401
+     * (e.g. a revoked token) an explicit refresh is tried once before retrying.
+     */
+    private async request(url: string, init?: RequestInit): Promise<Response> {
+        const accountUrl = this.withAccount(url);
+        let response = await fetch(accountUrl, init);
+
+        if (response.status === 401 && await this.refreshToken()) {
+            response = await fetch(accountUrl, init);
+        }
 
-            const endTime = item.end?.dateTime
-                ? new Date(item.end.dateTime).getTime()
-                : new Date(item.end?.date || Date.now()).getTime();
+        const expiresAt = response.headers.get('X-Google-Token-Expires-At');
+        if (expiresAt) {
+            authStore.updateToken(this.accountId, parseInt(expiresAt, 10));
+            authStore.subscribe(saveAuthState)();
+        }
 
-            // Calculate duration-based importance
-            const durationMs = endTime - startTime;
-            const durationHours = durationMs / (1000 * 60 * 60);
-            const durationImportance = Math.min(durationHours / 8, 1); // Max at 8 hours
+        return response;
+    }
 
-            return {
-                id: `google-${item.id}`,
-                title: item.summary || 'Untitled',
-                description: item.description,
-                startTime,
-                endTime,
-                color: item.colorId ? this.getEventColor(item.colorId) : '#4285f4',
-                category: calendarId,
-                importance: {
-                    duration: durationImportance,
-                    aiScore: 0.5,
-                    manual: 0.5,
-                    effective: durationImportance * 0.5 + 0.25,
-                },
-                isLifeEvent: durationHours >= 24, // All-day events
-            };
-        });
-    }
-
-    private getEventColor(colorId: string): string {
-        // Google Calendar event color IDs
-        const colors: Record<string, string> = {
-            '1': '#a4bdfc', // Lavender
-            '2': '#7ae7bf', // Sage
-            '3': '#dbadff', // Grape
-            '4': '#ff887c', // Flamingo
-            '5': '#fbd75b', // Banana
-            '6': '#ffb878', // Tangerine
-            '7': '#46d6db', // Peacock
-            '8': '#e1e1e1', // Graphite
-            '9': '#5484ed', // Blueberry
-            '10': '#51b749', // Basil
-            '11': '#dc2127', // Tomato
+    /**
+     * Describe a failed proxy response, with the error code and retry delay
+     * the route sent
+     */
+    private async toCalendarError(response: Response, calendarId: string): Promise<CalendarError> {
+        const body = await response.json().catch(() => null) as { code?: ProviderErrorCode; retryAfter?: number } | null;
+        return {
+            calendarId,
+            message: `${calendarId}: ${response.status}`,
+            status: response.status,
+            code: body?.code,
+            retryAfter: body?.retryAfter,
+        };
+    }
+
+    /**
+     * Add the account parameter to a proxy or auth route URL
+     */
+    private withAccount(url: string): string {
+        const separator = url.includes('?') ? '&' : '?';
+        return `${url}${separator}account=${encodeURIComponent(this.accountId)}`;
+    }
+
+    /**
+     * Ask the server for a new access token
+     * @returns false if the session can't be refreshed
+     */
+    private async refreshToken(): Promise<boolean> {
+        try {
+            const response = await fetch(this.withAccount('/auth/google/refresh'), { method: 'POST' });
+            const data = await response.json();
+
+            if (!response.ok) {
+                if (data.reconsent) {
+                    authStore.requireReconsent(this.accountId);
+                    authStore.subscribe(saveAuthState)();
+                }
+                return false;
+            }
+
+            authStore.updateToken(this.accountId, data.expiresAt, (data.scope || '').split(' ').filter(Boolean));
+            authStore.subscribe(saveAuthState)();
+            return true;
+        } catch {
+            return false;
+        }
+    }
+
+    /**
+     * Placeholder for a cancelled event, so consumers can drop it by ID
+     */
+    private createTombstone(googleId: string, calendarId: string): CalendarEvent {
+        return {
+            id: buildGoogleEventId(calendarId, googleId),
+            title: '',
+            startTime: 0,
+            endTime: 0,
+            color: '#4285f4',
+            category: calendarId,
+            source: 'google',
+            importance: { duration: 0, aiScore: 0.5, manual: 0.5, effective: 0.25 },
+            isLifeEvent: false,
+            status: 'cancelled',
+        };
+    }
+
+    private encodeSyncTokens(): string | undefined {
+        if (this.syncTokens.size === 0) return undefined;
+        return JSON.stringify(Object.fromEntries(this.syncTokens));
+    }
+
+    private decodeSyncTokens(syncToken: string): Map<string, string> {
+        try {
+            return new Map(Object.entries(JSON.parse(syncToken) as Record<string, string>));
+        } catch {
+            return new Map();
+        }
+    }
+
+    /**
+     * Map Google event resources using the calendar's time zone and reminders
+     * @param timeZone Zone from the events list response (overrides the cached one)
+     */
+    private mapEvents(items: any[], calendarId: string, timeZone?: string): CalendarEvent[] {
+        return mapGoogleEvents(items, this.getMappingContext(calendarId, timeZone));
+    }
+
+    /**
+     * Map a page of event resources in the event worker, off the main thread
+     */
+    private mapPage(items: any[], calendarId: string, timeZone?: string): Promise<CalendarEvent[]> {
+        return eventPipeline.mapGoogleEvents(items, this.getMappingContext(calendarId, timeZone));
+    }
+
+    private getMappingContext(calendarId: string, timeZone?: string): GoogleMappingContext {
+        const cached = this.calendarContexts.get(calendarId);
+        return {
+            calendarId,
+            timeZone: timeZone || cached?.timeZone,
+            defaultReminders: cached?.defaultReminders,
         };
-        return colors[colorId] || '#4285f4';
     }
 }
 
+// =========================================
+// Accounts
+// =========================================
+
+/**
+ * Registry ID of the provider serving a Google account
+ */
+export function googleProviderId(accountId: string): string {
+    return `google:${accountId}`;
+}
+
+/**
+ * Provider of a connected account
+ */
+export function getGoogleProvider(accountId: string): GoogleCalendarProvider | undefined {
+    const provider = providerRegistry.get(googleProviderId(accountId));
+    return provider instanceof GoogleCalendarProvider ? provider : undefined;
+}
+
+/**
+ * Providers of all connected accounts
+ */
+export function getGoogleProviders(): GoogleCalendarProvider[] {
+    return providerRegistry
+        .getAll()
+        .filter((p): p is GoogleCalendarProvider => p instanceof GoogleCalendarProvider);
+}
+
 /**
- * Singleton instance
+ * Fetch a Google event by ID from the account that owns its calendar.
+ * If calendar lists haven't been loaded yet, every account is tried.
  */
-export const googleProvider = new GoogleCalendarProvider();
+export async function fetchGoogleEvent(eventId: string): Promise<CalendarEvent | null> {
+    const parsed = parseGoogleEventId(eventId);
+    if (!parsed) return null;
+
+    const providers = getGoogleProviders();
+    const owner = providers.find(p => p.hasCalendar(parsed.calendarId));
+    for (const provider of owner ? [owner] : providers) {
+        const event = await provider.getEvent(eventId);
+        if (event) return event;
+    }
+    return null;
+}
+
+// Keep one registered provider per connected account
+authStore.subscribe(state => {
+    for (const account of state.accounts) {
+        if (!getGoogleProvider(account.id)) {
+            providerRegistry.register(
+                googleProviderId(account.id),
+                new GoogleCalendarProvider(account.id, account.email)
+            );
+        }
+    }
+
+    for (const provider of getGoogleProviders()) {
+        if (!state.accounts.some(a => a.id === provider.accountId)) {
+            providerRegistry.unregister(provider.providerId);
+            providerHealthStore.remove(provider.providerId);
+            persistentEventCache.clearProvider(provider.providerId);
+        }
+    }
+});
@@ -0,0 +1,162 @@
+/**
+ * GoogleEventMapper Unit Tests
+ *
+ * Tests mapping Google event resources to CalendarEvents and back.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+    buildGoogleEventId,
+    mapGoogleEvent,
+    parseGoogleEventId,
+    toGoogleEventResource,
+    type GoogleEvent,
+} from './GoogleEventMapper';
+
+const CONTEXT = { calendarId: 'work@example.com', timeZone: 'Europe/Amsterdam' };
+
+// Helper to create Google event resources
+function createItem(overrides: Partial<GoogleEvent>): GoogleEvent {
+    return {
+        id: 'abc123',
+        summary: 'Standup',
+        start: { dateTime: '2024-01-15T09:00:00Z' },
+        end: { dateTime: '2024-01-15T09:15:00Z' },
+        ...overrides,
+    };
+}
+
+describe('GoogleEventMapper', () => {
+    describe('event IDs', () => {
+        it('should round-trip calendar and event IDs', () => {
+            const id = buildGoogleEventId('work@example.com', 'abc123');
+            expect(id).toBe('google:work@example.com:abc123');
+            expect(parseGoogleEventId(id)).toEqual({ calendarId: 'work@example.com', eventId: 'abc123' });
+        });
+
+        it('should handle calendar IDs containing colons', () => {
+            const id = buildGoogleEventId('a:b@group.calendar.google.com', 'xyz');
+            expect(parseGoogleEventId(id)?.calendarId).toBe('a:b@group.calendar.google.com');
+        });
+
+        it('should reject non-Google IDs', () => {
+            expect(parseGoogleEventId('ics:feed:1')).toBeNull();
+            expect(parseGoogleEventId('google:')).toBeNull();
+        });
+    });
+
+    describe('mapGoogleEvent', () => {
+        it('should read all-day dates in the calendar time zone', () => {
+            const event = mapGoogleEvent(createItem({
+                start: { date: '2024-01-15' },
+                end: { date: '2024-01-16' },
+            }), CONTEXT);
+
+            expect(event?.allDay).toBe(true);
+            // Midnight in Amsterdam (UTC+1 in winter)
+            expect(event?.startTime).toBe(Date.UTC(2024, 0, 14, 23, 0));
+            expect(event?.endTime).toBe(Date.UTC(2024, 0, 15, 23, 0));
+        });
+
+        it('should map attendees, skipping resources', () => {
+            const event = mapGoogleEvent(createItem({
+                attendees: [
+                    { email: 'ann@example.com', displayName: 'Ann', responseStatus: 'accepted', organizer: true },
+                    { email: 'bob@example.com', responseStatus: 'needsAction' },
+                    { email: 'room@resource.calendar.google.com', resource: true },
+                ],
+            }), CONTEXT);
+
+            expect(event?.attendees).toEqual([
+                { name: 'Ann', email: 'ann@example.com', status: 'accepted', isOrganizer: true },
+                { name: 'bob@example.com', email: 'bob@example.com', status: 'pending', isOrganizer: false },
+            ]);
+        });
+
+        it('should map status, links and timestamps', () => {
+            const event = mapGoogleEvent(createItem({
+                status: 'tentative',
+                htmlLink: 'https://calendar.google.com/event?eid=abc',
+                created: '2024-01-01T00:00:00Z',
+                updated: '2024-01-02T00:00:00Z',
+                location: 'Room 4',
+                organizer: { email: 'ann@example.com' },
+                recurrence: ['EXDATE:20240122T090000Z', 'RRULE:FREQ=WEEKLY;BYDAY=MO'],
+            }), CONTEXT);
+
+            expect(event?.status).toBe('tentative');
+            expect(event?.htmlLink).toBe('https://calendar.google.com/event?eid=abc');
+            expect(event?.createdAt).toBe(Date.UTC(2024, 0, 1));
+            expect(event?.updatedAt).toBe(Date.UTC(2024, 0, 2));
+            expect(event?.location).toEqual({ name: 'Room 4' });
+            expect(event?.organizer).toBe('ann@example.com');
+            expect(event?.recurrenceRule).toBe('FREQ=WEEKLY;BYDAY=MO');
+            expect(event?.recurrenceExceptions).toEqual([Date.UTC(2024, 0, 22, 9)]);
+        });
+
+        it('should take the conference URL from conferenceData', () => {
+            const event = mapGoogleEvent(createItem({
+                conferenceData: {
+                    entryPoints: [
+                        { entryPointType: 'phone', uri: 'tel:+1-555-0100' },
+                        { entryPointType: 'video', uri: 'https://zoom.example/j/1' },
+                    ],
+                },
+            }), CONTEXT);
+
+            expect(event?.conferenceUrl).toBe('https://zoom.example/j/1');
+        });
+
+        it('should use calendar default reminders when useDefault is set', () => {
+            const event = mapGoogleEvent(createItem({ reminders: { useDefault: true } }), {
+                ...CONTEXT,
+                defaultReminders: [{ method: 'popup', minutes: 10 }],
+            });
+
+            expect(event?.reminders).toEqual([{ method: 'popup', minutesBefore: 10 }]);
+        });
+
+        it('should link instances to their series', () => {
+            const event = mapGoogleEvent(createItem({
+                id: 'abc123_20240115T090000Z',
+                recurringEventId: 'abc123',
+                originalStartTime: { dateTime: '2024-01-15T09:00:00Z' },
+            }), CONTEXT);
+
+            expect(event?.id).toBe('google:work@example.com:abc123_20240115T090000Z');
+            expect(event?.recurringEventId).toBe('google:work@example.com:abc123');
+            expect(event?.originalStartTime).toBe(Date.UTC(2024, 0, 15, 9));
+        });
+
+        it('should skip events without a start time', () => {
+            expect(mapGoogleEvent(createItem({ start: {} }), CONTEXT)).toBeNull();
+        });
+    });
+
+    describe('toGoogleEventResource', () => {
+        it('should only include fields that are present', () => {
+            expect(toGoogleEventResource({ title: 'Renamed' })).toEqual({ summary: 'Renamed' });
+        });
+
+        it('should write all-day dates in the calendar time zone', () => {
+            const body = toGoogleEventResource({
+                startTime: Date.UTC(2024, 0, 14, 23, 0),
+                endTime: Date.UTC(2024, 0, 15, 23, 0),
+                allDay: true,
+            }, 'Europe/Amsterdam');
+
+            expect(body.start).toEqual({ date: '2024-01-15', dateTime: null });
+            expect(body.end).toEqual({ date: '2024-01-16', dateTime: null });
+        });
+
+        it('should map reminders and attendees back', () => {
+            const body = toGoogleEventResource({
+                reminders: [{ method: 'email', minutesBefore: 30 }, { method: 'sms', minutesBefore: 5 }],
+                attendees: [{ name: 'Bob', email: 'bob@example.com', status: 'pending' }],
+            });
+
+            expect(body.reminders).toEqual({ useDefault: false, overrides: [{ method: 'email', minutes: 30 }] });
+            expect(body.attendees).toEqual([{ email: 'bob@example.com', displayName: 'Bob', responseStatus: 'needsAction' }]);
+        });
+    });
+});
@@ -0,0 +1,317 @@
+/**
+ * GoogleEventMapper - Converts between Google Calendar event resources
+ * and CalendarEvents
+ *
+ * Maps every field CalendarEvent supports. Date-only start/end values
+ * (all-day events) are interpreted in the calendar's time zone, so an
+ * all-day event covers the local day rather than UTC midnight to midnight.
+ */
+
+import type { CalendarEvent } from '$lib/types/Event';
+import { computeDurationImportance } from '$lib/events/importance';
+import { epochToWallClock, startOfDayInZone } from '$lib/utils/timeZone';
+import { parseRecurrenceLines } from '$lib/ical/IcsParser';
+
+/**
+ * Subset of the Google Calendar API event resource that we read
+ * See https://developers.google.com/calendar/api/v3/reference/events
+ */
+export interface GoogleEvent {
+    id: string;
+    etag?: string;
+    status?: string;
+    htmlLink?: string;
+    created?: string;
+    updated?: string;
+    summary?: string;
+    description?: string;
+    location?: string;
+    colorId?: string;
+    organizer?: { email?: string; displayName?: string };
+    start?: GoogleEventTime;
+    end?: GoogleEventTime;
+    recurrence?: string[];
+    recurringEventId?: string;
+    originalStartTime?: GoogleEventTime;
+    attendees?: {
+        email?: string;
+        displayName?: string;
+        organizer?: boolean;
+        resource?: boolean;
+        responseStatus?: string;
+    }[];
+    hangoutLink?: string;
+    conferenceData?: {
+        entryPoints?: { entryPointType?: string; uri?: string }[];
+    };
+    reminders?: {
+        useDefault?: boolean;
+        overrides?: GoogleReminder[];
+    };
+}
+
+export interface GoogleEventTime {
+    /** All-day events: YYYY-MM-DD */
+    date?: string | null;
+    /** Timed events: RFC 3339 */
+    dateTime?: string | null;
+    timeZone?: string;
+}
+
+export interface GoogleReminder {
+    method: string;
+    minutes: number;
+}
+
+/**
+ * Calendar-level context needed to map events
+ */
+export interface GoogleMappingContext {
+    calendarId: string;
+    /** Calendar time zone (IANA), used for all-day events */
+    timeZone?: string;
+    /** Calendar default reminders, used when an event has useDefault */
+    defaultReminders?: GoogleReminder[];
+}
+
+/** Google Calendar event color IDs */
+const EVENT_COLORS: Record<string, string> = {
+    '1': '#a4bdfc', // Lavender
+    '2': '#7ae7bf', // Sage
+    '3': '#dbadff', // Grape
+    '4': '#ff887c', // Flamingo
+    '5': '#fbd75b', // Banana
+    '6': '#ffb878', // Tangerine
+    '7': '#46d6db', // Peacock
+    '8': '#e1e1e1', // Graphite
+    '9': '#5484ed', // Blueberry
+    '10': '#51b749', // Basil
+    '11': '#dc2127', // Tomato
+};
+
+const DEFAULT_COLOR = '#4285f4';
+
+const RESPONSE_STATUS_MAP: Record<string, 'accepted' | 'declined' | 'tentative' | 'pending'> = {
+    accepted: 'accepted',
+    declined: 'declined',
+    tentative: 'tentative',
+    needsAction: 'pending',
+};
+
+const STATUS_MAP: Record<string, 'confirmed' | 'tentative' | 'cancelled'> = {
+    confirmed: 'confirmed',
+    tentative: 'tentative',
+    cancelled: 'cancelled',
+};
+
+// =========================================
+// Event IDs
+// =========================================
+
+/**
+ * Build our event ID from the calendar and Google event IDs
+ * (e.g. "google:work@example.com:abc123")
+ */
+export function buildGoogleEventId(calendarId: string, googleEventId: string): string {
+    return `google:${calendarId}:${googleEventId}`;
+}
+
+/**
+ * Split an event ID from buildGoogleEventId into its parts.
+ * Google event IDs never contain colons, so the last colon is the separator.
+ * @returns null if the ID is not a Google event ID
+ */
+export function parseGoogleEventId(eventId: string): { calendarId: string; eventId: string } | null {
+    if (!eventId.startsWith('google:')) return null;
+
+    const separator = eventId.lastIndexOf(':');
+    if (separator <= 'google:'.length) return null;
+
+    return {
+        calendarId: eventId.slice('google:'.length, separator),
+        eventId: eventId.slice(separator + 1),
+    };
+}
+
+// =========================================
+// Google -> CalendarEvent
+// =========================================
+
+/**
+ * Parse a start/end value; dates are midnight in the given zone
+ */
+export function parseGoogleTime(value: GoogleEventTime | undefined, timeZone?: string): number | null {
+    if (value?.dateTime) {
+        const time = Date.parse(value.dateTime);
+        return Number.isNaN(time) ? null : time;
+    }
+
+    const match = value?.date ? /^(-?\d+)-(\d{2})-(\d{2})$/.exec(value.date) : null;
+    if (!match) return null;
+
+    return startOfDayInZone(
+        parseInt(match[1], 10),
+        parseInt(match[2], 10),
+        parseInt(match[3], 10),
+        value?.timeZone || timeZone
+    );
+}
+
+function parseTimestamp(value: string | undefined): number | undefined {
+    if (!value) return undefined;
+    const time = Date.parse(value);
+    return Number.isNaN(time) ? undefined : time;
+}
+
+function mapReminders(item: GoogleEvent, context: GoogleMappingContext): CalendarEvent['reminders'] {
+    const source = item.reminders?.useDefault
+        ? context.defaultReminders
+        : item.reminders?.overrides;
+
+    if (!source || source.length === 0) return undefined;
+
+    return source.map(r => ({
+        method: r.method === 'email' ? 'email' as const : 'popup' as const,
+        minutesBefore: r.minutes,
+    }));
+}
+
+function mapAttendees(item: GoogleEvent): CalendarEvent['attendees'] {
+    // Rooms and other resources are not people
+    const attendees = (item.attendees || [])
+        .filter(a => !a.resource)
+        .map(a => ({
+            name: a.displayName || a.email || 'Unknown',
+            email: a.email,
+            status: RESPONSE_STATUS_MAP[a.responseStatus ?? ''] ?? 'pending',
+            isOrganizer: a.organizer === true,
+        }));
+
+    return attendees.length > 0 ? attendees : undefined;
+}
+
+function mapConferenceUrl(item: GoogleEvent): string | undefined {
+    if (item.hangoutLink) return item.hangoutLink;
+    return item.conferenceData?.entryPoints?.find(e => e.entryPointType === 'video')?.uri;
+}
+
+/**
+ * Map a Google event resource to a CalendarEvent
+ * @returns null if the event has no usable start time
+ */
+export function mapGoogleEvent(item: GoogleEvent, context: GoogleMappingContext): CalendarEvent | null {
+    const allDay = !item.start?.dateTime && !!item.start?.date;
+    const startTime = parseGoogleTime(item.start, context.timeZone);
+    if (startTime === null) return null;
+
+    const endTime = Math.max(parseGoogleTime(item.end, context.timeZone) ?? startTime, startTime);
+    const durationHours = (endTime - startTime) / (1000 * 60 * 60);
+    const recurrence = item.recurrence ? parseRecurrenceLines(item.recurrence, context.timeZone) : undefined;
+
+    return {
+        id: buildGoogleEventId(context.calendarId, item.id),
+        title: item.summary || 'Untitled',
+        description: item.description,
+        startTime,
+        endTime,
+        color: item.colorId ? EVENT_COLORS[item.colorId] || DEFAULT_COLOR : DEFAULT_COLOR,
+        category: context.calendarId,
+        source: 'google',
+        etag: item.etag,
+        importance: computeDurationImportance(startTime, endTime),
+        isLifeEvent: durationHours >= 24, // All-day events
+        allDay,
+        location: item.location ? { name: item.location } : undefined,
+        attendees: mapAttendees(item),
+        organizer: item.organizer?.email,
+        reminders: mapReminders(item, context),
+        recurrenceRule: recurrence?.recurrenceRule,
+        recurrenceExceptions: recurrence?.recurrenceExceptions,
+        recurrenceDates: recurrence?.recurrenceDates,
+        recurringEventId: item.recurringEventId
+            ? buildGoogleEventId(context.calendarId, item.recurringEventId)
+            : undefined,
+        originalStartTime: parseGoogleTime(item.originalStartTime, context.timeZone) ?? undefined,
+        status: STATUS_MAP[item.status ?? ''],
+        conferenceUrl: mapConferenceUrl(item),
+        htmlLink: item.htmlLink,
+        createdAt: parseTimestamp(item.created),
+        updatedAt: parseTimestamp(item.updated),
+    };
+}
+
+/**
+ * Map a list of Google event resources, dropping unusable ones
+ */
+export function mapGoogleEvents(items: GoogleEvent[], context: GoogleMappingContext): CalendarEvent[] {
+    const events: CalendarEvent[] = [];
+    for (const item of items) {
+        const event = mapGoogleEvent(item, context);
+        if (event) events.push(event);
+    }
+    return events;
+}
+
+// =========================================
+// CalendarEvent -> Google
+// =========================================
+
+/**
+ * Google start/end object; all-day events use the date in the calendar's zone.
+ * The unused field is nulled so PATCH can switch between the two.
+ */
+export function toGoogleTime(ms: number, allDay?: boolean, timeZone?: string): GoogleEventTime {
+    if (allDay) {
+        const { year, month, day } = epochToWallClock(ms, timeZone);
+        const date = `${String(year).padStart(4, '0')}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+        return { date, dateTime: null };
+    }
+    return { dateTime: new Date(ms).toISOString(), date: null };
+}
+
+/**
+ * Build a Google event resource from the fields present on a (partial) event.
+ * Absent fields are left out so PATCH only touches what changed.
+ */
+export function toGoogleEventResource(event: Partial<CalendarEvent>, timeZone?: string): Record<string, unknown> {
+    const body: Record<string, unknown> = {};
+
+    if (event.title !== undefined) body.summary = event.title;
+    if (event.description !== undefined) body.description = event.description;
+    if (event.status !== undefined) body.status = event.status;
+
+    if (event.startTime !== undefined) body.start = toGoogleTime(event.startTime, event.allDay, timeZone);
+    if (event.endTime !== undefined) body.end = toGoogleTime(event.endTime, event.allDay, timeZone);
+
+    if (event.location !== undefined) {
+        body.location = event.location.name ?? event.location.address ?? '';
+    }
+
+    if (event.recurrenceRule !== undefined) {
+        body.recurrence = event.recurrenceRule
+            ? [`RRULE:${event.recurrenceRule.replace(/^RRULE:/i, '')}`]
+            : [];
+    }
+
+    if (event.attendees !== undefined) {
+        body.attendees = event.attendees
+            .filter(a => a.email)
+            .map(a => ({
+                email: a.email,
+                displayName: a.name,
+                responseStatus: a.status === 'pending' || !a.status ? 'needsAction' : a.status,
+            }));
+    }
+
+    if (event.reminders !== undefined) {
+        body.reminders = {
+            useDefault: false,
+            // Google no longer supports SMS reminders
+            overrides: event.reminders
+                .filter(r => r.method !== 'sms')
+                .map(r => ({ method: r.method, minutes: r.minutesBefore })),
+        };
+    }
+
+    return body;
+}
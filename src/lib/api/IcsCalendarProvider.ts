@@ -0,0 +1,192 @@
+/**
+ * IcsCalendarProvider - Serves events from imported iCalendar (.ics) files
+ *
+ * Implements the CalendarProvider interface.
+ * Each imported file becomes its own calendar (and therefore its own lane).
+ * Files are parsed once on import and kept in memory; recurring events
+ * are expanded per requested range.
+ */
+
+import type { CalendarEvent } from '$lib/types/Event';
+import type {
+    CalendarProvider,
+    ProviderType,
+    AuthState,
+    CalendarInfo,
+    FetchEventsOptions,
+    FetchResult,
+} from './CalendarProvider';
+import { providerRegistry } from './CalendarProvider';
+import { parseIcs } from '$lib/ical/IcsParser';
+import { expandEvents, getSeriesEvents } from '$lib/events/recurrence';
+
+/** Colors assigned to imported calendars that don't define their own */
+const IMPORT_COLORS = ['#E3B8D4', '#B8E3D4', '#E3D4B8', '#B8D4E3', '#D4B8E3', '#D4E3B8'];
+
+/**
+ * Imported calendar with its parsed events
+ */
+interface ImportedCalendar {
+    info: CalendarInfo;
+    events: CalendarEvent[];
+}
+
+/**
+ * Minimal file shape accepted by importFile (File satisfies it)
+ */
+export interface IcsFileSource {
+    name: string;
+    text(): Promise<string>;
+}
+
+/**
+ * Build a calendar ID from a file name, unique within this provider
+ */
+function slugify(name: string): string {
+    return name
+        .replace(/\.ics$/i, '')
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, '-')
+        .replace(/^-|-$/g, '') || 'calendar';
+}
+
+/**
+ * iCalendar file provider
+ */
+export class IcsCalendarProvider implements CalendarProvider {
+    readonly type: ProviderType = 'ics';
+    readonly name = 'Imported Files';
+    readonly supportsWrite = false; // Imports are read-only snapshots
+
+    private calendars = new Map<string, ImportedCalendar>();
+
+    // =========================================
+    // Authentication (no-op for local files)
+    // =========================================
+
+    getAuthState(): AuthState {
+        return {
+            isAuthenticated: true,
+            scopes: ['read'],
+        };
+    }
+
+    async authenticate(): Promise<AuthState> {
+        return this.getAuthState();
+    }
+
+    async signOut(): Promise<void> {
+        this.calendars.clear();
+    }
+
+    // =========================================
+    // Import
+    // =========================================
+
+    /**
+     * Parse an .ics file and register it as a calendar
+     * @returns The calendar created for the file
+     * @throws Error if the file contains no events
+     */
+    async importFile(file: IcsFileSource): Promise<CalendarInfo> {
+        const text = await file.text();
+        return this.importText(text, file.name);
+    }
+
+    /**
+     * Parse iCalendar text and register it as a calendar
+     */
+    importText(text: string, fileName: string): CalendarInfo {
+        let id = `ics-${slugify(fileName)}`;
+        for (let n = 2; this.calendars.has(id); n++) {
+            id = `ics-${slugify(fileName)}-${n}`;
+        }
+
+        const fallbackColor = IMPORT_COLORS[this.calendars.size % IMPORT_COLORS.length];
+        const parsed = parseIcs(text, { calendarId: id, color: fallbackColor });
+
+        if (parsed.events.length === 0) {
+            throw new Error(`No events found in ${fileName}`);
+        }
+
+        const info: CalendarInfo = {
+            id,
+            name: parsed.name || fileName.replace(/\.ics$/i, ''),
+            color: parsed.color || fallbackColor,
+            isReadOnly: true,
+            isPrimary: false,
+            providerType: 'ics',
+        };
+
+        this.calendars.set(id, { info, events: parsed.events });
+        return info;
+    }
+
+    /**
+     * Remove an imported calendar
+     */
+    removeCalendar(calendarId: string): void {
+        this.calendars.delete(calendarId);
+    }
+
+    // =========================================
+    // Read Operations
+    // =========================================
+
+    async getCalendars(): Promise<FetchResult<CalendarInfo[]>> {
+        return {
+            data: Array.from(this.calendars.values()).map(c => c.info),
+            hasMore: false,
+        };
+    }
+
+    async fetchEvents(options: FetchEventsOptions): Promise<FetchResult<CalendarEvent[]>> {
+        const { startTime, endTime, calendarIds, limit, expandRecurring = true } = options;
+
+        let filtered: CalendarEvent[] = [];
+        for (const [id, calendar] of this.calendars) {
+            if (calendarIds && calendarIds.length > 0 && !calendarIds.includes(id)) continue;
+            if (expandRecurring) {
+                filtered.push(...expandEvents(calendar.events, startTime, endTime));
+                continue;
+            }
+            for (const event of calendar.events) {
+                if (event.endTime > startTime && event.startTime < endTime) {
+                    filtered.push(event);
+                }
+            }
+        }
+
+        const hasMore = limit !== undefined && filtered.length > limit;
+        if (hasMore) {
+            filtered = filtered.slice(0, limit);
+        }
+
+        return {
+            data: filtered,
+            hasMore,
+        };
+    }
+
+    async getEvent(eventId: string): Promise<CalendarEvent | null> {
+        for (const calendar of this.calendars.values()) {
+            const event = calendar.events.find(e => e.id === eventId);
+            if (event) return event;
+        }
+        return null;
+    }
+
+    async getRecurringSeries(seriesId: string): Promise<CalendarEvent[]> {
+        for (const calendar of this.calendars.values()) {
+            const series = getSeriesEvents(calendar.events, seriesId);
+            if (series.length > 0) return series;
+        }
+        return [];
+    }
+}
+
+/**
+ * Singleton instance, registered with the global provider registry
+ */
+export const icsProvider = new IcsCalendarProvider();
+providerRegistry.register('ics', icsProvider, true);
@@ -0,0 +1,90 @@
+/**
+ * LiveUpdates Unit Tests
+ *
+ * Tests opening one stream per Google account, reopening it when the
+ * account's calendars change and passing changed calendars on.
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import type { CalendarInfo } from './CalendarProvider';
+import { LiveUpdates } from './LiveUpdates';
+
+// EventSource stand-in that records its URL and can be sent events
+class FakeEventSource extends EventTarget {
+    readonly CLOSED = 2;
+    readyState = 1;
+
+    constructor(readonly url: string) {
+        super();
+    }
+
+    emit(event: string, data: unknown) {
+        this.dispatchEvent(new MessageEvent(event, { data: JSON.stringify(data) }));
+    }
+
+    close() {
+        this.readyState = this.CLOSED;
+    }
+}
+
+function calendar(id: string, accountId: string | null): CalendarInfo {
+    return {
+        id,
+        name: id,
+        color: '#4285f4',
+        isReadOnly: false,
+        isPrimary: false,
+        providerType: accountId ? 'google' : 'caldav',
+        providerId: accountId ? `google:${accountId}` : undefined,
+    };
+}
+
+function setup() {
+    const sources: FakeEventSource[] = [];
+    const onChanges = vi.fn();
+    const live = new LiveUpdates(onChanges, url => {
+        const source = new FakeEventSource(url);
+        sources.push(source);
+        return source as unknown as EventSource;
+    });
+    return { live, sources, onChanges };
+}
+
+describe('LiveUpdates', () => {
+    it('should open one stream per Google account', () => {
+        const { live, sources } = setup();
+
+        live.setCalendars([calendar('work', '1'), calendar('home', '1'), calendar('team', '2'), calendar('dav', null)]);
+
+        expect(sources.map(s => s.url)).toEqual([
+            '/api/google/live?account=1&calendarId=home&calendarId=work',
+            '/api/google/live?account=2&calendarId=team',
+        ]);
+    });
+
+    it('should reopen only streams whose calendars changed', () => {
+        const { live, sources } = setup();
+        live.setCalendars([calendar('work', '1'), calendar('team', '2')]);
+
+        live.setCalendars([calendar('work', '1'), calendar('home', '1')]);
+
+        expect(sources[0].readyState).toBe(2);
+        expect(sources[1].readyState).toBe(2);
+        expect(sources[2].url).toContain('calendarId=home&calendarId=work');
+        expect(live.streamCount).toBe(1);
+    });
+
+    it('should pass changed calendars on', () => {
+        const { live, sources, onChanges } = setup();
+        live.setCalendars([calendar('work', '1')]);
+
+        sources[0].emit('ready', { mode: 'push' });
+        sources[0].emit('changed', { calendarIds: ['work'] });
+
+        expect(onChanges).toHaveBeenCalledTimes(1);
+        expect(onChanges).toHaveBeenCalledWith(['work']);
+
+        live.disconnect();
+        expect(sources[0].readyState).toBe(2);
+    });
+});
@@ -0,0 +1,116 @@
+/**
+ * LiveUpdates - Keeps the timeline in step with changes made elsewhere
+ *
+ * Holds one Server-Sent Events stream per connected Google account open
+ * for its selected calendars (see the live route). When the server reports
+ * changed calendars, EventLoader pulls their deltas. If a stream can't be
+ * opened, the periodic sync still picks changes up, just later.
+ */
+
+import type { CalendarInfo } from './CalendarProvider';
+import type { LiveStreamEvents } from './liveStream';
+import { eventLoader } from './EventLoader';
+
+/** Opens an event stream (EventSource in browsers) */
+export type EventSourceFactory = (url: string) => EventSource;
+
+/** Called with the IDs of calendars that changed */
+export type ChangesHandler = (calendarIds: string[]) => void;
+
+/**
+ * Google account ID of a calendar, or null for other providers
+ */
+function getGoogleAccountId(calendar: CalendarInfo): string | null {
+    if (calendar.providerType !== 'google' || !calendar.providerId?.startsWith('google:')) {
+        return null;
+    }
+    return calendar.providerId.slice('google:'.length);
+}
+
+export class LiveUpdates {
+    private onChanges: ChangesHandler;
+    private createSource: EventSourceFactory | null;
+
+    /** Open streams by account ID, with the URL they were opened for */
+    private streams = new Map<string, { url: string; source: EventSource }>();
+
+    constructor(
+        onChanges: ChangesHandler,
+        createSource: EventSourceFactory | null = typeof EventSource === 'undefined' ? null : url => new EventSource(url)
+    ) {
+        this.onChanges = onChanges;
+        this.createSource = createSource;
+    }
+
+    /**
+     * Stream changes of these calendars: streams of accounts whose calendars
+     * changed are reopened, those of accounts no longer selected closed
+     */
+    setCalendars(calendars: CalendarInfo[]): void {
+        const calendarIdsByAccount = new Map<string, string[]>();
+        for (const calendar of calendars) {
+            const accountId = getGoogleAccountId(calendar);
+            if (accountId) {
+                calendarIdsByAccount.set(accountId, [...(calendarIdsByAccount.get(accountId) ?? []), calendar.id]);
+            }
+        }
+
+        for (const [accountId, stream] of Array.from(this.streams)) {
+            if (!calendarIdsByAccount.has(accountId)) {
+                stream.source.close();
+                this.streams.delete(accountId);
+            }
+        }
+
+        for (const [accountId, calendarIds] of Array.from(calendarIdsByAccount)) {
+            const params = new URLSearchParams({ account: accountId });
+            [...calendarIds].sort().forEach(id => params.append('calendarId', id));
+            const url = `/api/google/live?${params}`;
+
+            const stream = this.streams.get(accountId);
+            if (stream?.url === url) continue;
+            stream?.source.close();
+
+            const source = this.open(url);
+            if (source) {
+                this.streams.set(accountId, { url, source });
+            }
+        }
+    }
+
+    /**
+     * Close every stream
+     */
+    disconnect(): void {
+        for (const { source } of Array.from(this.streams.values())) {
+            source.close();
+        }
+        this.streams.clear();
+    }
+
+    /** Number of open streams */
+    get streamCount(): number {
+        return this.streams.size;
+    }
+
+    private open(url: string): EventSource | null {
+        if (!this.createSource) return null;
+
+        const source = this.createSource(url);
+        source.addEventListener('changed', (message: MessageEvent<string>) => {
+            const data = JSON.parse(message.data) as LiveStreamEvents['changed'];
+            this.onChanges(data.calendarIds);
+        });
+        // EventSource reconnects by itself after network errors and when the
+        // server ends the stream; anything else leaves the periodic sync
+        source.addEventListener('error', () => {
+            if (source.readyState === source.CLOSED) {
+                console.warn('Live updates unavailable, relying on periodic sync');
+            }
+        });
+        return source;
+    }
+}
+
+/** Singleton instance, feeding changes to the event loader */
+export const liveUpdates = new LiveUpdates(calendarIds => eventLoader.syncChanges(calendarIds));
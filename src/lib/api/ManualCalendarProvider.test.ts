@@ -0,0 +1,223 @@
+/**
+ * ManualCalendarProvider Unit Tests
+ *
+ * Tests creating, updating and deleting calendars and events, reading
+ * them back by range and serving changes. Runs without IndexedDB, where
+ * the provider keeps everything in memory.
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { ManualCalendarProvider } from './ManualCalendarProvider';
+import { eventStore } from '$lib/events/EventStore';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * IndexedDB stand-in that opens an empty database whose writes succeed
+ * until `failing` is set, like a disk that fills up
+ */
+function flakyIndexedDB() {
+    const state = { failing: false };
+    const db = {
+        transaction: (_stores: string[], mode: IDBTransactionMode) => {
+            if (mode === 'readonly' || state.failing) {
+                throw new DOMException('Quota exceeded', 'QuotaExceededError');
+            }
+            const tx = {
+                objectStore: () => ({ put: () => {}, delete: () => {} }),
+                set oncomplete(complete: () => void) {
+                    queueMicrotask(complete);
+                },
+            };
+            return tx;
+        },
+    };
+    const factory = {
+        open: () => {
+            const req: { result: unknown; onsuccess?: () => void } = { result: db };
+            queueMicrotask(() => req.onsuccess?.());
+            return req;
+        },
+    };
+    return { factory: factory as unknown as IDBFactory, state };
+}
+
+describe('ManualCalendarProvider', () => {
+    let provider: ManualCalendarProvider;
+
+    beforeEach(() => {
+        provider = new ManualCalendarProvider(undefined);
+        eventStore.clear();
+    });
+
+    async function createEvent(calendarId: string, startTime: number, title = 'Graduation') {
+        const result = await provider.executeWrite({
+            type: 'create',
+            calendarId,
+            event: { title, startTime, endTime: startTime + DAY },
+        });
+        return result.data;
+    }
+
+    describe('calendars', () => {
+        it('should create, rename and list calendars', async () => {
+            const milestones = await provider.createCalendar('Milestones');
+            await provider.updateCalendar(milestones.id, { name: 'Life' });
+
+            const { data } = await provider.getCalendars();
+            expect(data).toHaveLength(1);
+            expect(data[0]).toMatchObject({ name: 'Life', providerType: 'manual', providerId: 'manual', isReadOnly: false });
+        });
+
+        it('should delete a calendar with its events', async () => {
+            const milestones = await provider.createCalendar('Milestones');
+            const event = await createEvent(milestones.id, 0);
+
+            await provider.deleteCalendar(milestones.id);
+
+            expect((await provider.getCalendars()).data).toEqual([]);
+            expect(await provider.getEvent(event.id)).toBeNull();
+            expect(eventStore.getById(event.id)).toBeUndefined();
+        });
+    });
+
+    describe('executeWrite', () => {
+        it('should create complete events in the store', async () => {
+            const milestones = await provider.createCalendar('Milestones', '#123456');
+
+            const event = await createEvent(milestones.id, 0);
+
+            expect(event).toMatchObject({
+                title: 'Graduation',
+                source: 'manual',
+                providerId: 'manual',
+                calendarId: milestones.id,
+                category: milestones.id,
+                color: '#123456',
+            });
+            expect(event.importance.effective).toBeGreaterThan(0);
+            expect(eventStore.getById(event.id)).toEqual(event);
+        });
+
+        it('should update and delete events', async () => {
+            const milestones = await provider.createCalendar('Milestones');
+            const event = await createEvent(milestones.id, 0);
+
+            const updated = await provider.executeWrite({
+                type: 'update',
+                calendarId: milestones.id,
+                event: { id: event.id, title: 'Wedding', isLifeEvent: true },
+            });
+            expect(updated.data).toMatchObject({ title: 'Wedding', isLifeEvent: true, startTime: 0 });
+            expect(eventStore.getById(event.id)?.title).toBe('Wedding');
+
+            await provider.executeWrite({ type: 'delete', calendarId: milestones.id, event: { id: event.id } });
+            expect(await provider.getEvent(event.id)).toBeNull();
+            expect(eventStore.getById(event.id)).toBeUndefined();
+        });
+
+        it('should import many events into a calendar at once', async () => {
+            const jobs = await provider.createCalendar('Jobs');
+
+            const saved = await provider.importEvents(jobs.id, [
+                { title: 'Acme', startTime: 0, endTime: 100 * DAY },
+                { title: 'Globex', startTime: 100 * DAY, endTime: 300 * DAY, color: '#FF0000' },
+            ]);
+
+            expect(saved.map(e => [e.calendarId, e.color])).toEqual([[jobs.id, jobs.color], [jobs.id, '#FF0000']]);
+            expect(new Set(saved.map(e => e.id)).size).toBe(2);
+            expect((await provider.fetchEvents({ startTime: 0, endTime: 400 * DAY })).data).toHaveLength(2);
+            await expect(provider.importEvents('nope', [])).rejects.toThrow('Unknown calendar');
+        });
+
+        it('should report unknown calendars and events', async () => {
+            const milestones = await provider.createCalendar('Milestones');
+
+            const unknownCalendar = await provider.executeWrite({ type: 'create', calendarId: 'nope', event: { title: 'x' } });
+            expect(unknownCalendar.error).toContain('Unknown calendar');
+
+            const unknownEvent = await provider.executeWrite({
+                type: 'update',
+                calendarId: milestones.id,
+                event: { id: 'missing', title: 'x' },
+            });
+            expect(unknownEvent.error).toContain('not found');
+
+            await expect(
+                provider.executeWrite({ type: 'delete', calendarId: milestones.id, event: {} })
+            ).rejects.toThrow('Event ID required');
+        });
+    });
+
+    describe('storage failures', () => {
+        it('should leave calendars, events and the change log as they were', async () => {
+            // Loading the (empty) database fails too; the provider starts empty
+            vi.spyOn(console, 'warn').mockImplementation(() => {});
+            const { factory, state } = flakyIndexedDB();
+            provider = new ManualCalendarProvider(factory);
+            const milestones = await provider.createCalendar('Milestones');
+            const event = await createEvent(milestones.id, 0);
+            const { syncToken } = await provider.fetchEvents({ startTime: 0, endTime: DAY });
+            state.failing = true;
+
+            const updated = await provider.executeWrite({
+                type: 'update',
+                calendarId: milestones.id,
+                event: { id: event.id, title: 'Wedding' },
+            });
+            const deleted = await provider.executeWrite({ type: 'delete', calendarId: milestones.id, event: { id: event.id } });
+            await expect(provider.createCalendar('Travel')).rejects.toThrow('Quota exceeded');
+            await expect(provider.importEvents(milestones.id, [{ title: 'Trip' }])).rejects.toThrow('Quota exceeded');
+            await expect(provider.deleteCalendar(milestones.id)).rejects.toThrow('Quota exceeded');
+
+            expect(updated.error).toBe('Quota exceeded');
+            expect(deleted.error).toBe('Quota exceeded');
+            expect((await provider.getCalendars()).data.map(c => c.name)).toEqual(['Milestones']);
+            expect(await provider.getEvent(event.id)).toMatchObject({ title: 'Graduation' });
+            expect(eventStore.getById(event.id)?.title).toBe('Graduation');
+            expect((await provider.fetchChanges(syncToken!)).data).toEqual([]);
+            vi.restoreAllMocks();
+        });
+    });
+
+    describe('reading', () => {
+        it('should return events overlapping the range of the requested calendars', async () => {
+            const milestones = await provider.createCalendar('Milestones');
+            const travel = await provider.createCalendar('Travel');
+            await createEvent(milestones.id, 0, 'In range');
+            await createEvent(milestones.id, 10 * DAY, 'Later');
+            await createEvent(travel.id, 0, 'Other calendar');
+
+            const result = await provider.fetchEvents({ startTime: 0, endTime: 5 * DAY, calendarIds: [milestones.id] });
+
+            expect(result.data.map(e => e.title)).toEqual(['In range']);
+            expect(result.syncToken).toBeDefined();
+        });
+
+        it('should serve changes since a sync token, deletions as cancelled', async () => {
+            const milestones = await provider.createCalendar('Milestones');
+            const removed = await createEvent(milestones.id, 0, 'Removed');
+            const { syncToken } = await provider.fetchEvents({ startTime: 0, endTime: DAY });
+
+            const added = await createEvent(milestones.id, DAY, 'Added');
+            await provider.executeWrite({ type: 'delete', calendarId: milestones.id, event: { id: removed.id } });
+
+            const changes = await provider.fetchChanges(syncToken!);
+            expect(changes.data.map(e => [e.id, e.status])).toEqual([
+                [added.id, undefined],
+                [removed.id, 'cancelled'],
+            ]);
+
+            // Nothing new since the returned token
+            expect((await provider.fetchChanges(changes.syncToken!)).data).toEqual([]);
+        });
+
+        it('should ask for a full reload for tokens of another session', async () => {
+            const milestones = await provider.createCalendar('Milestones');
+
+            const result = await provider.fetchChanges('earlier-session:4');
+
+            expect(result.resyncCalendarIds).toEqual([milestones.id]);
+        });
+    });
+});
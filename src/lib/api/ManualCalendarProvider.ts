@@ -0,0 +1,455 @@
+/**
+ * ManualCalendarProvider - Events that live only in this app
+ *
+ * Implements the CalendarProvider interface, including writes.
+ * Calendars and events are created by the user (e.g. life milestones that
+ * don't belong in Google) and stored in IndexedDB on this device. Where
+ * IndexedDB is unavailable (SSR, private browsing) they last for the
+ * session only.
+ *
+ * Writes are stored first, then applied to the EventStore and recorded in
+ * a change log, which fetchChanges serves so cached copies catch up. A
+ * write that can't be stored changes nothing.
+ */
+
+import type { CalendarEvent } from '$lib/types/Event';
+import type {
+    CalendarProvider,
+    ProviderType,
+    AuthState,
+    CalendarInfo,
+    FetchEventsOptions,
+    FetchResult,
+    WriteOperation,
+} from './CalendarProvider';
+import { providerRegistry } from './CalendarProvider';
+import { eventStore } from '$lib/events/EventStore';
+import { expandEvents, getSeriesEvents } from '$lib/events/recurrence';
+import { computeDurationImportance } from '$lib/events/importance';
+
+const DB_NAME = 'linear-calendar-manual';
+const DB_VERSION = 1;
+
+/** Object stores */
+const CALENDARS = 'calendars';
+const EVENTS = 'events';
+
+/** Registry ID and providerId of manual calendars */
+export const MANUAL_PROVIDER_ID = 'manual';
+
+/** Colors assigned to new calendars that don't pick their own */
+const CALENDAR_COLORS = ['#F4B183', '#A9D18E', '#9DC3E6', '#FFD966', '#C9A0DC', '#F4A6A6'];
+
+/**
+ * Wrap an IndexedDB request in a promise
+ */
+function request<T>(req: IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+        req.onsuccess = () => resolve(req.result);
+        req.onerror = () => reject(req.error);
+    });
+}
+
+/**
+ * Wait for a transaction to commit
+ */
+function done(tx: IDBTransaction): Promise<void> {
+    return new Promise((resolve, reject) => {
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+        tx.onabort = () => reject(tx.error);
+    });
+}
+
+/**
+ * Fields that can be changed on a calendar
+ */
+export interface CalendarChanges {
+    name?: string;
+    color?: string;
+}
+
+/**
+ * Manual calendar provider
+ */
+export class ManualCalendarProvider implements CalendarProvider {
+    readonly type: ProviderType = 'manual';
+    readonly name = 'My Calendars';
+    readonly supportsWrite = true;
+
+    private calendars = new Map<string, CalendarInfo>();
+    private events = new Map<string, CalendarEvent>();
+
+    private factory: IDBFactory | undefined;
+    private db: Promise<IDBDatabase | null> | null = null;
+    private loaded: Promise<void> | null = null;
+
+    /**
+     * Change log: every write since the provider started, oldest first.
+     * Sync tokens name this session, so tokens persisted by an earlier
+     * session can be told apart and answered with a full reload.
+     */
+    private changes: { version: number; event: CalendarEvent }[] = [];
+    private version = 0;
+    private readonly session = crypto.randomUUID();
+
+    constructor(factory: IDBFactory | undefined = typeof indexedDB !== 'undefined' ? indexedDB : undefined) {
+        this.factory = factory;
+    }
+
+    // =========================================
+    // Authentication (no-op for local data)
+    // =========================================
+
+    getAuthState(): AuthState {
+        return {
+            isAuthenticated: true,
+            scopes: ['read', 'write'],
+        };
+    }
+
+    async authenticate(): Promise<AuthState> {
+        return this.getAuthState();
+    }
+
+    async signOut(): Promise<void> {
+        // The data belongs to this device, not to an account
+    }
+
+    // =========================================
+    // Calendars
+    // =========================================
+
+    /**
+     * Create an empty calendar
+     */
+    async createCalendar(name: string, color?: string): Promise<CalendarInfo> {
+        await this.load();
+
+        const info: CalendarInfo = {
+            id: `manual-${crypto.randomUUID()}`,
+            name,
+            color: color ?? CALENDAR_COLORS[this.calendars.size % CALENDAR_COLORS.length],
+            isReadOnly: false,
+            isPrimary: false,
+            providerType: 'manual',
+            providerId: MANUAL_PROVIDER_ID,
+        };
+
+        await this.persist(tx => tx.objectStore(CALENDARS).put(info));
+        this.calendars.set(info.id, info);
+        return info;
+    }
+
+    /**
+     * Rename or recolor a calendar
+     * @throws Error if the calendar doesn't exist
+     */
+    async updateCalendar(calendarId: string, changes: CalendarChanges): Promise<CalendarInfo> {
+        await this.load();
+
+        const current = this.calendars.get(calendarId);
+        if (!current) {
+            throw new Error(`Unknown calendar: ${calendarId}`);
+        }
+
+        const info = { ...current, ...changes };
+        await this.persist(tx => tx.objectStore(CALENDARS).put(info));
+        this.calendars.set(calendarId, info);
+        return info;
+    }
+
+    /**
+     * Delete a calendar and all its events
+     */
+    async deleteCalendar(calendarId: string): Promise<void> {
+        await this.load();
+
+        const removed = Array.from(this.events.values()).filter(e => e.calendarId === calendarId);
+        await this.persist(tx => {
+            tx.objectStore(CALENDARS).delete(calendarId);
+            for (const event of removed) {
+                tx.objectStore(EVENTS).delete(event.id);
+            }
+        });
+
+        for (const event of removed) {
+            this.events.delete(event.id);
+            this.recordChange({ ...event, status: 'cancelled' });
+        }
+        this.calendars.delete(calendarId);
+        eventStore.remove(removed.map(e => e.id));
+    }
+
+    // =========================================
+    // Read Operations
+    // =========================================
+
+    async getCalendars(): Promise<FetchResult<CalendarInfo[]>> {
+        await this.load();
+        return {
+            data: Array.from(this.calendars.values()),
+            hasMore: false,
+        };
+    }
+
+    async fetchEvents(options: FetchEventsOptions): Promise<FetchResult<CalendarEvent[]>> {
+        await this.load();
+        const { startTime, endTime, calendarIds, limit, expandRecurring = true } = options;
+
+        const selected = Array.from(this.events.values()).filter(e =>
+            !calendarIds || calendarIds.length === 0 || calendarIds.includes(e.calendarId || '')
+        );
+
+        let filtered = expandRecurring
+            ? expandEvents(selected, startTime, endTime)
+            : selected.filter(e => e.endTime > startTime && e.startTime < endTime);
+
+        const hasMore = limit !== undefined && filtered.length > limit;
+        if (hasMore) {
+            filtered = filtered.slice(0, limit);
+        }
+
+        return {
+            data: filtered,
+            syncToken: this.getSyncToken(),
+            hasMore,
+        };
+    }
+
+    async getEvent(eventId: string): Promise<CalendarEvent | null> {
+        await this.load();
+        return this.events.get(eventId) ?? null;
+    }
+
+    async getRecurringSeries(seriesId: string): Promise<CalendarEvent[]> {
+        await this.load();
+        return getSeriesEvents(this.events.values(), seriesId);
+    }
+
+    /**
+     * Events written since the token was issued; deleted events come back
+     * with status 'cancelled'. A token from an earlier session can't be
+     * answered, so every calendar is listed for a full reload.
+     */
+    async fetchChanges(syncToken: string, calendarIds?: string[]): Promise<FetchResult<CalendarEvent[]>> {
+        await this.load();
+        const [session, version] = syncToken.split(':');
+        const wanted = (calendarId?: string) => !calendarIds || calendarIds.includes(calendarId || '');
+
+        if (session !== this.session) {
+            return {
+                data: [],
+                syncToken: this.getSyncToken(),
+                hasMore: false,
+                resyncCalendarIds: Array.from(this.calendars.keys()).filter(id => wanted(id)),
+            };
+        }
+
+        // Latest change per event
+        const latest = new Map<string, CalendarEvent>();
+        for (const change of this.changes) {
+            if (change.version > Number(version) && wanted(change.event.calendarId)) {
+                latest.set(change.event.id, change.event);
+            }
+        }
+
+        return {
+            data: Array.from(latest.values()),
+            syncToken: this.getSyncToken(),
+            hasMore: false,
+        };
+    }
+
+    // =========================================
+    // Write Operations
+    // =========================================
+
+    /**
+     * Create, update or delete an event, store it and apply it to the
+     * EventStore. Updates may move an event to another calendar.
+     * @throws Error if an update or delete has no event ID
+     */
+    async executeWrite(operation: WriteOperation): Promise<FetchResult<CalendarEvent>> {
+        await this.load();
+        const { type, event, calendarId } = operation;
+
+        if (type !== 'create' && !event.id) {
+            throw new Error(`Event ID required for ${type}`);
+        }
+
+        const calendar = this.calendars.get(calendarId);
+        if (!calendar) {
+            return { data: event as CalendarEvent, hasMore: false, error: `Unknown calendar: ${calendarId}` };
+        }
+
+        const existing = event.id ? this.events.get(event.id) : undefined;
+        if (type !== 'create' && !existing) {
+            return { data: event as CalendarEvent, hasMore: false, error: `Event not found: ${event.id}` };
+        }
+
+        try {
+            if (type === 'delete') {
+                await this.persist(tx => tx.objectStore(EVENTS).delete(existing!.id));
+                this.events.delete(existing!.id);
+                this.recordChange({ ...existing!, status: 'cancelled' });
+                eventStore.remove([existing!.id]);
+                return { data: existing!, hasMore: false };
+            }
+
+            const saved = this.buildEvent(event, calendar, existing);
+            if (saved.endTime < saved.startTime) {
+                return { data: event as CalendarEvent, hasMore: false, error: 'Event ends before it starts' };
+            }
+
+            await this.persist(tx => tx.objectStore(EVENTS).put(saved));
+            this.events.set(saved.id, saved);
+            this.recordChange(saved);
+            eventStore.upsert([saved]);
+            return { data: saved, hasMore: false };
+        } catch (err) {
+            return {
+                data: event as CalendarEvent,
+                hasMore: false,
+                error: err instanceof Error ? err.message : 'Unknown error',
+            };
+        }
+    }
+
+    /**
+     * Create many events in a calendar at once (e.g. from an imported
+     * file), stored in one transaction
+     * @throws Error if the calendar doesn't exist
+     */
+    async importEvents(calendarId: string, events: Partial<CalendarEvent>[]): Promise<CalendarEvent[]> {
+        await this.load();
+
+        const calendar = this.calendars.get(calendarId);
+        if (!calendar) {
+            throw new Error(`Unknown calendar: ${calendarId}`);
+        }
+
+        const saved = events.map(fields => this.buildEvent(fields, calendar));
+        await this.persist(tx => {
+            for (const event of saved) {
+                tx.objectStore(EVENTS).put(event);
+            }
+        });
+
+        for (const event of saved) {
+            this.events.set(event.id, event);
+            this.recordChange(event);
+        }
+        eventStore.upsert(saved);
+        return saved;
+    }
+
+    // =========================================
+    // Helpers
+    // =========================================
+
+    /**
+     * Merge written fields into a complete event of the given calendar
+     */
+    private buildEvent(fields: Partial<CalendarEvent>, calendar: CalendarInfo, existing?: CalendarEvent): CalendarEvent {
+        const now = Date.now();
+        const startTime = fields.startTime ?? existing?.startTime ?? now;
+        const endTime = fields.endTime ?? existing?.endTime ?? startTime;
+        const timesChanged = !existing || startTime !== existing.startTime || endTime !== existing.endTime;
+
+        return {
+            isLifeEvent: false,
+            ...existing,
+            ...fields,
+            id: existing?.id ?? `manual-${crypto.randomUUID()}`,
+            title: fields.title ?? existing?.title ?? 'Untitled',
+            startTime,
+            endTime,
+            // Keep the calendar's colour unless the event picks its own
+            color: fields.color ?? (existing && existing.calendarId === calendar.id ? existing.color : calendar.color),
+            importance: fields.importance ?? (timesChanged || !existing
+                ? computeDurationImportance(startTime, endTime)
+                : existing.importance),
+            category: calendar.id,
+            calendarId: calendar.id,
+            providerId: MANUAL_PROVIDER_ID,
+            source: 'manual',
+            createdAt: existing?.createdAt ?? now,
+            updatedAt: now,
+        };
+    }
+
+    private recordChange(event: CalendarEvent): void {
+        this.changes.push({ version: ++this.version, event });
+    }
+
+    private getSyncToken(): string {
+        return `${this.session}:${this.version}`;
+    }
+
+    /**
+     * Load calendars and events from IndexedDB once
+     */
+    private load(): Promise<void> {
+        this.loaded ??= (async () => {
+            const db = await this.open();
+            if (!db) return;
+
+            try {
+                const tx = db.transaction([CALENDARS, EVENTS], 'readonly');
+                const [calendars, events] = await Promise.all([
+                    request(tx.objectStore(CALENDARS).getAll() as IDBRequest<CalendarInfo[]>),
+                    request(tx.objectStore(EVENTS).getAll() as IDBRequest<CalendarEvent[]>),
+                ]);
+                calendars.forEach(c => this.calendars.set(c.id, c));
+                events.forEach(e => this.events.set(e.id, e));
+            } catch (err) {
+                console.warn('Failed to load manual calendars:', err);
+            }
+        })();
+        return this.loaded;
+    }
+
+    /**
+     * Open (and create or upgrade) the database once
+     */
+    private open(): Promise<IDBDatabase | null> {
+        if (!this.db) {
+            const factory = this.factory;
+            this.db = !factory
+                ? Promise.resolve(null)
+                : new Promise<IDBDatabase | null>(resolve => {
+                    const req = factory.open(DB_NAME, DB_VERSION);
+                    req.onupgradeneeded = () => {
+                        const db = req.result;
+                        db.createObjectStore(CALENDARS, { keyPath: 'id' });
+                        db.createObjectStore(EVENTS, { keyPath: 'id' });
+                    };
+                    req.onsuccess = () => resolve(req.result);
+                    req.onerror = () => {
+                        console.warn('Manual calendar storage unavailable, keeping events for this session only:', req.error);
+                        resolve(null);
+                    };
+                });
+        }
+        return this.db;
+    }
+
+    /**
+     * Write to IndexedDB in one transaction (a no-op without IndexedDB)
+     */
+    private async persist(write: (tx: IDBTransaction) => void): Promise<void> {
+        const db = await this.open();
+        if (!db) return;
+
+        const tx = db.transaction([CALENDARS, EVENTS], 'readwrite');
+        write(tx);
+        await done(tx);
+    }
+}
+
+/**
+ * Singleton instance, registered with the global provider registry
+ */
+export const manualProvider = new ManualCalendarProvider();
+providerRegistry.register(MANUAL_PROVIDER_ID, manualProvider);
@@ -14,6 +14,7 @@ import type {
     FetchEventsOptions,
     FetchResult,
 } from './CalendarProvider';
+import { providerRegistry } from './CalendarProvider';
 import {
     generateMockEvents,
     generateLifeEvents,
@@ -48,11 +49,12 @@ export class MockCalendarProvider implements CalendarProvider {
     private loadEvents(): void {
         if (this.isLoaded) return;
 
+        // Mock events are laned by category; the lane is their calendar
         this.events = [
             ...generateLifeEvents(),
             ...generateMockEvents(100),
             ...generateTodayEvents(),
-        ];
+        ].map(e => ({ ...e, calendarId: e.calendarLaneId || 'todo' }));
 
         this.isLoaded = true;
     }
@@ -103,7 +105,7 @@ export class MockCalendarProvider implements CalendarProvider {
         // Filter by calendar IDs if specified
         if (calendarIds && calendarIds.length > 0) {
             filtered = filtered.filter(e =>
-                e.category && calendarIds.includes(e.category)
+                e.calendarId && calendarIds.includes(e.calendarId)
             );
         }
 
@@ -133,6 +135,7 @@ export class MockCalendarProvider implements CalendarProvider {
 }
 
 /**
- * Create and export a singleton mock provider
+ * Create and export a singleton mock provider, registered with the global provider registry
  */
 export const mockProvider = new MockCalendarProvider();
+providerRegistry.register('mock', mockProvider, true);
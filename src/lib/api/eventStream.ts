@@ -0,0 +1,75 @@
+/**
+ * Event stream - NDJSON messages of the batched Google events route
+ *
+ * `/api/google/events-batch` loads several calendars at once and writes one
+ * JSON message per line as each calendar finishes, so clients can show the
+ * first calendars while the others are still loading. Shared by the route
+ * (writing) and GoogleCalendarProvider (reading).
+ */
+
+import type { CalendarEvent } from '$lib/types/Event';
+import type { ProviderErrorCode } from './CalendarProvider';
+
+/**
+ * One line of the stream: a calendar's events for the whole range, or why
+ * the calendar failed. Every requested calendar gets exactly one message.
+ */
+export type EventStreamMessage =
+    | {
+        type: 'calendar';
+        calendarId: string;
+        events: CalendarEvent[];
+        /** Token for later incremental syncs of the calendar */
+        syncToken?: string;
+    }
+    | {
+        type: 'error';
+        calendarId: string;
+        message: string;
+        /** HTTP status from Google, if it answered */
+        status?: number;
+        code?: ProviderErrorCode;
+        /** How long to wait before retrying (ms) */
+        retryAfter?: number;
+    };
+
+/** Content type of the stream */
+export const NDJSON_CONTENT_TYPE = 'application/x-ndjson';
+
+/**
+ * Serialize a message as one NDJSON line
+ */
+export function encodeMessage(message: EventStreamMessage): string {
+    return `${JSON.stringify(message)}\n`;
+}
+
+/**
+ * Read an NDJSON stream, calling back for each message as its line completes
+ */
+export async function readEventStream(
+    body: ReadableStream<Uint8Array>,
+    onMessage: (message: EventStreamMessage) => void
+): Promise<void> {
+    const reader = body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    const flush = (text: string) => {
+        const lines = text.split('\n');
+        buffer = lines.pop() ?? '';
+        for (const line of lines) {
+            if (line.trim()) {
+                onMessage(JSON.parse(line) as EventStreamMessage);
+            }
+        }
+    };
+
+    for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        flush(buffer + decoder.decode(value, { stream: true }));
+    }
+
+    // A last line without a trailing newline
+    flush(`${buffer}${decoder.decode()}\n`);
+}
@@ -0,0 +1,30 @@
+/**
+ * Live stream - Server-Sent Events of the live updates route
+ *
+ * `/api/google/live` stays open and tells clients which calendars changed
+ * in Google, so they can pull the deltas. Shared by the route (writing)
+ * and LiveUpdates (reading).
+ */
+
+/** How the server learns about changes: Google push notifications, or polling */
+export type LiveUpdateMode = 'push' | 'poll';
+
+/**
+ * Events of the stream, by SSE event name
+ */
+export interface LiveStreamEvents {
+    /** Sent once the calendars are watched */
+    ready: { mode: LiveUpdateMode };
+    /** Calendars with changes since the last message */
+    changed: { calendarIds: string[] };
+}
+
+/** Content type of the stream */
+export const SSE_CONTENT_TYPE = 'text/event-stream';
+
+/**
+ * Serialize an event in SSE format
+ */
+export function encodeServerSentEvent<K extends keyof LiveStreamEvents>(event: K, data: LiveStreamEvents[K]): string {
+    return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
@@ -0,0 +1,157 @@
+/**
+ * CachingProvider Unit Tests
+ *
+ * Tests per-calendar partitions, TTL revalidation, empty ranges and
+ * targeted invalidation.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import type { CalendarEvent } from '$lib/types/Event';
+import type { CalendarProvider, FetchEventsOptions, FetchResult } from '$lib/api/CalendarProvider';
+import { CachingProvider } from '$lib/api/CachingProvider';
+
+const HOUR = 60 * 60 * 1000;
+const RANGE = { startTime: 0, endTime: 24 * HOUR };
+
+// Helper to create an event in a calendar
+function event(id: string, calendarId: string): CalendarEvent {
+    return {
+        id,
+        title: id,
+        startTime: HOUR,
+        endTime: 2 * HOUR,
+        color: '#4285f4',
+        importance: { duration: 0.5, aiScore: 0.5, manual: 0.5, effective: 0.5 },
+        isLifeEvent: false,
+        source: 'manual',
+        category: calendarId,
+    };
+}
+
+// Provider serving a mutable list of events, recording each fetch
+function testProvider(events: CalendarEvent[]) {
+    const fetchEvents = vi.fn(async (options: FetchEventsOptions): Promise<FetchResult<CalendarEvent[]>> => ({
+        data: events.filter(e => !options.calendarIds || options.calendarIds.includes(e.category || '')),
+        hasMore: false,
+    }));
+    const provider: CalendarProvider = {
+        type: 'mock',
+        name: 'Test',
+        supportsWrite: false,
+        getAuthState: () => ({ isAuthenticated: true, scopes: [] }),
+        authenticate: async () => ({ isAuthenticated: true, scopes: [] }),
+        signOut: async () => {},
+        getCalendars: async () => ({ data: [], hasMore: false }),
+        fetchEvents,
+        getEvent: async () => null,
+    };
+    return { provider, fetchEvents };
+}
+
+describe('CachingProvider', () => {
+    beforeEach(() => {
+        vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('should serve cached ranges without fetching', async () => {
+        const { provider, fetchEvents } = testProvider([event('a1', 'a')]);
+        const cache = new CachingProvider(provider);
+
+        await cache.fetchEvents({ ...RANGE, calendarIds: ['a'] });
+        const result = await cache.fetchEvents({ startTime: HOUR, endTime: 3 * HOUR, calendarIds: ['a'] });
+
+        expect(fetchEvents).toHaveBeenCalledTimes(1);
+        expect(result.data.map(e => e.id)).toEqual(['a1']);
+        expect(result.stale).toBeUndefined();
+    });
+
+    it('should fetch only calendars that have not loaded the range', async () => {
+        const { provider, fetchEvents } = testProvider([event('a1', 'a'), event('b1', 'b')]);
+        const cache = new CachingProvider(provider);
+
+        await cache.fetchEvents({ ...RANGE, calendarIds: ['a'] });
+        const result = await cache.fetchEvents({ ...RANGE, calendarIds: ['a', 'b'] });
+
+        expect(fetchEvents).toHaveBeenLastCalledWith(expect.objectContaining({ calendarIds: ['b'] }));
+        expect(result.data.map(e => e.id).sort()).toEqual(['a1', 'b1']);
+    });
+
+    it('should cache empty ranges', async () => {
+        const { provider, fetchEvents } = testProvider([]);
+        const cache = new CachingProvider(provider);
+
+        await cache.fetchEvents({ ...RANGE, calendarIds: ['a'] });
+        await cache.fetchEvents({ ...RANGE, calendarIds: ['a'] });
+
+        expect(fetchEvents).toHaveBeenCalledTimes(1);
+    });
+
+    it('should mark ranges past the TTL stale and refresh them on revalidate', async () => {
+        const events = [event('a1', 'a'), event('a2', 'a')];
+        const { provider } = testProvider(events);
+        const cache = new CachingProvider(provider, { eventTTL: HOUR });
+
+        await cache.fetchEvents({ ...RANGE, calendarIds: ['a'] });
+        vi.advanceTimersByTime(2 * HOUR);
+
+        const stale = await cache.fetchEvents({ ...RANGE, calendarIds: ['a'] });
+        expect(stale.stale).toBe(true);
+        expect(stale.data).toHaveLength(2);
+
+        // a2 was deleted remotely
+        events.pop();
+        await cache.revalidate({ ...RANGE, calendarIds: ['a'] });
+
+        const fresh = await cache.fetchEvents({ ...RANGE, calendarIds: ['a'] });
+        expect(fresh.stale).toBeUndefined();
+        expect(fresh.data.map(e => e.id)).toEqual(['a1']);
+    });
+
+    it('should invalidate only the given calendars', async () => {
+        const { provider, fetchEvents } = testProvider([event('a1', 'a'), event('b1', 'b')]);
+        const cache = new CachingProvider(provider);
+
+        await cache.fetchEvents({ ...RANGE, calendarIds: ['a', 'b'] });
+        cache.invalidateCalendars(['b']);
+        await cache.fetchEvents({ ...RANGE, calendarIds: ['a', 'b'] });
+
+        expect(fetchEvents).toHaveBeenCalledTimes(2);
+        expect(fetchEvents).toHaveBeenLastCalledWith(expect.objectContaining({ calendarIds: ['b'] }));
+    });
+
+    it('should not cache calendars that failed', async () => {
+        const { provider, fetchEvents } = testProvider([event('a1', 'a')]);
+        fetchEvents.mockResolvedValueOnce({
+            data: [event('a1', 'a')],
+            hasMore: false,
+            error: 'Failed to fetch events (b: 500)',
+            calendarErrors: [{ calendarId: 'b', message: 'b: 500', status: 500 }],
+        });
+        const cache = new CachingProvider(provider);
+
+        const first = await cache.fetchEvents({ ...RANGE, calendarIds: ['a', 'b'] });
+        expect(first.calendarErrors).toHaveLength(1);
+
+        await cache.fetchEvents({ ...RANGE, calendarIds: ['a', 'b'] });
+        expect(fetchEvents).toHaveBeenLastCalledWith(expect.objectContaining({ calendarIds: ['b'] }));
+    });
+
+    it('should apply changes to the partition of their calendar', async () => {
+        const { provider } = testProvider([event('a1', 'a')]);
+        provider.fetchChanges = async () => ({
+            data: [{ ...event('a1', 'a'), status: 'cancelled' }, { ...event('a3', 'a'), title: 'New' }],
+            hasMore: false,
+        });
+        const cache = new CachingProvider(provider);
+
+        await cache.fetchEvents({ ...RANGE, calendarIds: ['a'] });
+        await cache.fetchChanges('token');
+        const result = await cache.fetchEvents({ ...RANGE, calendarIds: ['a'] });
+
+        expect(result.data.map(e => e.title)).toEqual(['New']);
+    });
+});
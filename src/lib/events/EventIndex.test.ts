@@ -0,0 +1,144 @@
+/**
+ * EventIndex Unit Tests
+ *
+ * Tests reducing events to what the index keeps, packing query results
+ * into typed arrays, mirroring store changes and normalizing Google pages.
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { CalendarEvent } from '$lib/types/Event';
+import {
+    EventIndex,
+    packEvents,
+    toIndexedEvent,
+    type IndexedEvent,
+    type PackedEvents,
+    type PipelineResponse,
+} from './EventIndex';
+
+// Helper to create test events
+function createEvent(id: string, startTime: number, endTime: number, importance = 0.5, color = '#ff0000'): CalendarEvent {
+    return {
+        id,
+        title: `Event ${id}`,
+        startTime,
+        endTime,
+        color,
+        importance: { duration: 0.5, aiScore: 0.5, manual: 0.5, effective: importance },
+        isLifeEvent: false,
+        source: 'manual',
+        category: 'work',
+    };
+}
+
+// Helper to create what the index keeps of a test event
+function indexed(id: string, startTime: number, endTime: number, importance = 0.5, color = '#ff0000'): IndexedEvent {
+    return toIndexedEvent(createEvent(id, startTime, endTime, importance, color));
+}
+
+// Run a query and unwrap the packed result
+function query(index: EventIndex, startTime: number, endTime: number, minImportance?: number): PackedEvents {
+    const response = index.handle({ type: 'query', id: 1, startTime, endTime, minImportance })?.response;
+    if (response?.type !== 'result') throw new Error('Expected a query result');
+    return response.packed;
+}
+
+describe('EventIndex', () => {
+    describe('toIndexedEvent', () => {
+        it('should keep only what drawing needs', () => {
+            const event = { ...createEvent('1', 0, 100, 0.7), description: 'Long notes', location: { name: 'Office' } };
+
+            expect(toIndexedEvent(event)).toEqual({
+                id: '1',
+                startTime: 0,
+                endTime: 100,
+                importance: 0.7,
+                color: '#ff0000',
+                category: 'work',
+            });
+        });
+    });
+
+    describe('packEvents', () => {
+        it('should pack events most important first', () => {
+            const packed = packEvents([
+                indexed('event-1', 0, 100, 0.2),
+                indexed('event-2', 50, 150, 0.9),
+            ]);
+
+            expect(packed.count).toBe(2);
+            expect(packed.eventIds).toEqual(['event-2', 'event-1']);
+            expect(Array.from(packed.startTimes)).toEqual([50, 0]);
+            expect(packed.importance[0]).toBeCloseTo(0.9);
+            expect(Array.from(packed.colors.slice(0, 3))).toEqual([1, 0, 0]);
+        });
+
+        it('should keep event IDs as they are, also those without digits', () => {
+            const packed = packEvents([indexed('abc', 0, 100, 0.9), indexed('xyz', 0, 100, 0.1)]);
+            expect(packed.eventIds).toEqual(['abc', 'xyz']);
+        });
+
+        it('should share one category entry per calendar', () => {
+            const packed = packEvents([
+                indexed('1', 0, 100),
+                { ...indexed('2', 0, 100), category: 'home' },
+                indexed('3', 0, 100),
+            ]);
+
+            expect(packed.categories).toEqual(['work', 'home']);
+            expect(Array.from(packed.categoryIndex)).toEqual([0, 1, 0]);
+        });
+
+        it('should leave colours unset for events without one', () => {
+            const packed = packEvents([indexed('1', 0, 100, 0.5, '')]);
+            expect(Number.isNaN(packed.colors[0])).toBe(true);
+        });
+    });
+
+    describe('handle', () => {
+        it('should answer queries from mirrored changes', () => {
+            const index = new EventIndex();
+            index.handle({ type: 'apply', upserted: [indexed('1', 0, 100), indexed('2', 200, 300)], removedIds: [] });
+            index.handle({ type: 'apply', upserted: [indexed('2', 50, 60)], removedIds: ['1'] });
+
+            expect(index.size).toBe(1);
+            expect(query(index, 0, 100).eventIds).toEqual(['2']);
+            expect(query(index, 200, 300).count).toBe(0);
+        });
+
+        it('should filter by importance', () => {
+            const index = new EventIndex();
+            index.handle({ type: 'apply', upserted: [indexed('1', 0, 100, 0.2), indexed('2', 0, 100, 0.8)], removedIds: [] });
+
+            expect(query(index, 0, 100, 0.5).eventIds).toEqual(['2']);
+        });
+
+        it('should transfer the typed arrays of a result', () => {
+            const index = new EventIndex();
+            const reply = index.handle({ type: 'query', id: 7, startTime: 0, endTime: 100 });
+
+            expect(reply?.transfer).toHaveLength(5);
+            expect(reply?.transfer.every(buffer => buffer instanceof ArrayBuffer)).toBe(true);
+        });
+
+        it('should normalize Google pages', () => {
+            const index = new EventIndex();
+            const reply = index.handle({
+                type: 'mapGoogle',
+                id: 3,
+                items: [{
+                    id: 'abc',
+                    summary: 'Standup',
+                    start: { dateTime: '2024-01-15T09:00:00Z' },
+                    end: { dateTime: '2024-01-15T09:15:00Z' },
+                }],
+                context: { calendarId: 'work@example.com' },
+            });
+
+            const response = reply?.response as Extract<PipelineResponse, { type: 'mapped' }>;
+            expect(response.id).toBe(3);
+            expect(response.events[0].title).toBe('Standup');
+            expect(response.events[0].importance.effective).toBeGreaterThan(0);
+        });
+    });
+});
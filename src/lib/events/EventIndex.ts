@@ -0,0 +1,223 @@
+/**
+ * EventIndex - Event pipeline state that runs inside the event worker
+ *
+ * Normalizes raw provider pages into CalendarEvents and keeps an index of
+ * every stored event, so the main thread can ask for visible events without
+ * sorting, filtering or colour parsing on the render thread. The index holds
+ * only what drawing needs of an event (see IndexedEvent), not a second copy
+ * of the main-thread store. Query results are packed into typed arrays that
+ * are transferred, not copied.
+ *
+ * The class has no worker dependencies: the worker entry forwards messages
+ * to it, and the main thread uses it directly when workers are unavailable.
+ */
+
+import type { CalendarEvent } from '$lib/types/Event';
+import { IntervalTree } from './IntervalTree';
+import { mapGoogleEvents, type GoogleEvent, type GoogleMappingContext } from '$lib/api/GoogleEventMapper';
+import { hexToRgb } from '$lib/utils/colorUtils';
+
+// =========================================
+// Protocol
+// =========================================
+
+/**
+ * What the index keeps of an event: the fields drawing needs
+ */
+export interface IndexedEvent {
+    id: string;
+    startTime: number;
+    endTime: number;
+    /** Effective importance */
+    importance: number;
+    color?: string;
+    category?: string;
+}
+
+/**
+ * Reduce an event to what the index keeps
+ */
+export function toIndexedEvent(event: CalendarEvent): IndexedEvent {
+    return {
+        id: event.id,
+        startTime: event.startTime,
+        endTime: event.endTime,
+        importance: event.importance.effective,
+        color: event.color,
+        category: event.category,
+    };
+}
+
+/**
+ * Messages from the main thread
+ */
+export type PipelineRequest =
+    /** Normalize a page of Google event resources */
+    | { type: 'mapGoogle'; id: number; items: GoogleEvent[]; context: GoogleMappingContext }
+    /** Mirror a change of the main-thread EventStore */
+    | { type: 'apply'; upserted: IndexedEvent[]; removedIds: string[] }
+    /** Query events overlapping a range (and meeting an importance threshold) */
+    | { type: 'query'; id: number; startTime: number; endTime: number; minImportance?: number };
+
+/**
+ * Replies to requests that carry an ID
+ */
+export type PipelineResponse =
+    | { type: 'mapped'; id: number; events: CalendarEvent[] }
+    | { type: 'result'; id: number; packed: PackedEvents };
+
+/**
+ * Events packed for rendering, most important first. Entry i of each array
+ * describes the same event, so i is its render ID.
+ */
+export interface PackedEvents {
+    count: number;
+    /** Event ID per event: the side table render IDs index into */
+    eventIds: string[];
+    startTimes: Float64Array;
+    endTimes: Float64Array;
+    /** Effective importance */
+    importance: Float32Array;
+    /** RGB (0-1) per event, three entries each; NaN when the event has no colour of its own */
+    colors: Float32Array;
+    /** Index into `categories` per event (the category decides the lane) */
+    categoryIndex: Uint16Array;
+    /** Distinct categories in the result ('' for none) */
+    categories: string[];
+}
+
+/**
+ * Typed-array buffers of a packed result, for transferring it
+ */
+export function packedBuffers(packed: PackedEvents): ArrayBuffer[] {
+    return [packed.startTimes, packed.endTimes, packed.importance, packed.colors, packed.categoryIndex]
+        .map(array => array.buffer as ArrayBuffer);
+}
+
+// =========================================
+// Packing
+// =========================================
+
+/**
+ * Pack events into typed arrays, sorted by importance (most important
+ * first, so they are drawn on top)
+ */
+export function packEvents(events: IndexedEvent[]): PackedEvents {
+    const sorted = [...events].sort((a, b) => b.importance - a.importance);
+    const count = sorted.length;
+
+    const packed: PackedEvents = {
+        count,
+        eventIds: new Array<string>(count),
+        startTimes: new Float64Array(count),
+        endTimes: new Float64Array(count),
+        importance: new Float32Array(count),
+        colors: new Float32Array(count * 3),
+        categoryIndex: new Uint16Array(count),
+        categories: [],
+    };
+
+    const categoryIndex = new Map<string, number>();
+    const colorCache = new Map<string, { r: number; g: number; b: number }>();
+
+    sorted.forEach((event, i) => {
+        packed.eventIds[i] = event.id;
+        packed.startTimes[i] = event.startTime;
+        packed.endTimes[i] = event.endTime;
+        packed.importance[i] = event.importance;
+
+        let rgb = event.color ? colorCache.get(event.color) : undefined;
+        if (event.color && !rgb) {
+            rgb = hexToRgb(event.color);
+            colorCache.set(event.color, rgb);
+        }
+        packed.colors[i * 3] = rgb ? rgb.r : NaN;
+        packed.colors[i * 3 + 1] = rgb ? rgb.g : NaN;
+        packed.colors[i * 3 + 2] = rgb ? rgb.b : NaN;
+
+        const category = event.category ?? '';
+        let index = categoryIndex.get(category);
+        if (index === undefined) {
+            index = packed.categories.length;
+            categoryIndex.set(category, index);
+            packed.categories.push(category);
+        }
+        packed.categoryIndex[i] = index;
+    });
+
+    return packed;
+}
+
+// =========================================
+// Index
+// =========================================
+
+export class EventIndex {
+    private tree = new IntervalTree<IndexedEvent>();
+    private eventsById = new Map<string, IndexedEvent>();
+
+    /**
+     * Handle a request
+     * @returns the reply and the buffers to transfer with it, or null if
+     * the request has no reply
+     */
+    handle(request: PipelineRequest): { response: PipelineResponse; transfer: ArrayBuffer[] } | null {
+        switch (request.type) {
+            case 'mapGoogle':
+                return {
+                    response: { type: 'mapped', id: request.id, events: mapGoogleEvents(request.items, request.context) },
+                    transfer: [],
+                };
+
+            case 'apply':
+                this.apply(request.upserted, request.removedIds);
+                return null;
+
+            case 'query': {
+                const { minImportance } = request;
+                const events = this.tree.query(
+                    request.startTime,
+                    request.endTime,
+                    minImportance === undefined ? undefined : e => e.importance >= minImportance
+                );
+                const packed = packEvents(events);
+                return { response: { type: 'result', id: request.id, packed }, transfer: packedBuffers(packed) };
+            }
+        }
+    }
+
+    /**
+     * Number of indexed events
+     */
+    get size(): number {
+        return this.eventsById.size;
+    }
+
+    /**
+     * Remove and add or replace events. A batch bigger than the tree (such
+     * as the first load) is loaded with one balanced rebuild.
+     */
+    private apply(upserted: IndexedEvent[], removedIds: string[]): void {
+        for (const id of removedIds) {
+            const event = this.eventsById.get(id);
+            if (event) {
+                this.tree.delete(event);
+                this.eventsById.delete(id);
+            }
+        }
+
+        for (const event of upserted) {
+            const previous = this.eventsById.get(event.id);
+            if (previous) this.tree.delete(previous);
+            this.eventsById.set(event.id, event);
+        }
+
+        if (upserted.length > this.tree.size) {
+            this.tree.build(Array.from(this.eventsById.values()));
+            return;
+        }
+        for (const event of upserted) {
+            this.tree.insert(event);
+        }
+    }
+}
@@ -0,0 +1,88 @@
+/**
+ * EventPipeline Unit Tests
+ *
+ * Tests the in-thread fallback and recovering from a failed worker.
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import type { CalendarEvent } from '$lib/types/Event';
+import { EventStore } from './EventStore';
+import { EventPipeline } from './EventPipeline';
+
+// Helper to create test events
+function createEvent(id: string, startTime: number, endTime: number): CalendarEvent {
+    return {
+        id,
+        title: `Event ${id}`,
+        startTime,
+        endTime,
+        color: '#4285f4',
+        importance: { duration: 0.5, aiScore: 0.5, manual: 0.5, effective: 0.5 },
+        isLifeEvent: false,
+        source: 'manual',
+    };
+}
+
+// Worker stand-in that never answers
+class SilentWorker extends EventTarget {
+    postMessage = vi.fn();
+    terminate = vi.fn();
+}
+
+describe('EventPipeline', () => {
+    it('should mirror the attached store without a worker', async () => {
+        const store = new EventStore();
+        store.addEvents([createEvent('1', 0, 100)]);
+        const pipeline = new EventPipeline(null);
+        pipeline.attach(store);
+
+        store.addEvents([createEvent('2', 50, 150)]);
+        store.remove(['1']);
+
+        const packed = await pipeline.queryRange(0, 200);
+        expect(packed.eventIds).toEqual(['2']);
+    });
+
+    it('should stop mirroring after dispose', async () => {
+        const store = new EventStore();
+        const pipeline = new EventPipeline(null);
+        pipeline.attach(store);
+        pipeline.dispose();
+
+        store.addEvents([createEvent('1', 0, 100)]);
+        expect((await pipeline.queryRange(0, 100)).count).toBe(0);
+    });
+
+    it('should send the worker only what its index keeps', () => {
+        const worker = new SilentWorker();
+        const store = new EventStore();
+        const pipeline = new EventPipeline(worker as unknown as Worker);
+        pipeline.attach(store);
+
+        store.addEvents([{ ...createEvent('1', 0, 100), description: 'Long notes' }]);
+
+        expect(worker.postMessage).toHaveBeenLastCalledWith({
+            type: 'apply',
+            upserted: [{ id: '1', startTime: 0, endTime: 100, importance: 0.5, color: '#4285f4', category: undefined }],
+            removedIds: [],
+        });
+    });
+
+    it('should fall back to the main thread when the worker fails', async () => {
+        vi.spyOn(console, 'warn').mockImplementation(() => {});
+        const worker = new SilentWorker();
+        const store = new EventStore();
+        store.addEvents([createEvent('1', 0, 100)]);
+        const pipeline = new EventPipeline(worker as unknown as Worker);
+        pipeline.attach(store);
+
+        const result = pipeline.queryRangeWithImportance(0, 100, 0);
+        expect(worker.postMessage).toHaveBeenCalledWith(expect.objectContaining({ type: 'query' }));
+
+        // The unanswered query is replayed against the rebuilt index
+        worker.dispatchEvent(new Event('error'));
+        expect(worker.terminate).toHaveBeenCalled();
+        expect((await result).eventIds).toEqual(['1']);
+        vi.restoreAllMocks();
+    });
+});
@@ -0,0 +1,187 @@
+/**
+ * EventPipeline - Main-thread client of the event worker
+ *
+ * Providers hand raw pages to the pipeline to be normalized off the main
+ * thread, and the renderer asks it for visible events, which come back as
+ * typed arrays (see EventIndex). The worker keeps its own index in step
+ * with the EventStore it is attached to; changes are sent as the few
+ * fields the index keeps, not as clones of whole events.
+ *
+ * Every call is asynchronous, so callers never wait on indexing. Where
+ * workers are unavailable (SSR, tests) or the worker fails, the same
+ * EventIndex runs in-thread behind the same interface.
+ */
+
+import type { CalendarEvent } from '$lib/types/Event';
+import type { GoogleEvent, GoogleMappingContext } from '$lib/api/GoogleEventMapper';
+import type { EventStore, EventStoreChange } from './EventStore';
+import { eventStore } from './EventStore';
+import {
+    EventIndex,
+    toIndexedEvent,
+    type PackedEvents,
+    type PipelineRequest,
+    type PipelineResponse,
+} from './EventIndex';
+
+/**
+ * Start the event worker, or return null where workers are unavailable
+ */
+function createWorker(): Worker | null {
+    if (typeof Worker === 'undefined') return null;
+    try {
+        return new Worker(new URL('./eventIndex.worker.ts', import.meta.url), { type: 'module' });
+    } catch (err) {
+        console.warn('Event worker unavailable, indexing on the main thread:', err);
+        return null;
+    }
+}
+
+/**
+ * Store change as a mirror request
+ */
+function toApplyRequest(change: EventStoreChange): PipelineRequest {
+    return {
+        type: 'apply',
+        upserted: [...change.added, ...change.updated.map(u => u.current)].map(toIndexedEvent),
+        removedIds: change.removed.map(e => e.id),
+    };
+}
+
+/**
+ * Every event of a store as a mirror request
+ */
+function toLoadRequest(store: EventStore): PipelineRequest {
+    return { type: 'apply', upserted: store.queryRange(-Infinity, Infinity).map(toIndexedEvent), removedIds: [] };
+}
+
+export class EventPipeline {
+    private worker: Worker | null;
+    /** In-thread fallback, created when there is no worker */
+    private local: EventIndex | null = null;
+    private nextId = 1;
+    /** Requests awaiting a reply, kept so they can be replayed after a worker failure */
+    private pending = new Map<number, { request: PipelineRequest; resolve: (response: PipelineResponse) => void }>();
+    private store: EventStore | null = null;
+    private storeUnsub: (() => void) | null = null;
+
+    constructor(worker: Worker | null = createWorker()) {
+        this.worker = worker;
+        if (worker) {
+            worker.addEventListener('message', (message: MessageEvent<PipelineResponse>) => {
+                this.resolve(message.data);
+            });
+            worker.addEventListener('error', (err) => {
+                console.warn('Event worker failed, indexing on the main thread:', err);
+                this.fallBack();
+            });
+        } else {
+            this.local = new EventIndex();
+        }
+    }
+
+    /**
+     * Keep the worker's index in step with a store
+     */
+    attach(store: EventStore): void {
+        this.storeUnsub?.();
+        this.store = store;
+        this.post(toLoadRequest(store));
+        this.storeUnsub = store.subscribe(change => this.post(toApplyRequest(change)));
+    }
+
+    /**
+     * Normalize a page of Google event resources
+     */
+    async mapGoogleEvents(items: GoogleEvent[], context: GoogleMappingContext): Promise<CalendarEvent[]> {
+        if (items.length === 0) return [];
+        const response = await this.request({ type: 'mapGoogle', id: this.nextId++, items, context });
+        return response.type === 'mapped' ? response.events : [];
+    }
+
+    /**
+     * Events overlapping a range, packed for rendering
+     */
+    queryRange(startTime: number, endTime: number): Promise<PackedEvents> {
+        return this.query(startTime, endTime);
+    }
+
+    /**
+     * Events overlapping a range that meet an importance threshold, packed for rendering
+     */
+    queryRangeWithImportance(startTime: number, endTime: number, minImportance: number): Promise<PackedEvents> {
+        return this.query(startTime, endTime, minImportance);
+    }
+
+    /**
+     * Stop the worker and detach from the store
+     */
+    dispose(): void {
+        this.storeUnsub?.();
+        this.storeUnsub = null;
+        this.worker?.terminate();
+        this.worker = null;
+    }
+
+    // =========================================
+    // Helpers
+    // =========================================
+
+    private async query(startTime: number, endTime: number, minImportance?: number): Promise<PackedEvents> {
+        const response = await this.request({ type: 'query', id: this.nextId++, startTime, endTime, minImportance });
+        if (response.type !== 'result') {
+            throw new Error(`Unexpected event worker reply: ${response.type}`);
+        }
+        return response.packed;
+    }
+
+    private request(request: PipelineRequest & { id: number }): Promise<PipelineResponse> {
+        return new Promise(resolve => {
+            this.pending.set(request.id, { request, resolve });
+            this.post(request);
+        });
+    }
+
+    /**
+     * Send a request to the worker, or handle it in-thread (replying
+     * asynchronously, like the worker would)
+     */
+    private post(request: PipelineRequest): void {
+        if (this.worker) {
+            this.worker.postMessage(request);
+            return;
+        }
+
+        const reply = this.local!.handle(request);
+        if (reply) {
+            queueMicrotask(() => this.resolve(reply.response));
+        }
+    }
+
+    private resolve(response: PipelineResponse): void {
+        const entry = this.pending.get(response.id);
+        this.pending.delete(response.id);
+        entry?.resolve(response);
+    }
+
+    /**
+     * Replace a failed worker with an in-thread index, rebuilt from the
+     * attached store, and replay the requests the worker never answered
+     */
+    private fallBack(): void {
+        this.worker?.terminate();
+        this.worker = null;
+        this.local = new EventIndex();
+
+        if (this.store) {
+            this.post(toLoadRequest(this.store));
+        }
+        for (const { request } of Array.from(this.pending.values())) {
+            this.post(request);
+        }
+    }
+}
+
+/** Singleton instance, mirroring the shared event store */
+export const eventPipeline = new EventPipeline();
+eventPipeline.attach(eventStore);
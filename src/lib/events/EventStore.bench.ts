@@ -0,0 +1,61 @@
+/**
+ * EventStore Benchmarks
+ *
+ * Load time for 10k, 100k and 1M events, added in batches of 100 the way
+ * EventLoader streams them in, plus a viewport query on the loaded store.
+ *
+ * Run with `npm run bench`.
+ */
+
+import { describe, bench } from 'vitest';
+import type { CalendarEvent } from '$lib/types/Event';
+import { EventStore } from './EventStore';
+
+const HOUR = 60 * 60 * 1000;
+
+/** EventLoader's batch size */
+const BATCH_SIZE = 100;
+
+// Events spread over time in shuffled order, as chunks arrive out of order
+function createEvents(count: number): CalendarEvent[] {
+    const events: CalendarEvent[] = [];
+    for (let i = 0; i < count; i++) {
+        const slot = (i * 7919) % count;
+        events.push({
+            id: `event-${i}`,
+            title: `Event ${i}`,
+            startTime: slot * HOUR,
+            endTime: slot * HOUR + (1 + (i % 8)) * HOUR,
+            color: '#4285f4',
+            importance: { duration: 0.5, aiScore: 0.5, manual: 0.5, effective: (i % 10) / 10 },
+            isLifeEvent: false,
+            source: 'manual',
+        });
+    }
+    return events;
+}
+
+function loadInBatches(store: EventStore, events: CalendarEvent[]): void {
+    for (let i = 0; i < events.length; i += BATCH_SIZE) {
+        store.upsert(events.slice(i, i + BATCH_SIZE));
+    }
+}
+
+for (const count of [10_000, 100_000, 1_000_000]) {
+    describe(`${count.toLocaleString('en-US')} events`, () => {
+        const events = createEvents(count);
+        const options = count >= 1_000_000 ? { iterations: 3, warmupIterations: 0 } : undefined;
+
+        bench('load in batches', () => {
+            loadInBatches(new EventStore(), events);
+        }, options);
+
+        const loaded = new EventStore();
+        loadInBatches(loaded, events);
+
+        bench('query a month', () => {
+            const start = (count / 2) * HOUR;
+            loaded.queryRangeWithImportance(start, start + 30 * 24 * HOUR, 0.3);
+        });
+    });
+}
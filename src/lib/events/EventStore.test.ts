@@ -5,7 +5,7 @@
  */
 
 import { describe, it, expect, beforeEach } from 'vitest';
-import { EventStore } from './EventStore';
+import { EventStore, changeOverlaps, type EventStoreChange } from './EventStore';
 import type { CalendarEvent } from '$lib/types/Event';
 
 // Helper to create a test event
@@ -23,6 +23,7 @@ function createEvent(id: string, startTime: number, endTime: number, importance:
             effective: importance,
         },
         isLifeEvent: false,
+        source: 'mock',
     };
 }
 
@@ -146,6 +147,34 @@ describe('EventStore', () => {
         });
     });
 
+    describe('upsert', () => {
+        it('should replace events with the same ID', () => {
+            store.addEvents([createEvent('1', 0, 100), createEvent('2', 200, 300)]);
+            store.upsert([{ ...createEvent('1', 500, 600), title: 'Moved' }]);
+
+            expect(store.size).toBe(2);
+            expect(store.getById('1')?.title).toBe('Moved');
+            expect(store.queryRange(0, 150)).toHaveLength(0);
+            expect(store.queryRange(550, 560).map(e => e.id)).toEqual(['1']);
+        });
+
+        it('should insert new events', () => {
+            store.upsert([createEvent('1', 0, 100)]);
+            expect(store.queryRange(50, 60)).toHaveLength(1);
+        });
+    });
+
+    describe('remove', () => {
+        it('should remove events by ID', () => {
+            store.addEvents([createEvent('1', 0, 100), createEvent('2', 50, 150)]);
+            store.remove(['1', 'unknown']);
+
+            expect(store.size).toBe(1);
+            expect(store.getById('1')).toBeUndefined();
+            expect(store.queryRange(0, 200).map(e => e.id)).toEqual(['2']);
+        });
+    });
+
     describe('clear', () => {
         it('should remove all events', () => {
             store.addEvents([createEvent('1', 0, 100)]);
@@ -156,6 +185,77 @@ describe('EventStore', () => {
         });
     });
 
+    describe('removeWhere', () => {
+        it('should remove matching events and report how many', () => {
+            store.addEvents([createEvent('1', 0, 100), createEvent('2', 50, 150), createEvent('3', 200, 300)]);
+
+            const removed = store.removeWhere(e => e.startTime < 100);
+
+            expect(removed).toBe(2);
+            expect(store.size).toBe(1);
+            expect(store.queryRange(0, 150)).toEqual([]);
+        });
+    });
+
+    describe('subscribe', () => {
+        let changes: EventStoreChange[];
+
+        beforeEach(() => {
+            changes = [];
+            store.subscribe(change => changes.push(change));
+        });
+
+        it('should report added events', () => {
+            store.addEvents([createEvent('1', 0, 100)]);
+            store.addEvents([createEvent('1', 0, 100)]); // duplicate, no change
+
+            expect(changes).toHaveLength(1);
+            expect(changes[0].added.map(e => e.id)).toEqual(['1']);
+        });
+
+        it('should report updates with the previous version', () => {
+            store.addEvents([createEvent('1', 0, 100)]);
+            store.upsert([createEvent('1', 500, 600), createEvent('2', 0, 10)]);
+
+            const [, change] = changes;
+            expect(change.added.map(e => e.id)).toEqual(['2']);
+            expect(change.updated[0].previous.startTime).toBe(0);
+            expect(change.updated[0].current.startTime).toBe(500);
+        });
+
+        it('should report removed and cleared events', () => {
+            store.addEvents([createEvent('1', 0, 100), createEvent('2', 0, 100)]);
+            store.remove(['1', 'unknown']);
+            store.clear();
+
+            expect(changes[1].removed.map(e => e.id)).toEqual(['1']);
+            expect(changes[2].removed.map(e => e.id)).toEqual(['2']);
+        });
+
+        it('should stop notifying after unsubscribing', () => {
+            const listener = (change: EventStoreChange) => changes.push(change);
+            const unsubscribe = store.subscribe(listener);
+            unsubscribe();
+
+            store.addEvents([createEvent('1', 0, 100)]);
+            expect(changes).toHaveLength(1); // only the subscriber from beforeEach
+        });
+    });
+
+    describe('changeOverlaps', () => {
+        it('should include events moved out of the range', () => {
+            const change: EventStoreChange = {
+                added: [],
+                updated: [{ previous: createEvent('1', 0, 100), current: createEvent('1', 500, 600) }],
+                removed: [],
+            };
+
+            expect(changeOverlaps(change, 50, 60)).toBe(true);
+            expect(changeOverlaps(change, 550, 560)).toBe(true);
+            expect(changeOverlaps(change, 200, 300)).toBe(false);
+        });
+    });
+
     describe('performance', () => {
         it('should handle many events efficiently', () => {
             const manyEvents: CalendarEvent[] = [];
@@ -1,215 +1,212 @@
 /**
  * EventStore - Efficient storage and querying of calendar events
  * 
- * Uses an interval tree for O(log n + k) range queries where k is results.
+ * Uses a self-balancing interval tree, so events can be added and removed
+ * in O(log n) each as chunks stream in, instead of rebuilding per batch.
  * Supports:
  * - Fast range queries for visible events
  * - Importance-based filtering
  * - Deduplication by event ID
+ * - Upserts and removals, with change notifications for subscribers
  */
 
 import type { CalendarEvent } from '$lib/types/Event';
+import { IntervalTree } from './IntervalTree';
 
 /**
- * Interval tree node for efficient range queries
+ * Events changed by a single store operation
  */
-interface IntervalNode {
-    /** Center point for this node */
-    center: number;
-    /** Events that overlap the center point */
-    overlapping: CalendarEvent[];
-    /** Left subtree (events entirely before center) */
-    left: IntervalNode | null;
-    /** Right subtree (events entirely after center) */
-    right: IntervalNode | null;
+export interface EventStoreChange {
+    /** Events that were not in the store before */
+    added: CalendarEvent[];
+    /** Replaced events, before and after */
+    updated: { previous: CalendarEvent; current: CalendarEvent }[];
+    /** Events that left the store */
+    removed: CalendarEvent[];
+}
+
+/**
+ * Callback for store changes
+ */
+export type EventStoreListener = (change: EventStoreChange) => void;
+
+/**
+ * Check whether a change touches a time range (including events moved out of it)
+ */
+export function changeOverlaps(change: EventStoreChange, startTime: number, endTime: number): boolean {
+    const overlaps = (e: CalendarEvent) => e.endTime > startTime && e.startTime < endTime;
+    return change.added.some(overlaps)
+        || change.removed.some(overlaps)
+        || change.updated.some(u => overlaps(u.previous) || overlaps(u.current));
 }
 
 /**
  * EventStore - Manages events with efficient range queries
  */
 export class EventStore {
-    private root: IntervalNode | null = null;
+    private tree = new IntervalTree();
     private eventsById: Map<string, CalendarEvent> = new Map();
-    private allEvents: CalendarEvent[] = [];
+    private listeners = new Set<EventStoreListener>();
 
     /**
-     * Add events to the store (deduplicates by ID)
+     * Add events to the store (deduplicates by ID; events already stored are
+     * kept as they are, use upsert() to replace them)
      */
     addEvents(events: CalendarEvent[]): void {
-        let needsRebuild = false;
+        const added: CalendarEvent[] = [];
 
         for (const event of events) {
             if (!this.eventsById.has(event.id)) {
                 this.eventsById.set(event.id, event);
-                this.allEvents.push(event);
-                needsRebuild = true;
+                added.push(event);
             }
         }
 
-        if (needsRebuild) {
-            this.buildTree();
+        if (added.length > 0) {
+            this.insertIntoTree(added);
+            this.notify({ added, updated: [], removed: [] });
         }
     }
 
     /**
-     * Clear all events from the store
+     * Insert events, replacing any stored event with the same ID
      */
-    clear(): void {
-        this.root = null;
-        this.eventsById.clear();
-        this.allEvents = [];
+    upsert(events: CalendarEvent[]): void {
+        if (events.length === 0) return;
+
+        const change: EventStoreChange = { added: [], updated: [], removed: [] };
+        for (const event of events) {
+            const previous = this.eventsById.get(event.id);
+            if (previous === event) continue;
+
+            this.eventsById.set(event.id, event);
+            if (previous) {
+                this.tree.delete(previous);
+                change.updated.push({ previous, current: event });
+            } else {
+                change.added.push(event);
+            }
+        }
+
+        if (change.added.length > 0 || change.updated.length > 0) {
+            this.insertIntoTree([...change.added, ...change.updated.map(u => u.current)]);
+            this.notify(change);
+        }
     }
 
     /**
-     * Get total number of events
+     * Remove events by ID (unknown IDs are ignored)
      */
-    get size(): number {
-        return this.allEvents.length;
+    remove(ids: string[]): void {
+        const removed: CalendarEvent[] = [];
+
+        for (const id of ids) {
+            const event = this.eventsById.get(id);
+            if (event) {
+                this.eventsById.delete(id);
+                this.tree.delete(event);
+                removed.push(event);
+            }
+        }
+
+        if (removed.length > 0) {
+            this.notify({ added: [], updated: [], removed });
+        }
     }
 
     /**
-     * Query events that overlap a time range
-     * O(log n + k) where k is the number of results
+     * Remove every event matching a predicate
+     * @returns the number of events removed
      */
-    queryRange(startTime: number, endTime: number): CalendarEvent[] {
-        if (!this.root) return [];
-
-        const results: CalendarEvent[] = [];
-        this.queryNode(this.root, startTime, endTime, results);
-        return results;
+    removeWhere(predicate: (event: CalendarEvent) => boolean): number {
+        const ids: string[] = [];
+        for (const event of Array.from(this.eventsById.values())) {
+            if (predicate(event)) ids.push(event.id);
+        }
+        this.remove(ids);
+        return ids.length;
     }
 
     /**
-     * Query events that overlap a time range and meet importance threshold
-     * O(log n + k) where k is the number of results
+     * Clear all events from the store
      */
-    queryRangeWithImportance(
-        startTime: number,
-        endTime: number,
-        minImportance: number
-    ): CalendarEvent[] {
-        if (!this.root) return [];
+    clear(): void {
+        const removed = Array.from(this.eventsById.values());
+
+        this.tree.clear();
+        this.eventsById.clear();
 
-        const results: CalendarEvent[] = [];
-        this.queryNodeWithImportance(this.root, startTime, endTime, minImportance, results);
-        return results;
+        if (removed.length > 0) {
+            this.notify({ added: [], updated: [], removed });
+        }
     }
 
     /**
-     * Get an event by ID
+     * Subscribe to changes
+     * @returns unsubscribe function
      */
-    getById(id: string): CalendarEvent | undefined {
-        return this.eventsById.get(id);
+    subscribe(listener: EventStoreListener): () => void {
+        this.listeners.add(listener);
+        return () => {
+            this.listeners.delete(listener);
+        };
     }
 
     /**
-     * Build the interval tree from all events
+     * Tell subscribers about a change
      */
-    private buildTree(): void {
-        if (this.allEvents.length === 0) {
-            this.root = null;
-            return;
+    private notify(change: EventStoreChange): void {
+        for (const listener of Array.from(this.listeners)) {
+            listener(change);
         }
-
-        this.root = this.buildNode(this.allEvents);
     }
 
     /**
-     * Recursively build a node of the interval tree
+     * Get total number of events
      */
-    private buildNode(events: CalendarEvent[]): IntervalNode | null {
-        if (events.length === 0) return null;
-
-        // Find the median endpoint as the center
-        const endpoints: number[] = [];
-        for (const event of events) {
-            endpoints.push(event.startTime, event.endTime);
-        }
-        endpoints.sort((a, b) => a - b);
-        const center = endpoints[Math.floor(endpoints.length / 2)];
-
-        // Partition events
-        const overlapping: CalendarEvent[] = [];
-        const left: CalendarEvent[] = [];
-        const right: CalendarEvent[] = [];
-
-        for (const event of events) {
-            if (event.endTime < center) {
-                left.push(event);
-            } else if (event.startTime > center) {
-                right.push(event);
-            } else {
-                overlapping.push(event);
-            }
-        }
-
-        // Sort overlapping by start time for faster iteration
-        overlapping.sort((a, b) => a.startTime - b.startTime);
+    get size(): number {
+        return this.eventsById.size;
+    }
 
-        return {
-            center,
-            overlapping,
-            left: this.buildNode(left),
-            right: this.buildNode(right),
-        };
+    /**
+     * Query events that overlap a time range, in start order
+     * O(log n) per result
+     */
+    queryRange(startTime: number, endTime: number): CalendarEvent[] {
+        return this.tree.query(startTime, endTime);
     }
 
     /**
-     * Query a node and its children for overlapping events
+     * Query events that overlap a time range and meet importance threshold
+     * O(log n) per overlapping event
      */
-    private queryNode(
-        node: IntervalNode,
+    queryRangeWithImportance(
         startTime: number,
         endTime: number,
-        results: CalendarEvent[]
-    ): void {
-        // Check overlapping events at this node
-        for (const event of node.overlapping) {
-            if (event.endTime > startTime && event.startTime < endTime) {
-                results.push(event);
-            }
-        }
-
-        // Recurse left if query range extends left of center
-        if (node.left && startTime < node.center) {
-            this.queryNode(node.left, startTime, endTime, results);
-        }
-
-        // Recurse right if query range extends right of center
-        if (node.right && endTime > node.center) {
-            this.queryNode(node.right, startTime, endTime, results);
-        }
+        minImportance: number
+    ): CalendarEvent[] {
+        return this.tree.query(startTime, endTime, e => e.importance.effective >= minImportance);
     }
 
     /**
-     * Query a node with importance filtering
+     * Get an event by ID
      */
-    private queryNodeWithImportance(
-        node: IntervalNode,
-        startTime: number,
-        endTime: number,
-        minImportance: number,
-        results: CalendarEvent[]
-    ): void {
-        // Check overlapping events at this node
-        for (const event of node.overlapping) {
-            if (
-                event.endTime > startTime &&
-                event.startTime < endTime &&
-                event.importance.effective >= minImportance
-            ) {
-                results.push(event);
-            }
-        }
+    getById(id: string): CalendarEvent | undefined {
+        return this.eventsById.get(id);
+    }
 
-        // Recurse left if query range extends left of center
-        if (node.left && startTime < node.center) {
-            this.queryNodeWithImportance(node.left, startTime, endTime, minImportance, results);
+    /**
+     * Insert events into the tree. A batch bigger than the tree (such as the
+     * first load) is cheaper as one balanced rebuild than as single inserts.
+     */
+    private insertIntoTree(events: CalendarEvent[]): void {
+        if (events.length > this.tree.size) {
+            this.tree.build(Array.from(this.eventsById.values()));
+            return;
         }
 
-        // Recurse right if query range extends right of center
-        if (node.right && endTime > node.center) {
-            this.queryNodeWithImportance(node.right, startTime, endTime, minImportance, results);
+        for (const event of events) {
+            this.tree.insert(event);
         }
     }
 }
@@ -0,0 +1,71 @@
+/**
+ * IntervalSet Unit Tests
+ *
+ * Tests merging, splitting and time-aware coverage of loaded ranges.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { IntervalSet } from './IntervalSet';
+
+describe('IntervalSet', () => {
+    it('should merge touching ranges fetched together', () => {
+        const set = new IntervalSet();
+        set.add(0, 10, 1);
+        set.add(20, 30, 1);
+        set.add(10, 20, 1);
+
+        expect(set.toArray()).toEqual([{ start: 0, end: 30, fetchedAt: 1 }]);
+    });
+
+    it('should cover ranges spanning several segments', () => {
+        const set = new IntervalSet();
+        set.add(0, 10, 1);
+        set.add(10, 20, 2);
+
+        expect(set.covers(5, 15)).toBe(true);
+        expect(set.covers(5, 25)).toBe(false);
+        expect(set.gaps(-5, 25)).toEqual([{ start: -5, end: 0 }, { start: 20, end: 25 }]);
+    });
+
+    it('should overwrite the fetch time of overlapped parts', () => {
+        const set = new IntervalSet();
+        set.add(0, 30, 1);
+        set.add(10, 20, 5);
+
+        expect(set.toArray()).toEqual([
+            { start: 0, end: 10, fetchedAt: 1 },
+            { start: 10, end: 20, fetchedAt: 5 },
+            { start: 20, end: 30, fetchedAt: 1 },
+        ]);
+    });
+
+    it('should treat parts fetched before a time as gaps', () => {
+        const set = new IntervalSet();
+        set.add(0, 10, 1);
+        set.add(10, 20, 5);
+
+        expect(set.covers(10, 20, 3)).toBe(true);
+        expect(set.covers(0, 20, 3)).toBe(false);
+        expect(set.gaps(0, 20, 3)).toEqual([{ start: 0, end: 10 }]);
+    });
+
+    it('should split segments when removing a range', () => {
+        const set = new IntervalSet();
+        set.add(0, 30, 1);
+        set.remove(10, 20);
+
+        expect(set.size).toBe(2);
+        expect(set.covers(0, 10)).toBe(true);
+        expect(set.covers(10, 20)).toBe(false);
+    });
+
+    it('should keep any number of disjoint ranges', () => {
+        const set = new IntervalSet();
+        for (let i = 0; i < 500; i++) {
+            set.add(i * 10, i * 10 + 5, 1);
+        }
+
+        expect(set.size).toBe(500);
+        expect(set.covers(0, 5)).toBe(true);
+    });
+});
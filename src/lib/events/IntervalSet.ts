@@ -0,0 +1,129 @@
+/**
+ * IntervalSet - Set of loaded time ranges with fetch times
+ *
+ * Keeps sorted, non-overlapping segments, each remembering when it was
+ * fetched. Adding a range overwrites the parts it overlaps; adjacent
+ * segments fetched at the same time are merged. Coverage queries can ask
+ * for data fetched after a given time, which is how cache TTLs are checked.
+ */
+
+/**
+ * A loaded segment [start, end)
+ */
+export interface Segment {
+    start: number;
+    end: number;
+    /** When the segment was fetched (ms since epoch) */
+    fetchedAt: number;
+}
+
+export class IntervalSet {
+    private segments: Segment[] = [];
+
+    /**
+     * Mark [start, end) as fetched at the given time
+     */
+    add(start: number, end: number, fetchedAt = Date.now()): void {
+        if (end <= start) return;
+
+        this.remove(start, end);
+
+        const index = this.segments.findIndex(s => s.start >= end);
+        const insertAt = index === -1 ? this.segments.length : index;
+        this.segments.splice(insertAt, 0, { start, end, fetchedAt });
+
+        this.mergeAround(insertAt);
+    }
+
+    /**
+     * Forget [start, end), splitting segments that extend beyond it
+     */
+    remove(start: number, end: number): void {
+        if (end <= start) return;
+
+        const kept: Segment[] = [];
+        for (const segment of this.segments) {
+            if (segment.end <= start || segment.start >= end) {
+                kept.push(segment);
+                continue;
+            }
+            if (segment.start < start) {
+                kept.push({ ...segment, end: start });
+            }
+            if (segment.end > end) {
+                kept.push({ ...segment, start: end });
+            }
+        }
+        this.segments = kept;
+    }
+
+    /**
+     * Check that every point of [start, end) was fetched at or after `since`
+     */
+    covers(start: number, end: number, since = -Infinity): boolean {
+        return this.gaps(start, end, since).length === 0;
+    }
+
+    /**
+     * Parts of [start, end) not fetched, or fetched before `since`
+     */
+    gaps(start: number, end: number, since = -Infinity): { start: number; end: number }[] {
+        const gaps: { start: number; end: number }[] = [];
+        let cursor = start;
+
+        for (const segment of this.segments) {
+            if (segment.end <= cursor || segment.fetchedAt < since) continue;
+            if (segment.start >= end) break;
+
+            if (segment.start > cursor) {
+                gaps.push({ start: cursor, end: segment.start });
+            }
+            cursor = Math.max(cursor, segment.end);
+            if (cursor >= end) break;
+        }
+
+        if (cursor < end) {
+            gaps.push({ start: cursor, end });
+        }
+        return gaps;
+    }
+
+    /**
+     * Forget everything
+     */
+    clear(): void {
+        this.segments = [];
+    }
+
+    /**
+     * Number of segments (after merging)
+     */
+    get size(): number {
+        return this.segments.length;
+    }
+
+    /**
+     * Copy of the segments, sorted by start
+     */
+    toArray(): Segment[] {
+        return this.segments.map(s => ({ ...s }));
+    }
+
+    /**
+     * Merge the segment at index with touching neighbours fetched at the same time
+     */
+    private mergeAround(index: number): void {
+        const next = this.segments[index + 1];
+        const current = this.segments[index];
+        if (next && next.start === current.end && next.fetchedAt === current.fetchedAt) {
+            current.end = next.end;
+            this.segments.splice(index + 1, 1);
+        }
+
+        const previous = this.segments[index - 1];
+        if (previous && previous.end === current.start && previous.fetchedAt === current.fetchedAt) {
+            previous.end = current.end;
+            this.segments.splice(index, 1);
+        }
+    }
+}
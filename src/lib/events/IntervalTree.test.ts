@@ -0,0 +1,87 @@
+/**
+ * IntervalTree Unit Tests
+ *
+ * Tests overlap queries, deletion and that the tree stays balanced.
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { CalendarEvent } from '$lib/types/Event';
+import { IntervalTree } from './IntervalTree';
+
+// Helper to create test events
+function createEvent(id: string, startTime: number, endTime: number): CalendarEvent {
+    return {
+        id,
+        title: `Event ${id}`,
+        startTime,
+        endTime,
+        color: '#4285f4',
+        importance: { duration: 0.5, aiScore: 0.5, manual: 0.5, effective: 0.5 },
+        isLifeEvent: false,
+        source: 'manual',
+    };
+}
+
+describe('IntervalTree', () => {
+    it('should return overlapping events in start order', () => {
+        const tree = new IntervalTree();
+        tree.insert(createEvent('long', 0, 1000));
+        tree.insert(createEvent('late', 600, 700));
+        tree.insert(createEvent('early', 100, 200));
+        tree.insert(createEvent('before', -100, 0));
+
+        expect(tree.query(150, 650).map(e => e.id)).toEqual(['long', 'early', 'late']);
+        expect(tree.query(1000, 2000)).toEqual([]);
+    });
+
+    it('should find long events whose start is far left of the range', () => {
+        const tree = new IntervalTree();
+        tree.insert(createEvent('life', 0, 1_000_000));
+        for (let i = 0; i < 100; i++) {
+            tree.insert(createEvent(`e${i}`, i * 10, i * 10 + 5));
+        }
+
+        expect(tree.query(500_000, 500_001).map(e => e.id)).toEqual(['life']);
+    });
+
+    it('should delete events sharing a start time by ID', () => {
+        const tree = new IntervalTree();
+        const a = createEvent('a', 0, 100);
+        const b = createEvent('b', 0, 50);
+        tree.insert(a);
+        tree.insert(b);
+
+        expect(tree.delete(a)).toBe(true);
+        expect(tree.delete(a)).toBe(false);
+        expect(tree.size).toBe(1);
+        expect(tree.query(60, 70)).toEqual([]);
+        expect(tree.query(0, 10).map(e => e.id)).toEqual(['b']);
+    });
+
+    it('should stay balanced through sorted inserts and deletes', () => {
+        const tree = new IntervalTree();
+        const events = Array.from({ length: 4096 }, (_, i) => createEvent(`e${i}`, i, i + 1));
+        for (const event of events) tree.insert(event);
+
+        // A perfectly balanced tree of 4096 nodes has height 13; AVL allows ~1.44x
+        expect(tree.height).toBeLessThanOrEqual(18);
+
+        for (const event of events.slice(0, 3000)) tree.delete(event);
+        expect(tree.size).toBe(1096);
+        expect(tree.height).toBeLessThanOrEqual(16);
+        expect(tree.query(0, 4096)).toHaveLength(1096);
+    });
+
+    it('should match a linear scan after a bulk build', () => {
+        const tree = new IntervalTree();
+        const events = Array.from({ length: 500 }, (_, i) =>
+            createEvent(`e${i}`, (i * 7919) % 1000, ((i * 7919) % 1000) + (i % 50)));
+        tree.build(events);
+
+        const expected = events
+            .filter(e => e.endTime > 300 && e.startTime < 400)
+            .map(e => e.id)
+            .sort();
+        expect(tree.query(300, 400).map(e => e.id).sort()).toEqual(expected);
+    });
+});
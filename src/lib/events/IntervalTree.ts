@@ -0,0 +1,250 @@
+/**
+ * IntervalTree - Self-balancing interval tree of calendar events (or any
+ * other items with an ID, start and end time)
+ *
+ * An AVL tree ordered by start time (ties broken by ID), where every node
+ * also knows the latest end time in its subtree. That is enough to skip
+ * whole subtrees that end before a queried range, so:
+ * - insert and delete are O(log n)
+ * - range queries are O(log n) per result, returned in start order
+ *
+ * Large batches (bigger than the tree itself) are cheaper to load with a
+ * single balanced rebuild than one insertion at a time; see build().
+ */
+
+import type { CalendarEvent } from '$lib/types/Event';
+
+/**
+ * What the tree needs of an item
+ */
+export interface Interval {
+    id: string;
+    startTime: number;
+    endTime: number;
+}
+
+interface TreeNode<T extends Interval> {
+    event: T;
+    /** Latest end time of any event in this subtree */
+    maxEnd: number;
+    height: number;
+    left: TreeNode<T> | null;
+    right: TreeNode<T> | null;
+}
+
+/**
+ * Order events by start time, then ID, so every event has a unique position
+ */
+function compare(a: Interval, b: Interval): number {
+    if (a.startTime !== b.startTime) return a.startTime - b.startTime;
+    return a.id < b.id ? -1 : a.id > b.id ? 1 : 0;
+}
+
+function height(node: TreeNode<Interval> | null): number {
+    return node ? node.height : 0;
+}
+
+/**
+ * Recompute a node's height and maxEnd from its children
+ */
+function update(node: TreeNode<Interval>): void {
+    node.height = 1 + Math.max(height(node.left), height(node.right));
+    let maxEnd = node.event.endTime;
+    if (node.left && node.left.maxEnd > maxEnd) maxEnd = node.left.maxEnd;
+    if (node.right && node.right.maxEnd > maxEnd) maxEnd = node.right.maxEnd;
+    node.maxEnd = maxEnd;
+}
+
+function rotateRight<T extends Interval>(node: TreeNode<T>): TreeNode<T> {
+    const left = node.left!;
+    node.left = left.right;
+    left.right = node;
+    update(node);
+    update(left);
+    return left;
+}
+
+function rotateLeft<T extends Interval>(node: TreeNode<T>): TreeNode<T> {
+    const right = node.right!;
+    node.right = right.left;
+    right.left = node;
+    update(node);
+    update(right);
+    return right;
+}
+
+/**
+ * Restore the AVL invariant at a node whose subtrees changed
+ */
+function balance<T extends Interval>(node: TreeNode<T>): TreeNode<T> {
+    update(node);
+    const factor = height(node.left) - height(node.right);
+
+    if (factor > 1) {
+        if (height(node.left!.left) < height(node.left!.right)) {
+            node.left = rotateLeft(node.left!);
+        }
+        return rotateRight(node);
+    }
+    if (factor < -1) {
+        if (height(node.right!.right) < height(node.right!.left)) {
+            node.right = rotateRight(node.right!);
+        }
+        return rotateLeft(node);
+    }
+    return node;
+}
+
+export class IntervalTree<T extends Interval = CalendarEvent> {
+    private root: TreeNode<T> | null = null;
+    private count = 0;
+
+    /**
+     * Number of events in the tree
+     */
+    get size(): number {
+        return this.count;
+    }
+
+    /**
+     * Height of the tree (for tests and diagnostics)
+     */
+    get height(): number {
+        return height(this.root);
+    }
+
+    /**
+     * Insert an event. An event with the same start time and ID is replaced.
+     */
+    insert(event: T): void {
+        this.root = this.insertNode(this.root, event);
+    }
+
+    /**
+     * Delete an event. Pass the stored event (or one with the same start time
+     * and ID), since the tree is ordered by start time.
+     * @returns whether the event was found
+     */
+    delete(event: T): boolean {
+        const before = this.count;
+        this.root = this.deleteNode(this.root, event);
+        return this.count < before;
+    }
+
+    /**
+     * Replace the contents with the given events in a single O(n log n) pass
+     */
+    build(events: T[]): void {
+        const sorted = [...events].sort(compare);
+        this.root = this.buildNode(sorted, 0, sorted.length);
+        this.count = sorted.length;
+    }
+
+    /**
+     * Remove every event
+     */
+    clear(): void {
+        this.root = null;
+        this.count = 0;
+    }
+
+    /**
+     * Events overlapping [startTime, endTime), in start order
+     * @param filter - optional extra condition on each overlapping event
+     */
+    query(
+        startTime: number,
+        endTime: number,
+        filter?: (event: T) => boolean
+    ): T[] {
+        const results: T[] = [];
+        this.queryNode(this.root, startTime, endTime, filter, results);
+        return results;
+    }
+
+    // =========================================
+    // Recursive helpers
+    // =========================================
+
+    private insertNode(node: TreeNode<T> | null, event: T): TreeNode<T> {
+        if (!node) {
+            this.count++;
+            return { event, maxEnd: event.endTime, height: 1, left: null, right: null };
+        }
+
+        const order = compare(event, node.event);
+        if (order < 0) {
+            node.left = this.insertNode(node.left, event);
+        } else if (order > 0) {
+            node.right = this.insertNode(node.right, event);
+        } else {
+            node.event = event;
+        }
+        return balance(node);
+    }
+
+    private deleteNode(node: TreeNode<T> | null, event: T): TreeNode<T> | null {
+        if (!node) return null;
+
+        const order = compare(event, node.event);
+        if (order < 0) {
+            node.left = this.deleteNode(node.left, event);
+        } else if (order > 0) {
+            node.right = this.deleteNode(node.right, event);
+        } else {
+            this.count--;
+            if (!node.left) return node.right;
+            if (!node.right) return node.left;
+
+            // Replace with the in-order successor
+            let successor = node.right;
+            while (successor.left) successor = successor.left;
+            node.event = successor.event;
+            node.right = this.deleteMin(node.right);
+        }
+        return balance(node);
+    }
+
+    private deleteMin(node: TreeNode<T>): TreeNode<T> | null {
+        if (!node.left) return node.right;
+        node.left = this.deleteMin(node.left);
+        return balance(node);
+    }
+
+    private buildNode(sorted: T[], start: number, end: number): TreeNode<T> | null {
+        if (start >= end) return null;
+
+        const middle = (start + end) >>> 1;
+        const node: TreeNode<T> = {
+            event: sorted[middle],
+            maxEnd: 0,
+            height: 1,
+            left: this.buildNode(sorted, start, middle),
+            right: this.buildNode(sorted, middle + 1, end),
+        };
+        update(node);
+        return node;
+    }
+
+    private queryNode(
+        node: TreeNode<T> | null,
+        startTime: number,
+        endTime: number,
+        filter: ((event: T) => boolean) | undefined,
+        results: T[]
+    ): void {
+        // Nothing in this subtree ends after the range starts
+        if (!node || node.maxEnd <= startTime) return;
+
+        this.queryNode(node.left, startTime, endTime, filter, results);
+
+        // This event and everything to its right start after the range
+        if (node.event.startTime >= endTime) return;
+
+        if (node.event.endTime > startTime && (!filter || filter(node.event))) {
+            results.push(node.event);
+        }
+
+        this.queryNode(node.right, startTime, endTime, filter, results);
+    }
+}
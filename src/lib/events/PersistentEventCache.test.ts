@@ -0,0 +1,98 @@
+/**
+ * PersistentEventCache Unit Tests
+ *
+ * Tests LRU eviction planning, serving ranges from overlapping chunks and
+ * degrading without IndexedDB.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { mergeRanges, PersistentEventCache, rangeKey, selectEvictions, type RangeRecord } from './PersistentEventCache';
+import type { CalendarEvent } from '$lib/types/Event';
+
+// Helper to create an event in [start, end)
+function event(id: string, start: number, end: number, title = id): CalendarEvent {
+    return {
+        id,
+        title,
+        startTime: start,
+        endTime: end,
+        color: '#4285f4',
+        source: 'google',
+        importance: { duration: 0.5, aiScore: 0.5, manual: 0.5, effective: 0.5 },
+        isLifeEvent: false,
+    };
+}
+
+// Chunk of calendar "primary" written at `writtenAt`
+function chunk(start: number, end: number, events: CalendarEvent[], writtenAt = 0): RangeRecord {
+    return { key: rangeKey('google:1', 'primary', start, end), events, writtenAt };
+}
+
+describe('PersistentEventCache', () => {
+    describe('selectEvictions', () => {
+        const ranges = [
+            { key: 'recent', lastViewed: 300, size: 100 },
+            { key: 'oldest', lastViewed: 100, size: 100 },
+            { key: 'older', lastViewed: 200, size: 100 },
+        ];
+
+        it('should evict the least recently viewed ranges first', () => {
+            expect(selectEvictions(ranges, 150)).toEqual(['oldest', 'older']);
+        });
+
+        it('should evict nothing when no space is needed', () => {
+            expect(selectEvictions(ranges, 0)).toEqual([]);
+        });
+
+        it('should evict everything when the cache is over budget by more than its size', () => {
+            expect(selectEvictions(ranges, 1000)).toHaveLength(3);
+        });
+    });
+
+    describe('rangeKey', () => {
+        it('should order keys by provider, calendar and start', () => {
+            expect(rangeKey('google:1', 'primary', 0, 1000)).toEqual(['google:1', 'primary', 0, 1000]);
+        });
+    });
+
+    describe('mergeRanges', () => {
+        it('should serve a range from chunks written at other zoom levels', () => {
+            const records = [
+                chunk(0, 100, [event('a', 10, 20), event('span', 90, 110)]),
+                chunk(100, 200, [event('span', 90, 110), event('b', 150, 160)]),
+            ];
+
+            expect(mergeRanges(records, 50, 150)?.map(e => e.id)).toEqual(['span']);
+            expect(mergeRanges(records, 0, 200)?.map(e => e.id)).toEqual(['a', 'span', 'b']);
+        });
+
+        it('should return null when part of the range is missing', () => {
+            expect(mergeRanges([chunk(0, 100, []), chunk(150, 200, [])], 50, 160)).toBeNull();
+            expect(mergeRanges([], 0, 100)).toBeNull();
+        });
+
+        it('should prefer the newest copy of an event', () => {
+            const records = [
+                chunk(0, 1000, [event('a', 10, 20, 'Renamed')], 2),
+                chunk(0, 100, [event('a', 10, 20, 'Old')], 1),
+            ];
+
+            expect(mergeRanges(records, 0, 100)?.[0].title).toBe('Renamed');
+        });
+    });
+
+    describe('without IndexedDB', () => {
+        it('should behave as an empty cache', async () => {
+            const cache = new PersistentEventCache(undefined);
+
+            await cache.writeRange('ics', new Map([['a', []]]), 0, 1000);
+            await cache.putSyncToken('ics', 'token');
+            await cache.putProviderState('ics', { a: 1 });
+
+            expect(await cache.readRange('ics', ['a'], 0, 1000)).toBeNull();
+            expect(await cache.getSyncToken('ics')).toBeNull();
+            expect(await cache.getCalendars('ics')).toBeNull();
+            expect(await cache.getProviderState('ics')).toBeNull();
+        });
+    });
+});
@@ -0,0 +1,450 @@
+/**
+ * PersistentEventCache - IndexedDB persistence for loaded events
+ *
+ * Stores the events of every loaded chunk per provider and calendar, along
+ * with each provider's sync token, calendar list and any state it needs to
+ * apply changes to those events, so the app can paint from disk on startup
+ * and keep working offline.
+ *
+ * Each loaded chunk of a calendar is one record, keyed by provider,
+ * calendar and time range, so a calendar's chunks can be read by overlap
+ * with a key range on their start: chunk sizes change with the zoom level,
+ * and a range is served from disk whenever stored chunks cover it. Events
+ * spanning chunks are stored in each of them. When the cache outgrows its
+ * share of the storage quota, the least recently viewed chunks are evicted
+ * first.
+ */
+
+import type { CalendarEvent } from '$lib/types/Event';
+import type { CalendarInfo } from '$lib/api/CalendarProvider';
+import { IntervalSet } from './IntervalSet';
+
+const DB_NAME = 'linear-calendar-cache';
+const DB_VERSION = 2;
+
+/** Object stores */
+const RANGES = 'ranges';
+const RANGE_META = 'rangeMeta';
+const SYNC_TOKENS = 'syncTokens';
+const CALENDARS = 'calendars';
+const PROVIDER_STATE = 'providerState';
+
+/** Share of the storage quota the cache may fill before evicting */
+const QUOTA_SHARE = 0.5;
+
+/** Upper bound on the cache size, whatever the quota */
+const MAX_CACHE_BYTES = 100 * 1024 * 1024;
+
+/** Evict down to this share of the budget, so every write doesn't evict */
+const EVICT_TARGET = 0.8;
+
+/**
+ * Key of a stored chunk. Keys of one provider and calendar sort together,
+ * ordered by start time.
+ */
+export type RangeKey = [providerId: string, calendarId: string, startTime: number, endTime: number];
+
+/**
+ * Bookkeeping for a stored chunk, kept apart from its events so eviction
+ * doesn't have to read them
+ */
+export interface RangeMeta {
+    key: RangeKey;
+    /** Last time the range was read or written */
+    lastViewed: number;
+    /** Approximate size of the stored events in bytes */
+    size: number;
+}
+
+/**
+ * A stored chunk
+ */
+export interface RangeRecord {
+    key: RangeKey;
+    events: CalendarEvent[];
+    /** When the chunk was written; newer chunks win where chunks overlap */
+    writtenAt: number;
+}
+
+/**
+ * Key of a calendar's chunk
+ */
+export function rangeKey(providerId: string, calendarId: string, startTime: number, endTime: number): RangeKey {
+    return [providerId, calendarId, startTime, endTime];
+}
+
+/**
+ * Key range of all chunks of a provider, or of one of its calendars.
+ * Arrays sort after numbers and strings, so `[]` closes the range.
+ */
+function prefixRange(...parts: string[]): IDBKeyRange {
+    return IDBKeyRange.bound(parts, [...parts, []]);
+}
+
+/**
+ * Key range of a calendar's chunks that start before `endTime`
+ */
+function startsBefore(providerId: string, calendarId: string, endTime: number): IDBKeyRange {
+    return IDBKeyRange.bound([providerId, calendarId, -Infinity], [providerId, calendarId, endTime], false, true);
+}
+
+/**
+ * Pick the least recently viewed ranges that free at least `bytes`
+ */
+export function selectEvictions<K>(ranges: { key: K; lastViewed: number; size: number }[], bytes: number): K[] {
+    const keys: K[] = [];
+    let freed = 0;
+
+    for (const range of [...ranges].sort((a, b) => a.lastViewed - b.lastViewed)) {
+        if (freed >= bytes) break;
+        keys.push(range.key);
+        freed += range.size;
+    }
+
+    return keys;
+}
+
+/**
+ * Events of the chunks overlapping a range, if together they cover it.
+ * Where chunks overlap, an event's copy from the newest chunk wins.
+ * @returns null if part of the range isn't stored
+ */
+export function mergeRanges(records: RangeRecord[], startTime: number, endTime: number): CalendarEvent[] | null {
+    const covered = new IntervalSet();
+    for (const { key } of records) {
+        covered.add(key[2], key[3]);
+    }
+    if (!covered.covers(startTime, endTime)) return null;
+
+    const events = new Map<string, CalendarEvent>();
+    for (const record of [...records].sort((a, b) => a.writtenAt - b.writtenAt)) {
+        for (const event of record.events) {
+            if (event.endTime > startTime && event.startTime < endTime) events.set(event.id, event);
+        }
+    }
+    return Array.from(events.values());
+}
+
+/**
+ * Wrap an IndexedDB request in a promise
+ */
+function request<T>(req: IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+        req.onsuccess = () => resolve(req.result);
+        req.onerror = () => reject(req.error);
+    });
+}
+
+/**
+ * Wait for a transaction to commit
+ */
+function done(tx: IDBTransaction): Promise<void> {
+    return new Promise((resolve, reject) => {
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+        tx.onabort = () => reject(tx.error);
+    });
+}
+
+function isQuotaError(err: unknown): boolean {
+    return err instanceof DOMException && err.name === 'QuotaExceededError';
+}
+
+/**
+ * IndexedDB-backed store of loaded chunks, sync tokens and calendar lists.
+ * Every method degrades to a no-op when IndexedDB is unavailable (SSR,
+ * private browsing), so callers never need to check.
+ */
+export class PersistentEventCache {
+    private db: Promise<IDBDatabase | null> | null = null;
+    private factory: IDBFactory | undefined;
+
+    constructor(factory: IDBFactory | undefined = typeof indexedDB !== 'undefined' ? indexedDB : undefined) {
+        this.factory = factory;
+    }
+
+    /**
+     * Open (and create or upgrade) the database once
+     */
+    private open(): Promise<IDBDatabase | null> {
+        if (!this.db) {
+            const factory = this.factory;
+            this.db = !factory
+                ? Promise.resolve(null)
+                : new Promise<IDBDatabase | null>(resolve => {
+                    const req = factory.open(DB_NAME, DB_VERSION);
+                    req.onupgradeneeded = () => {
+                        const db = req.result;
+                        // Version 1 keyed chunks by exact bounds; the cache is disposable
+                        for (const name of Array.from(db.objectStoreNames)) {
+                            db.deleteObjectStore(name);
+                        }
+                        db.createObjectStore(RANGES, { keyPath: 'key' });
+                        db.createObjectStore(RANGE_META, { keyPath: 'key' });
+                        db.createObjectStore(SYNC_TOKENS, { keyPath: 'providerId' });
+                        db.createObjectStore(CALENDARS, { keyPath: 'providerId' });
+                        db.createObjectStore(PROVIDER_STATE, { keyPath: 'providerId' });
+                    };
+                    req.onsuccess = () => resolve(req.result);
+                    req.onerror = () => {
+                        console.warn('Event cache unavailable:', req.error);
+                        resolve(null);
+                    };
+                });
+        }
+        return this.db;
+    }
+
+    // =========================================
+    // Chunks
+    // =========================================
+
+    /**
+     * Read a range for several calendars from the stored chunks overlapping it
+     * @returns the events, or null unless every calendar has the range stored
+     */
+    async readRange(
+        providerId: string,
+        calendarIds: string[],
+        startTime: number,
+        endTime: number
+    ): Promise<CalendarEvent[] | null> {
+        const db = await this.open();
+        if (!db) return null;
+
+        try {
+            const tx = db.transaction([RANGES, RANGE_META], 'readwrite');
+            const ranges = tx.objectStore(RANGES);
+            const meta = tx.objectStore(RANGE_META);
+
+            const perCalendar = await Promise.all(calendarIds.map(async calendarId => {
+                const candidates = await request<RangeRecord[]>(
+                    ranges.getAll(startsBefore(providerId, calendarId, endTime))
+                );
+                return candidates.filter(r => r.key[3] > startTime);
+            }));
+            const merged = perCalendar.map(records => mergeRanges(records, startTime, endTime));
+            if (merged.some(events => !events)) {
+                tx.abort();
+                return null;
+            }
+
+            // Reading a chunk counts as viewing it
+            const now = Date.now();
+            for (const { key } of perCalendar.flat()) {
+                const entry = await request<RangeMeta | undefined>(meta.get(key));
+                if (entry) meta.put({ ...entry, lastViewed: now });
+            }
+            await done(tx);
+
+            return merged.flatMap(events => events!);
+        } catch (err) {
+            console.warn('Failed to read cached events:', err);
+            return null;
+        }
+    }
+
+    /**
+     * Store a range for several calendars. Chunks inside the range (e.g.
+     * written at another zoom level) are replaced by it.
+     * Evicts old chunks if the cache outgrows its budget.
+     */
+    async writeRange(
+        providerId: string,
+        eventsByCalendar: Map<string, CalendarEvent[]>,
+        startTime: number,
+        endTime: number
+    ): Promise<void> {
+        const db = await this.open();
+        if (!db || eventsByCalendar.size === 0) return;
+
+        const put = async () => {
+            const tx = db.transaction([RANGES, RANGE_META], 'readwrite');
+            const now = Date.now();
+            for (const [calendarId, events] of Array.from(eventsByCalendar)) {
+                const inside = await request(
+                    tx.objectStore(RANGE_META).getAllKeys(startsBefore(providerId, calendarId, endTime))
+                );
+                for (const key of inside as RangeKey[]) {
+                    if (key[2] < startTime || key[3] > endTime) continue;
+                    tx.objectStore(RANGES).delete(key);
+                    tx.objectStore(RANGE_META).delete(key);
+                }
+
+                const key = rangeKey(providerId, calendarId, startTime, endTime);
+                const record: RangeRecord = { key, events, writtenAt: now };
+                tx.objectStore(RANGES).put(record);
+                tx.objectStore(RANGE_META).put({ key, lastViewed: now, size: JSON.stringify(events).length });
+            }
+            await done(tx);
+        };
+
+        try {
+            await put();
+        } catch (err) {
+            if (!isQuotaError(err)) {
+                console.warn('Failed to cache events:', err);
+                return;
+            }
+            // Out of space: make room and try once more
+            await this.evict(0);
+            await put().catch(retryErr => console.warn('Failed to cache events:', retryErr));
+        }
+
+        await this.evictIfNeeded();
+    }
+
+    /**
+     * Delete the stored chunks of a calendar except the given ranges
+     */
+    async retainRanges(providerId: string, calendarId: string, keep: { start: number; end: number }[]): Promise<void> {
+        const db = await this.open();
+        if (!db) return;
+
+        try {
+            const tx = db.transaction([RANGES, RANGE_META], 'readwrite');
+            const keys = await request(tx.objectStore(RANGE_META).getAllKeys(prefixRange(providerId, calendarId)));
+            for (const key of keys as RangeKey[]) {
+                if (keep.some(range => range.start === key[2] && range.end === key[3])) continue;
+                tx.objectStore(RANGES).delete(key);
+                tx.objectStore(RANGE_META).delete(key);
+            }
+            await done(tx);
+        } catch (err) {
+            console.warn('Failed to update cached events:', err);
+        }
+    }
+
+    // =========================================
+    // Sync tokens, calendar lists and provider state
+    // =========================================
+
+    async getSyncToken(providerId: string): Promise<string | null> {
+        const record = await this.get<{ token: string }>(SYNC_TOKENS, providerId);
+        return record?.token ?? null;
+    }
+
+    async putSyncToken(providerId: string, token: string): Promise<void> {
+        await this.put(SYNC_TOKENS, { providerId, token });
+    }
+
+    async getCalendars(providerId: string): Promise<CalendarInfo[] | null> {
+        const record = await this.get<{ calendars: CalendarInfo[] }>(CALENDARS, providerId);
+        return record?.calendars ?? null;
+    }
+
+    async putCalendars(providerId: string, calendars: CalendarInfo[]): Promise<void> {
+        await this.put(CALENDARS, { providerId, calendars });
+    }
+
+    /**
+     * State a provider keeps about its stored events (e.g. which resource
+     * they came from), so it can apply changes to them after a reload
+     */
+    async getProviderState<T>(providerId: string): Promise<T | null> {
+        const record = await this.get<{ state: T }>(PROVIDER_STATE, providerId);
+        return record?.state ?? null;
+    }
+
+    async putProviderState(providerId: string, state: unknown): Promise<void> {
+        await this.put(PROVIDER_STATE, { providerId, state });
+    }
+
+    /**
+     * Forget everything stored for a provider (e.g., after sign-out)
+     */
+    async clearProvider(providerId: string): Promise<void> {
+        const db = await this.open();
+        if (!db) return;
+
+        try {
+            const tx = db.transaction([RANGES, RANGE_META, SYNC_TOKENS, CALENDARS, PROVIDER_STATE], 'readwrite');
+            tx.objectStore(RANGES).delete(prefixRange(providerId));
+            tx.objectStore(RANGE_META).delete(prefixRange(providerId));
+            tx.objectStore(SYNC_TOKENS).delete(providerId);
+            tx.objectStore(CALENDARS).delete(providerId);
+            tx.objectStore(PROVIDER_STATE).delete(providerId);
+            await done(tx);
+        } catch (err) {
+            console.warn('Failed to clear cached events:', err);
+        }
+    }
+
+    // =========================================
+    // Eviction
+    // =========================================
+
+    /**
+     * Cache budget: a share of the storage quota, capped
+     */
+    private async getBudget(): Promise<number> {
+        try {
+            const estimate = typeof navigator !== 'undefined' ? await navigator.storage?.estimate() : undefined;
+            return estimate?.quota ? Math.min(MAX_CACHE_BYTES, estimate.quota * QUOTA_SHARE) : MAX_CACHE_BYTES;
+        } catch {
+            return MAX_CACHE_BYTES;
+        }
+    }
+
+    private async evictIfNeeded(): Promise<void> {
+        await this.evict(await this.getBudget());
+    }
+
+    /**
+     * Evict least recently viewed chunks until the cache fits in the budget
+     * (with some headroom). A budget of 0 frees a tenth of the cache.
+     */
+    private async evict(budget: number): Promise<void> {
+        const db = await this.open();
+        if (!db) return;
+
+        try {
+            const tx = db.transaction([RANGES, RANGE_META], 'readwrite');
+            const ranges = await request<RangeMeta[]>(tx.objectStore(RANGE_META).getAll());
+            const total = ranges.reduce((sum, r) => sum + r.size, 0);
+            const bytes = budget > 0
+                ? (total > budget ? total - budget * EVICT_TARGET : 0)
+                : total / 10;
+
+            for (const key of selectEvictions(ranges, bytes)) {
+                tx.objectStore(RANGES).delete(key);
+                tx.objectStore(RANGE_META).delete(key);
+            }
+            await done(tx);
+        } catch (err) {
+            console.warn('Failed to evict cached events:', err);
+        }
+    }
+
+    // =========================================
+    // Helpers
+    // =========================================
+
+    private async get<T>(store: string, key: string): Promise<T | undefined> {
+        const db = await this.open();
+        if (!db) return undefined;
+
+        try {
+            return await request<T | undefined>(db.transaction(store).objectStore(store).get(key));
+        } catch (err) {
+            console.warn(`Failed to read ${store}:`, err);
+            return undefined;
+        }
+    }
+
+    private async put(store: string, value: unknown): Promise<void> {
+        const db = await this.open();
+        if (!db) return;
+
+        try {
+            const tx = db.transaction(store, 'readwrite');
+            tx.objectStore(store).put(value);
+            await done(tx);
+        } catch (err) {
+            console.warn(`Failed to write ${store}:`, err);
+        }
+    }
+}
+
+/** Singleton instance */
+export const persistentEventCache = new PersistentEventCache();
@@ -0,0 +1,16 @@
+/**
+ * Event worker entry - forwards pipeline messages to an EventIndex
+ *
+ * Loaded by EventPipeline; see EventIndex for the protocol.
+ */
+
+import { EventIndex, type PipelineRequest } from './EventIndex';
+
+const index = new EventIndex();
+
+self.addEventListener('message', (message: MessageEvent<PipelineRequest>) => {
+    const reply = index.handle(message.data);
+    if (reply) {
+        self.postMessage(reply.response, { transfer: reply.transfer });
+    }
+});
@@ -0,0 +1,24 @@
+/**
+ * Importance helpers shared by calendar providers
+ */
+
+import type { CalendarEvent } from '$lib/types/Event';
+
+/** Duration at which the duration score saturates */
+const FULL_IMPORTANCE_HOURS = 8;
+
+/**
+ * Compute default importance scores from an event's duration.
+ * Used for imported events that carry no AI or manual score yet.
+ */
+export function computeDurationImportance(startTime: number, endTime: number): CalendarEvent['importance'] {
+    const durationHours = (endTime - startTime) / (1000 * 60 * 60);
+    const duration = Math.max(0, Math.min(durationHours / FULL_IMPORTANCE_HOURS, 1));
+
+    return {
+        duration,
+        aiScore: 0.5,
+        manual: 0.5,
+        effective: duration * 0.5 + 0.25,
+    };
+}
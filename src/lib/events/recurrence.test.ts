@@ -0,0 +1,248 @@
+/**
+ * Recurrence Unit Tests
+ *
+ * Tests RRULE parsing and lazy expansion of recurring events.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+    collapseRecurringInstances,
+    expandEvents,
+    expandRecurringEvent,
+    getSeriesEvents,
+    parseRecurrenceRule,
+} from './recurrence';
+import type { CalendarEvent } from '$lib/types/Event';
+
+// Helper to create a weekly standup series starting Monday 2024-01-15 09:00 UTC
+function createSeries(overrides: Partial<CalendarEvent>): CalendarEvent {
+    return {
+        id: 'series',
+        title: 'Standup',
+        startTime: Date.UTC(2024, 0, 15, 9, 0),
+        endTime: Date.UTC(2024, 0, 15, 9, 15),
+        color: '#B8D4E3',
+        source: 'manual',
+        importance: { duration: 0.5, aiScore: 0.5, manual: 0.5, effective: 0.5 },
+        isLifeEvent: false,
+        timeZone: 'UTC',
+        ...overrides,
+    };
+}
+
+// Expand over 2024 and return the start dates as YYYY-MM-DD
+function dates(event: CalendarEvent, start = Date.UTC(2024, 0, 1), end = Date.UTC(2025, 0, 1)): string[] {
+    return expandRecurringEvent(event, start, end).map(e => new Date(e.startTime).toISOString().slice(0, 10));
+}
+
+describe('recurrence', () => {
+    describe('parseRecurrenceRule', () => {
+        it('should parse rule parts', () => {
+            const rule = parseRecurrenceRule('RRULE:FREQ=MONTHLY;INTERVAL=2;BYDAY=-1FR,MO;COUNT=5;WKST=SU');
+            expect(rule).toMatchObject({
+                freq: 'MONTHLY',
+                interval: 2,
+                count: 5,
+                byDay: [{ weekday: 5, ordinal: -1 }, { weekday: 1, ordinal: 0 }],
+                weekStart: 0,
+            });
+        });
+
+        it('should treat a DATE UNTIL as inclusive of that day', () => {
+            const rule = parseRecurrenceRule('FREQ=DAILY;UNTIL=20240120', 'UTC');
+            expect(rule?.until).toBe(Date.UTC(2024, 0, 21) - 1);
+        });
+
+        it('should reject unsupported frequencies', () => {
+            expect(parseRecurrenceRule('FREQ=SECONDLY')).toBeNull();
+            expect(parseRecurrenceRule('INTERVAL=2')).toBeNull();
+        });
+    });
+
+    describe('expandRecurringEvent', () => {
+        it('should expand daily rules with COUNT', () => {
+            const instances = expandRecurringEvent(
+                createSeries({ recurrenceRule: 'FREQ=DAILY;COUNT=3' }),
+                Date.UTC(2024, 0, 1),
+                Date.UTC(2025, 0, 1)
+            );
+
+            expect(instances.map(e => e.startTime)).toEqual([
+                Date.UTC(2024, 0, 15, 9),
+                Date.UTC(2024, 0, 16, 9),
+                Date.UTC(2024, 0, 17, 9),
+            ]);
+            expect(instances[1].endTime - instances[1].startTime).toBe(15 * 60 * 1000);
+            expect(instances[1].recurringEventId).toBe('series');
+            expect(instances[1].id).toBe(`series-${Date.UTC(2024, 0, 16, 9)}`);
+            expect(instances[1].recurrenceRule).toBeUndefined();
+        });
+
+        it('should expand weekly BYDAY rules with INTERVAL and UNTIL', () => {
+            const series = createSeries({ recurrenceRule: 'FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE;UNTIL=20240214T000000Z' });
+            expect(dates(series)).toEqual(['2024-01-15', '2024-01-17', '2024-01-29', '2024-01-31', '2024-02-12']);
+        });
+
+        it('should expand monthly BYMONTHDAY rules, skipping short months', () => {
+            const series = createSeries({
+                startTime: Date.UTC(2024, 0, 31, 9),
+                endTime: Date.UTC(2024, 0, 31, 10),
+                recurrenceRule: 'FREQ=MONTHLY;BYMONTHDAY=31;COUNT=4',
+            });
+            expect(dates(series)).toEqual(['2024-01-31', '2024-03-31', '2024-05-31', '2024-07-31']);
+        });
+
+        it('should expand the last weekday of the month with BYSETPOS', () => {
+            const series = createSeries({
+                startTime: Date.UTC(2024, 0, 31, 9),
+                endTime: Date.UTC(2024, 0, 31, 10),
+                recurrenceRule: 'FREQ=MONTHLY;BYDAY=MO,TU,WE,TH,FR;BYSETPOS=-1;COUNT=3',
+            });
+            expect(dates(series)).toEqual(['2024-01-31', '2024-02-29', '2024-03-29']);
+        });
+
+        it('should expand yearly rules with BYMONTH and ordinal BYDAY', () => {
+            // Thanksgiving: fourth Thursday of November
+            const series = createSeries({
+                startTime: Date.UTC(2023, 10, 23, 18),
+                endTime: Date.UTC(2023, 10, 23, 22),
+                recurrenceRule: 'FREQ=YEARLY;BYMONTH=11;BYDAY=4TH',
+            });
+            expect(dates(series, Date.UTC(2024, 0, 1), Date.UTC(2027, 0, 1))).toEqual([
+                '2024-11-28',
+                '2025-11-27',
+                '2026-11-26',
+            ]);
+        });
+
+        it('should keep the wall-clock time across DST changes', () => {
+            // 09:00 in Amsterdam is 08:00 UTC in winter, 07:00 UTC in summer
+            const series = createSeries({
+                startTime: Date.UTC(2024, 2, 25, 8),
+                endTime: Date.UTC(2024, 2, 25, 9),
+                timeZone: 'Europe/Amsterdam',
+                recurrenceRule: 'FREQ=WEEKLY;COUNT=2',
+            });
+            const instances = expandRecurringEvent(series, Date.UTC(2024, 0, 1), Date.UTC(2025, 0, 1));
+
+            expect(instances.map(e => e.startTime)).toEqual([
+                Date.UTC(2024, 2, 25, 8),
+                Date.UTC(2024, 3, 1, 7),
+            ]);
+        });
+
+        it('should apply EXDATE and RDATE', () => {
+            const series = createSeries({
+                recurrenceRule: 'FREQ=WEEKLY;COUNT=3',
+                recurrenceExceptions: [Date.UTC(2024, 0, 22, 9)],
+                recurrenceDates: [Date.UTC(2024, 0, 24, 9)],
+            });
+            expect(dates(series)).toEqual(['2024-01-15', '2024-01-24', '2024-01-29']);
+        });
+
+        it('should only generate instances in the requested range', () => {
+            const series = createSeries({ recurrenceRule: 'FREQ=DAILY' });
+            const instances = expandRecurringEvent(series, Date.UTC(2124, 0, 1), Date.UTC(2124, 0, 8));
+
+            expect(instances).toHaveLength(7);
+            expect(instances[0].startTime).toBe(Date.UTC(2124, 0, 1, 9));
+        });
+
+        it('should include instances that started before the range', () => {
+            const series = createSeries({ recurrenceRule: 'FREQ=DAILY' });
+            const instances = expandRecurringEvent(series, Date.UTC(2024, 1, 1, 9, 5), Date.UTC(2024, 1, 1, 10));
+
+            expect(instances.map(e => e.startTime)).toEqual([Date.UTC(2024, 1, 1, 9)]);
+        });
+
+        it('should expand all-day events by calendar day', () => {
+            const series = createSeries({
+                startTime: Date.UTC(2024, 0, 14, 23),
+                endTime: Date.UTC(2024, 0, 15, 23),
+                allDay: true,
+                timeZone: 'Europe/Amsterdam',
+                recurrenceRule: 'FREQ=YEARLY;COUNT=2',
+            });
+            const instances = expandRecurringEvent(series, Date.UTC(2024, 0, 1), Date.UTC(2026, 0, 1));
+
+            expect(instances[1].startTime).toBe(Date.UTC(2025, 0, 14, 23));
+            expect(instances[1].endTime).toBe(Date.UTC(2025, 0, 15, 23));
+        });
+
+        it('should stop on rules that never match', () => {
+            const series = createSeries({ recurrenceRule: 'FREQ=YEARLY;BYMONTH=2;BYMONTHDAY=30' });
+            expect(dates(series)).toEqual(['2024-01-15']);
+        });
+    });
+
+    describe('expandEvents', () => {
+        it('should replace generated instances with overrides', () => {
+            const series = createSeries({ recurrenceRule: 'FREQ=DAILY;COUNT=3' });
+            const moved = createSeries({
+                id: `series-${Date.UTC(2024, 0, 16, 9)}`,
+                startTime: Date.UTC(2024, 0, 16, 14),
+                endTime: Date.UTC(2024, 0, 16, 15),
+                recurringEventId: 'series',
+                title: 'Moved standup',
+            });
+            const cancelled = createSeries({
+                id: `series-${Date.UTC(2024, 0, 17, 9)}`,
+                startTime: Date.UTC(2024, 0, 17, 9),
+                endTime: Date.UTC(2024, 0, 17, 9, 15),
+                recurringEventId: 'series',
+                status: 'cancelled',
+            });
+
+            const events = expandEvents([series, moved, cancelled], Date.UTC(2024, 0, 1), Date.UTC(2025, 0, 1));
+
+            expect(events.map(e => [e.title, e.startTime])).toEqual([
+                ['Standup', Date.UTC(2024, 0, 15, 9)],
+                ['Moved standup', Date.UTC(2024, 0, 16, 14)],
+            ]);
+        });
+
+        it('should pass through non-recurring events in range', () => {
+            const single = createSeries({ id: 'single' });
+            expect(expandEvents([single], Date.UTC(2024, 0, 1), Date.UTC(2024, 1, 1))).toEqual([single]);
+            expect(expandEvents([single], Date.UTC(2024, 1, 1), Date.UTC(2024, 2, 1))).toEqual([]);
+        });
+    });
+
+    describe('collapseRecurringInstances', () => {
+        const series = createSeries({ recurrenceRule: 'FREQ=DAILY;COUNT=3' });
+        const instances = expandRecurringEvent(series, Date.UTC(2024, 0, 1), Date.UTC(2025, 0, 1));
+        const single = createSeries({ id: 'single' });
+
+        it('should replace instances with their series once', () => {
+            const collapsed = collapseRecurringInstances(
+                [...instances, single],
+                new Map([['series', getSeriesEvents([single, series], 'series')]])
+            );
+
+            expect(collapsed).toEqual([series, single]);
+        });
+
+        it('should keep modified instances the series does not list', () => {
+            // Google serves expanded instances; a moved one keeps its original start
+            const moved = {
+                ...instances[1],
+                id: 'series_20240116',
+                originalStartTime: instances[1].startTime,
+                startTime: instances[1].startTime + 60 * 60 * 1000,
+                endTime: instances[1].endTime + 60 * 60 * 1000,
+            };
+            const unmoved = { ...instances[2], id: 'series_20240117', originalStartTime: instances[2].startTime };
+
+            const collapsed = collapseRecurringInstances(
+                [instances[0], moved, unmoved],
+                new Map([['series', [series]]])
+            );
+
+            expect(collapsed.map(e => e.id)).toEqual(['series', 'series_20240116']);
+        });
+
+        it('should keep instances of unknown series', () => {
+            expect(collapseRecurringInstances(instances, new Map())).toEqual(instances);
+        });
+    });
+});
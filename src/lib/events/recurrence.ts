@@ -0,0 +1,525 @@
+/**
+ * Recurrence expansion (RFC 5545 RRULE / EXDATE / RDATE)
+ *
+ * Supports FREQ=DAILY/WEEKLY/MONTHLY/YEARLY with INTERVAL, COUNT, UNTIL,
+ * BYDAY, BYMONTHDAY, BYMONTH, BYSETPOS and WKST.
+ *
+ * Occurrences are computed on wall-clock dates in the event's time zone,
+ * so a 09:00 meeting stays at 09:00 across DST changes. Expansion is lazy:
+ * only instances overlapping the requested range are generated.
+ */
+
+import type { CalendarEvent } from '$lib/types/Event';
+import { parseIcsDate } from '$lib/ical/IcsParser';
+import { epochToWallClock, wallClockToEpoch, wallClockToUtc } from '$lib/utils/timeZone';
+
+export type RecurrenceFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+
+/**
+ * BYDAY entry, e.g. `MO` (every Monday) or `-1FR` (last Friday)
+ */
+export interface WeekdayNum {
+    /** 0 = Sunday ... 6 = Saturday */
+    weekday: number;
+    /** Nth occurrence within the month/year (negative counts from the end); 0 = every */
+    ordinal: number;
+}
+
+/**
+ * Parsed RRULE
+ */
+export interface RecurrenceRule {
+    freq: RecurrenceFrequency;
+    interval: number;
+    count?: number;
+    /** Last allowed occurrence start (ms since epoch, inclusive) */
+    until?: number;
+    byDay: WeekdayNum[];
+    byMonthDay: number[];
+    byMonth: number[];
+    bySetPos: number[];
+    /** First day of the week (0 = Sunday), default Monday */
+    weekStart: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+const FREQUENCIES: RecurrenceFrequency[] = ['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'];
+
+/** Upper bound on instances generated per series and query */
+const MAX_INSTANCES = 5000;
+
+/** Give up on rules that match nothing (e.g. February 30th) */
+const MAX_EMPTY_PERIODS = 1000;
+
+// =========================================
+// Parsing
+// =========================================
+
+function parseNumberList(value: string, min: number, max: number): number[] {
+    return value
+        .split(',')
+        .map(v => parseInt(v, 10))
+        .filter(n => Number.isFinite(n) && n !== 0 && Math.abs(n) >= min && Math.abs(n) <= max);
+}
+
+function parseWeekdayList(value: string): WeekdayNum[] {
+    const days: WeekdayNum[] = [];
+    for (const part of value.split(',')) {
+        const match = /^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/.exec(part.trim().toUpperCase());
+        if (!match) continue;
+        days.push({
+            weekday: WEEKDAYS.indexOf(match[2]),
+            ordinal: match[1] ? parseInt(match[1], 10) : 0,
+        });
+    }
+    return days;
+}
+
+/**
+ * Parse an RRULE value (with or without the "RRULE:" prefix)
+ * @param timeZone Zone for a floating UNTIL value
+ * @returns null for unsupported frequencies or malformed rules
+ */
+export function parseRecurrenceRule(value: string, timeZone?: string): RecurrenceRule | null {
+    const parts = new Map<string, string>();
+    for (const part of value.replace(/^RRULE:/i, '').split(';')) {
+        const eq = part.indexOf('=');
+        if (eq > 0) parts.set(part.slice(0, eq).trim().toUpperCase(), part.slice(eq + 1).trim());
+    }
+
+    const freq = parts.get('FREQ')?.toUpperCase() as RecurrenceFrequency | undefined;
+    if (!freq || !FREQUENCIES.includes(freq)) return null;
+
+    const interval = parseInt(parts.get('INTERVAL') ?? '1', 10);
+    const count = parts.has('COUNT') ? parseInt(parts.get('COUNT')!, 10) : undefined;
+
+    let until: number | undefined;
+    const untilValue = parts.get('UNTIL');
+    if (untilValue) {
+        const parsed = parseIcsDate(untilValue, {}, timeZone);
+        if (!parsed) return null;
+        // A DATE value includes the whole day
+        until = parsed.allDay ? parsed.time + DAY_MS - 1 : parsed.time;
+    }
+
+    const weekStart = WEEKDAYS.indexOf(parts.get('WKST')?.toUpperCase() ?? 'MO');
+
+    return {
+        freq,
+        interval: Number.isFinite(interval) && interval > 0 ? interval : 1,
+        count: count !== undefined && Number.isFinite(count) ? Math.max(count, 0) : undefined,
+        until,
+        byDay: parseWeekdayList(parts.get('BYDAY') ?? ''),
+        byMonthDay: parseNumberList(parts.get('BYMONTHDAY') ?? '', 1, 31),
+        byMonth: parseNumberList(parts.get('BYMONTH') ?? '', 1, 12).filter(m => m > 0),
+        bySetPos: parseNumberList(parts.get('BYSETPOS') ?? '', 1, 366),
+        weekStart: weekStart >= 0 ? weekStart : 1,
+    };
+}
+
+// =========================================
+// Calendar arithmetic on day numbers (days since 1970-01-01)
+// =========================================
+
+interface CivilDate {
+    year: number;
+    month: number;
+    day: number;
+}
+
+function toDayNumber(year: number, month: number, day: number): number {
+    return Math.round(wallClockToUtc({ year, month, day, hour: 0, minute: 0, second: 0 }) / DAY_MS);
+}
+
+function fromDayNumber(dayNumber: number): CivilDate {
+    const date = new Date(dayNumber * DAY_MS);
+    return { year: date.getUTCFullYear(), month: date.getUTCMonth() + 1, day: date.getUTCDate() };
+}
+
+/** 0 = Sunday; 1970-01-01 was a Thursday */
+function weekdayOf(dayNumber: number): number {
+    return ((dayNumber % 7) + 11) % 7;
+}
+
+function daysInMonth(year: number, month: number): number {
+    const next = month === 12 ? toDayNumber(year + 1, 1, 1) : toDayNumber(year, month + 1, 1);
+    return next - toDayNumber(year, month, 1);
+}
+
+/**
+ * Whether a day matches a BYDAY list; ordinals count within [scopeStart, scopeEnd]
+ */
+function matchesByDay(dayNumber: number, byDay: WeekdayNum[], scopeStart: number, scopeEnd: number): boolean {
+    const weekday = weekdayOf(dayNumber);
+    return byDay.some(entry => {
+        if (entry.weekday !== weekday) return false;
+        if (entry.ordinal === 0) return true;
+        const nth = entry.ordinal > 0
+            ? Math.floor((dayNumber - scopeStart) / 7) + 1
+            : -(Math.floor((scopeEnd - dayNumber) / 7) + 1);
+        return nth === entry.ordinal;
+    });
+}
+
+function matchesMonthDay(dayNumber: number, byMonthDay: number[]): boolean {
+    const { year, month, day } = fromDayNumber(dayNumber);
+    const length = daysInMonth(year, month);
+    return byMonthDay.some(d => (d > 0 ? d : length + d + 1) === day);
+}
+
+// =========================================
+// Candidate days per period
+// =========================================
+
+/**
+ * Days of one month matching BYMONTHDAY/BYDAY (or the start day if neither is set)
+ */
+function expandMonth(rule: RecurrenceRule, year: number, month: number, defaultDay: number): number[] {
+    const first = toDayNumber(year, month, 1);
+    const length = daysInMonth(year, month);
+    const last = first + length - 1;
+
+    let days: number[];
+    if (rule.byMonthDay.length > 0) {
+        days = rule.byMonthDay
+            .map(d => (d > 0 ? d : length + d + 1))
+            .filter(d => d >= 1 && d <= length)
+            .map(d => first + d - 1);
+    } else if (rule.byDay.length > 0) {
+        days = Array.from({ length }, (_, i) => first + i);
+    } else {
+        days = defaultDay <= length ? [first + defaultDay - 1] : [];
+    }
+
+    if (rule.byDay.length > 0) {
+        days = days.filter(d => matchesByDay(d, rule.byDay, first, last));
+    }
+    return days;
+}
+
+/**
+ * Candidate days of the period with the given index (0 = the period containing DTSTART)
+ */
+function periodCandidates(rule: RecurrenceRule, start: CivilDate, startDay: number, period: number): number[] {
+    const step = period * rule.interval;
+    let days: number[] = [];
+
+    switch (rule.freq) {
+        case 'DAILY': {
+            const day = startDay + step;
+            const { month } = fromDayNumber(day);
+            const matches =
+                (rule.byMonth.length === 0 || rule.byMonth.includes(month)) &&
+                (rule.byMonthDay.length === 0 || matchesMonthDay(day, rule.byMonthDay)) &&
+                (rule.byDay.length === 0 || rule.byDay.some(d => d.weekday === weekdayOf(day)));
+            days = matches ? [day] : [];
+            break;
+        }
+        case 'WEEKLY': {
+            const weekBegin = startDay - ((weekdayOf(startDay) - rule.weekStart + 7) % 7) + step * 7;
+            const weekdays = rule.byDay.length > 0
+                ? new Set(rule.byDay.map(d => d.weekday))
+                : new Set([weekdayOf(startDay)]);
+            for (let i = 0; i < 7; i++) {
+                const day = weekBegin + i;
+                if (!weekdays.has(weekdayOf(day))) continue;
+                if (rule.byMonth.length > 0 && !rule.byMonth.includes(fromDayNumber(day).month)) continue;
+                days.push(day);
+            }
+            break;
+        }
+        case 'MONTHLY': {
+            const monthIndex = start.year * 12 + (start.month - 1) + step;
+            const year = Math.floor(monthIndex / 12);
+            const month = monthIndex - year * 12 + 1;
+            if (rule.byMonth.length === 0 || rule.byMonth.includes(month)) {
+                days = expandMonth(rule, year, month, start.day);
+            }
+            break;
+        }
+        case 'YEARLY': {
+            const year = start.year + step;
+            if (rule.byDay.length > 0 && rule.byMonth.length === 0 && rule.byMonthDay.length === 0) {
+                // BYDAY alone: ordinals count within the year (e.g. 20MO)
+                const first = toDayNumber(year, 1, 1);
+                const last = toDayNumber(year + 1, 1, 1) - 1;
+                for (let day = first; day <= last; day++) {
+                    if (matchesByDay(day, rule.byDay, first, last)) days.push(day);
+                }
+            } else {
+                const months = rule.byMonth.length > 0
+                    ? [...rule.byMonth].sort((a, b) => a - b)
+                    : rule.byMonthDay.length > 0 || rule.byDay.length > 0
+                        ? Array.from({ length: 12 }, (_, i) => i + 1)
+                        : [start.month];
+                for (const month of months) {
+                    days.push(...expandMonth(rule, year, month, start.day));
+                }
+            }
+            break;
+        }
+    }
+
+    days = Array.from(new Set(days)).sort((a, b) => a - b);
+
+    if (rule.bySetPos.length > 0 && days.length > 0) {
+        const selected = rule.bySetPos
+            .map(pos => days[pos > 0 ? pos - 1 : days.length + pos])
+            .filter((d): d is number => d !== undefined);
+        days = Array.from(new Set(selected)).sort((a, b) => a - b);
+    }
+
+    return days;
+}
+
+/**
+ * First period index worth scanning for a range starting at the given day.
+ * Only used without COUNT, where earlier occurrences don't need counting.
+ */
+function firstPeriodFor(rule: RecurrenceRule, start: CivilDate, startDay: number, fromDay: number): number {
+    let periods: number;
+    switch (rule.freq) {
+        case 'DAILY':
+            periods = fromDay - startDay;
+            break;
+        case 'WEEKLY':
+            periods = Math.floor((fromDay - startDay) / 7) - 1;
+            break;
+        case 'MONTHLY': {
+            const from = fromDayNumber(fromDay);
+            periods = (from.year - start.year) * 12 + (from.month - start.month) - 1;
+            break;
+        }
+        case 'YEARLY':
+            periods = fromDayNumber(fromDay).year - start.year - 1;
+            break;
+    }
+    return Math.max(0, Math.floor(periods / rule.interval));
+}
+
+/**
+ * Start times of a rule's occurrences that begin before rangeEnd and could
+ * still overlap rangeStart (i.e. start after rangeStart - duration)
+ */
+function ruleOccurrences(
+    rule: RecurrenceRule,
+    dtstart: number,
+    duration: number,
+    timeZone: string | undefined,
+    allDay: boolean,
+    rangeStart: number,
+    rangeEnd: number
+): number[] {
+    const wall = epochToWallClock(dtstart, timeZone);
+    const start: CivilDate = { year: wall.year, month: wall.month, day: wall.day };
+    const startDay = toDayNumber(start.year, start.month, start.day);
+    const earliest = rangeStart - duration;
+
+    const occurrences: number[] = [];
+    // DTSTART is always the first occurrence, even if the rule doesn't match it
+    let emitted = 1;
+    if (dtstart >= earliest && dtstart < rangeEnd) occurrences.push(dtstart);
+
+    let period = 0;
+    if (rule.count === undefined && dtstart < earliest) {
+        // Skip ahead, leaving a day of slack for time zone offsets
+        const fromDay = Math.floor(earliest / DAY_MS) - 1;
+        period = firstPeriodFor(rule, start, startDay, fromDay);
+    }
+
+    for (let empty = 0; empty < MAX_EMPTY_PERIODS; period++) {
+        const days = periodCandidates(rule, start, startDay, period);
+        empty = days.length === 0 ? empty + 1 : 0;
+
+        for (const day of days) {
+            const date = fromDayNumber(day);
+            const time = wallClockToEpoch({
+                ...date,
+                hour: allDay ? 0 : wall.hour,
+                minute: allDay ? 0 : wall.minute,
+                second: allDay ? 0 : wall.second,
+            }, timeZone);
+
+            if (time <= dtstart) continue;
+            if (rule.until !== undefined && time > rule.until) return occurrences;
+            if (rule.count !== undefined && emitted >= rule.count) return occurrences;
+            if (time >= rangeEnd) return occurrences;
+
+            emitted++;
+            if (time >= earliest) {
+                occurrences.push(time);
+                if (occurrences.length >= MAX_INSTANCES) return occurrences;
+            }
+        }
+    }
+
+    return occurrences;
+}
+
+// =========================================
+// Expansion
+// =========================================
+
+/**
+ * Whether an event is a series master that needs expanding
+ */
+export function isRecurring(event: CalendarEvent): boolean {
+    return !!event.recurrenceRule || (event.recurrenceDates?.length ?? 0) > 0;
+}
+
+/**
+ * ID of a generated instance. Matches the IDs the iCalendar parser gives
+ * RECURRENCE-ID overrides, so an override replaces the generated instance.
+ */
+export function buildRecurrenceInstanceId(seriesId: string, occurrenceStart: number): string {
+    return `${seriesId}-${occurrenceStart}`;
+}
+
+/**
+ * Generate the instances of a recurring event that overlap [rangeStart, rangeEnd).
+ * Non-recurring events are returned as-is if they overlap the range.
+ */
+export function expandRecurringEvent(event: CalendarEvent, rangeStart: number, rangeEnd: number): CalendarEvent[] {
+    const overlaps = event.endTime > rangeStart && event.startTime < rangeEnd;
+    if (!isRecurring(event)) return overlaps ? [event] : [];
+
+    const duration = event.endTime - event.startTime;
+    const rule = event.recurrenceRule ? parseRecurrenceRule(event.recurrenceRule, event.timeZone) : null;
+    if (event.recurrenceRule && !rule) {
+        // Unsupported rule: show the first occurrence only
+        return overlaps ? [event] : [];
+    }
+
+    const starts = new Set(rule
+        ? ruleOccurrences(rule, event.startTime, duration, event.timeZone, !!event.allDay, rangeStart, rangeEnd)
+        : [event.startTime]);
+    for (const time of event.recurrenceDates ?? []) {
+        starts.add(time);
+    }
+    for (const time of event.recurrenceExceptions ?? []) {
+        starts.delete(time);
+    }
+
+    const instances: CalendarEvent[] = [];
+    for (const startTime of Array.from(starts).sort((a, b) => a - b)) {
+        const endTime = event.allDay
+            ? allDayEnd(startTime, duration, event.timeZone)
+            : startTime + duration;
+        if (endTime <= rangeStart || startTime >= rangeEnd) continue;
+
+        instances.push({
+            ...event,
+            id: buildRecurrenceInstanceId(event.id, startTime),
+            startTime,
+            endTime,
+            recurringEventId: event.id,
+            recurrenceRule: undefined,
+            recurrenceDates: undefined,
+            recurrenceExceptions: undefined,
+        });
+    }
+    return instances;
+}
+
+/**
+ * End of an all-day instance: the same number of calendar days after its start
+ */
+function allDayEnd(startTime: number, duration: number, timeZone?: string): number {
+    const days = Math.round(duration / DAY_MS);
+    const start = epochToWallClock(startTime, timeZone);
+    const end = fromDayNumber(toDayNumber(start.year, start.month, start.day) + days);
+    return wallClockToEpoch({ ...end, hour: 0, minute: 0, second: 0 }, timeZone);
+}
+
+/**
+ * Expand every recurring event in a list for the given range.
+ *
+ * Overrides (events with recurringEventId, e.g. from RECURRENCE-ID) replace
+ * the generated instance with the same ID; cancelled overrides remove it.
+ */
+export function expandEvents(events: CalendarEvent[], rangeStart: number, rangeEnd: number): CalendarEvent[] {
+    const ids = new Set(events.map(e => e.id));
+    const result: CalendarEvent[] = [];
+
+    for (const event of events) {
+        if (event.recurringEventId && event.status === 'cancelled') continue;
+
+        if (!isRecurring(event)) {
+            if (event.endTime > rangeStart && event.startTime < rangeEnd) result.push(event);
+            continue;
+        }
+
+        for (const instance of expandRecurringEvent(event, rangeStart, rangeEnd)) {
+            if (!ids.has(instance.id)) result.push(instance);
+        }
+    }
+
+    return result;
+}
+
+// =========================================
+// Collapsing (export)
+// =========================================
+
+/**
+ * Unexpanded events of a series in a provider's list: the master first, then its overrides
+ */
+export function getSeriesEvents(events: Iterable<CalendarEvent>, seriesId: string): CalendarEvent[] {
+    const series: CalendarEvent[] = [];
+    for (const event of events) {
+        if (event.id === seriesId) series.unshift(event);
+        else if (event.recurringEventId === seriesId) series.push(event);
+    }
+    return series[0]?.id === seriesId ? series : [];
+}
+
+/**
+ * Whether a loaded instance differs from the occurrence its master generates
+ */
+function isModifiedInstance(instance: CalendarEvent, master: CalendarEvent): boolean {
+    if (instance.originalStartTime === undefined) return false;
+    return instance.startTime !== instance.originalStartTime
+        || instance.endTime - instance.startTime !== master.endTime - master.startTime
+        || instance.title !== master.title
+        || instance.description !== master.description
+        || instance.location?.name !== master.location?.name;
+}
+
+/**
+ * Replace expanded instances with the series they were generated from, so
+ * an export carries one RRULE instead of every occurrence.
+ *
+ * `series` maps series IDs to their unexpanded events (see getSeriesEvents).
+ * Loaded instances that differ from their generated occurrence are kept as
+ * overrides when the series doesn't list them (providers that only serve
+ * expanded instances). Instances of unknown series are kept as they are.
+ */
+export function collapseRecurringInstances(
+    events: CalendarEvent[],
+    series: Map<string, CalendarEvent[]>
+): CalendarEvent[] {
+    const result: CalendarEvent[] = [];
+    const added = new Set<string>();
+    const add = (event: CalendarEvent) => {
+        if (added.has(event.id)) return;
+        added.add(event.id);
+        result.push(event);
+    };
+
+    for (const event of events) {
+        const seriesEvents = event.recurringEventId ? series.get(event.recurringEventId) : undefined;
+        if (!seriesEvents || seriesEvents.length === 0) {
+            add(event);
+            continue;
+        }
+
+        seriesEvents.forEach(add);
+        const listed = seriesEvents.some(e => e.originalStartTime === event.originalStartTime);
+        if (!listed && isModifiedInstance(event, seriesEvents[0])) add(event);
+    }
+
+    return result;
+}
@@ -0,0 +1,168 @@
+/**
+ * GedcomParser Unit Tests
+ *
+ * Tests GEDCOM record parsing, the date grammar and turning individuals
+ * and families into family lane events.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { gedcomToEvents, parseGedcom, parseGedcomDate, parseGedcomRecords } from './GedcomParser';
+
+// Local midnight, as GEDCOM dates are read; setFullYear keeps years 0-99 and BCE
+function local(year: number, month = 1, day = 1): number {
+    const date = new Date(0);
+    date.setFullYear(year, month - 1, day);
+    date.setHours(0, 0, 0, 0);
+    return date.getTime();
+}
+
+const FAMILY = [
+    '0 HEAD',
+    '1 GEDC',
+    '2 VERS 5.5',
+    '0 @I1@ INDI',
+    '1 NAME John /Smith/',
+    '1 SEX M',
+    '1 BIRT',
+    '2 DATE 12 MAR 1850',
+    '2 PLAC Leeds, England',
+    '1 DEAT',
+    '2 DATE ABT 1910',
+    '0 @I2@ INDI',
+    '1 NAME Mary /Jones/',
+    '1 SEX F',
+    '1 BIRT',
+    '2 DATE BET 1852 AND 1854',
+    '1 DEAT Y',
+    '0 @I3@ INDI',
+    '1 NAME Ann /Smith/',
+    '1 BIRT',
+    '2 DATE 1990',
+    '0 @F1@ FAM',
+    '1 HUSB @I1@',
+    '1 WIFE @I2@',
+    '1 CHIL @I3@',
+    '1 MARR',
+    '2 DATE 4 JUN 1875',
+    '0 TRLR',
+].join('\r\n');
+
+describe('GedcomParser', () => {
+    describe('parseGedcomRecords', () => {
+        it('should nest lines by level and join continuations', () => {
+            const [note] = parseGedcomRecords([
+                '0 @N1@ NOTE First line',
+                '1 CONT second li',
+                '1 CONC ne',
+                '1 SOUR @S1@',
+            ].join('\n'));
+
+            expect(note).toMatchObject({ level: 0, xref: '@N1@', tag: 'NOTE', value: 'First line\nsecond line' });
+            expect(note.children).toEqual([{ level: 1, tag: 'SOUR', value: '@S1@', children: [] }]);
+        });
+    });
+
+    describe('parseGedcomDate', () => {
+        it('should read exact dates to their day, month or year', () => {
+            expect(parseGedcomDate('12 MAR 1850')).toMatchObject({
+                start: local(1850, 3, 12),
+                end: local(1850, 3, 13),
+                qualifier: 'exact',
+            });
+            expect(parseGedcomDate('MAR 1850')).toMatchObject({ start: local(1850, 3), end: local(1850, 4) });
+            expect(parseGedcomDate('1850')).toMatchObject({ start: local(1850), end: local(1851) });
+        });
+
+        it('should read approximate, bounded and interpreted dates', () => {
+            expect(parseGedcomDate('ABT 1850')).toMatchObject({ start: local(1850), qualifier: 'about' });
+            expect(parseGedcomDate('est 1850')?.qualifier).toBe('about');
+            expect(parseGedcomDate('BEF 1 JAN 1900')).toMatchObject({ start: local(1900), qualifier: 'before' });
+            expect(parseGedcomDate('AFT 1900')?.qualifier).toBe('after');
+            expect(parseGedcomDate('INT 1850 (about when the mill closed)')).toMatchObject({
+                start: local(1850),
+                qualifier: 'exact',
+            });
+        });
+
+        it('should read ranges', () => {
+            expect(parseGedcomDate('BET 1852 AND MAR 1854')).toMatchObject({
+                start: local(1852),
+                end: local(1854, 4),
+                qualifier: 'between',
+                text: 'BET 1852 AND MAR 1854',
+            });
+            expect(parseGedcomDate('FROM 1900 TO 1910')?.end).toBe(local(1911));
+        });
+
+        it('should read BCE, dual and early years', () => {
+            expect(parseGedcomDate('15 MAR 44 B.C.')?.start).toBe(local(-43, 3, 15));
+            expect(parseGedcomDate('ABT 500 BC')?.start).toBe(local(-499));
+            expect(parseGedcomDate('11 FEB 1699/00')?.start).toBe(local(1700, 2, 11));
+            expect(parseGedcomDate('79')?.start).toBe(local(79));
+            expect(parseGedcomDate('@#DJULIAN@ 1 JAN 1500')?.start).toBe(local(1500));
+        });
+
+        it('should reject text, other calendars and malformed dates', () => {
+            expect(parseGedcomDate('(sometime in spring)')).toBeNull();
+            expect(parseGedcomDate('@#DHEBREW@ 1 TSH 5000')).toBeNull();
+            expect(parseGedcomDate('12 FOO 1850')).toBeNull();
+            expect(parseGedcomDate('BET 1850 AND soon')).toBeNull();
+        });
+    });
+
+    describe('parseGedcom', () => {
+        it('should read individuals and families', () => {
+            const { individuals, families } = parseGedcom(FAMILY);
+
+            expect(individuals.get('@I1@')).toMatchObject({
+                name: 'John Smith',
+                sex: 'M',
+                birth: { place: 'Leeds, England' },
+                isDeceased: true,
+            });
+            expect(individuals.get('@I2@')).toMatchObject({ isDeceased: true, death: {} });
+            expect(individuals.get('@I3@')).toMatchObject({ sex: 'U', isDeceased: false });
+            expect(families.get('@F1@')).toMatchObject({ husband: '@I1@', wife: '@I2@', children: ['@I3@'] });
+        });
+
+        it('should reject files without individuals', () => {
+            expect(() => parseGedcom('0 HEAD\n0 TRLR')).toThrow('No individuals');
+        });
+    });
+
+    describe('gedcomToEvents', () => {
+        const now = local(2024, 6, 1);
+        const events = gedcomToEvents(parseGedcom(FAMILY), { now });
+        const byTitle = (title: string) => events.find(e => e.title === title);
+
+        it('should make lifespans from birth to death', () => {
+            expect(byTitle('John Smith (1850–c. 1910)')).toMatchObject({
+                startTime: local(1850, 3, 12),
+                endTime: local(1911),
+                isLifeEvent: true,
+            });
+        });
+
+        it('should run lifespans of living people to now', () => {
+            expect(byTitle('Ann Smith (1990–)')).toMatchObject({ startTime: local(1990), endTime: now });
+        });
+
+        it('should skip lifespans with an unknown death date', () => {
+            expect(events.some(e => e.title?.startsWith('Mary Jones'))).toBe(false);
+        });
+
+        it('should mark births, deaths and marriages as 1-day life events', () => {
+            const birth = byTitle('Birth of John Smith')!;
+            expect(birth).toMatchObject({
+                description: 'Born 12 MAR 1850 in Leeds, England',
+                location: { name: 'Leeds, England' },
+                isLifeEvent: true,
+            });
+            expect(birth.endTime! - birth.startTime!).toBe(24 * 60 * 60 * 1000);
+
+            expect(byTitle('Death of John Smith')?.startTime).toBe(local(1910));
+            expect(byTitle('Birth of Mary Jones')?.startTime).toBe(local(1852));
+            expect(byTitle('Marriage of John Smith and Mary Jones')?.startTime).toBe(local(1875, 6, 4));
+        });
+    });
+});
@@ -0,0 +1,426 @@
+/**
+ * GedcomParser - Parses GEDCOM 5.5 family trees into CalendarEvents
+ *
+ * Reads the records genealogy programs export:
+ * - INDI individuals with NAME, SEX, BIRT and DEAT
+ * - FAM families with HUSB, WIFE, CHIL and MARR
+ * - CONT/CONC continuation lines
+ *
+ * Dates follow the GEDCOM grammar: exact (`12 MAR 1850`, `MAR 1850`,
+ * `1850`), approximate (ABT, CAL, EST), bounded (BEF, AFT), ranges
+ * (BET…AND, FROM…TO) and interpreted (`INT 1850 (text)`). BCE years are
+ * written `44 B.C.`; dual years like `1699/00` are read as the later year.
+ * Dates in French Republican or Hebrew calendars are skipped.
+ *
+ * Lifespans become bars from birth to death, births, deaths and
+ * marriages 1-day markers, all as life events.
+ */
+
+import type { CalendarEvent } from '$lib/types/Event';
+import { computeDurationImportance } from '$lib/events/importance';
+import { wallClockToEpoch } from '$lib/utils/timeZone';
+
+/**
+ * A line with the lines nested under it, e.g. `1 BIRT` with `2 DATE 1850`
+ */
+export interface GedcomRecord {
+    level: number;
+    /** Cross-reference ID of level 0 records, e.g. `@I1@` */
+    xref?: string;
+    tag: string;
+    /** Value with CONT/CONC continuations joined */
+    value: string;
+    children: GedcomRecord[];
+}
+
+/** How a date relates to when the event happened */
+export type GedcomDateQualifier = 'exact' | 'about' | 'before' | 'after' | 'between';
+
+/**
+ * A date as the day, month or year it names; BEF and AFT dates name
+ * their bound, ranges span both ends
+ */
+export interface GedcomDate {
+    /** Start of the named period (ms since epoch, local time) */
+    start: number;
+    /** End of the named period (exclusive) */
+    end: number;
+    qualifier: GedcomDateQualifier;
+    /** The date as written */
+    text: string;
+}
+
+/**
+ * A birth, death or marriage
+ */
+export interface GedcomVitalEvent {
+    date?: GedcomDate;
+    place?: string;
+}
+
+export interface GedcomIndividual {
+    id: string;
+    name: string;
+    sex?: 'M' | 'F' | 'U';
+    birth?: GedcomVitalEvent;
+    death?: GedcomVitalEvent;
+    /** Whether a death is recorded, with or without a date */
+    isDeceased: boolean;
+}
+
+export interface GedcomFamily {
+    id: string;
+    husband?: string;
+    wife?: string;
+    children: string[];
+    marriage?: GedcomVitalEvent;
+}
+
+/**
+ * Individuals and families of a file, by cross-reference ID
+ */
+export interface ParsedGedcom {
+    individuals: Map<string, GedcomIndividual>;
+    families: Map<string, GedcomFamily>;
+}
+
+/**
+ * Options controlling how individuals are turned into events
+ */
+export interface GedcomEventOptions {
+    /** Current time, ending the lifespans of living people (default: now) */
+    now?: number;
+}
+
+const MONTHS = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'];
+
+/**
+ * People born this long ago without a recorded death are taken as living;
+ * older ones just have an unknown death
+ */
+const MAX_LIFESPAN_YEARS = 110;
+
+/** Lifespan colors by sex */
+const LIFESPAN_COLORS: Record<string, string> = {
+    M: '#9DC3E6',
+    F: '#F4A6C6',
+    U: '#C9C9C9',
+};
+
+/** Marker colors by vital event */
+const EVENT_COLORS = {
+    birth: '#A9D18E',
+    death: '#7F7F7F',
+    marriage: '#FFD966',
+};
+
+/** Vital events always show, like historical events */
+const MARKER_IMPORTANCE: CalendarEvent['importance'] = {
+    duration: 0,
+    aiScore: 1.0,
+    manual: 1.0,
+    effective: 1.0,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// =========================================
+// Records
+// =========================================
+
+/**
+ * Parse GEDCOM text into level 0 records with their nested lines
+ */
+export function parseGedcomRecords(text: string): GedcomRecord[] {
+    const records: GedcomRecord[] = [];
+    const stack: GedcomRecord[] = [];
+
+    for (const line of text.replace(/^\uFEFF/, '').split(/\r\n|\r|\n/)) {
+        const match = /^\s*(\d+)\s+(?:(@[^@]+@)\s+)?(\S+)(?: (.*))?$/.exec(line);
+        if (!match) continue;
+
+        const [, levelText, xref, tag, value = ''] = match;
+        const level = parseInt(levelText, 10);
+
+        // Continuations extend the value of the line above them
+        const parent = stack[level - 1];
+        if (parent && (tag === 'CONT' || tag === 'CONC')) {
+            parent.value += (tag === 'CONT' ? '\n' : '') + value;
+            continue;
+        }
+
+        const record: GedcomRecord = { level, tag, value, children: [] };
+        if (xref) record.xref = xref;
+
+        stack.length = level;
+        if (level === 0) {
+            records.push(record);
+        } else if (parent) {
+            parent.children.push(record);
+        } else {
+            // Level skipped (malformed file): drop the line
+            continue;
+        }
+        stack[level] = record;
+    }
+
+    return records;
+}
+
+function child(record: GedcomRecord, tag: string): GedcomRecord | undefined {
+    return record.children.find(c => c.tag === tag);
+}
+
+// =========================================
+// Dates
+// =========================================
+
+/**
+ * Parse a GEDCOM date value
+ * @returns null for text-only dates, unknown calendars and malformed dates
+ */
+export function parseGedcomDate(value: string): GedcomDate | null {
+    const text = value.trim();
+    const upper = text.toUpperCase();
+
+    const range = /^(?:BET|FROM)\s+(.+?)\s+(?:AND|TO)\s+(.+)$/.exec(upper);
+    if (range) {
+        const first = parseSimpleDate(range[1]);
+        const second = parseSimpleDate(range[2]);
+        if (!first || !second) return null;
+        return { start: first.start, end: Math.max(first.end, second.end), qualifier: 'between', text };
+    }
+
+    const modified = /^(ABT|CAL|EST|BEF|AFT|FROM|TO|INT)\s+(.+)$/.exec(upper);
+    const modifier = modified?.[1];
+    // Interpreted dates carry the original text in parentheses
+    const datePart = (modified ? modified[2] : upper).replace(/\s*\(.*\)\s*$/, '');
+
+    const date = parseSimpleDate(datePart);
+    if (!date) return null;
+
+    switch (modifier) {
+        case 'ABT':
+        case 'CAL':
+        case 'EST':
+            return { ...date, qualifier: 'about', text };
+        case 'BEF':
+        case 'TO':
+            return { ...date, qualifier: 'before', text };
+        case 'AFT':
+        case 'FROM':
+            return { ...date, qualifier: 'after', text };
+        default:
+            return { ...date, qualifier: 'exact', text };
+    }
+}
+
+/**
+ * Parse `[day] [month] year [B.C.]`, optionally with a calendar escape
+ */
+function parseSimpleDate(value: string): { start: number; end: number } | null {
+    let text = value.trim();
+
+    const escape = /^@#D([^@]+)@\s*/.exec(text);
+    if (escape) {
+        // Julian dates are close enough to place on the timeline
+        if (!['GREGORIAN', 'JULIAN'].includes(escape[1].trim())) return null;
+        text = text.slice(escape[0].length);
+    }
+
+    const match = /^(?:(?:(\d{1,2})\s+)?([A-Z]{3})\s+)?(\d{1,4})(?:\/(\d{2}))?\s*(B\.?\s?C\.?(?:E\.?)?)?$/.exec(text);
+    if (!match) return null;
+
+    const [, dayText, monthText, yearText, dualYear, bce] = match;
+
+    let year = parseInt(yearText, 10);
+    if (dualYear) year += 1;
+    // Astronomical numbering: 1 BC is year 0
+    if (bce) year = 1 - year;
+
+    if (!monthText) {
+        return { start: localDate(year, 1, 1), end: localDate(year + 1, 1, 1) };
+    }
+
+    const month = MONTHS.indexOf(monthText) + 1;
+    if (month === 0) return null;
+
+    if (!dayText) {
+        return { start: localDate(year, month, 1), end: localDate(year, month + 1, 1) };
+    }
+
+    const day = parseInt(dayText, 10);
+    if (day < 1 || day > 31) return null;
+    return { start: localDate(year, month, day), end: localDate(year, month, day + 1) };
+}
+
+function localDate(year: number, month: number, day: number): number {
+    return wallClockToEpoch({ year, month, day, hour: 0, minute: 0, second: 0 });
+}
+
+// =========================================
+// Individuals and families
+// =========================================
+
+/**
+ * Parse a GEDCOM file into individuals and families
+ * @throws Error if the file holds no individuals
+ */
+export function parseGedcom(text: string): ParsedGedcom {
+    const individuals = new Map<string, GedcomIndividual>();
+    const families = new Map<string, GedcomFamily>();
+
+    for (const record of parseGedcomRecords(text)) {
+        if (!record.xref) continue;
+
+        if (record.tag === 'INDI') {
+            const sex = child(record, 'SEX')?.value.trim().toUpperCase();
+            const death = child(record, 'DEAT');
+            individuals.set(record.xref, {
+                id: record.xref,
+                name: parseName(child(record, 'NAME')?.value),
+                sex: sex === 'M' || sex === 'F' ? sex : 'U',
+                birth: parseVitalEvent(child(record, 'BIRT')),
+                death: parseVitalEvent(death),
+                isDeceased: death !== undefined,
+            });
+        } else if (record.tag === 'FAM') {
+            families.set(record.xref, {
+                id: record.xref,
+                husband: child(record, 'HUSB')?.value.trim(),
+                wife: child(record, 'WIFE')?.value.trim(),
+                children: record.children.filter(c => c.tag === 'CHIL').map(c => c.value.trim()),
+                marriage: parseVitalEvent(child(record, 'MARR')),
+            });
+        }
+    }
+
+    if (individuals.size === 0) {
+        throw new Error('No individuals found');
+    }
+    return { individuals, families };
+}
+
+/**
+ * `John /Smith/` to `John Smith`
+ */
+function parseName(value: string | undefined): string {
+    const name = (value ?? '').replace(/\//g, ' ').replace(/\s+/g, ' ').trim();
+    return name || 'Unknown';
+}
+
+function parseVitalEvent(record: GedcomRecord | undefined): GedcomVitalEvent | undefined {
+    if (!record) return undefined;
+
+    const event: GedcomVitalEvent = {};
+    const date = child(record, 'DATE');
+    if (date) {
+        const parsed = parseGedcomDate(date.value);
+        if (parsed) event.date = parsed;
+    }
+    const place = child(record, 'PLAC')?.value.trim();
+    if (place) event.place = place;
+    return event;
+}
+
+// =========================================
+// Events
+// =========================================
+
+/**
+ * Turn individuals and families into events for a family lane: a
+ * lifespan bar per person with a known birth (running to today for the
+ * living), and markers for births, deaths and marriages
+ */
+export function gedcomToEvents(data: ParsedGedcom, options: GedcomEventOptions = {}): Partial<CalendarEvent>[] {
+    const now = options.now ?? Date.now();
+    const events: Partial<CalendarEvent>[] = [];
+
+    for (const person of Array.from(data.individuals.values())) {
+        const birth = person.birth?.date;
+        const death = person.death?.date;
+
+        const living = !person.isDeceased && birth !== undefined &&
+            new Date(birth.start).getFullYear() > new Date(now).getFullYear() - MAX_LIFESPAN_YEARS;
+        const lifespanEnd = death ? death.end : living ? now : undefined;
+
+        if (birth && lifespanEnd !== undefined && lifespanEnd > birth.start) {
+            events.push({
+                title: `${person.name} (${formatYear(birth)}–${death ? formatYear(death) : ''})`,
+                description: [person.birth, person.death]
+                    .map((e, i) => e?.date && describe(i === 0 ? 'Born' : 'Died', e))
+                    .filter(Boolean)
+                    .join('\n'),
+                startTime: birth.start,
+                endTime: lifespanEnd,
+                color: LIFESPAN_COLORS[person.sex ?? 'U'],
+                importance: computeDurationImportance(birth.start, lifespanEnd),
+                isLifeEvent: true,
+            });
+        }
+
+        if (person.birth?.date) {
+            events.push(marker(`Birth of ${person.name}`, 'Born', person.birth, EVENT_COLORS.birth));
+        }
+        if (person.death?.date) {
+            events.push(marker(`Death of ${person.name}`, 'Died', person.death, EVENT_COLORS.death));
+        }
+    }
+
+    for (const family of Array.from(data.families.values())) {
+        if (!family.marriage?.date) continue;
+
+        const spouses = [family.husband, family.wife]
+            .map(id => (id ? data.individuals.get(id)?.name : undefined))
+            .filter((name): name is string => name !== undefined);
+        const title = spouses.length > 0 ? `Marriage of ${spouses.join(' and ')}` : 'Marriage';
+        events.push(marker(title, 'Married', family.marriage, EVENT_COLORS.marriage));
+    }
+
+    return events;
+}
+
+/**
+ * A 1-day marker on the first day the date names (for ranges, the first
+ * day of the range)
+ */
+function marker(title: string, verb: string, event: GedcomVitalEvent, color: string): Partial<CalendarEvent> {
+    const startTime = event.date!.start;
+    return {
+        title,
+        description: describe(verb, event),
+        startTime,
+        endTime: startTime + DAY_MS,
+        color,
+        importance: { ...MARKER_IMPORTANCE },
+        isLifeEvent: true,
+        allDay: true,
+        ...(event.place ? { location: { name: event.place } } : {}),
+    };
+}
+
+/**
+ * `Born ABT 1850 in Leeds`, keeping the date as written
+ */
+function describe(verb: string, event: GedcomVitalEvent): string {
+    return [verb, event.date?.text, event.place && `in ${event.place}`].filter(Boolean).join(' ');
+}
+
+/**
+ * Year for titles, marked when uncertain (`c. 1850`, `bef. 1850`)
+ */
+function formatYear(date: GedcomDate): string {
+    const year = new Date(date.start).getFullYear();
+    const label = year <= 0 ? `${1 - year} BCE` : String(year);
+    switch (date.qualifier) {
+        case 'about':
+        case 'between':
+            return `c. ${label}`;
+        case 'before':
+            return `bef. ${label}`;
+        case 'after':
+            return `aft. ${label}`;
+        default:
+            return label;
+    }
+}
@@ -0,0 +1,269 @@
+/**
+ * IcsParser Unit Tests
+ *
+ * Tests iCalendar parsing into CalendarEvents.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { buildIcsEventId, parseIcs, parseIcsDate, parseIcsDuration, unescapeIcsText } from './IcsParser';
+
+const OPTIONS = { calendarId: 'ics-test', color: '#B8D4E3' };
+
+// Helper to wrap VEVENT lines in a calendar
+function calendar(...lines: string[]): string {
+    return [
+        'BEGIN:VCALENDAR',
+        'VERSION:2.0',
+        'PRODID:-//Test//EN',
+        'X-WR-CALNAME:History',
+        ...lines,
+        'END:VCALENDAR',
+    ].join('\r\n');
+}
+
+describe('IcsParser', () => {
+    describe('parseIcsDate', () => {
+        it('should parse UTC date-times', () => {
+            const result = parseIcsDate('20240115T093000Z');
+            expect(result).toEqual({ time: Date.UTC(2024, 0, 15, 9, 30), allDay: false });
+        });
+
+        it('should apply TZID offsets', () => {
+            // Amsterdam is UTC+1 in January
+            const result = parseIcsDate('20240115T093000', { TZID: 'Europe/Amsterdam' });
+            expect(result?.time).toBe(Date.UTC(2024, 0, 15, 8, 30));
+        });
+
+        it('should handle daylight saving time in TZID zones', () => {
+            // New York is UTC-4 in July
+            const result = parseIcsDate('20240704T120000', { TZID: 'America/New_York' });
+            expect(result?.time).toBe(Date.UTC(2024, 6, 4, 16, 0));
+        });
+
+        it('should mark DATE values as all-day', () => {
+            const result = parseIcsDate('20240115', { VALUE: 'DATE' });
+            expect(result?.allDay).toBe(true);
+            expect(result?.time).toBe(new Date(2024, 0, 15).getTime());
+        });
+
+        it('should return null for invalid values', () => {
+            expect(parseIcsDate('not-a-date')).toBeNull();
+        });
+    });
+
+    describe('parseIcsDuration', () => {
+        it('should parse durations', () => {
+            expect(parseIcsDuration('PT1H30M')).toBe(90 * 60 * 1000);
+            expect(parseIcsDuration('P1DT2H')).toBe(26 * 60 * 60 * 1000);
+            expect(parseIcsDuration('P2W')).toBe(14 * 24 * 60 * 60 * 1000);
+            expect(parseIcsDuration('-PT15M')).toBe(-15 * 60 * 1000);
+        });
+    });
+
+    describe('unescapeIcsText', () => {
+        it('should unescape special characters', () => {
+            expect(unescapeIcsText('a\\, b\\; c\\nd\\\\e')).toBe('a, b; c\nd\\e');
+        });
+    });
+
+    describe('buildIcsEventId', () => {
+        it('should prefix calendar IDs only once', () => {
+            expect(buildIcsEventId('ics-holidays', 'uid-1')).toBe('ics-holidays-uid-1');
+            expect(buildIcsEventId('/alice/personal/', 'uid-1', 5, 'caldav')).toBe('caldav-/alice/personal/-uid-1-5');
+        });
+    });
+
+    describe('parseIcs', () => {
+        it('should read calendar metadata', () => {
+            const result = parseIcs(calendar(), OPTIONS);
+            expect(result.name).toBe('History');
+            expect(result.events).toEqual([]);
+        });
+
+        it('should parse a basic event', () => {
+            const result = parseIcs(calendar(
+                'BEGIN:VEVENT',
+                'UID:abc-123',
+                'SUMMARY:Team meeting',
+                'DESCRIPTION:Line one\\nLine two',
+                'DTSTART:20240115T090000Z',
+                'DTEND:20240115T100000Z',
+                'STATUS:CONFIRMED',
+                'END:VEVENT',
+            ), OPTIONS);
+
+            expect(result.events).toHaveLength(1);
+            const event = result.events[0];
+            expect(event.id).toBe('ics-test-abc-123');
+            expect(event.title).toBe('Team meeting');
+            expect(event.description).toBe('Line one\nLine two');
+            expect(event.startTime).toBe(Date.UTC(2024, 0, 15, 9));
+            expect(event.endTime).toBe(Date.UTC(2024, 0, 15, 10));
+            expect(event.source).toBe('manual');
+            expect(event.category).toBe('ics-test');
+            expect(event.status).toBe('confirmed');
+            expect(event.allDay).toBe(false);
+        });
+
+        it('should unfold long lines', () => {
+            const result = parseIcs(calendar(
+                'BEGIN:VEVENT',
+                'UID:folded',
+                'SUMMARY:A very long',
+                '  title',
+                'DTSTART:20240115T090000Z',
+                'END:VEVENT',
+            ), OPTIONS);
+
+            expect(result.events[0].title).toBe('A very long title');
+        });
+
+        it('should parse all-day events with exclusive end dates', () => {
+            const result = parseIcs(calendar(
+                'BEGIN:VEVENT',
+                'UID:holiday',
+                'SUMMARY:Holiday',
+                'DTSTART;VALUE=DATE:20240101',
+                'DTEND;VALUE=DATE:20240103',
+                'END:VEVENT',
+            ), OPTIONS);
+
+            const event = result.events[0];
+            expect(event.allDay).toBe(true);
+            expect(event.startTime).toBe(new Date(2024, 0, 1).getTime());
+            expect(event.endTime).toBe(new Date(2024, 0, 3).getTime());
+            expect(event.isLifeEvent).toBe(true);
+        });
+
+        it('should default all-day events without DTEND to one day', () => {
+            const result = parseIcs(calendar(
+                'BEGIN:VEVENT',
+                'UID:birthday',
+                'DTSTART;VALUE=DATE:20240310',
+                'END:VEVENT',
+            ), OPTIONS);
+
+            const event = result.events[0];
+            expect(event.endTime).toBe(new Date(2024, 2, 11).getTime());
+        });
+
+        it('should use DURATION when DTEND is missing', () => {
+            const result = parseIcs(calendar(
+                'BEGIN:VEVENT',
+                'UID:dur',
+                'DTSTART:20240115T090000Z',
+                'DURATION:PT45M',
+                'END:VEVENT',
+            ), OPTIONS);
+
+            expect(result.events[0].endTime).toBe(Date.UTC(2024, 0, 15, 9, 45));
+        });
+
+        it('should parse location, geo, attendees and organizer', () => {
+            const result = parseIcs(calendar(
+                'BEGIN:VEVENT',
+                'UID:loc',
+                'DTSTART:20240115T090000Z',
+                'LOCATION:Coffee Shop\\, Main St',
+                'GEO:52.3676;4.9041',
+                'ORGANIZER;CN=Alex:mailto:alex@example.com',
+                'ATTENDEE;CN="Sam, Jr.";PARTSTAT=ACCEPTED:mailto:sam@example.com',
+                'ATTENDEE;PARTSTAT=NEEDS-ACTION:mailto:alex@example.com',
+                'END:VEVENT',
+            ), OPTIONS);
+
+            const event = result.events[0];
+            expect(event.location).toEqual({
+                name: 'Coffee Shop, Main St',
+                coordinates: { lat: 52.3676, lng: 4.9041 },
+            });
+            expect(event.organizer).toBe('alex@example.com');
+            expect(event.attendees).toEqual([
+                { name: 'Sam, Jr.', email: 'sam@example.com', status: 'accepted', isOrganizer: false },
+                { name: 'alex@example.com', email: 'alex@example.com', status: 'pending', isOrganizer: true },
+            ]);
+        });
+
+        it('should parse VALARM reminders', () => {
+            const result = parseIcs(calendar(
+                'BEGIN:VEVENT',
+                'UID:alarm',
+                'DTSTART:20240115T090000Z',
+                'BEGIN:VALARM',
+                'ACTION:DISPLAY',
+                'TRIGGER:-PT15M',
+                'END:VALARM',
+                'BEGIN:VALARM',
+                'ACTION:EMAIL',
+                'TRIGGER;VALUE=DATE-TIME:20240114T090000Z',
+                'END:VALARM',
+                'END:VEVENT',
+            ), OPTIONS);
+
+            expect(result.events[0].reminders).toEqual([
+                { method: 'popup', minutesBefore: 15 },
+                { method: 'email', minutesBefore: 24 * 60 },
+            ]);
+        });
+
+        it('should link recurrence overrides to their series', () => {
+            const result = parseIcs(calendar(
+                'BEGIN:VEVENT',
+                'UID:series',
+                'DTSTART:20240115T090000Z',
+                'RRULE:FREQ=WEEKLY;COUNT=4',
+                'END:VEVENT',
+                'BEGIN:VEVENT',
+                'UID:series',
+                'RECURRENCE-ID:20240122T090000Z',
+                'DTSTART:20240122T100000Z',
+                'END:VEVENT',
+            ), OPTIONS);
+
+            const [master, override] = result.events;
+            expect(master.recurrenceRule).toBe('FREQ=WEEKLY;COUNT=4');
+            expect(override.recurringEventId).toBe(master.id);
+            expect(override.id).not.toBe(master.id);
+        });
+
+        it('should parse EXDATE, RDATE and the start time zone', () => {
+            const result = parseIcs(calendar(
+                'BEGIN:VEVENT',
+                'UID:series',
+                'DTSTART;TZID=Europe/Amsterdam:20240115T090000',
+                'RRULE:FREQ=WEEKLY',
+                'EXDATE;TZID=Europe/Amsterdam:20240122T090000,20240129T090000',
+                'RDATE:20240124T080000Z',
+                'END:VEVENT',
+            ), OPTIONS);
+
+            const [event] = result.events;
+            expect(event.timeZone).toBe('Europe/Amsterdam');
+            expect(event.recurrenceExceptions).toEqual([Date.UTC(2024, 0, 22, 8), Date.UTC(2024, 0, 29, 8)]);
+            expect(event.recurrenceDates).toEqual([Date.UTC(2024, 0, 24, 8)]);
+        });
+
+        it('should use the calendar default time zone for floating times', () => {
+            const result = parseIcs(calendar(
+                'X-WR-TIMEZONE:Asia/Tokyo',
+                'BEGIN:VEVENT',
+                'UID:tokyo',
+                'DTSTART:20240115T090000',
+                'END:VEVENT',
+            ), OPTIONS);
+
+            expect(result.events[0].startTime).toBe(Date.UTC(2024, 0, 15, 0, 0));
+        });
+
+        it('should skip events without DTSTART', () => {
+            const result = parseIcs(calendar(
+                'BEGIN:VEVENT',
+                'UID:broken',
+                'SUMMARY:No start',
+                'END:VEVENT',
+            ), OPTIONS);
+
+            expect(result.events).toEqual([]);
+        });
+    });
+});
@@ -0,0 +1,506 @@
+/**
+ * IcsParser - Parses iCalendar (RFC 5545) data into CalendarEvents
+ *
+ * Supports the subset used by common calendar exports:
+ * - VEVENT with DTSTART/DTEND/DURATION, all-day DATE values and TZID
+ * - RRULE, EXDATE and RDATE (expanded later, see $lib/events/recurrence)
+ * - LOCATION, GEO, ATTENDEE, ORGANIZER, STATUS, URL, CONFERENCE
+ * - VALARM reminders (relative and absolute triggers)
+ * - Calendar metadata (X-WR-CALNAME, X-WR-TIMEZONE, colors)
+ *
+ * Time zones are resolved through Intl, so TZID must be an IANA name.
+ * Unknown TZIDs (e.g. Windows zone names) fall back to floating local time.
+ */
+
+import type { CalendarEvent } from '$lib/types/Event';
+import { computeDurationImportance } from '$lib/events/importance';
+import { wallClockToEpoch, wallClockToUtc } from '$lib/utils/timeZone';
+
+/**
+ * A single content line, e.g. `DTSTART;TZID=Europe/Paris:20240101T090000`
+ */
+export interface IcsProperty {
+    name: string;
+    params: Record<string, string>;
+    value: string;
+}
+
+/**
+ * A BEGIN/END block with its properties and nested blocks
+ */
+export interface IcsComponent {
+    name: string;
+    properties: IcsProperty[];
+    components: IcsComponent[];
+}
+
+/**
+ * Options controlling how parsed events are mapped
+ */
+export interface IcsParseOptions {
+    /** Calendar ID used as event category and ID namespace */
+    calendarId: string;
+    /** Fallback color for events and the calendar */
+    color: string;
+    /** Event ID prefix (default: "ics") */
+    idPrefix?: string;
+    /** Event source (default: "manual") */
+    source?: CalendarEvent['source'];
+}
+
+/**
+ * Result of parsing an iCalendar file
+ */
+export interface ParsedIcsCalendar {
+    /** Calendar name from X-WR-CALNAME / NAME */
+    name?: string;
+    /** Calendar color from X-APPLE-CALENDAR-COLOR / COLOR */
+    color?: string;
+    /** Default time zone from X-WR-TIMEZONE */
+    timeZone?: string;
+    events: CalendarEvent[];
+}
+
+/**
+ * Parsed DATE or DATE-TIME value
+ */
+export interface IcsDateValue {
+    time: number;
+    allDay: boolean;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const PARTSTAT_MAP: Record<string, 'accepted' | 'declined' | 'tentative' | 'pending'> = {
+    'ACCEPTED': 'accepted',
+    'DECLINED': 'declined',
+    'TENTATIVE': 'tentative',
+    'NEEDS-ACTION': 'pending',
+};
+
+const STATUS_MAP: Record<string, 'confirmed' | 'tentative' | 'cancelled'> = {
+    'CONFIRMED': 'confirmed',
+    'TENTATIVE': 'tentative',
+    'CANCELLED': 'cancelled',
+};
+
+// =========================================
+// Low-level parsing
+// =========================================
+
+/**
+ * Unfold continuation lines (RFC 5545 3.1) and split into content lines
+ */
+function unfoldLines(text: string): string[] {
+    return text
+        .replace(/\r\n/g, '\n')
+        .replace(/\r/g, '\n')
+        .replace(/\n[ \t]/g, '')
+        .split('\n')
+        .filter(line => line.length > 0);
+}
+
+/**
+ * Parse a single content line into name, params and value
+ */
+function parseContentLine(line: string): IcsProperty | null {
+    let inQuotes = false;
+    let colonIndex = -1;
+
+    for (let i = 0; i < line.length; i++) {
+        const ch = line[i];
+        if (ch === '"') inQuotes = !inQuotes;
+        else if (ch === ':' && !inQuotes) {
+            colonIndex = i;
+            break;
+        }
+    }
+
+    if (colonIndex === -1) return null;
+
+    const head = line.slice(0, colonIndex);
+    const value = line.slice(colonIndex + 1);
+
+    // Split name and params on semicolons outside quotes
+    const segments: string[] = [];
+    let current = '';
+    inQuotes = false;
+    for (const ch of head) {
+        if (ch === '"') {
+            inQuotes = !inQuotes;
+            continue;
+        }
+        if (ch === ';' && !inQuotes) {
+            segments.push(current);
+            current = '';
+        } else {
+            current += ch;
+        }
+    }
+    segments.push(current);
+
+    const params: Record<string, string> = {};
+    for (const segment of segments.slice(1)) {
+        const eq = segment.indexOf('=');
+        if (eq > 0) {
+            params[segment.slice(0, eq).toUpperCase()] = segment.slice(eq + 1);
+        }
+    }
+
+    return {
+        name: segments[0].toUpperCase(),
+        params,
+        value,
+    };
+}
+
+/**
+ * Parse iCalendar text into its component tree.
+ * Returns the top-level components (normally one or more VCALENDARs).
+ */
+export function parseIcsComponents(text: string): IcsComponent[] {
+    const roots: IcsComponent[] = [];
+    const stack: IcsComponent[] = [];
+
+    for (const line of unfoldLines(text)) {
+        const property = parseContentLine(line);
+        if (!property) continue;
+
+        if (property.name === 'BEGIN') {
+            const component: IcsComponent = {
+                name: property.value.trim().toUpperCase(),
+                properties: [],
+                components: [],
+            };
+            if (stack.length > 0) {
+                stack[stack.length - 1].components.push(component);
+            } else {
+                roots.push(component);
+            }
+            stack.push(component);
+        } else if (property.name === 'END') {
+            stack.pop();
+        } else if (stack.length > 0) {
+            stack[stack.length - 1].properties.push(property);
+        }
+    }
+
+    return roots;
+}
+
+/**
+ * Unescape a TEXT value (RFC 5545 3.3.11)
+ */
+export function unescapeIcsText(value: string): string {
+    return value.replace(/\\([\\;,nN])/g, (_, ch: string) =>
+        ch === 'n' || ch === 'N' ? '\n' : ch
+    );
+}
+
+/**
+ * Parse a DATE or DATE-TIME value.
+ *
+ * - `20240101` / VALUE=DATE: all-day, midnight in the given zone
+ * - `20240101T090000Z`: UTC
+ * - `20240101T090000` with TZID: wall-clock time in that zone
+ * - `20240101T090000` without TZID: floating, uses the default zone
+ */
+export function parseIcsDate(
+    value: string,
+    params: Record<string, string> = {},
+    defaultTimeZone?: string
+): IcsDateValue | null {
+    const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})?(Z)?)?$/.exec(value.trim());
+    if (!match) return null;
+
+    const [, y, mo, d, h, mi, s, utc] = match;
+    const fields = {
+        year: parseInt(y, 10),
+        month: parseInt(mo, 10),
+        day: parseInt(d, 10),
+        hour: h ? parseInt(h, 10) : 0,
+        minute: mi ? parseInt(mi, 10) : 0,
+        second: s ? parseInt(s, 10) : 0,
+    };
+
+    const allDay = params.VALUE === 'DATE' || h === undefined;
+
+    if (utc) {
+        return { time: wallClockToUtc(fields), allDay: false };
+    }
+
+    // Some exporters prefix TZIDs with a slash (globally unique IDs)
+    const tzid = params.TZID?.replace(/^\//, '');
+    return {
+        time: wallClockToEpoch(fields, tzid || defaultTimeZone),
+        allDay,
+    };
+}
+
+/**
+ * Parse a DURATION value (e.g. `P1DT2H`, `-PT15M`, `P2W`) into milliseconds
+ */
+export function parseIcsDuration(value: string): number | null {
+    const match = /^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/.exec(value.trim());
+    if (!match) return null;
+
+    const [, sign, w, d, h, m, s] = match;
+    const ms =
+        (parseInt(w || '0', 10) * 7 * DAY_MS) +
+        (parseInt(d || '0', 10) * DAY_MS) +
+        (parseInt(h || '0', 10) * 60 * 60 * 1000) +
+        (parseInt(m || '0', 10) * 60 * 1000) +
+        (parseInt(s || '0', 10) * 1000);
+
+    return sign === '-' ? -ms : ms;
+}
+
+/**
+ * Normalize a calendar color to #RRGGBB (drops alpha from #RRGGBBAA)
+ */
+function normalizeColor(value: string | undefined): string | undefined {
+    if (!value) return undefined;
+    const match = /^#?([0-9a-f]{6})(?:[0-9a-f]{2})?$/i.exec(value.trim());
+    return match ? `#${match[1].toUpperCase()}` : undefined;
+}
+
+function stripMailto(value: string): string {
+    return value.replace(/^mailto:/i, '');
+}
+
+// =========================================
+// Component mapping
+// =========================================
+
+function getProperty(component: IcsComponent, name: string): IcsProperty | undefined {
+    return component.properties.find(p => p.name === name);
+}
+
+function getProperties(component: IcsComponent, name: string): IcsProperty[] {
+    return component.properties.filter(p => p.name === name);
+}
+
+/**
+ * Build the stable event ID for a VEVENT
+ * (the prefix is left out when the calendar ID already starts with it)
+ */
+export function buildIcsEventId(calendarId: string, uid: string, recurrenceId?: number, prefix = 'ics'): string {
+    const scope = calendarId.startsWith(`${prefix}-`) ? calendarId : `${prefix}-${calendarId}`;
+    const base = `${scope}-${uid}`;
+    return recurrenceId !== undefined ? `${base}-${recurrenceId}` : base;
+}
+
+/**
+ * Collect the times of every EXDATE or RDATE property (values may be comma-separated)
+ */
+function parseDateList(component: IcsComponent, name: string, defaultTimeZone?: string): number[] | undefined {
+    const times: number[] = [];
+    for (const prop of getProperties(component, name)) {
+        for (const value of prop.value.split(',')) {
+            // RDATE periods ("start/end") only contribute their start
+            const parsed = parseIcsDate(value.split('/')[0], prop.params, defaultTimeZone);
+            if (parsed) times.push(parsed.time);
+        }
+    }
+    return times.length > 0 ? times : undefined;
+}
+
+/**
+ * Read standalone RRULE, EXDATE and RDATE lines (e.g. Google's `recurrence` field)
+ */
+export function parseRecurrenceLines(
+    lines: string[],
+    defaultTimeZone?: string
+): Pick<CalendarEvent, 'recurrenceRule' | 'recurrenceExceptions' | 'recurrenceDates'> {
+    const [component] = parseIcsComponents(['BEGIN:VEVENT', ...lines, 'END:VEVENT'].join('\r\n'));
+    return {
+        recurrenceRule: getProperty(component, 'RRULE')?.value,
+        recurrenceExceptions: parseDateList(component, 'EXDATE', defaultTimeZone),
+        recurrenceDates: parseDateList(component, 'RDATE', defaultTimeZone),
+    };
+}
+
+/**
+ * Time zone the start time is anchored to: UTC, its TZID or the calendar default
+ */
+function getStartTimeZone(dtstart: IcsProperty, defaultTimeZone?: string): string | undefined {
+    if (/Z$/i.test(dtstart.value.trim())) return 'UTC';
+    return dtstart.params.TZID?.replace(/^\//, '') || defaultTimeZone;
+}
+
+/**
+ * Map VALARM sub-components to CalendarEvent reminders
+ */
+function mapAlarms(component: IcsComponent, startTime: number): CalendarEvent['reminders'] {
+    const reminders: NonNullable<CalendarEvent['reminders']> = [];
+
+    for (const alarm of component.components.filter(c => c.name === 'VALARM')) {
+        const trigger = getProperty(alarm, 'TRIGGER');
+        if (!trigger) continue;
+
+        let minutesBefore: number | null = null;
+        if (trigger.params.VALUE === 'DATE-TIME') {
+            const absolute = parseIcsDate(trigger.value, trigger.params);
+            if (absolute) minutesBefore = Math.round((startTime - absolute.time) / 60000);
+        } else {
+            // RELATED=END triggers are rare in exports; treat them like start
+            const offset = parseIcsDuration(trigger.value);
+            if (offset !== null) minutesBefore = Math.round(-offset / 60000);
+        }
+
+        if (minutesBefore === null) continue;
+
+        const action = getProperty(alarm, 'ACTION')?.value.toUpperCase();
+        reminders.push({
+            method: action === 'EMAIL' ? 'email' : 'popup',
+            minutesBefore,
+        });
+    }
+
+    return reminders.length > 0 ? reminders : undefined;
+}
+
+/**
+ * Map ATTENDEE / ORGANIZER properties to CalendarEvent attendees
+ */
+function mapAttendees(component: IcsComponent, organizer: string | undefined): CalendarEvent['attendees'] {
+    const attendees = getProperties(component, 'ATTENDEE').map(prop => {
+        const email = stripMailto(prop.value);
+        return {
+            name: prop.params.CN ? unescapeIcsText(prop.params.CN) : email,
+            email,
+            status: PARTSTAT_MAP[prop.params.PARTSTAT?.toUpperCase() ?? ''] ?? 'pending',
+            isOrganizer: organizer !== undefined && email.toLowerCase() === organizer.toLowerCase(),
+        };
+    });
+
+    return attendees.length > 0 ? attendees : undefined;
+}
+
+/**
+ * Map a VEVENT component to a CalendarEvent
+ */
+function mapEvent(
+    component: IcsComponent,
+    index: number,
+    options: IcsParseOptions,
+    defaultTimeZone?: string
+): CalendarEvent | null {
+    const dtstart = getProperty(component, 'DTSTART');
+    if (!dtstart) return null;
+
+    const start = parseIcsDate(dtstart.value, dtstart.params, defaultTimeZone);
+    if (!start) return null;
+
+    // End: DTEND, DTSTART + DURATION, or one day for all-day events
+    let endTime = start.allDay ? start.time + DAY_MS : start.time;
+    const dtend = getProperty(component, 'DTEND');
+    const duration = getProperty(component, 'DURATION');
+    if (dtend) {
+        const end = parseIcsDate(dtend.value, dtend.params, defaultTimeZone);
+        if (end) endTime = end.time;
+    } else if (duration) {
+        const ms = parseIcsDuration(duration.value);
+        if (ms !== null) endTime = start.time + ms;
+    }
+    endTime = Math.max(endTime, start.time);
+
+    const uid = getProperty(component, 'UID')?.value || `event-${index}`;
+    const recurrenceIdProp = getProperty(component, 'RECURRENCE-ID');
+    const recurrenceId = recurrenceIdProp
+        ? parseIcsDate(recurrenceIdProp.value, recurrenceIdProp.params, defaultTimeZone)?.time
+        : undefined;
+
+    const text = (name: string) => {
+        const prop = getProperty(component, name);
+        return prop ? unescapeIcsText(prop.value) : undefined;
+    };
+
+    const timestamp = (name: string) => {
+        const prop = getProperty(component, name);
+        return prop ? parseIcsDate(prop.value, prop.params)?.time : undefined;
+    };
+
+    // Location name plus optional GEO coordinates ("lat;lng")
+    let location: CalendarEvent['location'];
+    const locationText = text('LOCATION');
+    const geo = getProperty(component, 'GEO');
+    if (locationText || geo) {
+        location = {};
+        if (locationText) location.name = locationText;
+        if (geo) {
+            const [lat, lng] = geo.value.split(/[;,]/).map(parseFloat);
+            if (Number.isFinite(lat) && Number.isFinite(lng)) {
+                location.coordinates = { lat, lng };
+            }
+        }
+    }
+
+    const organizerProp = getProperty(component, 'ORGANIZER');
+    const organizer = organizerProp ? stripMailto(organizerProp.value) : undefined;
+
+    const durationHours = (endTime - start.time) / (1000 * 60 * 60);
+
+    return {
+        id: buildIcsEventId(options.calendarId, uid, recurrenceId, options.idPrefix),
+        title: text('SUMMARY') || 'Untitled',
+        description: text('DESCRIPTION'),
+        startTime: start.time,
+        endTime,
+        color: options.color,
+        category: options.calendarId,
+        source: options.source ?? 'manual',
+        importance: computeDurationImportance(start.time, endTime),
+        isLifeEvent: durationHours >= 24,
+        allDay: start.allDay,
+        location,
+        attendees: mapAttendees(component, organizer),
+        organizer,
+        reminders: mapAlarms(component, start.time),
+        recurrenceRule: getProperty(component, 'RRULE')?.value,
+        recurrenceExceptions: parseDateList(component, 'EXDATE', defaultTimeZone),
+        recurrenceDates: parseDateList(component, 'RDATE', defaultTimeZone),
+        timeZone: getStartTimeZone(dtstart, defaultTimeZone),
+        recurringEventId: recurrenceId !== undefined
+            ? buildIcsEventId(options.calendarId, uid, undefined, options.idPrefix)
+            : undefined,
+        originalStartTime: recurrenceId,
+        status: STATUS_MAP[getProperty(component, 'STATUS')?.value.toUpperCase() ?? ''],
+        htmlLink: getProperty(component, 'URL')?.value,
+        conferenceUrl: getProperty(component, 'CONFERENCE')?.value,
+        createdAt: timestamp('CREATED'),
+        updatedAt: timestamp('LAST-MODIFIED'),
+    };
+}
+
+/**
+ * Parse iCalendar text into calendar metadata and events
+ */
+export function parseIcs(text: string, options: IcsParseOptions): ParsedIcsCalendar {
+    const roots = parseIcsComponents(text);
+    const result: ParsedIcsCalendar = { events: [] };
+
+    let index = 0;
+    for (const calendar of roots.filter(c => c.name === 'VCALENDAR')) {
+        result.name ??= getProperty(calendar, 'X-WR-CALNAME')?.value
+            ?? getProperty(calendar, 'NAME')?.value;
+        result.color ??= normalizeColor(
+            getProperty(calendar, 'X-APPLE-CALENDAR-COLOR')?.value
+            ?? getProperty(calendar, 'COLOR')?.value
+        );
+        result.timeZone ??= getProperty(calendar, 'X-WR-TIMEZONE')?.value;
+
+        for (const component of calendar.components) {
+            if (component.name !== 'VEVENT') continue;
+            const event = mapEvent(component, index++, {
+                ...options,
+                color: result.color ?? options.color,
+            }, result.timeZone);
+            if (event) result.events.push(event);
+        }
+    }
+
+    if (result.name) result.name = unescapeIcsText(result.name);
+
+    return result;
+}
@@ -0,0 +1,188 @@
+/**
+ * IcsWriter Unit Tests
+ *
+ * Tests iCalendar serialization and round-trips through IcsParser.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { escapeIcsText, foldIcsLine, formatIcsDateTime, serializeIcs } from './IcsWriter';
+import { parseIcs, unescapeIcsText } from './IcsParser';
+import { collapseRecurringInstances, expandEvents, getSeriesEvents } from '$lib/events/recurrence';
+import type { CalendarEvent } from '$lib/types/Event';
+
+const OPTIONS = { calendarId: 'ics-export', color: '#B8D4E3' };
+
+// Helper to create test events
+function createEvent(overrides: Partial<CalendarEvent>): CalendarEvent {
+    return {
+        id: 'event-1',
+        title: 'Standup',
+        startTime: Date.UTC(2024, 0, 15, 9, 0),
+        endTime: Date.UTC(2024, 0, 15, 9, 15),
+        color: '#B8D4E3',
+        source: 'google',
+        importance: { duration: 0.5, aiScore: 0.5, manual: 0.5, effective: 0.5 },
+        isLifeEvent: false,
+        ...overrides,
+    };
+}
+
+describe('IcsWriter', () => {
+    describe('escapeIcsText', () => {
+        it('should escape separators and newlines', () => {
+            const value = 'a;b,c\\d\ne';
+            expect(escapeIcsText(value)).toBe('a\\;b\\,c\\\\d\\ne');
+            expect(unescapeIcsText(escapeIcsText(value))).toBe(value);
+        });
+    });
+
+    describe('foldIcsLine', () => {
+        it('should leave short lines alone', () => {
+            expect(foldIcsLine('SUMMARY:Short')).toBe('SUMMARY:Short');
+        });
+
+        it('should fold at 75 octets without splitting characters', () => {
+            const line = `SUMMARY:${'é'.repeat(60)}`;
+            const folded = foldIcsLine(line);
+            const encoder = new TextEncoder();
+
+            for (const part of folded.split('\r\n')) {
+                expect(encoder.encode(part).length).toBeLessThanOrEqual(75);
+            }
+            expect(folded.replace(/\r\n /g, '')).toBe(line);
+        });
+    });
+
+    describe('formatIcsDateTime', () => {
+        it('should format UTC date-times', () => {
+            expect(formatIcsDateTime(Date.UTC(2024, 0, 5, 7, 8, 9))).toBe('20240105T070809Z');
+        });
+    });
+
+    describe('serializeIcs', () => {
+        it('should write a valid calendar envelope with CRLF endings', () => {
+            const text = serializeIcs([createEvent({})], { name: 'Work', color: '#4285F4', timestamp: 0 });
+
+            expect(text.startsWith('BEGIN:VCALENDAR\r\nVERSION:2.0\r\n')).toBe(true);
+            expect(text.endsWith('END:VCALENDAR\r\n')).toBe(true);
+            expect(text).toContain('X-WR-CALNAME:Work');
+            expect(text).toContain('DTSTAMP:19700101T000000Z');
+            expect(text).not.toMatch(/[^\r]\n/);
+        });
+
+        it('should round-trip timed events through the parser', () => {
+            const event = createEvent({
+                title: 'Review; final, really',
+                description: 'Line one\nLine two',
+                recurrenceRule: 'RRULE:FREQ=WEEKLY;BYDAY=MO,WE',
+                location: { name: 'HQ', coordinates: { lat: 52.37, lng: 4.89 } },
+                organizer: 'boss@example.com',
+                attendees: [
+                    { name: 'Boss', email: 'boss@example.com', status: 'accepted', isOrganizer: true },
+                    { name: 'Ann, PhD', email: 'ann@example.com', status: 'tentative' },
+                ],
+                reminders: [
+                    { method: 'popup', minutesBefore: 10 },
+                    { method: 'email', minutesBefore: 1500 },
+                ],
+                status: 'confirmed',
+                htmlLink: 'https://example.com/event',
+                conferenceUrl: 'https://meet.example.com/abc',
+                createdAt: Date.UTC(2023, 11, 1),
+                updatedAt: Date.UTC(2023, 11, 2),
+            });
+
+            const [parsed] = parseIcs(serializeIcs([event]), OPTIONS).events;
+
+            expect(parsed.title).toBe(event.title);
+            expect(parsed.description).toBe(event.description);
+            expect(parsed.startTime).toBe(event.startTime);
+            expect(parsed.endTime).toBe(event.endTime);
+            expect(parsed.allDay).toBe(false);
+            expect(parsed.recurrenceRule).toBe('FREQ=WEEKLY;BYDAY=MO,WE');
+            expect(parsed.location).toEqual(event.location);
+            expect(parsed.organizer).toBe('boss@example.com');
+            expect(parsed.attendees).toEqual(event.attendees!.map(a => ({ isOrganizer: false, ...a })));
+            expect(parsed.reminders).toEqual(event.reminders);
+            expect(parsed.status).toBe('confirmed');
+            expect(parsed.htmlLink).toBe(event.htmlLink);
+            expect(parsed.conferenceUrl).toBe(event.conferenceUrl);
+            expect(parsed.createdAt).toBe(event.createdAt);
+            expect(parsed.updatedAt).toBe(event.updatedAt);
+        });
+
+        it('should write all-day events as DATE values in the given zone', () => {
+            const event = createEvent({
+                allDay: true,
+                // Midnight Jan 15 - Jan 17 in Amsterdam (UTC+1)
+                startTime: Date.UTC(2024, 0, 14, 23, 0),
+                endTime: Date.UTC(2024, 0, 16, 23, 0),
+            });
+
+            const text = serializeIcs([event], { timeZone: 'Europe/Amsterdam' });
+            expect(text).toContain('DTSTART;VALUE=DATE:20240115');
+            expect(text).toContain('DTEND;VALUE=DATE:20240117');
+
+            const [parsed] = parseIcs(text, OPTIONS).events;
+            expect(parsed.allDay).toBe(true);
+            expect(parsed.startTime).toBe(event.startTime);
+            expect(parsed.endTime).toBe(event.endTime);
+        });
+
+        it('should skip events outside the representable year range', () => {
+            const bce = createEvent({
+                id: 'pyramids',
+                startTime: Date.UTC(2000, 0, 1) - 4500 * 365.25 * 24 * 60 * 60 * 1000,
+                endTime: Date.UTC(2000, 0, 1) - 4400 * 365.25 * 24 * 60 * 60 * 1000,
+            });
+
+            const parsed = parseIcs(serializeIcs([bce, createEvent({})]), OPTIONS).events;
+            expect(parsed).toHaveLength(1);
+            expect(parsed[0].title).toBe('Standup');
+        });
+
+        it('should round-trip expanded recurring events as their series', () => {
+            const source = [
+                'BEGIN:VCALENDAR',
+                'BEGIN:VEVENT',
+                'UID:standup',
+                'DTSTART:20240115T090000Z',
+                'DTEND:20240115T091500Z',
+                'SUMMARY:Standup',
+                'RRULE:FREQ=DAILY;COUNT=5',
+                'EXDATE:20240117T090000Z',
+                'END:VEVENT',
+                'BEGIN:VEVENT',
+                'UID:standup',
+                'RECURRENCE-ID:20240118T090000Z',
+                'DTSTART:20240118T140000Z',
+                'DTEND:20240118T141500Z',
+                'SUMMARY:Late standup',
+                'END:VEVENT',
+                'END:VCALENDAR',
+            ].join('\r\n');
+            const stored = parseIcs(source, OPTIONS).events;
+            const seriesId = stored[0].id;
+            const shown = expandEvents(stored, Date.UTC(2024, 0, 1), Date.UTC(2024, 1, 1));
+            expect(shown).toHaveLength(4);
+
+            const text = serializeIcs(collapseRecurringInstances(shown, new Map([
+                [seriesId, getSeriesEvents(stored, seriesId)],
+            ])));
+            expect(text.match(/BEGIN:VEVENT/g)).toHaveLength(2);
+
+            const reimported = parseIcs(text, { calendarId: 'ics-copy', color: '#B8D4E3' }).events;
+            expect(reimported[0]).toMatchObject({
+                recurrenceRule: 'FREQ=DAILY;COUNT=5',
+                recurrenceExceptions: [Date.UTC(2024, 0, 17, 9)],
+            });
+            expect(reimported[1]).toMatchObject({
+                title: 'Late standup',
+                recurringEventId: reimported[0].id,
+                originalStartTime: Date.UTC(2024, 0, 18, 9),
+            });
+            expect(expandEvents(reimported, Date.UTC(2024, 0, 1), Date.UTC(2024, 1, 1)).map(e => [e.title, e.startTime]))
+                .toEqual(shown.map(e => [e.title, e.startTime]));
+        });
+    });
+});
@@ -0,0 +1,312 @@
+/**
+ * IcsWriter - Serializes CalendarEvents to iCalendar (RFC 5545) text
+ *
+ * The counterpart of IcsParser: everything the parser reads is written
+ * back, so an exported slice of the timeline re-imports unchanged.
+ * - Timed events use UTC date-times, all-day events use DATE values
+ * - RRULE, EXDATE, RDATE and RECURRENCE-ID overrides of recurring series
+ * - ATTENDEE/ORGANIZER, VALARM, LOCATION/GEO, STATUS, URL, CONFERENCE
+ * - Calendar metadata (X-WR-CALNAME, X-APPLE-CALENDAR-COLOR)
+ *
+ * iCalendar can only represent years 1-9999; events outside that range
+ * (e.g. BCE historical events) are skipped.
+ */
+
+import type { CalendarEvent } from '$lib/types/Event';
+import { epochToWallClock, type WallClockTime } from '$lib/utils/timeZone';
+
+/**
+ * Options for the exported calendar
+ */
+export interface IcsWriteOptions {
+    /** Calendar name (X-WR-CALNAME) */
+    name?: string;
+    /** Calendar color (X-APPLE-CALENDAR-COLOR) */
+    color?: string;
+    /** Zone used to read the date of all-day events (default: local zone) */
+    timeZone?: string;
+    /** DTSTAMP for all events (default: now) */
+    timestamp?: number;
+}
+
+const PRODID = '-//LinearCalendar//Timeline Export//EN';
+
+/** Max line length in octets, excluding the CRLF (RFC 5545 3.1) */
+const MAX_LINE_OCTETS = 75;
+
+const PARTSTAT_MAP: Record<string, string> = {
+    accepted: 'ACCEPTED',
+    declined: 'DECLINED',
+    tentative: 'TENTATIVE',
+    pending: 'NEEDS-ACTION',
+};
+
+const encoder = new TextEncoder();
+
+// =========================================
+// Low-level formatting
+// =========================================
+
+/**
+ * Escape a TEXT value (RFC 5545 3.3.11)
+ */
+export function escapeIcsText(value: string): string {
+    return value
+        .replace(/\\/g, '\\\\')
+        .replace(/;/g, '\\;')
+        .replace(/,/g, '\\,')
+        .replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * Quote a parameter value if it contains separators
+ */
+function quoteParam(value: string): string {
+    const clean = value.replace(/"/g, "'");
+    return /[;:,]/.test(clean) ? `"${clean}"` : clean;
+}
+
+/**
+ * Fold a content line at 75 octets without splitting UTF-8 sequences
+ */
+export function foldIcsLine(line: string): string {
+    if (encoder.encode(line).length <= MAX_LINE_OCTETS) return line;
+
+    const parts: string[] = [];
+    let current = '';
+    let octets = 0;
+    // Continuation lines start with a space, which counts toward the limit
+    let limit = MAX_LINE_OCTETS;
+
+    for (const ch of line) {
+        const size = encoder.encode(ch).length;
+        if (octets + size > limit) {
+            parts.push(current);
+            current = '';
+            octets = 0;
+            limit = MAX_LINE_OCTETS - 1;
+        }
+        current += ch;
+        octets += size;
+    }
+    parts.push(current);
+
+    return parts.join('\r\n ');
+}
+
+function pad(value: number, length = 2): string {
+    return String(value).padStart(length, '0');
+}
+
+function formatDateFields(time: WallClockTime): string {
+    return `${pad(time.year, 4)}${pad(time.month)}${pad(time.day)}`;
+}
+
+/**
+ * Format a timestamp as a UTC DATE-TIME (20240101T090000Z)
+ */
+export function formatIcsDateTime(ms: number): string {
+    const date = new Date(ms);
+    return `${pad(date.getUTCFullYear(), 4)}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}` +
+        `T${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`;
+}
+
+/**
+ * Format the calendar date of a timestamp in a zone as a DATE (20240101)
+ */
+export function formatIcsDate(ms: number, timeZone?: string): string {
+    return formatDateFields(epochToWallClock(ms, timeZone));
+}
+
+/**
+ * Format a reminder offset as a negative DURATION (e.g. -PT15M, -P1D)
+ */
+function formatTrigger(minutesBefore: number): string {
+    const sign = minutesBefore < 0 ? '' : '-';
+    let minutes = Math.abs(Math.round(minutesBefore));
+    const days = Math.floor(minutes / 1440);
+    minutes -= days * 1440;
+    const hours = Math.floor(minutes / 60);
+    minutes -= hours * 60;
+
+    let time = '';
+    if (hours > 0) time += `${hours}H`;
+    if (minutes > 0) time += `${minutes}M`;
+
+    if (days > 0) return `${sign}P${days}D${time ? `T${time}` : ''}`;
+    return `${sign}PT${time || '0M'}`;
+}
+
+function isRepresentable(ms: number): boolean {
+    const year = new Date(ms).getUTCFullYear();
+    return Number.isFinite(ms) && year >= 1 && year <= 9999;
+}
+
+// =========================================
+// Component serialization
+// =========================================
+
+/**
+ * Build a property line from name, params and an already-formatted value
+ */
+function property(name: string, value: string, params: Record<string, string> = {}): string {
+    const paramText = Object.entries(params)
+        .map(([key, paramValue]) => `;${key}=${quoteParam(paramValue)}`)
+        .join('');
+    return `${name}${paramText}:${value}`;
+}
+
+/**
+ * Date-valued property with one or more times (EXDATE/RDATE lists), as DATEs for all-day events
+ */
+function dateProperty(name: string, times: number[], event: CalendarEvent, options: IcsWriteOptions): string {
+    if (event.allDay) {
+        return property(name, times.map(t => formatIcsDate(t, options.timeZone)).join(','), { VALUE: 'DATE' });
+    }
+    return property(name, times.map(formatIcsDateTime).join(','));
+}
+
+function serializeAttendees(event: CalendarEvent, lines: string[]): void {
+    let organizer = event.organizer;
+
+    for (const attendee of event.attendees ?? []) {
+        // ATTENDEE values are calendar addresses; attendees without email can't be written
+        if (!attendee.email) continue;
+        if (attendee.isOrganizer && !organizer) organizer = attendee.email;
+
+        const params: Record<string, string> = {};
+        if (attendee.name && attendee.name !== attendee.email) params.CN = attendee.name;
+        params.PARTSTAT = PARTSTAT_MAP[attendee.status ?? 'pending'];
+        lines.push(property('ATTENDEE', `mailto:${attendee.email}`, params));
+    }
+
+    if (organizer) {
+        lines.push(property('ORGANIZER', `mailto:${organizer}`));
+    }
+}
+
+function serializeAlarms(event: CalendarEvent, lines: string[]): void {
+    for (const reminder of event.reminders ?? []) {
+        lines.push('BEGIN:VALARM');
+        if (reminder.method === 'email') {
+            lines.push('ACTION:EMAIL');
+            lines.push(property('SUMMARY', escapeIcsText(event.title)));
+            if (event.organizer) lines.push(property('ATTENDEE', `mailto:${event.organizer}`));
+        } else {
+            // SMS has no iCalendar action; DISPLAY is the closest match
+            lines.push('ACTION:DISPLAY');
+        }
+        lines.push(property('DESCRIPTION', escapeIcsText(event.title)));
+        lines.push(property('TRIGGER', formatTrigger(reminder.minutesBefore)));
+        lines.push('END:VALARM');
+    }
+}
+
+/**
+ * Serialize a single event as a VEVENT block (unfolded lines).
+ * A modified instance whose series master is exported too is written as an
+ * override of the master: same UID plus RECURRENCE-ID.
+ */
+function serializeEvent(
+    event: CalendarEvent,
+    options: IcsWriteOptions,
+    timestamp: string,
+    exportedIds: Set<string>
+): string[] {
+    const lines: string[] = ['BEGIN:VEVENT'];
+    const isOverride = !!event.recurringEventId
+        && event.originalStartTime !== undefined
+        && exportedIds.has(event.recurringEventId);
+
+    lines.push(property('UID', escapeIcsText(isOverride ? event.recurringEventId! : event.id)));
+    lines.push(property('DTSTAMP', timestamp));
+    if (isOverride) {
+        lines.push(dateProperty('RECURRENCE-ID', [event.originalStartTime!], event, options));
+    }
+
+    if (event.allDay) {
+        const start = formatIcsDate(event.startTime, options.timeZone);
+        // All-day DTEND is exclusive; keep at least one day
+        let end = formatIcsDate(event.endTime, options.timeZone);
+        if (end <= start) end = formatIcsDate(event.startTime + 24 * 60 * 60 * 1000, options.timeZone);
+        lines.push(property('DTSTART', start, { VALUE: 'DATE' }));
+        lines.push(property('DTEND', end, { VALUE: 'DATE' }));
+    } else {
+        lines.push(property('DTSTART', formatIcsDateTime(event.startTime)));
+        lines.push(property('DTEND', formatIcsDateTime(Math.max(event.endTime, event.startTime))));
+    }
+
+    lines.push(property('SUMMARY', escapeIcsText(event.title)));
+    if (event.description) lines.push(property('DESCRIPTION', escapeIcsText(event.description)));
+
+    if (event.recurrenceRule) {
+        // Google returns rules with the property name included
+        lines.push(property('RRULE', event.recurrenceRule.replace(/^RRULE:/i, '')));
+    }
+    const exceptions = event.recurrenceExceptions?.filter(isRepresentable) ?? [];
+    if (exceptions.length > 0) lines.push(dateProperty('EXDATE', exceptions, event, options));
+    const dates = event.recurrenceDates?.filter(isRepresentable) ?? [];
+    if (dates.length > 0) lines.push(dateProperty('RDATE', dates, event, options));
+
+    const location = event.location;
+    if (location) {
+        const text = [location.name, location.address]
+            .filter((part, i, parts): part is string => !!part && parts.indexOf(part) === i)
+            .join(', ');
+        if (text) lines.push(property('LOCATION', escapeIcsText(text)));
+        if (location.coordinates) {
+            lines.push(property('GEO', `${location.coordinates.lat};${location.coordinates.lng}`));
+        }
+    }
+
+    serializeAttendees(event, lines);
+
+    if (event.status) lines.push(property('STATUS', event.status.toUpperCase()));
+    if (event.htmlLink) lines.push(property('URL', event.htmlLink, { VALUE: 'URI' }));
+    if (event.conferenceUrl) {
+        lines.push(property('CONFERENCE', event.conferenceUrl, { VALUE: 'URI', FEATURE: 'VIDEO' }));
+    }
+    if (event.createdAt !== undefined && isRepresentable(event.createdAt)) {
+        lines.push(property('CREATED', formatIcsDateTime(event.createdAt)));
+    }
+    if (event.updatedAt !== undefined && isRepresentable(event.updatedAt)) {
+        lines.push(property('LAST-MODIFIED', formatIcsDateTime(event.updatedAt)));
+    }
+
+    serializeAlarms(event, lines);
+
+    lines.push('END:VEVENT');
+    return lines;
+}
+
+/**
+ * Serialize events into a complete VCALENDAR document (CRLF line endings)
+ */
+export function serializeIcs(events: CalendarEvent[], options: IcsWriteOptions = {}): string {
+    const timestamp = formatIcsDateTime(options.timestamp ?? Date.now());
+
+    const lines: string[] = [
+        'BEGIN:VCALENDAR',
+        'VERSION:2.0',
+        `PRODID:${PRODID}`,
+        'CALSCALE:GREGORIAN',
+    ];
+
+    if (options.name) {
+        lines.push(property('X-WR-CALNAME', escapeIcsText(options.name)));
+        lines.push(property('NAME', escapeIcsText(options.name)));
+    }
+    if (options.color) lines.push(property('X-APPLE-CALENDAR-COLOR', options.color));
+    if (options.timeZone) lines.push(property('X-WR-TIMEZONE', options.timeZone));
+
+    const exportedIds = new Set(events.map(e => e.id));
+    const sorted = [...events].sort((a, b) => a.startTime - b.startTime);
+    for (const event of sorted) {
+        if (!isRepresentable(event.startTime) || !isRepresentable(event.endTime)) continue;
+        lines.push(...serializeEvent(event, options, timestamp, exportedIds));
+    }
+
+    lines.push('END:VCALENDAR');
+
+    return lines.map(foldIcsLine).join('\r\n') + '\r\n';
+}
@@ -0,0 +1,158 @@
+/**
+ * TimelineImport Unit Tests
+ *
+ * Tests reading CSV and JSON timelines, suggesting field mappings,
+ * detecting date formats and building events from rows.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+    detectDateFormat,
+    guessMapping,
+    mapTimelineRows,
+    parseCsv,
+    parseTimelineDate,
+    parseTimelineFile,
+} from './TimelineImport';
+
+// Local midnight, as dates without a time are read
+function local(year: number, month: number, day: number): number {
+    return new Date(year, month - 1, day).getTime();
+}
+
+describe('TimelineImport', () => {
+    describe('parseCsv', () => {
+        it('should handle quoted fields with delimiters, quotes and line breaks', () => {
+            const text = 'Title,Notes\r\n"Move, Berlin","Said ""bye""\nto Paris"\r\n\r\nTrip,';
+
+            expect(parseCsv(text)).toEqual([
+                ['Title', 'Notes'],
+                ['Move, Berlin', 'Said "bye"\nto Paris'],
+                ['Trip', ''],
+            ]);
+        });
+
+        it('should detect semicolon and tab delimiters', () => {
+            expect(parseCsv('a;b\n1;2')).toEqual([['a', 'b'], ['1', '2']]);
+            expect(parseCsv('a\tb\n1\t2')).toEqual([['a', 'b'], ['1', '2']]);
+        });
+    });
+
+    describe('parseTimelineFile', () => {
+        it('should read CSV rows by column name', () => {
+            const table = parseTimelineFile('jobs.csv', '\uFEFFTitle,Start\nAcme, 2020-01-01 \n');
+
+            expect(table.columns).toEqual(['Title', 'Start']);
+            expect(table.rows).toEqual([{ Title: 'Acme', Start: '2020-01-01' }]);
+        });
+
+        it('should read JSON arrays, also nested in an object', () => {
+            const table = parseTimelineFile('trips.json', JSON.stringify({
+                trips: [
+                    { name: 'Lisbon', from: '2021-05-01', days: 4 },
+                    { name: 'Oslo', from: '2022-02-10', note: null },
+                ],
+            }));
+
+            expect(table.columns).toEqual(['name', 'from', 'days', 'note']);
+            expect(table.rows[0]).toEqual({ name: 'Lisbon', from: '2021-05-01', days: '4' });
+            expect(table.rows[1].note).toBe('');
+        });
+
+        it('should reject files without rows', () => {
+            expect(() => parseTimelineFile('empty.csv', 'Title,Start\n')).toThrow('no rows');
+        });
+    });
+
+    describe('guessMapping', () => {
+        it('should map columns by common names', () => {
+            expect(guessMapping(['Job', 'Start Date', 'End date', 'Employer', 'Notes', 'Colour', 'Category'])).toEqual({
+                start: 'Start Date',
+                end: 'End date',
+                description: 'Notes',
+                color: 'Colour',
+                lane: 'Category',
+            });
+            expect(guessMapping(['name', 'from', 'to'])).toEqual({ start: 'from', end: 'to', title: 'name' });
+        });
+    });
+
+    describe('dates', () => {
+        it('should parse each format', () => {
+            expect(parseTimelineDate('2024-03-15', 'ymd')).toEqual({ time: local(2024, 3, 15), precision: 'day' });
+            expect(parseTimelineDate('2024-03', 'ymd')).toEqual({ time: local(2024, 3, 1), precision: 'month' });
+            expect(parseTimelineDate('2024-03-15T09:30:00Z', 'ymd')).toEqual({
+                time: Date.UTC(2024, 2, 15, 9, 30),
+                precision: 'time',
+            });
+            expect(parseTimelineDate('2024-03-15 09:30+02:00', 'ymd')?.time).toBe(Date.UTC(2024, 2, 15, 7, 30));
+            expect(parseTimelineDate('15/03/2024', 'dmy')?.time).toBe(local(2024, 3, 15));
+            expect(parseTimelineDate('03/15/2024', 'mdy')?.time).toBe(local(2024, 3, 15));
+            expect(parseTimelineDate('1969', 'year')).toEqual({ time: local(1969, 1, 1), precision: 'year' });
+            expect(parseTimelineDate('1710000000', 'unix-s')?.time).toBe(1710000000000);
+        });
+
+        it('should reject impossible dates', () => {
+            expect(parseTimelineDate('15/03/2024', 'mdy')).toBeNull();
+            expect(parseTimelineDate('2023-02-29', 'ymd')).toBeNull();
+            expect(parseTimelineDate('2024-02-29', 'ymd')).not.toBeNull();
+            expect(parseTimelineDate('soon', 'ymd')).toBeNull();
+        });
+
+        it('should detect the format all values share', () => {
+            expect(detectDateFormat(['2020-01-01', '', '2021-06-30'])).toBe('ymd');
+            expect(detectDateFormat(['01/02/2020', '25/12/2020'])).toBe('dmy');
+            expect(detectDateFormat(['01/02/2020', '12/25/2020'])).toBe('mdy');
+            expect(detectDateFormat(['1984', '2001'])).toBe('year');
+            expect(detectDateFormat(['1710000000000'])).toBe('unix-ms');
+            expect(detectDateFormat(['2020-01-01', 'soon'])).toBeNull();
+        });
+
+        it('should let the locale decide ambiguous day/month order', () => {
+            expect(detectDateFormat(['01/02/2020'], 'en-GB')).toBe('dmy');
+            expect(detectDateFormat(['01/02/2020'], 'en-US')).toBe('mdy');
+        });
+    });
+
+    describe('mapTimelineRows', () => {
+        const table = parseTimelineFile('life.csv', [
+            'Title,Start,End,Colour,Lane,Importance,Milestone',
+            'University,2010-09-01,2014-06-30,abc,Education,80%,',
+            'Wedding,2018-07-14,,#FF0000,,1,yes',
+            ',2019-01-01,,,,,',
+            'Moved,someday,,,,,',
+            'Backwards,2020-05-01,2020-04-01,,,,',
+        ].join('\n'));
+        const mapping = guessMapping(table.columns);
+        mapping.isLifeEvent = 'Milestone';
+
+        const rows = mapTimelineRows(table, mapping, 'ymd');
+
+        it('should build events with inclusive end dates', () => {
+            expect(rows[0].event).toMatchObject({
+                title: 'University',
+                startTime: local(2010, 9, 1),
+                endTime: local(2014, 7, 1),
+                color: '#AABBCC',
+                lane: 'Education',
+                isLifeEvent: false,
+            });
+            expect(rows[0].event?.importance?.effective).toBe(0.8);
+        });
+
+        it('should make rows without an end last their day', () => {
+            const wedding = rows[1].event!;
+            expect(wedding.endTime).toBe(local(2018, 7, 15));
+            expect(wedding.isLifeEvent).toBe(true);
+            expect(wedding.lane).toBeUndefined();
+        });
+
+        it('should report rows that can\'t be used', () => {
+            expect(rows.slice(2).map(r => [r.row, r.error])).toEqual([
+                [3, 'Missing title'],
+                [4, 'Unrecognized start date "someday"'],
+                [5, 'Ends before it starts'],
+            ]);
+        });
+    });
+});
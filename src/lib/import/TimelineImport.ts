@@ -0,0 +1,496 @@
+/**
+ * TimelineImport - Turns CSV and JSON timelines into events
+ *
+ * Spreadsheet timelines (jobs, moves, trips, project phases) come as rows
+ * with one column per field. Importing them takes three steps:
+ * - parse the file into a table (parseTimelineFile)
+ * - map columns to event fields (guessMapping suggests a mapping) and pick
+ *   how dates are written (detectDateFormat suggests one)
+ * - build events from the rows (mapTimelineRows), reporting rows that
+ *   can't be used
+ *
+ * Dates without a time are taken as whole days in local time, and end
+ * dates are inclusive: a row running 2020-01-01 to 2020-12-31 covers the
+ * whole year.
+ */
+
+import type { CalendarEvent } from '$lib/types/Event';
+import { computeDurationImportance } from '$lib/events/importance';
+import { wallClockToEpoch, wallClockToUtc } from '$lib/utils/timeZone';
+
+/**
+ * Rows of a file, every value as text
+ */
+export interface TimelineTable {
+    /** Column names in file order */
+    columns: string[];
+    rows: Record<string, string>[];
+}
+
+/** Event fields a column can be mapped to */
+export type TimelineField =
+    | 'start'
+    | 'end'
+    | 'title'
+    | 'description'
+    | 'color'
+    | 'lane'
+    | 'importance'
+    | 'isLifeEvent';
+
+/** Column mapped to each field; unmapped fields are left out */
+export type FieldMapping = Partial<Record<TimelineField, string>>;
+
+/**
+ * Fields in the order the wizard shows them
+ */
+export const TIMELINE_FIELDS: { field: TimelineField; label: string; required: boolean }[] = [
+    { field: 'start', label: 'Start', required: true },
+    { field: 'end', label: 'End', required: false },
+    { field: 'title', label: 'Title', required: true },
+    { field: 'description', label: 'Description', required: false },
+    { field: 'color', label: 'Colour', required: false },
+    { field: 'lane', label: 'Lane', required: false },
+    { field: 'importance', label: 'Importance', required: false },
+    { field: 'isLifeEvent', label: 'Life event', required: false },
+];
+
+/** Ways dates can be written */
+export type DateFormat = 'ymd' | 'dmy' | 'mdy' | 'year' | 'unix-s' | 'unix-ms';
+
+export const DATE_FORMATS: { format: DateFormat; label: string }[] = [
+    { format: 'ymd', label: 'Year-month-day (2024-03-15)' },
+    { format: 'dmy', label: 'Day/month/year (15/03/2024)' },
+    { format: 'mdy', label: 'Month/day/year (03/15/2024)' },
+    { format: 'year', label: 'Year only (2024)' },
+    { format: 'unix-s', label: 'Unix seconds' },
+    { format: 'unix-ms', label: 'Unix milliseconds' },
+];
+
+/** How precise a parsed date is; an end date covers the whole unit */
+export type DatePrecision = 'year' | 'month' | 'day' | 'time';
+
+export interface TimelineDate {
+    time: number;
+    precision: DatePrecision;
+}
+
+/**
+ * An event built from a row, with the lane it goes to
+ */
+export interface TimelineEvent {
+    title: string;
+    startTime: number;
+    endTime: number;
+    description?: string;
+    color?: string;
+    importance?: CalendarEvent['importance'];
+    isLifeEvent: boolean;
+    /** Value of the lane column; rows without one go to the default lane */
+    lane?: string;
+}
+
+/**
+ * Outcome of one row: an event, or why the row was skipped
+ */
+export interface TimelineRow {
+    /** 1-based row number, not counting the header */
+    row: number;
+    event?: TimelineEvent;
+    error?: string;
+}
+
+/** Column names (normalized) suggested for each field */
+const FIELD_SYNONYMS: Record<TimelineField, string[]> = {
+    start: ['start', 'startdate', 'starttime', 'startson', 'from', 'begin', 'begins', 'date', 'when'],
+    end: ['end', 'enddate', 'endtime', 'endson', 'to', 'until', 'finish', 'ends'],
+    title: ['title', 'name', 'summary', 'event', 'subject', 'label', 'what'],
+    description: ['description', 'notes', 'note', 'details', 'desc', 'comment', 'comments'],
+    color: ['color', 'colour', 'hex'],
+    lane: ['lane', 'category', 'calendar', 'group', 'type', 'track'],
+    importance: ['importance', 'priority', 'weight', 'score'],
+    isLifeEvent: ['lifeevent', 'islifeevent', 'milestone', 'major'],
+};
+
+/** Values read as true in the life event column */
+const TRUE_VALUES = new Set(['true', 'yes', 'y', '1', 'x']);
+
+/** Number of values looked at when detecting a date format */
+const DETECTION_SAMPLE = 50;
+
+// =========================================
+// Parsing files
+// =========================================
+
+/**
+ * Parse a CSV or JSON file into a table. JSON is recognized by its
+ * extension or by starting with `[` or `{`.
+ * @throws Error if the file holds no rows
+ */
+export function parseTimelineFile(fileName: string, text: string): TimelineTable {
+    const content = text.replace(/^\uFEFF/, '');
+    const isJson = /\.json$/i.test(fileName) || /^\s*[[{]/.test(content);
+    const table = isJson ? parseJsonTable(content) : parseCsvTable(content);
+
+    if (table.rows.length === 0) {
+        throw new Error('The file has no rows');
+    }
+    return table;
+}
+
+/**
+ * Split CSV text into records of fields. Handles quoted fields with
+ * delimiters, doubled quotes and line breaks; the delimiter (comma,
+ * semicolon or tab) is detected from the first line.
+ */
+export function parseCsv(text: string): string[][] {
+    const delimiter = detectDelimiter(text);
+    const records: string[][] = [];
+    let record: string[] = [];
+    let field = '';
+    let quoted = false;
+
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+
+        if (quoted) {
+            if (char === '"' && text[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (char === '"') {
+                quoted = false;
+            } else {
+                field += char;
+            }
+        } else if (char === '"' && field === '') {
+            quoted = true;
+        } else if (char === delimiter) {
+            record.push(field);
+            field = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && text[i + 1] === '\n') i++;
+            record.push(field);
+            records.push(record);
+            record = [];
+            field = '';
+        } else {
+            field += char;
+        }
+    }
+
+    if (field !== '' || record.length > 0) {
+        record.push(field);
+        records.push(record);
+    }
+
+    // Drop blank lines
+    return records.filter(r => r.some(value => value.trim() !== ''));
+}
+
+function detectDelimiter(text: string): string {
+    const firstLine = text.split(/\r?\n/, 1)[0].replace(/"[^"]*"/g, '');
+    const counts = [',', ';', '\t'].map(d => ({ d, count: firstLine.split(d).length - 1 }));
+    return counts.reduce((best, c) => (c.count > best.count ? c : best)).d;
+}
+
+function parseCsvTable(text: string): TimelineTable {
+    const [header = [], ...records] = parseCsv(text);
+
+    // Name empty or repeated headers so every column can be told apart
+    const columns: string[] = [];
+    header.forEach((name, i) => {
+        let column = name.trim() || `Column ${i + 1}`;
+        while (columns.includes(column)) column += ` (${i + 1})`;
+        columns.push(column);
+    });
+
+    const rows = records.map(record => {
+        const row: Record<string, string> = {};
+        columns.forEach((column, i) => {
+            row[column] = (record[i] ?? '').trim();
+        });
+        return row;
+    });
+
+    return { columns, rows };
+}
+
+/**
+ * Read an array of objects, or the first array property of an object
+ * (e.g. `{ "events": [...] }`)
+ */
+function parseJsonTable(text: string): TimelineTable {
+    const data: unknown = JSON.parse(text);
+    const items = Array.isArray(data)
+        ? data
+        : Object.values((data ?? {}) as Record<string, unknown>).find(Array.isArray) ?? [];
+
+    const columns: string[] = [];
+    const rows: Record<string, string>[] = [];
+
+    for (const item of items) {
+        if (!item || typeof item !== 'object' || Array.isArray(item)) continue;
+
+        const row: Record<string, string> = {};
+        for (const [key, value] of Object.entries(item)) {
+            if (!columns.includes(key)) columns.push(key);
+            row[key] = value === null || value === undefined
+                ? ''
+                : typeof value === 'object' ? JSON.stringify(value) : String(value).trim();
+        }
+        rows.push(row);
+    }
+
+    return { columns, rows };
+}
+
+// =========================================
+// Mapping
+// =========================================
+
+/**
+ * Suggest a column for each field from the column names
+ */
+export function guessMapping(columns: string[]): FieldMapping {
+    const normalized = columns.map(c => c.toLowerCase().replace(/[^a-z0-9]/g, ''));
+    const mapping: FieldMapping = {};
+    const used = new Set<string>();
+
+    for (const { field } of TIMELINE_FIELDS) {
+        // Earlier synonyms are better matches
+        for (const synonym of FIELD_SYNONYMS[field]) {
+            const index = normalized.findIndex((name, i) => name === synonym && !used.has(columns[i]));
+            if (index !== -1) {
+                mapping[field] = columns[index];
+                used.add(columns[index]);
+                break;
+            }
+        }
+    }
+
+    return mapping;
+}
+
+// =========================================
+// Dates
+// =========================================
+
+const YMD = /^(-?\d{4,})[-/.](\d{1,2})(?:[-/.](\d{1,2}))?(?:[T ](\d{1,2}):(\d{2})(?::(\d{2})(?:\.\d+)?)?)?\s*(Z|[+-]\d{2}:?\d{2})?$/i;
+const DAY_FIRST = /^(\d{1,2})[-/.](\d{1,2})[-/.](-?\d{4,})(?:[T ](\d{1,2}):(\d{2})(?::(\d{2}))?)?$/;
+
+/**
+ * Parse a date written in the given format. Dates without a time are
+ * local midnight.
+ * @returns null if the value isn't a valid date in that format
+ */
+export function parseTimelineDate(value: string, format: DateFormat): TimelineDate | null {
+    const text = value.trim();
+
+    switch (format) {
+        case 'unix-s':
+        case 'unix-ms': {
+            const match = format === 'unix-s' ? /^-?\d{5,11}$/.exec(text) : /^-?\d{12,14}$/.exec(text);
+            if (!match) return null;
+            return { time: Number(text) * (format === 'unix-s' ? 1000 : 1), precision: 'time' };
+        }
+
+        case 'year': {
+            if (!/^-?\d{1,4}$/.test(text)) return null;
+            return { time: localTime(Number(text), 1, 1), precision: 'year' };
+        }
+
+        case 'ymd': {
+            const match = YMD.exec(text);
+            if (!match) return null;
+            const [, y, mo, d, h, mi, s, zone] = match;
+            return buildDate(Number(y), Number(mo), d, h, mi, s, zone);
+        }
+
+        case 'dmy':
+        case 'mdy': {
+            const match = DAY_FIRST.exec(text);
+            if (!match) return null;
+            const [, first, second, y, h, mi, s] = match;
+            const [d, mo] = format === 'dmy' ? [first, second] : [second, first];
+            return buildDate(Number(y), Number(mo), d, h, mi, s);
+        }
+    }
+}
+
+function buildDate(
+    year: number,
+    month: number,
+    dayText: string | undefined,
+    hourText: string | undefined,
+    minuteText: string | undefined,
+    secondText: string | undefined,
+    zone?: string
+): TimelineDate | null {
+    const day = dayText ? Number(dayText) : 1;
+    const hour = hourText ? Number(hourText) : 0;
+    const minute = minuteText ? Number(minuteText) : 0;
+    const second = secondText ? Number(secondText) : 0;
+
+    if (month < 1 || month > 12 || day < 1 || day > daysInMonth(year, month)) return null;
+    if (hour > 23 || minute > 59 || second > 59) return null;
+
+    const fields = { year, month, day, hour, minute, second };
+    const precision: DatePrecision = hourText ? 'time' : dayText ? 'day' : 'month';
+
+    if (zone) {
+        const offset = zone.toUpperCase() === 'Z' ? 0 : parseOffset(zone);
+        return { time: wallClockToUtc(fields) - offset, precision };
+    }
+    return { time: wallClockToEpoch(fields), precision };
+}
+
+/** Offset like `+02:00` or `-0530` in milliseconds */
+function parseOffset(zone: string): number {
+    const digits = zone.replace(':', '');
+    const sign = digits[0] === '-' ? -1 : 1;
+    return sign * (Number(digits.slice(1, 3)) * 60 + Number(digits.slice(3, 5))) * 60 * 1000;
+}
+
+function daysInMonth(year: number, month: number): number {
+    if (month === 2) return isLeapYear(year) ? 29 : 28;
+    return [4, 6, 9, 11].includes(month) ? 30 : 31;
+}
+
+function isLeapYear(year: number): boolean {
+    return (year % 4 === 0 && year % 100 !== 0) || year % 400 === 0;
+}
+
+function localTime(year: number, month: number, day: number): number {
+    return wallClockToEpoch({ year, month, day, hour: 0, minute: 0, second: 0 });
+}
+
+/**
+ * End of the unit a date was given in: the next year, month or day, or
+ * the instant itself for times
+ */
+function endOf(date: TimelineDate): number {
+    if (date.precision === 'time') return date.time;
+
+    const start = new Date(date.time);
+    const year = start.getFullYear();
+    const month = start.getMonth() + 1;
+    const day = start.getDate();
+
+    if (date.precision === 'year') return localTime(year + 1, 1, 1);
+    if (date.precision === 'month') return localTime(year, month + 1, 1);
+    return localTime(year, month, day + 1);
+}
+
+/**
+ * Pick the format every sampled value parses in. Day/month order is
+ * ambiguous when no day is above 12; then the locale decides (month
+ * first for US English).
+ * @returns null if no format fits
+ */
+export function detectDateFormat(values: string[], locale = 'en-GB'): DateFormat | null {
+    const sample = values.map(v => v.trim()).filter(v => v !== '').slice(0, DETECTION_SAMPLE);
+    if (sample.length === 0) return null;
+
+    const monthFirst = /^en-US$/i.test(locale);
+    const candidates: DateFormat[] = ['ymd', 'year', 'unix-ms', 'unix-s', ...(monthFirst ? ['mdy', 'dmy'] as const : ['dmy', 'mdy'] as const)];
+
+    return candidates.find(format => sample.every(v => parseTimelineDate(v, format) !== null)) ?? null;
+}
+
+// =========================================
+// Building events
+// =========================================
+
+/**
+ * Build events from rows. Rows without a title or a valid start, or
+ * ending before they start, are reported and left out.
+ */
+export function mapTimelineRows(table: TimelineTable, mapping: FieldMapping, format: DateFormat): TimelineRow[] {
+    const read = (row: Record<string, string>, field: TimelineField) => {
+        const column = mapping[field];
+        return column ? (row[column] ?? '').trim() : '';
+    };
+
+    return table.rows.map((row, index) => {
+        const result: TimelineRow = { row: index + 1 };
+
+        const title = read(row, 'title');
+        if (!title) {
+            result.error = 'Missing title';
+            return result;
+        }
+
+        const startText = read(row, 'start');
+        const start = startText ? parseTimelineDate(startText, format) : null;
+        if (!start) {
+            result.error = startText ? `Unrecognized start date "${startText}"` : 'Missing start date';
+            return result;
+        }
+
+        const endText = read(row, 'end');
+        const end = endText ? parseTimelineDate(endText, format) : null;
+        if (endText && !end) {
+            result.error = `Unrecognized end date "${endText}"`;
+            return result;
+        }
+
+        // Without an end, dates cover their day (or month, year); times are points
+        const endTime = endOf(end ?? start);
+        if (endTime < start.time) {
+            result.error = 'Ends before it starts';
+            return result;
+        }
+
+        const event: TimelineEvent = {
+            title,
+            startTime: start.time,
+            endTime,
+            isLifeEvent: TRUE_VALUES.has(read(row, 'isLifeEvent').toLowerCase()),
+        };
+
+        const description = read(row, 'description');
+        if (description) event.description = description;
+
+        const color = parseColor(read(row, 'color'));
+        if (color) event.color = color;
+
+        const lane = read(row, 'lane');
+        if (lane) event.lane = lane;
+
+        const importance = parseImportance(read(row, 'importance'));
+        if (importance !== null) {
+            event.importance = {
+                ...computeDurationImportance(start.time, endTime),
+                manual: importance,
+                effective: importance,
+            };
+        }
+
+        result.event = event;
+        return result;
+    });
+}
+
+/**
+ * Hex colour with or without `#`, in short or long form
+ */
+function parseColor(value: string): string | null {
+    const match = /^#?([0-9a-f]{3}|[0-9a-f]{6})$/i.exec(value);
+    if (!match) return null;
+
+    const hex = match[1].length === 3
+        ? match[1].split('').map(c => c + c).join('')
+        : match[1];
+    return `#${hex.toUpperCase()}`;
+}
+
+/**
+ * Importance as 0-1; values above 1 are read as percentages
+ */
+function parseImportance(value: string): number | null {
+    const number = parseFloat(value.replace('%', ''));
+    if (!Number.isFinite(number)) return null;
+
+    const scaled = number > 1 || value.includes('%') ? number / 100 : number;
+    return Math.max(0, Math.min(scaled, 1));
+}
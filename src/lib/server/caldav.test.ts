@@ -0,0 +1,233 @@
+/**
+ * CalDAV Client Unit Tests
+ *
+ * Runs the client against a Radicale-style stand-in server that answers
+ * PROPFIND discovery, calendar-query and sync-collection reports.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { CalDAVClient, CalDAVError } from './caldav';
+
+interface StoredObject {
+    href: string;
+    etag: string;
+    start: string;
+    data: string;
+}
+
+function ics(uid: string, start: string, summary: string): string {
+    return [
+        'BEGIN:VCALENDAR',
+        'VERSION:2.0',
+        'BEGIN:VEVENT',
+        `UID:${uid}`,
+        `DTSTART:${start}`,
+        `SUMMARY:${summary}`,
+        'END:VEVENT',
+        'END:VCALENDAR',
+    ].join('\r\n');
+}
+
+const OBJECTS: StoredObject[] = [
+    { href: '/alice/personal/a.ics', etag: '"1"', start: '20240110T090000Z', data: ics('a', '20240110T090000Z', 'Dentist') },
+    { href: '/alice/personal/b.ics', etag: '"1"', start: '20240301T090000Z', data: ics('b', '20240301T090000Z', 'Trip') },
+];
+
+function objectResponse(obj: StoredObject): string {
+    return `<d:response>
+        <d:href>${obj.href}</d:href>
+        <d:propstat>
+            <d:prop>
+                <d:getetag>${obj.etag}</d:getetag>
+                <c:calendar-data>${obj.data.replace(/&/g, '&amp;').replace(/</g, '&lt;')}</c:calendar-data>
+            </d:prop>
+            <d:status>HTTP/1.1 200 OK</d:status>
+        </d:propstat>
+    </d:response>`;
+}
+
+function multistatus(body: string): string {
+    return `<?xml version="1.0"?>
+<d:multistatus xmlns:d="DAV:" xmlns:c="urn:ietf:params:xml:ns:caldav" xmlns:ICAL="http://apple.com/ns/ical/">${body}</d:multistatus>`;
+}
+
+/**
+ * Minimal stand-in for a Radicale server with one user "alice"
+ */
+function handle(method: string, path: string, depth: string, body: string): { status: number; body: string } {
+    if (method === 'PROPFIND' && path === '/' && body.includes('current-user-principal')) {
+        return {
+            status: 207,
+            body: multistatus(`<d:response><d:href>/</d:href><d:propstat><d:prop>
+                <d:current-user-principal><d:href>/alice/</d:href></d:current-user-principal>
+            </d:prop><d:status>HTTP/1.1 200 OK</d:status></d:propstat></d:response>`),
+        };
+    }
+
+    if (method === 'PROPFIND' && path === '/alice/' && depth === '0') {
+        return {
+            status: 207,
+            body: multistatus(`<d:response><d:href>/alice/</d:href><d:propstat><d:prop>
+                <c:calendar-home-set><d:href>/alice/</d:href></c:calendar-home-set>
+            </d:prop><d:status>HTTP/1.1 200 OK</d:status></d:propstat></d:response>`),
+        };
+    }
+
+    if (method === 'PROPFIND' && path === '/alice/' && depth === '1') {
+        return {
+            status: 207,
+            body: multistatus(`
+                <d:response><d:href>/alice/</d:href><d:propstat><d:prop>
+                    <d:resourcetype><d:collection/></d:resourcetype>
+                </d:prop><d:status>HTTP/1.1 200 OK</d:status></d:propstat></d:response>
+                <d:response><d:href>/alice/personal/</d:href>
+                    <d:propstat><d:prop>
+                        <d:resourcetype><d:collection/><c:calendar/></d:resourcetype>
+                        <d:displayname>Personal</d:displayname>
+                        <ICAL:calendar-color>#ff8800ff</ICAL:calendar-color>
+                        <c:supported-calendar-component-set><c:comp name="VEVENT"/></c:supported-calendar-component-set>
+                        <d:current-user-privilege-set><d:privilege><d:all/></d:privilege></d:current-user-privilege-set>
+                        <d:sync-token>http://radicale.org/ns/sync/1</d:sync-token>
+                    </d:prop><d:status>HTTP/1.1 200 OK</d:status></d:propstat>
+                </d:response>
+                <d:response><d:href>/alice/holidays/</d:href>
+                    <d:propstat><d:prop>
+                        <d:resourcetype><d:collection/><c:calendar/></d:resourcetype>
+                        <d:displayname>Holidays</d:displayname>
+                        <d:current-user-privilege-set><d:privilege><d:read/></d:privilege></d:current-user-privilege-set>
+                    </d:prop><d:status>HTTP/1.1 200 OK</d:status></d:propstat>
+                    <d:propstat><d:prop><d:sync-token/></d:prop><d:status>HTTP/1.1 404 Not Found</d:status></d:propstat>
+                </d:response>
+                <d:response><d:href>/alice/tasks/</d:href><d:propstat><d:prop>
+                    <d:resourcetype><d:collection/><c:calendar/></d:resourcetype>
+                    <d:displayname>Tasks</d:displayname>
+                    <c:supported-calendar-component-set><c:comp name="VTODO"/></c:supported-calendar-component-set>
+                </d:prop><d:status>HTTP/1.1 200 OK</d:status></d:propstat></d:response>
+            `),
+        };
+    }
+
+    if (method === 'REPORT' && path === '/alice/personal/' && body.includes('calendar-query')) {
+        const start = /start="(\w+)"/.exec(body)?.[1] ?? '';
+        const end = /end="(\w+)"/.exec(body)?.[1] ?? '';
+        const matches = OBJECTS.filter(o => o.start >= start && o.start < end);
+        return { status: 207, body: multistatus(matches.map(objectResponse).join('')) };
+    }
+
+    if (method === 'REPORT' && path === '/alice/personal/' && body.includes('sync-collection')) {
+        const token = /<d:sync-token>([^<]*)<\/d:sync-token>/.exec(body)?.[1] ?? '';
+        if (token === 'http://radicale.org/ns/sync/1') {
+            const changed = { ...OBJECTS[0], etag: '"2"', data: ics('a', '20240110T100000Z', 'Dentist (moved)') };
+            return {
+                status: 207,
+                body: multistatus(`
+                    ${objectResponse(changed)}
+                    <d:response><d:href>/alice/personal/b.ics</d:href><d:status>HTTP/1.1 404 Not Found</d:status></d:response>
+                    <d:sync-token>http://radicale.org/ns/sync/2</d:sync-token>
+                `),
+            };
+        }
+        return {
+            status: 403,
+            body: '<?xml version="1.0"?><d:error xmlns:d="DAV:"><d:valid-sync-token/></d:error>',
+        };
+    }
+
+    return { status: 404, body: '' };
+}
+
+describe('CalDAVClient', () => {
+    const authHeaders: string[] = [];
+
+    // The stand-in server is plugged in as the client's fetch implementation
+    const standInFetch = (async (input: URL | RequestInfo, init?: RequestInit) => {
+        const url = new URL(input instanceof Request ? input.url : input.toString());
+        const headers = new Headers(init?.headers);
+        authHeaders.push(headers.get('Authorization') ?? '');
+        const result = handle(init?.method ?? 'GET', url.pathname, headers.get('Depth') ?? '', String(init?.body ?? ''));
+        return new Response(result.body, {
+            status: result.status,
+            headers: { 'Content-Type': 'application/xml' },
+        });
+    }) as typeof fetch;
+
+    const client = new CalDAVClient({
+        serverUrl: 'http://radicale.local:5232/',
+        username: 'alice',
+        password: 'secret',
+        fetch: standInFetch,
+    });
+
+    describe('discoverCalendars', () => {
+        it('should find event calendars via principal and home set', async () => {
+            const calendars = await client.discoverCalendars();
+
+            expect(calendars).toEqual([
+                {
+                    href: '/alice/personal/',
+                    displayName: 'Personal',
+                    color: '#ff8800',
+                    readOnly: false,
+                    syncToken: 'http://radicale.org/ns/sync/1',
+                },
+                {
+                    href: '/alice/holidays/',
+                    displayName: 'Holidays',
+                    color: undefined,
+                    readOnly: true,
+                    syncToken: undefined,
+                },
+            ]);
+        });
+
+        it('should send basic auth credentials', () => {
+            const expected = `Basic ${btoa('alice:secret')}`;
+            expect(authHeaders.every(h => h === expected)).toBe(true);
+        });
+    });
+
+    describe('queryEvents', () => {
+        it('should return objects in the time range', async () => {
+            const objects = await client.queryEvents(
+                '/alice/personal/',
+                Date.UTC(2024, 0, 1),
+                Date.UTC(2024, 1, 1)
+            );
+
+            expect(objects).toHaveLength(1);
+            expect(objects[0].href).toBe('/alice/personal/a.ics');
+            expect(objects[0].etag).toBe('"1"');
+            expect(objects[0].data).toContain('SUMMARY:Dentist');
+        });
+    });
+
+    describe('syncCollection', () => {
+        it('should return changed and deleted objects with a new token', async () => {
+            const result = await client.syncCollection('/alice/personal/', 'http://radicale.org/ns/sync/1');
+
+            expect(result.changed.map(o => o.href)).toEqual(['/alice/personal/a.ics']);
+            expect(result.changed[0].data).toContain('Dentist (moved)');
+            expect(result.deleted).toEqual(['/alice/personal/b.ics']);
+            expect(result.syncToken).toBe('http://radicale.org/ns/sync/2');
+        });
+
+        it('should refuse hrefs on other hosts', async () => {
+            const requests = authHeaders.length;
+
+            for (const href of ['https://attacker.example/x/', '//attacker.example/x/']) {
+                const error = await client.syncCollection(href, 'http://radicale.org/ns/sync/1').catch(e => e);
+                expect(error).toBeInstanceOf(CalDAVError);
+                expect(error.status).toBe(400);
+            }
+            expect(authHeaders).toHaveLength(requests);
+        });
+
+        it('should flag invalid sync tokens', async () => {
+            const error = await client.syncCollection('/alice/personal/', 'stale').catch(e => e);
+
+            expect(error).toBeInstanceOf(CalDAVError);
+            expect(error.status).toBe(403);
+            expect(error.invalidSyncToken).toBe(true);
+        });
+    });
+});
@@ -0,0 +1,385 @@
+/**
+ * CalDAV client - Server-side access to CalDAV servers (Nextcloud, Radicale, ...)
+ *
+ * Implements the three operations the CalDAV provider needs:
+ * - PROPFIND discovery: principal -> calendar home -> calendar collections
+ * - REPORT calendar-query for a time range (RFC 4791)
+ * - REPORT sync-collection for incremental changes (RFC 6578)
+ *
+ * Credentials stay on the server; the browser talks to /api/caldav/* only.
+ */
+
+import { env } from '$env/dynamic/private';
+import { childElements, escapeXml, findElement, findElements, parseXml, type XmlElement } from './xml';
+
+const DAV_NS = 'xmlns:d="DAV:" xmlns:c="urn:ietf:params:xml:ns:caldav" xmlns:a="http://apple.com/ns/ical/"';
+
+/**
+ * Connection settings for a CalDAV server
+ */
+export interface CalDAVConfig {
+    /** Server or principal URL (e.g. https://cloud.example.com/remote.php/dav) */
+    serverUrl: string;
+    username: string;
+    password: string;
+    /** Fetch implementation (defaults to global fetch) */
+    fetch?: typeof fetch;
+}
+
+/**
+ * A calendar collection discovered on the server
+ */
+export interface CalDAVCalendar {
+    /** Collection href (absolute path), used as calendar ID */
+    href: string;
+    displayName: string;
+    color?: string;
+    readOnly: boolean;
+    /** Current sync token (if the server supports sync-collection) */
+    syncToken?: string;
+}
+
+/**
+ * A calendar object resource (one .ics file on the server)
+ */
+export interface CalDAVObject {
+    href: string;
+    etag?: string;
+    /** Raw iCalendar text */
+    data: string;
+}
+
+/**
+ * Result of a sync-collection report
+ */
+export interface CalDAVSyncResult {
+    changed: CalDAVObject[];
+    /** Hrefs of resources removed since the previous token */
+    deleted: string[];
+    syncToken?: string;
+}
+
+/**
+ * Error returned by the CalDAV server
+ */
+export class CalDAVError extends Error {
+    readonly status: number;
+    /** Set when the server rejected our sync token (full resync needed) */
+    readonly invalidSyncToken: boolean;
+
+    constructor(message: string, status: number, invalidSyncToken = false) {
+        super(message);
+        this.name = 'CalDAVError';
+        this.status = status;
+        this.invalidSyncToken = invalidSyncToken;
+    }
+}
+
+/**
+ * Format a timestamp as a CalDAV UTC date-time (20240101T000000Z)
+ */
+function formatCalDAVTime(ms: number): string {
+    return new Date(ms).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+/**
+ * Normalize Apple calendar colors (#RRGGBBAA) to #RRGGBB
+ */
+function normalizeColor(value: string | undefined): string | undefined {
+    const match = value && /^#([0-9a-f]{6})/i.exec(value.trim());
+    return match ? `#${match[1]}` : undefined;
+}
+
+/**
+ * Successful (2xx) <prop> elements of a <response>
+ */
+function okProps(response: XmlElement): XmlElement[] {
+    return childElements(response, 'propstat')
+        .filter(propstat => /\s2\d\d\s/.test(findElement(propstat, 'status')?.text ?? ' 200 '))
+        .flatMap(propstat => childElements(propstat, 'prop'));
+}
+
+function propText(props: XmlElement[], name: string): string | undefined {
+    for (const prop of props) {
+        const element = findElement(prop, name);
+        if (element) return element.text.trim();
+    }
+    return undefined;
+}
+
+function propHref(props: XmlElement[], name: string): string | undefined {
+    for (const prop of props) {
+        const element = findElement(prop, name);
+        const href = element && findElement(element, 'href');
+        if (href) return href.text.trim();
+    }
+    return undefined;
+}
+
+/**
+ * CalDAV client bound to one account
+ */
+export class CalDAVClient {
+    private config: CalDAVConfig;
+    private fetchImpl: typeof fetch;
+
+    constructor(config: CalDAVConfig) {
+        this.config = config;
+        this.fetchImpl = config.fetch ?? fetch;
+    }
+
+    // =========================================
+    // Discovery
+    // =========================================
+
+    /**
+     * Find all calendar collections that can hold events
+     */
+    async discoverCalendars(): Promise<CalDAVCalendar[]> {
+        const principal = await this.findHref(
+            this.config.serverUrl,
+            'current-user-principal',
+            '<d:current-user-principal/>'
+        ) ?? this.config.serverUrl;
+
+        const home = await this.findHref(
+            principal,
+            'calendar-home-set',
+            '<c:calendar-home-set/>'
+        ) ?? principal;
+
+        const multistatus = await this.request('PROPFIND', home, '1', `<?xml version="1.0" encoding="utf-8"?>
+<d:propfind ${DAV_NS}>
+    <d:prop>
+        <d:resourcetype/>
+        <d:displayname/>
+        <a:calendar-color/>
+        <c:supported-calendar-component-set/>
+        <d:current-user-privilege-set/>
+        <d:sync-token/>
+    </d:prop>
+</d:propfind>`);
+
+        const calendars: CalDAVCalendar[] = [];
+        for (const response of findElements(multistatus, 'response')) {
+            const href = findElement(response, 'href')?.text.trim();
+            const props = okProps(response);
+            if (!href || props.length === 0) continue;
+
+            const resourceType = props.map(p => findElement(p, 'resourcetype')).find(Boolean);
+            if (!resourceType || !findElement(resourceType, 'calendar')) continue;
+
+            // Skip task-only / journal-only collections
+            const componentSet = props.map(p => findElement(p, 'supported-calendar-component-set')).find(Boolean);
+            if (componentSet) {
+                const components = findElements(componentSet, 'comp').map(c => c.attributes.name?.toUpperCase());
+                if (!components.includes('VEVENT')) continue;
+            }
+
+            const privileges = props.map(p => findElement(p, 'current-user-privilege-set')).find(Boolean);
+            const readOnly = privileges
+                ? !['write', 'write-content', 'all'].some(name => findElement(privileges, name))
+                : false;
+
+            calendars.push({
+                href: this.toPath(href),
+                displayName: propText(props, 'displayname') || decodeURIComponent(href.split('/').filter(Boolean).pop() ?? href),
+                color: normalizeColor(propText(props, 'calendar-color')),
+                readOnly,
+                syncToken: propText(props, 'sync-token') || undefined,
+            });
+        }
+
+        return calendars;
+    }
+
+    // =========================================
+    // Reports
+    // =========================================
+
+    /**
+     * Fetch calendar objects with events overlapping a time range
+     */
+    async queryEvents(calendarHref: string, startTime: number, endTime: number): Promise<CalDAVObject[]> {
+        const multistatus = await this.request('REPORT', calendarHref, '1', `<?xml version="1.0" encoding="utf-8"?>
+<c:calendar-query ${DAV_NS}>
+    <d:prop>
+        <d:getetag/>
+        <c:calendar-data/>
+    </d:prop>
+    <c:filter>
+        <c:comp-filter name="VCALENDAR">
+            <c:comp-filter name="VEVENT">
+                <c:time-range start="${formatCalDAVTime(startTime)}" end="${formatCalDAVTime(endTime)}"/>
+            </c:comp-filter>
+        </c:comp-filter>
+    </c:filter>
+</c:calendar-query>`);
+
+        return this.readObjects(multistatus).changed;
+    }
+
+    /**
+     * Fetch changes since a sync token (or everything, for an empty token)
+     * @throws CalDAVError with invalidSyncToken set if the token expired
+     */
+    async syncCollection(calendarHref: string, syncToken = ''): Promise<CalDAVSyncResult> {
+        const multistatus = await this.request('REPORT', calendarHref, '1', `<?xml version="1.0" encoding="utf-8"?>
+<d:sync-collection ${DAV_NS}>
+    <d:sync-token>${escapeXml(syncToken)}</d:sync-token>
+    <d:sync-level>1</d:sync-level>
+    <d:prop>
+        <d:getetag/>
+        <c:calendar-data/>
+    </d:prop>
+</d:sync-collection>`);
+
+        const result = this.readObjects(multistatus);
+
+        // Some servers omit calendar-data in sync reports; fetch those separately
+        const missing = result.changed.filter(o => !o.data).map(o => o.href);
+        if (missing.length > 0) {
+            const fetched = await this.multiget(calendarHref, missing);
+            const byHref = new Map(fetched.map(o => [o.href, o]));
+            result.changed = result.changed.map(o => byHref.get(o.href) ?? o).filter(o => o.data);
+        }
+
+        const token = childElements(multistatus, 'sync-token')[0]?.text.trim();
+        return { ...result, syncToken: token || undefined };
+    }
+
+    /**
+     * Fetch specific calendar objects by href
+     */
+    async multiget(calendarHref: string, hrefs: string[]): Promise<CalDAVObject[]> {
+        const multistatus = await this.request('REPORT', calendarHref, '1', `<?xml version="1.0" encoding="utf-8"?>
+<c:calendar-multiget ${DAV_NS}>
+    <d:prop>
+        <d:getetag/>
+        <c:calendar-data/>
+    </d:prop>
+    ${hrefs.map(href => `<d:href>${escapeXml(href)}</d:href>`).join('\n    ')}
+</c:calendar-multiget>`);
+
+        return this.readObjects(multistatus).changed;
+    }
+
+    // =========================================
+    // Helpers
+    // =========================================
+
+    /**
+     * Split a multistatus into changed objects and deleted hrefs
+     */
+    private readObjects(multistatus: XmlElement): { changed: CalDAVObject[]; deleted: string[] } {
+        const changed: CalDAVObject[] = [];
+        const deleted: string[] = [];
+
+        for (const response of childElements(multistatus, 'response')) {
+            const href = findElement(response, 'href')?.text.trim();
+            if (!href) continue;
+
+            // A response-level 404 status marks a deleted member
+            const status = childElements(response, 'status')[0]?.text ?? '';
+            if (/\s404\s/.test(status)) {
+                deleted.push(this.toPath(href));
+                continue;
+            }
+
+            const props = okProps(response);
+            changed.push({
+                href: this.toPath(href),
+                etag: propText(props, 'getetag'),
+                data: propText(props, 'calendar-data') ?? '',
+            });
+        }
+
+        return { changed, deleted };
+    }
+
+    /**
+     * PROPFIND a single href-valued property
+     */
+    private async findHref(url: string, name: string, prop: string): Promise<string | undefined> {
+        try {
+            const multistatus = await this.request('PROPFIND', url, '0', `<?xml version="1.0" encoding="utf-8"?>
+<d:propfind ${DAV_NS}>
+    <d:prop>${prop}</d:prop>
+</d:propfind>`);
+            for (const response of findElements(multistatus, 'response')) {
+                const href = propHref(okProps(response), name);
+                if (href) return href;
+            }
+        } catch (err) {
+            // Servers without principal support: fall back to the given URL
+            if (!(err instanceof CalDAVError) || err.status === 401) throw err;
+        }
+        return undefined;
+    }
+
+    /**
+     * Send a WebDAV request and parse the multistatus response
+     */
+    private async request(method: string, url: string, depth: string, body: string): Promise<XmlElement> {
+        const target = this.resolve(url);
+        const credentials = btoa(`${this.config.username}:${this.config.password}`);
+
+        const response = await this.fetchImpl(target, {
+            method,
+            headers: {
+                Authorization: `Basic ${credentials}`,
+                'Content-Type': 'application/xml; charset=utf-8',
+                Depth: depth,
+            },
+            body,
+        });
+
+        const text = await response.text();
+
+        if (!response.ok) {
+            const invalidToken = /valid-sync-token/.test(text);
+            throw new CalDAVError(
+                `${method} ${target.pathname} failed: ${response.status}`,
+                response.status,
+                invalidToken
+            );
+        }
+
+        return parseXml(text);
+    }
+
+    /**
+     * Reduce an href (absolute URL or path) to a path on the server
+     */
+    private toPath(href: string): string {
+        return this.resolve(href).pathname;
+    }
+
+    /**
+     * Resolve an href against the server URL.
+     * Hrefs pointing at another host are rejected so credentials never leave the server.
+     */
+    private resolve(href: string): URL {
+        const target = new URL(href, this.config.serverUrl);
+        if (target.origin !== new URL(this.config.serverUrl).origin) {
+            throw new CalDAVError(`${href} is outside the CalDAV server`, 400);
+        }
+        return target;
+    }
+}
+
+/**
+ * Create a client from CALDAV_* environment variables
+ * @returns null if CalDAV is not configured
+ */
+export function getCalDAVClient(): CalDAVClient | null {
+    const serverUrl = env.CALDAV_SERVER_URL;
+    const username = env.CALDAV_USERNAME;
+    const password = env.CALDAV_PASSWORD;
+
+    if (!serverUrl || !username || !password) {
+        return null;
+    }
+
+    return new CalDAVClient({ serverUrl, username, password });
+}
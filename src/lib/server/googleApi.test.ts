@@ -0,0 +1,114 @@
+/**
+ * Google API Request Unit Tests
+ *
+ * Tests retrying rate limits and outages with backoff, Retry-After
+ * handling and classifying the failures that remain.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { classifyGoogleError, fetchGoogle, getRetryAfter } from './googleApi';
+
+const LIST_URL = 'https://www.googleapis.com/calendar/v3/users/me/calendarList';
+
+// Google error body with the given reason
+function googleError(status: number, reason: string, headers: Record<string, string> = {}): Response {
+    return Response.json(
+        { error: { code: status, errors: [{ reason }] } },
+        { status, headers }
+    );
+}
+
+// Fetch answering with the given responses in turn
+function sequence(...responses: Response[]) {
+    return vi.fn(async () => responses.shift() ?? Response.json({ items: [] }));
+}
+
+describe('fetchGoogle', () => {
+    beforeEach(() => {
+        vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('should retry rate limits after the Retry-After delay', async () => {
+        const fetchImpl = sequence(googleError(429, 'rateLimitExceeded', { 'Retry-After': '2' }));
+        const done = fetchGoogle(LIST_URL, {}, { fetch: fetchImpl });
+
+        await vi.advanceTimersByTimeAsync(1900);
+        expect(fetchImpl).toHaveBeenCalledTimes(1);
+        await vi.advanceTimersByTimeAsync(100);
+
+        expect((await done).ok).toBe(true);
+        expect(fetchImpl).toHaveBeenCalledTimes(2);
+    });
+
+    it('should back off on 403 rate limits and outages', async () => {
+        const fetchImpl = sequence(googleError(403, 'userRateLimitExceeded'), googleError(503, 'backendError'));
+        const done = fetchGoogle(LIST_URL, {}, { fetch: fetchImpl });
+        await vi.runAllTimersAsync();
+
+        expect((await done).ok).toBe(true);
+        expect(fetchImpl).toHaveBeenCalledTimes(3);
+    });
+
+    it('should leave outages to the caller when asked to', async () => {
+        const fetchImpl = sequence(googleError(429, 'rateLimitExceeded'), googleError(503, 'backendError'));
+        const done = fetchGoogle(LIST_URL, { method: 'POST' }, { fetch: fetchImpl, retryOutages: false });
+        await vi.runAllTimersAsync();
+
+        expect((await done).status).toBe(503);
+        expect(fetchImpl).toHaveBeenCalledTimes(2);
+    });
+
+    it('should return other failures without retrying', async () => {
+        const fetchImpl = sequence(googleError(403, 'forbidden'));
+        const response = await fetchGoogle(LIST_URL, {}, { fetch: fetchImpl });
+
+        expect(response.status).toBe(403);
+        expect(await classifyGoogleError(response)).toBe('forbidden');
+        expect(fetchImpl).toHaveBeenCalledTimes(1);
+    });
+
+    it('should give up after the last attempt or a long Retry-After', async () => {
+        const limited = () => googleError(429, 'rateLimitExceeded');
+        const fetchImpl = sequence(limited(), limited(), limited());
+        const done = fetchGoogle(LIST_URL, {}, { fetch: fetchImpl, maxAttempts: 3 });
+        await vi.runAllTimersAsync();
+        expect((await done).status).toBe(429);
+        expect(fetchImpl).toHaveBeenCalledTimes(3);
+
+        const patient = sequence(googleError(429, 'rateLimitExceeded', { 'Retry-After': '60' }));
+        const response = await fetchGoogle(LIST_URL, {}, { fetch: patient });
+        expect(getRetryAfter(response)).toBe(60_000);
+        expect(patient).toHaveBeenCalledTimes(1);
+    });
+
+    it('should stop waiting when the request is aborted', async () => {
+        const controller = new AbortController();
+        const done = fetchGoogle(LIST_URL, { signal: controller.signal }, { fetch: sequence(googleError(429, 'rateLimitExceeded')) });
+        const rejected = expect(done).rejects.toThrow('Aborted');
+
+        controller.abort();
+        await rejected;
+    });
+});
+
+describe('classifyGoogleError', () => {
+    it('should tell quota and rate limits apart', async () => {
+        expect(await classifyGoogleError(googleError(403, 'quotaExceeded'))).toBe('quota_exceeded');
+        expect(await classifyGoogleError(googleError(403, 'rateLimitExceeded'))).toBe('rate_limited');
+        expect(await classifyGoogleError(googleError(404, 'notFound'))).toBe('not_found');
+        expect(await classifyGoogleError(new Response('Bad gateway', { status: 502 }))).toBe('unavailable');
+    });
+
+    it('should read Retry-After dates', () => {
+        const now = Date.UTC(2024, 0, 15, 12);
+        const response = new Response(null, {
+            status: 429,
+            headers: { 'Retry-After': new Date(now + 30_000).toUTCString() },
+        });
+        expect(getRetryAfter(response, now)).toBe(30_000);
+    });
+});
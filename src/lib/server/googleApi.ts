@@ -0,0 +1,197 @@
+/**
+ * Google Calendar API requests - Server-side only
+ *
+ * Wraps fetch for the proxy routes: rate limits (429, or 403 with a
+ * rate-limit reason) and upstream outages are retried with exponential
+ * backoff and jitter, honouring Retry-After. Failures that remain are
+ * classified into a ProviderErrorCode, which the routes send to clients
+ * along with a Retry-After header when Google gave one.
+ */
+
+import { json } from '@sveltejs/kit';
+import type { ProviderErrorCode } from '$lib/api/CalendarProvider';
+
+/** Attempts per request, including the first */
+const MAX_ATTEMPTS = 4;
+
+/** Backoff before the first retry; doubles with every attempt */
+const BASE_DELAY_MS = 500;
+
+/**
+ * Longest the server waits before a retry. A longer Retry-After is passed
+ * on to the client rather than holding the request open.
+ */
+const MAX_DELAY_MS = 8000;
+
+/** 403 reasons that mean "slow down" rather than "not allowed" */
+const RATE_LIMIT_REASONS = new Set(['rateLimitExceeded', 'userRateLimitExceeded']);
+
+/** 403 reasons that mean the daily quota is used up */
+const QUOTA_REASONS = new Set(['quotaExceeded', 'dailyLimitExceeded']);
+
+/**
+ * Options for fetchGoogle
+ */
+export interface GoogleFetchOptions {
+    /** Fetch implementation (defaults to global fetch) */
+    fetch?: typeof fetch;
+    /** Attempts including the first (default 4) */
+    maxAttempts?: number;
+    /**
+     * Retry upstream outages (default true). A 5xx may come after a write
+     * was applied, so requests that aren't safe to repeat turn this off.
+     */
+    retryOutages?: boolean;
+}
+
+/**
+ * Error body of the proxy routes
+ */
+export interface GoogleErrorBody {
+    error: string;
+    code: ProviderErrorCode;
+    /** How long to wait before retrying (ms) */
+    retryAfter?: number;
+}
+
+/**
+ * Classify a failed Google response. Reads a clone, so the body stays
+ * available to the caller.
+ */
+export async function classifyGoogleError(response: Response): Promise<ProviderErrorCode> {
+    switch (response.status) {
+        case 400: return 'bad_request';
+        case 401: return 'unauthenticated';
+        case 404: return 'not_found';
+        case 410: return 'sync_token_expired';
+        case 412: return 'conflict';
+        case 429: return 'rate_limited';
+    }
+
+    if (response.status === 403) {
+        const reasons = await getErrorReasons(response);
+        if (reasons.some(r => RATE_LIMIT_REASONS.has(r))) return 'rate_limited';
+        if (reasons.some(r => QUOTA_REASONS.has(r))) return 'quota_exceeded';
+        return 'forbidden';
+    }
+
+    return response.status >= 500 ? 'unavailable' : 'bad_request';
+}
+
+/**
+ * Parse a Retry-After header (seconds or an HTTP date)
+ * @returns the delay in ms, or undefined if absent or invalid
+ */
+export function getRetryAfter(response: Response, now = Date.now()): number | undefined {
+    const value = response.headers.get('Retry-After');
+    if (!value) return undefined;
+
+    if (/^\d+$/.test(value.trim())) {
+        return parseInt(value, 10) * 1000;
+    }
+    const date = Date.parse(value);
+    return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+/**
+ * Backoff before a retry: doubling with every attempt, with random jitter
+ * so clients that were limited together don't retry together
+ */
+export function backoffDelay(attempt: number): number {
+    const delay = BASE_DELAY_MS * 2 ** attempt;
+    return delay / 2 + Math.random() * delay / 2;
+}
+
+/**
+ * Fetch from the Google API, retrying rate limits and outages
+ * @returns the last response; failures that weren't retried (or kept
+ * failing) are returned as they are
+ * @throws an AbortError if the signal aborts, also while waiting
+ */
+export async function fetchGoogle(url: string, init: RequestInit, options: GoogleFetchOptions = {}): Promise<Response> {
+    const fetchImpl = options.fetch ?? fetch;
+    const maxAttempts = options.maxAttempts ?? MAX_ATTEMPTS;
+
+    for (let attempt = 0; ; attempt++) {
+        const response = await fetchImpl(url, init);
+        if (response.ok || attempt + 1 >= maxAttempts) {
+            return response;
+        }
+
+        const code = await classifyGoogleError(response);
+        const retryable = code === 'rate_limited' || (code === 'unavailable' && options.retryOutages !== false);
+        if (!retryable) {
+            return response;
+        }
+
+        const delay = getRetryAfter(response) ?? backoffDelay(attempt);
+        if (delay > MAX_DELAY_MS) {
+            return response;
+        }
+
+        await response.body?.cancel();
+        await sleep(delay, init.signal ?? undefined);
+    }
+}
+
+/**
+ * Proxy route response for a failed Google response, carrying its error
+ * code and Retry-After
+ */
+export async function googleErrorResponse(response: Response, message: string): Promise<Response> {
+    const code = await classifyGoogleError(response);
+    const retryAfter = getRetryAfter(response);
+    console.error(`${message}:`, await response.text());
+
+    return errorResponse(message, code, response.status, retryAfter);
+}
+
+/**
+ * Proxy route error response
+ */
+export function errorResponse(message: string, code: ProviderErrorCode, status: number, retryAfter?: number): Response {
+    const body: GoogleErrorBody = { error: message, code, retryAfter };
+    const headers: Record<string, string> = {};
+    if (retryAfter !== undefined) {
+        headers['Retry-After'] = String(Math.ceil(retryAfter / 1000));
+    }
+    return json(body, { status, headers });
+}
+
+// =========================================
+// Helpers
+// =========================================
+
+/**
+ * Reasons listed in a Google error body, e.g. `rateLimitExceeded`
+ */
+async function getErrorReasons(response: Response): Promise<string[]> {
+    try {
+        const data = await response.clone().json();
+        const errors: { reason?: string }[] = data?.error?.errors ?? [];
+        return errors.map(e => e.reason ?? '');
+    } catch {
+        return [];
+    }
+}
+
+/**
+ * Wait, rejecting with an AbortError if the signal aborts meanwhile
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(new DOMException('Aborted', 'AbortError'));
+            return;
+        }
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(new DOMException('Aborted', 'AbortError'));
+        };
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+}
@@ -0,0 +1,198 @@
+/**
+ * Google Token Handling Unit Tests
+ *
+ * Tests exchanging refresh tokens against a stubbed token endpoint, storing
+ * the results in cookies and asking for reconsent when Google rejects them.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import type { Cookies } from '@sveltejs/kit';
+import {
+    accessTokenCookie,
+    ensureAccessToken,
+    getSessionAccountId,
+    refreshAccessToken,
+    refreshFromCookies,
+    refreshTokenCookie,
+    verifyAccessToken,
+} from './googleAuth';
+
+const env = vi.hoisted(() => ({
+    GOOGLE_CLIENT_ID: 'client-id' as string | undefined,
+    GOOGLE_CLIENT_SECRET: 'client-secret' as string | undefined,
+}));
+
+vi.mock('$env/dynamic/private', () => ({ env }));
+
+// Cookie jar holding the given cookies
+function cookieJar(initial: Record<string, string> = {}): Cookies & { values: Map<string, string> } {
+    const values = new Map(Object.entries(initial));
+    return {
+        values,
+        get: (name: string) => values.get(name),
+        getAll: () => Array.from(values, ([name, value]) => ({ name, value })),
+        set: (name: string, value: string) => {
+            values.set(name, value);
+        },
+        delete: (name: string) => {
+            values.delete(name);
+        },
+        serialize: () => '',
+    };
+}
+
+// Token endpoint answering with the given response
+function tokenEndpoint(response: Response) {
+    return vi.fn(async (_url: string | URL | Request, _init?: RequestInit) => response);
+}
+
+describe('googleAuth', () => {
+    beforeEach(() => {
+        vi.useFakeTimers();
+        vi.setSystemTime(Date.UTC(2024, 0, 1));
+        vi.spyOn(console, 'warn').mockImplementation(() => {});
+        vi.spyOn(console, 'error').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+        vi.unstubAllGlobals();
+        vi.restoreAllMocks();
+        env.GOOGLE_CLIENT_ID = 'client-id';
+    });
+
+    describe('refreshAccessToken', () => {
+        it('should exchange the refresh token with the app credentials', async () => {
+            const fetchImpl = tokenEndpoint(Response.json({ access_token: 'new', expires_in: 3600 }));
+
+            const tokens = await refreshAccessToken('refresh-1', fetchImpl);
+
+            expect(tokens).toEqual({ access_token: 'new', expires_in: 3600 });
+            const body = fetchImpl.mock.calls[0][1]?.body as URLSearchParams;
+            expect(Object.fromEntries(body)).toEqual({
+                refresh_token: 'refresh-1',
+                client_id: 'client-id',
+                client_secret: 'client-secret',
+                grant_type: 'refresh_token',
+            });
+        });
+
+        it('should return null when Google rejects the refresh token', async () => {
+            for (const status of [400, 401]) {
+                const fetchImpl = tokenEndpoint(Response.json({ error: 'invalid_grant' }, { status }));
+                expect(await refreshAccessToken('revoked', fetchImpl)).toBeNull();
+            }
+        });
+
+        it('should throw on outages and missing credentials', async () => {
+            await expect(refreshAccessToken('refresh-1', tokenEndpoint(new Response('', { status: 503 }))))
+                .rejects.toThrow('503');
+
+            env.GOOGLE_CLIENT_ID = undefined;
+            await expect(refreshAccessToken('refresh-1', tokenEndpoint(Response.json({}))))
+                .rejects.toThrow('Missing Google OAuth credentials');
+        });
+    });
+
+    describe('refreshFromCookies', () => {
+        it('should store the new access token and a rotated refresh token', async () => {
+            vi.stubGlobal('fetch', tokenEndpoint(Response.json({
+                access_token: 'new',
+                expires_in: 3600,
+                refresh_token: 'refresh-2',
+                scope: 'calendar.readonly',
+            })));
+            const cookies = cookieJar({ [refreshTokenCookie('42')]: 'refresh-1' });
+
+            const result = await refreshFromCookies(cookies, '42');
+
+            expect(result).toEqual({
+                status: 'refreshed',
+                expiresAt: Date.UTC(2024, 0, 1) + 3600 * 1000,
+                scope: 'calendar.readonly',
+            });
+            expect(cookies.values.get(accessTokenCookie('42'))).toBe('new');
+            expect(cookies.values.get(refreshTokenCookie('42'))).toBe('refresh-2');
+        });
+
+        it('should ask for reconsent and drop a rejected refresh token', async () => {
+            vi.stubGlobal('fetch', tokenEndpoint(Response.json({ error: 'invalid_grant' }, { status: 400 })));
+            const cookies = cookieJar({ [refreshTokenCookie('42')]: 'revoked' });
+
+            expect(await refreshFromCookies(cookies, '42')).toEqual({ status: 'reconsent' });
+            expect(cookies.values.has(refreshTokenCookie('42'))).toBe(false);
+        });
+
+        it('should keep the refresh token when Google can\'t be reached', async () => {
+            vi.stubGlobal('fetch', tokenEndpoint(new Response('', { status: 503 })));
+            const cookies = cookieJar({ [refreshTokenCookie('42')]: 'refresh-1' });
+
+            expect((await refreshFromCookies(cookies, '42')).status).toBe('error');
+            expect(cookies.values.get(refreshTokenCookie('42'))).toBe('refresh-1');
+        });
+
+        it('should report a missing refresh token without calling Google', async () => {
+            const fetchImpl = tokenEndpoint(Response.json({}));
+            vi.stubGlobal('fetch', fetchImpl);
+
+            expect(await refreshFromCookies(cookieJar(), '42')).toEqual({ status: 'missing' });
+            expect(fetchImpl).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('ensureAccessToken', () => {
+        it('should only refresh when the access token cookie is gone', async () => {
+            const fetchImpl = tokenEndpoint(Response.json({ access_token: 'new', expires_in: 3600 }));
+            vi.stubGlobal('fetch', fetchImpl);
+
+            const valid = cookieJar({ [accessTokenCookie('42')]: 'old', [refreshTokenCookie('42')]: 'refresh-1' });
+            expect(await ensureAccessToken(valid, '42')).toEqual({ status: 'valid' });
+            expect(fetchImpl).not.toHaveBeenCalled();
+
+            const expired = cookieJar({ [refreshTokenCookie('42')]: 'refresh-1' });
+            expect((await ensureAccessToken(expired, '42')).status).toBe('refreshed');
+        });
+    });
+
+    describe('getSessionAccountId', () => {
+        it('should find the account of any token cookie', () => {
+            expect(getSessionAccountId(cookieJar({ theme: 'dark', [refreshTokenCookie('42')]: 'x' }))).toBe('42');
+            expect(getSessionAccountId(cookieJar({ theme: 'dark' }))).toBeNull();
+        });
+    });
+
+    describe('verifyAccessToken', () => {
+        it('should confirm tokens of this app and account, asking Google once', async () => {
+            const fetchImpl = tokenEndpoint(Response.json({ aud: 'client-id', sub: '42', expires_in: '3599' }));
+
+            expect(await verifyAccessToken('token-a', '42', fetchImpl)).toBe(true);
+            expect(await verifyAccessToken('token-a', '42', fetchImpl)).toBe(true);
+            expect(await verifyAccessToken('token-a', '7', fetchImpl)).toBe(false);
+            expect(fetchImpl).toHaveBeenCalledTimes(1);
+            expect(String(fetchImpl.mock.calls[0][1]?.body)).toBe('access_token=token-a');
+        });
+
+        it('should ask again once a confirmed token expired', async () => {
+            const fetchImpl = vi.fn(async () => Response.json({ aud: 'client-id', sub: '42', expires_in: '60' }));
+
+            await verifyAccessToken('token-b', '42', fetchImpl);
+            vi.advanceTimersByTime(61 * 1000);
+            await verifyAccessToken('token-b', '42', fetchImpl);
+
+            expect(fetchImpl).toHaveBeenCalledTimes(2);
+        });
+
+        it('should reject unknown tokens and tokens of other apps', async () => {
+            const unknown = tokenEndpoint(Response.json({ error: 'invalid_token' }, { status: 400 }));
+            const otherApp = tokenEndpoint(Response.json({ aud: 'other-client', sub: '42', expires_in: '3599' }));
+
+            expect(await verifyAccessToken('made-up', '42', unknown)).toBe(false);
+            expect(await verifyAccessToken('token-c', '42', otherApp)).toBe(false);
+        });
+
+        it('should throw when Google cannot be reached', async () => {
+            const fetchImpl = tokenEndpoint(new Response('', { status: 503 }));
+            await expect(verifyAccessToken('token-d', '42', fetchImpl)).rejects.toThrow('Token check failed: 503');
+        });
+    });
+});
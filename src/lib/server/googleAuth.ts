@@ -0,0 +1,303 @@
+/**
+ * Google OAuth token handling - Server-side only
+ *
+ * Access tokens live in a short-lived HTTP-only cookie (it expires together
+ * with the token), the refresh token in a 30-day cookie. When the access
+ * token cookie is gone, the refresh token is exchanged for a new one.
+ *
+ * Several Google accounts can be connected at once: every cookie name is
+ * suffixed with the account's Google user ID, which clients pass to the
+ * proxy routes as the `account` query parameter.
+ *
+ * Cookies are only names and values the browser sent. Routes that act on
+ * the server's own behalf (the CalDAV proxy, shared live update watches)
+ * check the token with Google first; see verifyAccessToken.
+ */
+
+import type { Cookies } from '@sveltejs/kit';
+import { env } from '$env/dynamic/private';
+import { dev } from '$app/environment';
+
+const GOOGLE_TOKEN_URL = 'https://oauth2.googleapis.com/token';
+const GOOGLE_TOKENINFO_URL = 'https://oauth2.googleapis.com/tokeninfo';
+
+/** Most verified tokens remembered; the oldest are forgotten first */
+const MAX_VERIFIED_TOKENS = 1000;
+
+const ACCESS_TOKEN_COOKIE = 'google_access_token';
+const REFRESH_TOKEN_COOKIE = 'google_refresh_token';
+
+/** Query parameter naming the Google account a request is for */
+export const ACCOUNT_PARAM = 'account';
+
+/** Response header telling the client a new token was issued (value: expiry, ms since epoch) */
+export const TOKEN_EXPIRES_HEADER = 'X-Google-Token-Expires-At';
+
+/**
+ * Token fields from Google's token endpoint
+ */
+export interface GoogleTokenResponse {
+    access_token: string;
+    expires_in: number;
+    refresh_token?: string;
+    /** Space-separated granted scopes */
+    scope?: string;
+}
+
+/**
+ * Outcome of making sure a request has a usable access token
+ */
+export type AccessTokenStatus =
+    | { status: 'valid' }
+    | { status: 'refreshed'; expiresAt: number; scope?: string }
+    | { status: 'missing' }
+    /** The refresh token was rejected; the user has to consent again */
+    | { status: 'reconsent' }
+    /** Google could not be reached; the refresh token is still usable */
+    | { status: 'error'; message: string };
+
+/**
+ * Read the account ID from a request URL
+ * @returns null if missing or not a valid Google user ID
+ */
+export function getAccountId(url: URL): string | null {
+    const accountId = url.searchParams.get(ACCOUNT_PARAM);
+    // Google user IDs are numeric; anything else can't be part of a cookie name
+    return accountId && /^[0-9A-Za-z_-]{1,64}$/.test(accountId) ? accountId : null;
+}
+
+/**
+ * First connected account found in the request's token cookies
+ * @returns null if no Google account is signed in
+ */
+export function getSessionAccountId(cookies: Cookies): string | null {
+    const prefixes = [`${ACCESS_TOKEN_COOKIE}_`, `${REFRESH_TOKEN_COOKIE}_`];
+
+    for (const { name } of cookies.getAll()) {
+        const prefix = prefixes.find(p => name.startsWith(p));
+        if (prefix) return name.slice(prefix.length);
+    }
+    return null;
+}
+
+export function accessTokenCookie(accountId: string): string {
+    return `${ACCESS_TOKEN_COOKIE}_${accountId}`;
+}
+
+export function refreshTokenCookie(accountId: string): string {
+    return `${REFRESH_TOKEN_COOKIE}_${accountId}`;
+}
+
+/**
+ * Get an account's access token, if its cookie is still alive
+ */
+export function getAccessToken(cookies: Cookies, accountId: string): string | undefined {
+    return cookies.get(accessTokenCookie(accountId));
+}
+
+/**
+ * Access token of the account named in a proxy request's URL
+ */
+export function getRequestAccessToken(url: URL, cookies: Cookies): string | undefined {
+    const accountId = getAccountId(url);
+    return accountId ? getAccessToken(cookies, accountId) : undefined;
+}
+
+/**
+ * Store the access token; the cookie expires with the token
+ * @returns Expiry time (ms since epoch)
+ */
+export function storeAccessToken(cookies: Cookies, accountId: string, accessToken: string, expiresIn: number): number {
+    cookies.set(accessTokenCookie(accountId), accessToken, {
+        path: '/',
+        httpOnly: true,
+        secure: !dev,
+        sameSite: 'lax',
+        maxAge: expiresIn,
+    });
+    return Date.now() + expiresIn * 1000;
+}
+
+/**
+ * Store the long-lived refresh token
+ */
+export function storeRefreshToken(cookies: Cookies, accountId: string, refreshToken: string): void {
+    cookies.set(refreshTokenCookie(accountId), refreshToken, {
+        path: '/',
+        httpOnly: true,
+        secure: !dev,
+        sameSite: 'lax',
+        maxAge: 60 * 60 * 24 * 30, // 30 days
+    });
+}
+
+/**
+ * Exchange a refresh token for a new access token
+ * @returns null if Google rejected the refresh token (revoked or expired)
+ * @throws Error on network failures or missing credentials
+ */
+export async function refreshAccessToken(
+    refreshToken: string,
+    fetchImpl: typeof fetch = fetch
+): Promise<GoogleTokenResponse | null> {
+    const clientId = env.GOOGLE_CLIENT_ID;
+    const clientSecret = env.GOOGLE_CLIENT_SECRET;
+
+    if (!clientId || !clientSecret) {
+        throw new Error('Missing Google OAuth credentials in environment');
+    }
+
+    const response = await fetchImpl(GOOGLE_TOKEN_URL, {
+        method: 'POST',
+        headers: {
+            'Content-Type': 'application/x-www-form-urlencoded',
+        },
+        body: new URLSearchParams({
+            refresh_token: refreshToken,
+            client_id: clientId,
+            client_secret: clientSecret,
+            grant_type: 'refresh_token',
+        }),
+    });
+
+    // invalid_grant and friends: the refresh token is no longer valid
+    if (response.status === 400 || response.status === 401) {
+        console.warn('Refresh token rejected:', await response.text());
+        return null;
+    }
+
+    if (!response.ok) {
+        throw new Error(`Token refresh failed: ${response.status}`);
+    }
+
+    return response.json();
+}
+
+/**
+ * Tokens Google confirmed, with their account and expiry (ms since epoch)
+ */
+const verifiedTokens = new Map<string, { accountId: string; expiresAt: number }>();
+
+/**
+ * Check with Google that an access token is live, was issued to this app
+ * and belongs to the account. Confirmed tokens are remembered until they
+ * expire, so Google is asked once per token.
+ * @returns false if Google doesn't know the token or it belongs to
+ * another app or account
+ * @throws Error on network failures or missing credentials
+ */
+export async function verifyAccessToken(
+    accessToken: string,
+    accountId: string,
+    fetchImpl: typeof fetch = fetch
+): Promise<boolean> {
+    const known = verifiedTokens.get(accessToken);
+    if (known && known.expiresAt > Date.now()) {
+        return known.accountId === accountId;
+    }
+    verifiedTokens.delete(accessToken);
+
+    const clientId = env.GOOGLE_CLIENT_ID;
+    if (!clientId) {
+        throw new Error('Missing Google OAuth credentials in environment');
+    }
+
+    // POST keeps the token out of URLs and logs
+    const response = await fetchImpl(GOOGLE_TOKENINFO_URL, {
+        method: 'POST',
+        headers: {
+            'Content-Type': 'application/x-www-form-urlencoded',
+        },
+        body: new URLSearchParams({ access_token: accessToken }),
+    });
+
+    // Unknown or expired tokens
+    if (response.status === 400 || response.status === 401) {
+        return false;
+    }
+
+    if (!response.ok) {
+        throw new Error(`Token check failed: ${response.status}`);
+    }
+
+    const info: { aud?: string; sub?: string; expires_in?: string | number } = await response.json();
+    if (info.aud !== clientId || !info.sub) {
+        return false;
+    }
+
+    if (verifiedTokens.size >= MAX_VERIFIED_TOKENS) {
+        verifiedTokens.delete(verifiedTokens.keys().next().value!);
+    }
+    verifiedTokens.set(accessToken, {
+        accountId: info.sub,
+        expiresAt: Date.now() + Number(info.expires_in ?? 0) * 1000,
+    });
+    return info.sub === accountId;
+}
+
+/**
+ * Remove both token cookies of an account
+ */
+export function clearTokens(cookies: Cookies, accountId: string): void {
+    cookies.delete(accessTokenCookie(accountId), { path: '/' });
+    cookies.delete(refreshTokenCookie(accountId), { path: '/' });
+}
+
+/**
+ * Refresh an account's access token from its refresh token cookie and store it
+ */
+export async function refreshFromCookies(cookies: Cookies, accountId: string): Promise<AccessTokenStatus> {
+    const refreshToken = cookies.get(refreshTokenCookie(accountId));
+    if (!refreshToken) {
+        return { status: 'missing' };
+    }
+
+    try {
+        const tokens = await refreshAccessToken(refreshToken);
+
+        if (!tokens) {
+            cookies.delete(refreshTokenCookie(accountId), { path: '/' });
+            return { status: 'reconsent' };
+        }
+
+        const expiresAt = storeAccessToken(cookies, accountId, tokens.access_token, tokens.expires_in);
+        // Google may rotate the refresh token
+        if (tokens.refresh_token) {
+            storeRefreshToken(cookies, accountId, tokens.refresh_token);
+        }
+
+        return { status: 'refreshed', expiresAt, scope: tokens.scope };
+    } catch (err) {
+        console.error('Token refresh error:', err);
+        return { status: 'error', message: err instanceof Error ? err.message : 'Unknown error' };
+    }
+}
+
+/**
+ * Make sure the request carries a usable access token for the account, refreshing if needed.
+ * 'valid' only means the cookie is there; see verifyAccessToken.
+ */
+export async function ensureAccessToken(cookies: Cookies, accountId: string): Promise<AccessTokenStatus> {
+    if (getAccessToken(cookies, accountId)) {
+        return { status: 'valid' };
+    }
+    return refreshFromCookies(cookies, accountId);
+}
+
+/**
+ * Check that the request's access token for the account is one Google
+ * issued to this app for that account
+ * @returns false if there is no token cookie, the token is unknown to
+ * Google or belongs to someone else, or Google could not be reached
+ */
+export async function hasVerifiedSession(cookies: Cookies, accountId: string): Promise<boolean> {
+    const accessToken = getAccessToken(cookies, accountId);
+    if (!accessToken) return false;
+
+    try {
+        return await verifyAccessToken(accessToken, accountId);
+    } catch (err) {
+        console.error('Token check error:', err);
+        return false;
+    }
+}
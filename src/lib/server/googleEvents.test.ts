@@ -0,0 +1,135 @@
+/**
+ * Batched Google Events Unit Tests
+ *
+ * Runs the batched loader against a stand-in for the Google events API
+ * that pages its results, and reads the NDJSON stream back.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { streamCalendarEvents, type EventsBatchRequest } from './googleEvents';
+import { readEventStream, type EventStreamMessage } from '$lib/api/eventStream';
+
+// Events of each stand-in calendar, served one per page
+const CALENDARS: Record<string, { id: string; summary: string; start: string }[]> = {
+    'work@example.com': [
+        { id: 'w1', summary: 'Standup', start: '2024-01-15T09:00:00Z' },
+        { id: 'w2', summary: 'Review', start: '2024-01-16T14:00:00Z' },
+    ],
+    'home@example.com': [
+        { id: 'h1', summary: 'Dentist', start: '2024-01-17T10:00:00Z' },
+    ],
+};
+
+function googleApi(): { fetch: typeof fetch; urls: string[] } {
+    const urls: string[] = [];
+    const fetchImpl = async (input: RequestInfo | URL, init?: RequestInit): Promise<Response> => {
+        const url = new URL(String(input));
+        urls.push(url.toString());
+        expect(new Headers(init?.headers).get('Authorization')).toBe('Bearer token');
+
+        const calendarId = decodeURIComponent(url.pathname.split('/')[4]);
+        const items = CALENDARS[calendarId];
+        if (!items) {
+            return new Response('{"error":{"code":404}}', { status: 404 });
+        }
+
+        const page = parseInt(url.searchParams.get('pageToken') ?? '0', 10);
+        const item = items[page];
+        const last = page === items.length - 1;
+        return Response.json({
+            timeZone: 'UTC',
+            items: [{
+                id: item.id,
+                summary: item.summary,
+                start: { dateTime: item.start },
+                end: { dateTime: item.start },
+            }],
+            nextPageToken: last ? undefined : String(page + 1),
+            nextSyncToken: last ? `sync-${calendarId}` : undefined,
+        });
+    };
+    return { fetch: fetchImpl as typeof fetch, urls };
+}
+
+async function readAll(request: EventsBatchRequest): Promise<EventStreamMessage[]> {
+    const messages: EventStreamMessage[] = [];
+    await readEventStream(streamCalendarEvents(request), message => messages.push(message));
+    return messages;
+}
+
+function request(calendarIds: string[], fetchImpl: typeof fetch): EventsBatchRequest {
+    return {
+        accessToken: 'token',
+        calendarIds,
+        timeMin: '2024-01-01T00:00:00Z',
+        timeMax: '2024-02-01T00:00:00Z',
+        fetch: fetchImpl,
+    };
+}
+
+describe('streamCalendarEvents', () => {
+    it('should stream one message per calendar with every page mapped', async () => {
+        const api = googleApi();
+        const messages = await readAll(request(['work@example.com', 'home@example.com'], api.fetch));
+
+        expect(messages).toHaveLength(2);
+        const work = messages.find(m => m.calendarId === 'work@example.com');
+        expect(work).toMatchObject({ type: 'calendar', syncToken: 'sync-work@example.com' });
+        expect(work?.type === 'calendar' && work.events.map(e => e.title)).toEqual(['Standup', 'Review']);
+        expect(api.urls.filter(url => url.includes('work%40example.com'))).toHaveLength(2);
+        expect(api.urls.every(url => url.includes('timeMin=2024-01-01'))).toBe(true);
+    });
+
+    it('should report failing calendars without failing the rest', async () => {
+        const api = googleApi();
+        const messages = await readAll(request(['missing@example.com', 'home@example.com'], api.fetch));
+
+        expect(messages).toContainEqual(expect.objectContaining({
+            type: 'error',
+            calendarId: 'missing@example.com',
+            status: 404,
+        }));
+        expect(messages).toContainEqual(expect.objectContaining({ type: 'calendar', calendarId: 'home@example.com' }));
+    });
+
+    it('should send calendars as they complete rather than in request order', async () => {
+        const api = googleApi();
+        let release!: () => void;
+        const slow = new Promise<void>(resolve => { release = resolve; });
+        const fetchImpl = (async (input: RequestInfo | URL, init?: RequestInit) => {
+            if (String(input).includes('work%40example.com')) await slow;
+            return api.fetch(input, init);
+        }) as typeof fetch;
+
+        const order: string[] = [];
+        await readEventStream(
+            streamCalendarEvents(request(['work@example.com', 'home@example.com'], fetchImpl)),
+            message => {
+                order.push(message.calendarId);
+                release();
+            }
+        );
+
+        expect(order).toEqual(['home@example.com', 'work@example.com']);
+    });
+});
+
+describe('readEventStream', () => {
+    it('should reassemble messages split across chunks', async () => {
+        const text = '{"type":"error","calendarId":"a","message":"a: 500"}\n{"type":"calendar","calendarId":"b","events":[]}';
+        const bytes = new TextEncoder().encode(text);
+        const body = new ReadableStream<Uint8Array>({
+            start(controller) {
+                for (let i = 0; i < bytes.length; i += 7) {
+                    controller.enqueue(bytes.slice(i, i + 7));
+                }
+                controller.close();
+            },
+        });
+
+        const messages: EventStreamMessage[] = [];
+        await readEventStream(body, message => messages.push(message));
+
+        expect(messages.map(m => m.calendarId)).toEqual(['a', 'b']);
+    });
+});
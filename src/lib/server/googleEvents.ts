@@ -0,0 +1,130 @@
+/**
+ * Google Calendar events, loaded server-side - Server-side only
+ *
+ * Backs the batched events route: loads a time range from several
+ * calendars concurrently, following pagination, maps the events and
+ * streams one NDJSON message per calendar as each one completes. Rate
+ * limits are retried per page (see googleApi).
+ */
+
+import { mapGoogleEvents } from '$lib/api/GoogleEventMapper';
+import { encodeMessage, type EventStreamMessage } from '$lib/api/eventStream';
+import { classifyGoogleError, fetchGoogle, getRetryAfter } from './googleApi';
+
+const GOOGLE_CALENDAR_API = 'https://www.googleapis.com/calendar/v3';
+
+/** Calendars loaded from Google at once per request */
+const MAX_CONCURRENT_CALENDARS = 6;
+
+/**
+ * A time range to load from several calendars
+ */
+export interface EventsBatchRequest {
+    accessToken: string;
+    calendarIds: string[];
+    /** RFC 3339 range bounds */
+    timeMin: string;
+    timeMax: string;
+    /** Aborts the Google requests (e.g. the client went away) */
+    signal?: AbortSignal;
+    /** Fetch implementation (defaults to global fetch) */
+    fetch?: typeof fetch;
+}
+
+/**
+ * Load every page of a calendar's events in a range
+ * @returns the calendar's message for the stream
+ */
+export async function loadCalendarEvents(request: EventsBatchRequest, calendarId: string): Promise<EventStreamMessage> {
+    const result: Extract<EventStreamMessage, { type: 'calendar' }> = { type: 'calendar', calendarId, events: [] };
+    let pageToken: string | undefined;
+
+    do {
+        const params = new URLSearchParams({
+            singleEvents: 'true',
+            maxResults: '2500',
+            orderBy: 'startTime',
+            timeMin: request.timeMin,
+            timeMax: request.timeMax,
+        });
+        if (pageToken) params.set('pageToken', pageToken);
+
+        const response = await fetchGoogle(
+            `${GOOGLE_CALENDAR_API}/calendars/${encodeURIComponent(calendarId)}/events?${params}`,
+            { headers: { Authorization: `Bearer ${request.accessToken}` }, signal: request.signal },
+            { fetch: request.fetch }
+        );
+
+        // A calendar that fails part-way is reported as failed, never truncated
+        if (!response.ok) {
+            const code = await classifyGoogleError(response);
+            const retryAfter = getRetryAfter(response);
+            console.error(`Events API error (${calendarId}):`, await response.text());
+            return {
+                type: 'error',
+                calendarId,
+                message: `${calendarId}: ${response.status}`,
+                status: response.status,
+                code,
+                retryAfter,
+            };
+        }
+
+        const data = await response.json();
+
+        // Events list responses carry the calendar's zone and default reminders
+        result.events.push(...mapGoogleEvents(data.items || [], {
+            calendarId,
+            timeZone: data.timeZone,
+            defaultReminders: data.defaultReminders,
+        }));
+
+        // The last page carries the token for later incremental syncs
+        if (data.nextSyncToken) {
+            result.syncToken = data.nextSyncToken;
+        }
+        pageToken = data.nextPageToken;
+    } while (pageToken);
+
+    return result;
+}
+
+/**
+ * Stream the events of several calendars as NDJSON, one message per
+ * calendar in the order they complete
+ */
+export function streamCalendarEvents(request: EventsBatchRequest): ReadableStream<Uint8Array> {
+    const encoder = new TextEncoder();
+    const queue = [...request.calendarIds];
+    let cancelled = false;
+    const stopped = () => cancelled || !!request.signal?.aborted;
+
+    return new ReadableStream<Uint8Array>({
+        async start(controller) {
+            const work = async () => {
+                for (let calendarId = queue.shift(); calendarId !== undefined; calendarId = queue.shift()) {
+                    const message = await loadCalendarEvents(request, calendarId).catch((err): EventStreamMessage => ({
+                        type: 'error',
+                        calendarId: calendarId!,
+                        message: `${calendarId}: ${err instanceof Error ? err.message : 'Unknown error'}`,
+                        code: 'unavailable',
+                    }));
+                    if (stopped()) return;
+                    controller.enqueue(encoder.encode(encodeMessage(message)));
+                }
+            };
+
+            await Promise.all(
+                Array.from({ length: Math.min(MAX_CONCURRENT_CALENDARS, queue.length) }, work)
+            );
+            if (!stopped()) {
+                controller.close();
+            }
+        },
+        cancel() {
+            // The client stopped reading; finish without loading the rest
+            cancelled = true;
+            queue.length = 0;
+        },
+    });
+}
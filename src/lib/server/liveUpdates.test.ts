@@ -0,0 +1,197 @@
+/**
+ * Live Updates Unit Tests
+ *
+ * Runs the hub against a stand-in for Google that opens watch channels and
+ * posts notifications to the webhook address it was given, or answers
+ * polls, and reads the resulting Server-Sent Events stream.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { LiveUpdateHub, streamLiveUpdates } from './liveUpdates';
+
+const WEBHOOK_URL = 'https://calendar.example.com/api/webhooks/google';
+
+interface StandInChannel {
+    id: string;
+    token: string;
+    address: string;
+    calendarId: string;
+    stopped: boolean;
+}
+
+/**
+ * Stand-in for Google: records watch channels and can post notifications
+ * for them, the way Google does
+ */
+function googleStandIn(options: { refuseWatch?: boolean } = {}) {
+    const channels: StandInChannel[] = [];
+    /** Calendars with events changed since the last poll */
+    const changed = new Set<string>();
+
+    const fetchImpl = vi.fn(async (input: RequestInfo | URL, init?: RequestInit): Promise<Response> => {
+        const url = new URL(String(input));
+        const calendarId = decodeURIComponent(url.pathname.split('/')[4] ?? '');
+
+        if (url.pathname.endsWith('/events/watch')) {
+            if (options.refuseWatch) {
+                return Response.json({ error: { errors: [{ reason: 'pushNotSupportedForRequestedResource' }] } }, { status: 400 });
+            }
+            const body = JSON.parse(String(init?.body));
+            channels.push({ id: body.id, token: body.token, address: body.address, calendarId, stopped: false });
+            return Response.json({ resourceId: `resource-${calendarId}`, expiration: String(Date.now() + 60 * 60 * 1000) });
+        }
+
+        if (url.pathname.endsWith('/channels/stop')) {
+            const body = JSON.parse(String(init?.body));
+            channels.filter(c => c.id === body.id).forEach(c => { c.stopped = true; });
+            return new Response(null, { status: 204 });
+        }
+
+        // Poll: any event updated since updatedMin
+        const items = changed.has(calendarId) ? [{ id: 'e1', status: 'confirmed' }] : [];
+        changed.delete(calendarId);
+        return Response.json({ items });
+    });
+
+    /** Post a notification for a calendar's open channel to the hub */
+    const post = (hub: LiveUpdateHub, calendarId: string, state: string, token?: string): boolean => {
+        const channel = channels.find(c => c.calendarId === calendarId && !c.stopped)!;
+        const request = new Request(channel.address, {
+            method: 'POST',
+            headers: {
+                'X-Goog-Channel-ID': channel.id,
+                'X-Goog-Channel-Token': token ?? channel.token,
+                'X-Goog-Resource-State': state,
+                'X-Goog-Resource-ID': `resource-${calendarId}`,
+            },
+        });
+        return hub.handleNotification(request.headers);
+    };
+
+    return { fetch: fetchImpl as typeof fetch, fetchMock: fetchImpl, channels, changed, post };
+}
+
+function subscription(calendarIds: string[]) {
+    return { accountId: '123', accessToken: 'token', calendarIds };
+}
+
+describe('LiveUpdateHub', () => {
+    let hub: LiveUpdateHub;
+
+    afterEach(() => {
+        hub.close();
+    });
+
+    describe('with a webhook', () => {
+        it('should open a channel per calendar and pass on notifications', async () => {
+            const google = googleStandIn();
+            hub = new LiveUpdateHub({ webhookUrl: WEBHOOK_URL, fetch: google.fetch });
+            const listener = vi.fn();
+
+            const { mode } = await hub.subscribe(subscription(['work@example.com', 'home@example.com']), listener);
+
+            expect(mode).toBe('push');
+            expect(google.channels.map(c => c.address)).toEqual([WEBHOOK_URL, WEBHOOK_URL]);
+
+            // The first message only confirms the channel
+            expect(google.post(hub, 'work@example.com', 'sync')).toBe(true);
+            expect(listener).not.toHaveBeenCalled();
+
+            expect(google.post(hub, 'work@example.com', 'exists')).toBe(true);
+            expect(listener).toHaveBeenCalledWith('work@example.com');
+        });
+
+        it('should reject notifications with a wrong token', async () => {
+            const google = googleStandIn();
+            hub = new LiveUpdateHub({ webhookUrl: WEBHOOK_URL, fetch: google.fetch });
+            const listener = vi.fn();
+            await hub.subscribe(subscription(['work@example.com']), listener);
+
+            expect(google.post(hub, 'work@example.com', 'exists', 'forged')).toBe(false);
+            expect(listener).not.toHaveBeenCalled();
+        });
+
+        it('should share a channel between clients and stop it after the last leaves', async () => {
+            const google = googleStandIn();
+            hub = new LiveUpdateHub({ webhookUrl: WEBHOOK_URL, fetch: google.fetch });
+            const first = vi.fn();
+            const second = vi.fn();
+
+            const a = await hub.subscribe(subscription(['work@example.com']), first);
+            const b = await hub.subscribe(subscription(['work@example.com']), second);
+            expect(google.channels).toHaveLength(1);
+
+            google.post(hub, 'work@example.com', 'exists');
+            expect(first).toHaveBeenCalledTimes(1);
+            expect(second).toHaveBeenCalledTimes(1);
+
+            a.unsubscribe();
+            expect(google.channels[0].stopped).toBe(false);
+            b.unsubscribe();
+            await vi.waitFor(() => expect(google.channels[0].stopped).toBe(true));
+        });
+    });
+
+    describe('polling', () => {
+        beforeEach(() => {
+            vi.useFakeTimers();
+        });
+
+        afterEach(() => {
+            vi.useRealTimers();
+            vi.restoreAllMocks();
+        });
+
+        it('should poll calendars when no webhook is configured', async () => {
+            const google = googleStandIn();
+            hub = new LiveUpdateHub({ fetch: google.fetch, pollIntervalMs: 1000 });
+            const listener = vi.fn();
+
+            const { mode } = await hub.subscribe(subscription(['work@example.com']), listener);
+            expect(mode).toBe('poll');
+
+            await vi.advanceTimersByTimeAsync(1000);
+            expect(listener).not.toHaveBeenCalled();
+
+            google.changed.add('work@example.com');
+            await vi.advanceTimersByTimeAsync(1000);
+            expect(listener).toHaveBeenCalledWith('work@example.com');
+            expect(google.fetchMock.mock.calls.at(-1)?.[0]).toContain('updatedMin=');
+        });
+
+        it('should fall back to polling when Google refuses the channel', async () => {
+            const google = googleStandIn({ refuseWatch: true });
+            hub = new LiveUpdateHub({ webhookUrl: WEBHOOK_URL, fetch: google.fetch, pollIntervalMs: 1000 });
+            vi.spyOn(console, 'warn').mockImplementation(() => {});
+            const listener = vi.fn();
+
+            const { mode } = await hub.subscribe(subscription(['work@example.com']), listener);
+            google.changed.add('work@example.com');
+            await vi.advanceTimersByTimeAsync(1000);
+
+            expect(mode).toBe('poll');
+            expect(listener).toHaveBeenCalledWith('work@example.com');
+        });
+    });
+});
+
+describe('streamLiveUpdates', () => {
+    it('should send ready, then the calendars that changed', async () => {
+        const google = googleStandIn();
+        const hub = new LiveUpdateHub({ webhookUrl: WEBHOOK_URL, fetch: google.fetch });
+        const controller = new AbortController();
+        const reader = streamLiveUpdates(hub, { ...subscription(['work@example.com']), signal: controller.signal })
+            .getReader();
+        const next = async () => new TextDecoder().decode((await reader.read()).value);
+
+        expect(await next()).toBe('event: ready\ndata: {"mode":"push"}\n\n');
+
+        google.post(hub, 'work@example.com', 'exists');
+        expect(await next()).toBe('event: changed\ndata: {"calendarIds":["work@example.com"]}\n\n');
+
+        // The client going away ends the subscription
+        controller.abort();
+        await vi.waitFor(() => expect(google.channels[0].stopped).toBe(true));
+        hub.close();
+    });
+});
@@ -0,0 +1,422 @@
+/**
+ * Live updates - Server-side only
+ *
+ * Learns which Google calendars changed and tells the clients streaming
+ * from the live route. With a public webhook address configured
+ * (GOOGLE_WEBHOOK_URL), each watched calendar gets a Google watch channel
+ * and Google posts to the webhook route on every change. Without one, or
+ * if Google refuses the channel, the calendar is polled instead.
+ *
+ * Calendars are watched once per account however many clients stream
+ * them, and unwatched when the last client goes away.
+ */
+
+import { env } from '$env/dynamic/private';
+import { encodeServerSentEvent, type LiveUpdateMode } from '$lib/api/liveStream';
+import { fetchGoogle } from './googleApi';
+
+const GOOGLE_CALENDAR_API = 'https://www.googleapis.com/calendar/v3';
+
+/** Requested lifetime of a watch channel; channels are renewed before they expire */
+const CHANNEL_TTL_S = 24 * 60 * 60;
+
+/** How long before a channel expires it is renewed */
+const RENEW_MARGIN_MS = 10 * 60 * 1000;
+
+/** How often calendars without a channel are polled */
+const POLL_INTERVAL_MS = 30 * 1000;
+
+/** Comment sent to keep idle streams from being closed by proxies */
+const HEARTBEAT_MS = 25 * 1000;
+
+/**
+ * How long a stream stays open. Streams end before the access token they
+ * were opened with expires; the client reconnects and the server hook
+ * refreshes the token.
+ */
+const STREAM_LIFETIME_MS = 45 * 60 * 1000;
+
+/** Called with the ID of a calendar that changed */
+export type ChangeListener = (calendarId: string) => void;
+
+/**
+ * Options for LiveUpdateHub
+ */
+export interface LiveUpdateHubOptions {
+    /** Public HTTPS address of the webhook route; without it calendars are polled */
+    webhookUrl?: string;
+    /** Fetch implementation (defaults to global fetch) */
+    fetch?: typeof fetch;
+    pollIntervalMs?: number;
+}
+
+/**
+ * A client's request to hear about calendar changes
+ */
+export interface LiveSubscription {
+    accountId: string;
+    /**
+     * Token Google confirmed belongs to the account (see verifyAccessToken).
+     * Shared watches switch to the latest subscriber's token, so an
+     * unchecked one would let its sender join, and break, the watch.
+     */
+    accessToken: string;
+    calendarIds: string[];
+    /** Ends the subscription (e.g. the client went away) */
+    signal?: AbortSignal;
+}
+
+/**
+ * A Google watch channel
+ */
+interface WatchChannel {
+    id: string;
+    /** Secret Google echoes in notifications, proving they are genuine */
+    token: string;
+    resourceId: string;
+    /** ms since epoch */
+    expiration: number;
+}
+
+/**
+ * A calendar being watched for one account
+ */
+interface CalendarWatch {
+    accountId: string;
+    calendarId: string;
+    /** Latest access token of a subscriber */
+    accessToken: string;
+    listeners: Set<ChangeListener>;
+    mode: LiveUpdateMode;
+    channel?: WatchChannel;
+    /** Poll or renewal timer */
+    timer?: ReturnType<typeof setTimeout>;
+    /** Start of the last poll (RFC 3339) */
+    polledSince?: string;
+    /** Settles once the calendar is watched */
+    started: Promise<void>;
+    closed: boolean;
+}
+
+export class LiveUpdateHub {
+    private webhookUrl?: string;
+    private fetchImpl?: typeof fetch;
+    private pollIntervalMs: number;
+
+    /** Watched calendars, by `accountId|calendarId` */
+    private watches = new Map<string, CalendarWatch>();
+
+    /** Open channels, by channel ID */
+    private channels = new Map<string, { watch: CalendarWatch; channel: WatchChannel }>();
+
+    constructor(options: LiveUpdateHubOptions = {}) {
+        this.webhookUrl = options.webhookUrl;
+        this.fetchImpl = options.fetch;
+        this.pollIntervalMs = options.pollIntervalMs ?? POLL_INTERVAL_MS;
+    }
+
+    /**
+     * Listen for changes to calendars of an account
+     * @returns 'push' if every calendar has a watch channel, otherwise
+     * 'poll', and a function ending the subscription
+     */
+    async subscribe(
+        subscription: LiveSubscription,
+        listener: ChangeListener
+    ): Promise<{ mode: LiveUpdateMode; unsubscribe: () => void }> {
+        const watches = subscription.calendarIds.map(calendarId => {
+            const key = `${subscription.accountId}|${calendarId}`;
+            let watch = this.watches.get(key);
+            if (!watch) {
+                watch = this.createWatch(subscription.accountId, calendarId, subscription.accessToken);
+                this.watches.set(key, watch);
+            }
+            watch.accessToken = subscription.accessToken;
+            watch.listeners.add(listener);
+            return watch;
+        });
+
+        await Promise.all(watches.map(w => w.started));
+
+        const unsubscribe = () => {
+            for (const watch of watches) {
+                watch.listeners.delete(listener);
+                if (watch.listeners.size === 0) {
+                    this.closeWatch(watch);
+                }
+            }
+        };
+
+        return {
+            mode: watches.every(w => w.mode === 'push') ? 'push' : 'poll',
+            unsubscribe,
+        };
+    }
+
+    /**
+     * Handle a push notification posted by Google to the webhook route
+     * @returns false if it isn't for an open channel (or the token is wrong)
+     */
+    handleNotification(headers: Headers): boolean {
+        const entry = this.channels.get(headers.get('X-Goog-Channel-ID') ?? '');
+        if (!entry || headers.get('X-Goog-Channel-Token') !== entry.channel.token) {
+            return false;
+        }
+
+        // The first message only confirms the channel was opened
+        if (headers.get('X-Goog-Resource-State') !== 'sync') {
+            this.notify(entry.watch);
+        }
+        return true;
+    }
+
+    /**
+     * Stop watching everything
+     */
+    close(): void {
+        for (const watch of Array.from(this.watches.values())) {
+            this.closeWatch(watch);
+        }
+    }
+
+    // =========================================
+    // Watching
+    // =========================================
+
+    private createWatch(accountId: string, calendarId: string, accessToken: string): CalendarWatch {
+        const watch: CalendarWatch = {
+            accountId,
+            calendarId,
+            accessToken,
+            listeners: new Set(),
+            mode: 'poll',
+            started: Promise.resolve(),
+            closed: false,
+        };
+        watch.started = this.startWatch(watch);
+        return watch;
+    }
+
+    /**
+     * Open a watch channel, or start polling if that isn't possible
+     */
+    private async startWatch(watch: CalendarWatch): Promise<void> {
+        if (this.webhookUrl) {
+            try {
+                await this.openChannel(watch);
+                watch.mode = 'push';
+                return;
+            } catch (err) {
+                console.warn(`Watch channel unavailable for ${watch.calendarId}, polling:`, err);
+            }
+        }
+
+        watch.mode = 'poll';
+        watch.polledSince = new Date().toISOString();
+        this.schedulePoll(watch);
+    }
+
+    private async openChannel(watch: CalendarWatch): Promise<void> {
+        const channelId = crypto.randomUUID();
+        const token = crypto.randomUUID();
+
+        const response = await fetchGoogle(
+            `${GOOGLE_CALENDAR_API}/calendars/${encodeURIComponent(watch.calendarId)}/events/watch`,
+            {
+                method: 'POST',
+                headers: {
+                    Authorization: `Bearer ${watch.accessToken}`,
+                    'Content-Type': 'application/json',
+                },
+                body: JSON.stringify({
+                    id: channelId,
+                    type: 'web_hook',
+                    address: this.webhookUrl,
+                    token,
+                    params: { ttl: String(CHANNEL_TTL_S) },
+                }),
+            },
+            { fetch: this.fetchImpl }
+        );
+
+        if (!response.ok) {
+            throw new Error(`Watch request failed: ${response.status} ${await response.text()}`);
+        }
+
+        const data = await response.json();
+        const channel: WatchChannel = {
+            id: channelId,
+            token,
+            resourceId: data.resourceId,
+            expiration: Number(data.expiration) || Date.now() + CHANNEL_TTL_S * 1000,
+        };
+
+        // The watch may have been closed while Google answered
+        if (watch.closed) {
+            this.stopChannel(channel, watch.accessToken);
+            return;
+        }
+
+        const previous = watch.channel;
+        watch.channel = channel;
+        this.channels.set(channel.id, { watch, channel });
+        if (previous) {
+            this.stopChannel(previous, watch.accessToken);
+        }
+
+        clearTimeout(watch.timer);
+        watch.timer = setTimeout(() => {
+            // Renew; if that fails the calendar falls back to polling
+            this.openChannel(watch).catch(err => {
+                console.warn(`Renewing watch channel for ${watch.calendarId} failed, polling:`, err);
+                watch.mode = 'poll';
+                watch.polledSince = new Date().toISOString();
+                this.schedulePoll(watch);
+            });
+        }, Math.max(0, channel.expiration - Date.now() - RENEW_MARGIN_MS));
+    }
+
+    /**
+     * Close a channel; Google stops posting to it
+     */
+    private stopChannel(channel: WatchChannel, accessToken: string): void {
+        this.channels.delete(channel.id);
+        fetchGoogle(
+            `${GOOGLE_CALENDAR_API}/channels/stop`,
+            {
+                method: 'POST',
+                headers: {
+                    Authorization: `Bearer ${accessToken}`,
+                    'Content-Type': 'application/json',
+                },
+                body: JSON.stringify({ id: channel.id, resourceId: channel.resourceId }),
+            },
+            { fetch: this.fetchImpl }
+        ).catch(err => console.warn('Failed to stop watch channel:', err));
+    }
+
+    private closeWatch(watch: CalendarWatch): void {
+        watch.closed = true;
+        clearTimeout(watch.timer);
+        this.watches.delete(`${watch.accountId}|${watch.calendarId}`);
+        if (watch.channel) {
+            this.stopChannel(watch.channel, watch.accessToken);
+            watch.channel = undefined;
+        }
+    }
+
+    // =========================================
+    // Polling
+    // =========================================
+
+    private schedulePoll(watch: CalendarWatch): void {
+        clearTimeout(watch.timer);
+        if (watch.closed) return;
+
+        watch.timer = setTimeout(async () => {
+            await this.poll(watch);
+            if (!watch.closed && watch.mode === 'poll') {
+                this.schedulePoll(watch);
+            }
+        }, this.pollIntervalMs);
+    }
+
+    /**
+     * Ask Google whether any event of the calendar changed since the last poll
+     */
+    private async poll(watch: CalendarWatch): Promise<void> {
+        const now = new Date().toISOString();
+        const params = new URLSearchParams({
+            updatedMin: watch.polledSince ?? now,
+            showDeleted: 'true',
+            maxResults: '1',
+        });
+
+        try {
+            const response = await fetchGoogle(
+                `${GOOGLE_CALENDAR_API}/calendars/${encodeURIComponent(watch.calendarId)}/events?${params}`,
+                { headers: { Authorization: `Bearer ${watch.accessToken}` } },
+                { fetch: this.fetchImpl }
+            );
+            if (!response.ok) {
+                console.warn(`Polling ${watch.calendarId} failed:`, response.status);
+                return;
+            }
+
+            const data = await response.json();
+            watch.polledSince = now;
+            if (data.items?.length > 0) {
+                this.notify(watch);
+            }
+        } catch (err) {
+            console.warn(`Polling ${watch.calendarId} failed:`, err);
+        }
+    }
+
+    private notify(watch: CalendarWatch): void {
+        for (const listener of Array.from(watch.listeners)) {
+            listener(watch.calendarId);
+        }
+    }
+}
+
+let hub: LiveUpdateHub | null = null;
+
+/**
+ * The server's hub, configured from the environment
+ */
+export function getLiveUpdateHub(): LiveUpdateHub {
+    hub ??= new LiveUpdateHub({ webhookUrl: env.GOOGLE_WEBHOOK_URL || undefined });
+    return hub;
+}
+
+/**
+ * Stream a subscription's changes as Server-Sent Events: a `ready` event
+ * once the calendars are watched, then a `changed` event per change
+ */
+export function streamLiveUpdates(hub: LiveUpdateHub, subscription: LiveSubscription): ReadableStream<Uint8Array> {
+    const encoder = new TextEncoder();
+    let cancelled = false;
+    let cleanup = () => {};
+
+    return new ReadableStream<Uint8Array>({
+        async start(controller) {
+            let open = true;
+            const send = (text: string) => {
+                if (open) controller.enqueue(encoder.encode(text));
+            };
+
+            const { mode, unsubscribe } = await hub.subscribe(subscription, calendarId => {
+                send(encodeServerSentEvent('changed', { calendarIds: [calendarId] }));
+            });
+
+            // The client may have gone away while the calendars were being watched
+            if (cancelled || subscription.signal?.aborted) {
+                unsubscribe();
+                return;
+            }
+            send(encodeServerSentEvent('ready', { mode }));
+
+            const heartbeat = setInterval(() => send(': keep-alive\n\n'), HEARTBEAT_MS);
+            const lifetime = setTimeout(() => close(), STREAM_LIFETIME_MS);
+
+            cleanup = () => {
+                open = false;
+                unsubscribe();
+                clearInterval(heartbeat);
+                clearTimeout(lifetime);
+            };
+            const close = () => {
+                if (!open) return;
+                cleanup();
+                controller.close();
+            };
+
+            subscription.signal?.addEventListener('abort', () => cleanup(), { once: true });
+        },
+        cancel() {
+            cancelled = true;
+            cleanup();
+        },
+    });
+}
@@ -0,0 +1,130 @@
+/**
+ * Minimal XML reader for WebDAV/CalDAV multistatus responses
+ *
+ * Builds a lightweight element tree keyed by local names (namespace
+ * prefixes are dropped), which is all the DAV responses we consume need.
+ * Not a general-purpose parser: DTDs and processing instructions are skipped.
+ */
+
+export interface XmlElement {
+    /** Local name without namespace prefix (e.g. "response" for "d:response") */
+    name: string;
+    attributes: Record<string, string>;
+    children: XmlElement[];
+    /** Concatenated text content of this element (not descendants) */
+    text: string;
+}
+
+const TOKEN_PATTERN = /<!\[CDATA\[([\s\S]*?)\]\]>|<!--[\s\S]*?-->|<\?[\s\S]*?\?>|<!DOCTYPE[^>]*>|<(\/?)([^\s>/]+)((?:[^>"']|"[^"]*"|'[^']*')*?)(\/?)>|([^<]+)/g;
+const ATTRIBUTE_PATTERN = /([^\s=]+)\s*=\s*("([^"]*)"|'([^']*)')/g;
+
+function localName(name: string): string {
+    const colon = name.indexOf(':');
+    return colon >= 0 ? name.slice(colon + 1) : name;
+}
+
+/**
+ * Decode the predefined and numeric XML entities
+ */
+export function decodeXmlEntities(text: string): string {
+    return text.replace(/&(#x[0-9a-f]+|#\d+|lt|gt|amp|quot|apos);/gi, (_, entity: string) => {
+        switch (entity.toLowerCase()) {
+            case 'lt': return '<';
+            case 'gt': return '>';
+            case 'amp': return '&';
+            case 'quot': return '"';
+            case 'apos': return "'";
+        }
+        const code = entity[1] === 'x' || entity[1] === 'X'
+            ? parseInt(entity.slice(2), 16)
+            : parseInt(entity.slice(1), 10);
+        return String.fromCodePoint(code);
+    });
+}
+
+/**
+ * Escape text for inclusion in an XML document
+ */
+export function escapeXml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+}
+
+/**
+ * Parse an XML document and return its root element
+ * @throws Error if the document has no root element
+ */
+export function parseXml(xml: string): XmlElement {
+    const root: XmlElement = { name: '#document', attributes: {}, children: [], text: '' };
+    const stack: XmlElement[] = [root];
+
+    for (const match of xml.matchAll(TOKEN_PATTERN)) {
+        const [, cdata, closing, tagName, attributeText, selfClosing, text] = match;
+        const current = stack[stack.length - 1];
+
+        if (cdata !== undefined) {
+            current.text += cdata;
+        } else if (text !== undefined) {
+            current.text += decodeXmlEntities(text);
+        } else if (tagName !== undefined) {
+            if (closing) {
+                if (stack.length > 1) stack.pop();
+                continue;
+            }
+
+            const attributes: Record<string, string> = {};
+            for (const attr of (attributeText || '').matchAll(ATTRIBUTE_PATTERN)) {
+                attributes[localName(attr[1])] = decodeXmlEntities(attr[3] ?? attr[4] ?? '');
+            }
+
+            const element: XmlElement = {
+                name: localName(tagName),
+                attributes,
+                children: [],
+                text: '',
+            };
+            current.children.push(element);
+            if (!selfClosing) stack.push(element);
+        }
+    }
+
+    const documentElement = root.children[0];
+    if (!documentElement) {
+        throw new Error('XML document has no root element');
+    }
+    return documentElement;
+}
+
+/**
+ * Direct children with the given local name
+ */
+export function childElements(element: XmlElement, name: string): XmlElement[] {
+    return element.children.filter(c => c.name === name);
+}
+
+/**
+ * All descendants with the given local name (depth-first)
+ */
+export function findElements(element: XmlElement, name: string): XmlElement[] {
+    const results: XmlElement[] = [];
+    for (const child of element.children) {
+        if (child.name === name) results.push(child);
+        results.push(...findElements(child, name));
+    }
+    return results;
+}
+
+/**
+ * First descendant with the given local name
+ */
+export function findElement(element: XmlElement, name: string): XmlElement | undefined {
+    for (const child of element.children) {
+        if (child.name === name) return child;
+        const nested = findElement(child, name);
+        if (nested) return nested;
+    }
+    return undefined;
+}
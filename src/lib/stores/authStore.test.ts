@@ -0,0 +1,59 @@
+/**
+ * Auth Store Unit Tests
+ *
+ * Tests connecting and disconnecting several Google accounts.
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { get } from 'svelte/store';
+import { authStore, GOOGLE_WRITE_SCOPE } from './authStore';
+
+describe('authStore', () => {
+    beforeEach(() => {
+        for (const account of get(authStore).accounts) {
+            authStore.disconnect(account.id);
+        }
+    });
+
+    it('should keep several accounts connected', () => {
+        authStore.connect('111', 'work@example.com', 1000);
+        authStore.connect('222', 'me@example.com', 2000, [GOOGLE_WRITE_SCOPE]);
+
+        expect(get(authStore).accounts.map(a => a.email)).toEqual(['work@example.com', 'me@example.com']);
+        expect(authStore.hasWriteAccess('111')).toBe(false);
+        expect(authStore.hasWriteAccess('222')).toBe(true);
+    });
+
+    it('should update an account that connects again', () => {
+        authStore.connect('111', 'work@example.com', 1000);
+        authStore.requireReconsent('111');
+        authStore.connect('111', 'work@example.com', 5000, [GOOGLE_WRITE_SCOPE]);
+
+        const [account] = get(authStore).accounts;
+        expect(get(authStore).accounts).toHaveLength(1);
+        expect(account.expiresAt).toBe(5000);
+        expect(account.needsReconsent).toBe(false);
+    });
+
+    it('should track tokens and reconsent per account', () => {
+        authStore.connect('111', 'work@example.com', 1000);
+        authStore.connect('222', 'me@example.com', 2000);
+
+        authStore.updateToken('111', 3000);
+        authStore.requireReconsent('222');
+
+        expect(authStore.getAccount('111')?.expiresAt).toBe(3000);
+        expect(authStore.getAccount('111')?.needsReconsent).toBe(false);
+        expect(authStore.getAccount('222')?.needsReconsent).toBe(true);
+    });
+
+    it('should sign accounts out independently', () => {
+        authStore.connect('111', 'work@example.com', 1000);
+        authStore.connect('222', 'me@example.com', 2000);
+
+        authStore.disconnect('111');
+
+        expect(get(authStore).accounts.map(a => a.id)).toEqual(['222']);
+        expect(authStore.getAccount('111')).toBeUndefined();
+    });
+});
@@ -1,24 +1,38 @@
 /**
  * Auth Store - Manages Google Calendar authentication state
- * 
+ *
+ * Tracks every connected Google account; each one is served by its own
+ * GoogleCalendarProvider instance.
  * Uses Svelte 5 runes for reactivity.
  */
 
 import { writable } from 'svelte/store';
 
-export interface GoogleAuthState {
-    isConnected: boolean;
-    email: string | null;
-    accessToken: string | null;
+/**
+ * A connected Google account
+ */
+export interface GoogleAccount {
+    /** Google user ID; names the account's token cookies on the server */
+    id: string;
+    email: string;
     expiresAt: number | null;
+    /** OAuth scopes granted by the user (space-separated in the token response) */
+    scopes: string[];
+    /** Set when the refresh token was rejected and the user must sign in again */
+    needsReconsent: boolean;
+}
+
+export interface GoogleAuthState {
+    /** Connected accounts, in the order they were added */
+    accounts: GoogleAccount[];
     selectedCalendarIds: string[];
 }
 
+/** Scope required for creating, editing and deleting events */
+export const GOOGLE_WRITE_SCOPE = 'https://www.googleapis.com/auth/calendar.events';
+
 const initialState: GoogleAuthState = {
-    isConnected: false,
-    email: null,
-    accessToken: null,
-    expiresAt: null,
+    accounts: [],
     selectedCalendarIds: [],
 };
 
@@ -26,29 +40,78 @@ const initialState: GoogleAuthState = {
  * Create the auth store
  */
 function createAuthStore() {
-    const { subscribe, set, update } = writable<GoogleAuthState>(initialState);
+    const { subscribe, update } = writable<GoogleAuthState>(initialState);
+
+    /**
+     * Apply a change to one account (unknown IDs are ignored)
+     */
+    function updateAccount(accountId: string, change: (account: GoogleAccount) => GoogleAccount) {
+        update(state => ({
+            ...state,
+            accounts: state.accounts.map(a => (a.id === accountId ? change(a) : a)),
+        }));
+    }
+
+    /**
+     * Read an account from the current state
+     */
+    function getAccount(accountId: string): GoogleAccount | undefined {
+        let account: GoogleAccount | undefined;
+        const unsubscribe = subscribe(state => {
+            account = state.accounts.find(a => a.id === accountId);
+        });
+        unsubscribe();
+        return account;
+    }
 
     return {
         subscribe,
 
+        getAccount,
+
         /**
-         * Set connected state after successful OAuth
+         * Add an account after successful OAuth, or update it if already connected
          */
-        connect(email: string, accessToken: string, expiresAt: number) {
+        connect(accountId: string, email: string, expiresAt: number, scopes: string[] = []) {
+            const account: GoogleAccount = { id: accountId, email, expiresAt, scopes, needsReconsent: false };
             update(state => ({
                 ...state,
-                isConnected: true,
-                email,
-                accessToken,
+                accounts: state.accounts.some(a => a.id === accountId)
+                    ? state.accounts.map(a => (a.id === accountId ? account : a))
+                    : [...state.accounts, account],
+            }));
+        },
+
+        /**
+         * Record a refreshed access token
+         */
+        updateToken(accountId: string, expiresAt: number, scopes?: string[]) {
+            updateAccount(accountId, account => ({
+                ...account,
                 expiresAt,
+                scopes: scopes && scopes.length > 0 ? scopes : account.scopes,
+                needsReconsent: false,
             }));
         },
 
         /**
-         * Disconnect and clear state
+         * Flag that the account's session can't be refreshed and consent is needed
          */
-        disconnect() {
-            set(initialState);
+        requireReconsent(accountId: string) {
+            updateAccount(accountId, account => ({
+                ...account,
+                needsReconsent: true,
+            }));
+        },
+
+        /**
+         * Remove one account; the others stay connected
+         */
+        disconnect(accountId: string) {
+            update(state => ({
+                ...state,
+                accounts: state.accounts.filter(a => a.id !== accountId),
+            }));
         },
 
         /**
@@ -78,15 +141,18 @@ function createAuthStore() {
         },
 
         /**
-         * Check if token is expired
+         * Check if the user granted write access for an account
          */
-        isTokenExpired(): boolean {
-            let expired = true;
-            const unsubscribe = subscribe(state => {
-                expired = state.expiresAt ? Date.now() > state.expiresAt : true;
-            });
-            unsubscribe();
-            return expired;
+        hasWriteAccess(accountId: string): boolean {
+            return getAccount(accountId)?.scopes.includes(GOOGLE_WRITE_SCOPE) ?? false;
+        },
+
+        /**
+         * Check if an account's token is expired
+         */
+        isTokenExpired(accountId: string): boolean {
+            const expiresAt = getAccount(accountId)?.expiresAt;
+            return expiresAt ? Date.now() > expiresAt : true;
         },
     };
 }
@@ -102,16 +168,19 @@ export function loadAuthState(): void {
     const stored = localStorage.getItem('google_auth');
     if (stored) {
         try {
-            const state = JSON.parse(stored) as GoogleAuthState;
-            // Only restore if not expired
-            if (state.expiresAt && Date.now() < state.expiresAt) {
-                authStore.connect(
-                    state.email || '',
-                    state.accessToken || '',
-                    state.expiresAt
-                );
-                authStore.setSelectedCalendars(state.selectedCalendarIds);
+            const state = JSON.parse(stored) as Partial<GoogleAuthState>;
+            // Single-account states from older versions have no account ID to
+            // find their token cookies by; those users simply connect again
+            if (!Array.isArray(state.accounts)) return;
+
+            for (const account of state.accounts) {
+                // Expired access tokens are refreshed server-side on the next request
+                if (account.id && account.expiresAt) {
+                    authStore.connect(account.id, account.email, account.expiresAt, account.scopes || []);
+                    if (account.needsReconsent) authStore.requireReconsent(account.id);
+                }
             }
+            authStore.setSelectedCalendars(state.selectedCalendarIds || []);
         } catch (e) {
             console.error('Failed to parse stored auth state:', e);
         }
@@ -52,6 +52,18 @@ function createCalendarStore() {
             }));
         },
 
+        /**
+         * Add calendars to the selection without touching existing ones
+         * (e.g. after importing a file)
+         */
+        addSelected(calendarIds: string[]) {
+            update(state => ({
+                ...state,
+                selected: new Set([...state.selected, ...calendarIds]),
+                visible: new Set([...state.visible, ...calendarIds]),
+            }));
+        },
+
         /**
          * Toggle visibility of a calendar (eye icon)
          */
@@ -0,0 +1,80 @@
+/**
+ * Provider Health Store Unit Tests
+ *
+ * Tests per-calendar status, provider summaries and failed chunk bookkeeping.
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { get } from 'svelte/store';
+import { providerHealthStore, calendarHealth } from './providerHealthStore';
+
+const CHUNK = { startTime: 0, endTime: 1000 };
+
+describe('providerHealthStore', () => {
+    beforeEach(() => {
+        providerHealthStore.reset();
+    });
+
+    it('should track calendars of a provider separately', () => {
+        providerHealthStore.recordResult('caldav', ['home', 'work'], {
+            data: [],
+            hasMore: false,
+            error: 'Failed to fetch events (work: 500)',
+            calendarErrors: [{ calendarId: 'work', message: 'work: 500', status: 500 }],
+        }, CHUNK);
+
+        const provider = get(providerHealthStore).providers.caldav;
+        expect(provider.calendars.home.status).toBe('ok');
+        expect(provider.calendars.home.lastSuccess).not.toBeNull();
+        expect(provider.calendars.work).toMatchObject({ status: 'degraded', error: 'work: 500', failedChunks: [CHUNK] });
+        expect(provider.status).toBe('degraded');
+    });
+
+    it('should fail every calendar when a request fails without details', () => {
+        providerHealthStore.recordResult('ics', ['a', 'b'], { data: [], hasMore: false, error: 'boom' });
+
+        const { calendars } = get(providerHealthStore).providers.ics;
+        expect(calendars.a.status).toBe('degraded');
+        expect(calendars.b.status).toBe('degraded');
+    });
+
+    it('should report expired credentials', () => {
+        providerHealthStore.recordFailure('google:1', 'primary', 'primary: 401', 401);
+
+        expect(get(providerHealthStore).providers['google:1'].status).toBe('auth-expired');
+    });
+
+    it('should treat rate limits sent as 403 as degraded, not expired', () => {
+        providerHealthStore.recordResult('google:1', ['primary', 'team'], {
+            data: [],
+            hasMore: false,
+            calendarErrors: [
+                { calendarId: 'primary', message: 'primary: 403', status: 403, code: 'rate_limited' },
+                { calendarId: 'team', message: 'team: 403', status: 403, code: 'forbidden' },
+            ],
+        });
+
+        const { calendars } = get(providerHealthStore).providers['google:1'];
+        expect(calendars.primary.status).toBe('degraded');
+        expect(calendars.team.status).toBe('auth-expired');
+    });
+
+    it('should recover once all failed chunks have loaded', () => {
+        const other = { startTime: 1000, endTime: 2000 };
+        providerHealthStore.recordFailure('caldav', 'home', 'home: 500', 500, CHUNK);
+        providerHealthStore.recordFailure('caldav', 'home', 'home: 500', 500, other);
+
+        providerHealthStore.recordSuccess('caldav', ['home'], CHUNK);
+        expect(get(calendarHealth).home).toMatchObject({ status: 'degraded', failedChunks: [other] });
+
+        providerHealthStore.recordSuccess('caldav', ['home'], other);
+        expect(get(calendarHealth).home).toMatchObject({ status: 'ok', error: null, failedChunks: [] });
+    });
+
+    it('should report the worst status of a calendar shared by providers', () => {
+        providerHealthStore.recordSuccess('google:1', ['shared']);
+        providerHealthStore.recordFailure('google:2', 'shared', 'shared: 503', 503);
+
+        expect(get(calendarHealth).shared).toMatchObject({ status: 'degraded', providerId: 'google:2' });
+    });
+});
@@ -0,0 +1,248 @@
+/**
+ * Provider Health Store - Tracks load status per provider and calendar
+ *
+ * Records which calendars loaded, which failed (and why), and which chunks
+ * need retrying, so the UI can surface partial results instead of a single
+ * error string.
+ */
+
+import { writable, derived } from 'svelte/store';
+import type { CalendarError, FetchResult, ProviderErrorCode } from '$lib/api/CalendarProvider';
+
+/**
+ * Health of a calendar or provider
+ * - ok: last load succeeded
+ * - degraded: loads fail (server or provider error)
+ * - auth-expired: the provider rejected our credentials
+ * - offline: the browser has no network connection
+ */
+export type HealthStatus = 'ok' | 'degraded' | 'auth-expired' | 'offline';
+
+/**
+ * A chunk of time that failed to load
+ */
+export interface FailedChunk {
+    startTime: number;
+    endTime: number;
+}
+
+/**
+ * Health of a single calendar
+ */
+export interface CalendarHealth {
+    status: HealthStatus;
+    /** Time of the last successful load */
+    lastSuccess: number | null;
+    /** Last error message, if the calendar is failing */
+    error: string | null;
+    /** Chunks that failed and haven't loaded since */
+    failedChunks: FailedChunk[];
+}
+
+/**
+ * Health of a provider, summarised from its calendars
+ */
+export interface ProviderHealth {
+    status: HealthStatus;
+    lastSuccess: number | null;
+    error: string | null;
+    calendars: Record<string, CalendarHealth>;
+}
+
+/**
+ * State of all providers, by registry ID
+ */
+export interface ProviderHealthState {
+    providers: Record<string, ProviderHealth>;
+}
+
+/** Statuses from least to most severe */
+const SEVERITY: HealthStatus[] = ['ok', 'degraded', 'offline', 'auth-expired'];
+
+const initialState: ProviderHealthState = {
+    providers: {},
+};
+
+/**
+ * Classify a failure from its error code, falling back on its HTTP status
+ * (undefined for network errors). Google answers rate limits and used-up
+ * quotas with 403, so the status alone would call them expired sign-ins.
+ */
+export function getFailureStatus(httpStatus?: number, code?: ProviderErrorCode): HealthStatus {
+    if (httpStatus === undefined && typeof navigator !== 'undefined' && !navigator.onLine) {
+        return 'offline';
+    }
+    switch (code) {
+        case 'rate_limited':
+        case 'quota_exceeded':
+        case 'unavailable':
+            return 'degraded';
+        case 'unauthenticated':
+            return 'auth-expired';
+    }
+    if (httpStatus === 401 || httpStatus === 403) {
+        return 'auth-expired';
+    }
+    return 'degraded';
+}
+
+function isSameChunk(a: FailedChunk, b: FailedChunk): boolean {
+    return a.startTime === b.startTime && a.endTime === b.endTime;
+}
+
+/**
+ * Summarise a provider from its calendars: the worst status, the latest
+ * success and the error of the worst calendar
+ */
+function summarise(calendars: Record<string, CalendarHealth>): ProviderHealth {
+    const all = Object.values(calendars);
+    const worst = all.reduce<CalendarHealth | null>(
+        (acc, c) => !acc || SEVERITY.indexOf(c.status) > SEVERITY.indexOf(acc.status) ? c : acc,
+        null
+    );
+    const successes = all.map(c => c.lastSuccess).filter((t): t is number => t !== null);
+
+    return {
+        status: worst?.status ?? 'ok',
+        lastSuccess: successes.length > 0 ? Math.max(...successes) : null,
+        error: worst?.error ?? null,
+        calendars,
+    };
+}
+
+function createProviderHealthStore() {
+    const { subscribe, set, update } = writable<ProviderHealthState>(initialState);
+
+    /**
+     * Apply a change to one calendar of a provider
+     */
+    function updateCalendar(
+        providerId: string,
+        calendarId: string,
+        change: (health: CalendarHealth) => CalendarHealth
+    ) {
+        update(state => {
+            const calendars = state.providers[providerId]?.calendars ?? {};
+            const current: CalendarHealth = calendars[calendarId] ?? {
+                status: 'ok',
+                lastSuccess: null,
+                error: null,
+                failedChunks: [],
+            };
+            return {
+                providers: {
+                    ...state.providers,
+                    [providerId]: summarise({ ...calendars, [calendarId]: change(current) }),
+                },
+            };
+        });
+    }
+
+    return {
+        subscribe,
+
+        /**
+         * Record that calendars loaded, optionally for a chunk
+         */
+        recordSuccess(providerId: string, calendarIds: string[], chunk?: FailedChunk) {
+            const now = Date.now();
+            for (const calendarId of calendarIds) {
+                updateCalendar(providerId, calendarId, health => {
+                    const failedChunks = chunk
+                        ? health.failedChunks.filter(c => !isSameChunk(c, chunk))
+                        : health.failedChunks;
+                    const failing = failedChunks.length > 0;
+                    return {
+                        status: failing ? health.status : 'ok',
+                        lastSuccess: now,
+                        error: failing ? health.error : null,
+                        failedChunks,
+                    };
+                });
+            }
+        },
+
+        /**
+         * Record that a calendar failed to load, optionally for a chunk
+         * @param httpStatus HTTP status of the failure, undefined for network errors
+         */
+        recordFailure(
+            providerId: string,
+            calendarId: string,
+            error: string,
+            httpStatus?: number,
+            chunk?: FailedChunk,
+            code?: ProviderErrorCode
+        ) {
+            updateCalendar(providerId, calendarId, health => ({
+                ...health,
+                status: getFailureStatus(httpStatus, code),
+                error,
+                failedChunks: chunk && !health.failedChunks.some(c => isSameChunk(c, chunk))
+                    ? [...health.failedChunks, { startTime: chunk.startTime, endTime: chunk.endTime }]
+                    : health.failedChunks,
+            }));
+        },
+
+        /**
+         * Record the outcome of a request for some calendars. Without
+         * per-calendar errors a failed request counts against all of them.
+         */
+        recordResult(
+            providerId: string,
+            calendarIds: string[],
+            result: FetchResult<unknown>,
+            chunk?: FailedChunk
+        ) {
+            const failures: CalendarError[] = result.calendarErrors ?? (result.error
+                ? calendarIds.map(calendarId => ({ calendarId, message: result.error as string }))
+                : []);
+            const failedIds = new Set(failures.map(f => f.calendarId));
+
+            for (const failure of failures) {
+                this.recordFailure(providerId, failure.calendarId, failure.message, failure.status, chunk, failure.code);
+            }
+            this.recordSuccess(providerId, calendarIds.filter(id => !failedIds.has(id)), chunk);
+        },
+
+        /**
+         * Forget a provider (e.g., after sign-out)
+         */
+        remove(providerId: string) {
+            update(state => {
+                const providers = { ...state.providers };
+                delete providers[providerId];
+                return { providers };
+            });
+        },
+
+        /**
+         * Reset to initial state
+         */
+        reset() {
+            set(initialState);
+        },
+    };
+}
+
+export const providerHealthStore = createProviderHealthStore();
+
+/**
+ * Derived store: health by calendar ID. A calendar served by several
+ * providers (shared between Google accounts) reports its worst status.
+ */
+export const calendarHealth = derived(
+    providerHealthStore,
+    $state => {
+        const byCalendar: Record<string, CalendarHealth & { providerId: string }> = {};
+        for (const [providerId, provider] of Object.entries($state.providers)) {
+            for (const [calendarId, health] of Object.entries(provider.calendars)) {
+                const existing = byCalendar[calendarId];
+                if (!existing || SEVERITY.indexOf(health.status) > SEVERITY.indexOf(existing.status)) {
+                    byCalendar[calendarId] = { ...health, providerId };
+                }
+            }
+        }
+        return byCalendar;
+    }
+);
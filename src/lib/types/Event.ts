@@ -34,7 +34,7 @@ export const DEFAULT_LANES: CalendarLane[] = [
  * IMPORTANT: All times are in milliseconds since Unix epoch.
  * Use Date.getTime() to convert JavaScript Dates.
  * 
- * This interface supports Google Calendar, Apple Calendar, and manual events.
+ * This interface supports Google Calendar, Apple Calendar, CalDAV, and manual events.
  */
 
 export interface CalendarEvent {
@@ -75,7 +75,13 @@ export interface CalendarEvent {
     category?: 'work' | 'personal' | 'health' | 'travel' | 'social' | 'other' | 'historical' | string;
 
     /** Source calendar */
-    source: 'mock' | 'google' | 'apple' | 'manual';
+    source: 'mock' | 'google' | 'apple' | 'caldav' | 'manual';
+
+    /** Registry ID of the provider the event was loaded from */
+    providerId?: string;
+
+    /** ID of the calendar the event belongs to (set by the event loader) */
+    calendarId?: string;
 
     /** Calendar lane ID this event belongs to */
     calendarLaneId?: string;
@@ -111,6 +117,14 @@ export interface CalendarEvent {
     recurrenceRule?: string;
     /** Parent event ID for recurring event instances */
     recurringEventId?: string;
+    /** Start of the occurrence a modified instance replaces (RECURRENCE-ID), ms since epoch */
+    originalStartTime?: number;
+    /** Excluded occurrence start times (EXDATE), ms since epoch */
+    recurrenceExceptions?: number[];
+    /** Additional occurrence start times (RDATE), ms since epoch */
+    recurrenceDates?: number[];
+    /** IANA time zone of the start time; recurrences keep their wall-clock time in it */
+    timeZone?: string;
 
     // --- Reminders ---
 
@@ -139,6 +153,8 @@ export interface CalendarEvent {
     allDay?: boolean;
     /** Event status */
     status?: 'confirmed' | 'tentative' | 'cancelled';
+    /** Provider version tag, sent back on writes to detect conflicting edits */
+    etag?: string;
 }
 
 /**
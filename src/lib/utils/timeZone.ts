@@ -0,0 +1,154 @@
+/**
+ * Time zone helpers built on Intl.DateTimeFormat
+ *
+ * Converts wall-clock times in an IANA time zone (e.g. "Europe/Amsterdam")
+ * to epoch milliseconds and back, without pulling in a tz database.
+ */
+
+/**
+ * Wall-clock date/time fields (month is 1-12)
+ */
+export interface WallClockTime {
+    year: number;
+    month: number;
+    day: number;
+    hour: number;
+    minute: number;
+    second: number;
+}
+
+/** Cached formatters - creating Intl.DateTimeFormat is expensive */
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+    let formatter = formatterCache.get(timeZone);
+    if (!formatter) {
+        formatter = new Intl.DateTimeFormat('en-US', {
+            timeZone,
+            hourCycle: 'h23',
+            era: 'short',
+            year: 'numeric',
+            month: 'numeric',
+            day: 'numeric',
+            hour: 'numeric',
+            minute: 'numeric',
+            second: 'numeric',
+        });
+        formatterCache.set(timeZone, formatter);
+    }
+    return formatter;
+}
+
+/**
+ * Check whether a time zone name is understood by the runtime
+ */
+export function isValidTimeZone(timeZone: string | undefined): timeZone is string {
+    if (!timeZone) return false;
+    try {
+        getFormatter(timeZone);
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Build a UTC timestamp from wall-clock fields.
+ * Unlike Date.UTC, years 0-99 are not mapped to 1900-1999.
+ */
+export function wallClockToUtc(time: WallClockTime): number {
+    const date = new Date(0);
+    date.setUTCFullYear(time.year, time.month - 1, time.day);
+    date.setUTCHours(time.hour, time.minute, time.second, 0);
+    return date.getTime();
+}
+
+/**
+ * Read the wall-clock fields of a timestamp in a time zone.
+ * Falls back to the runtime's local zone if no zone is given.
+ */
+export function epochToWallClock(ms: number, timeZone?: string): WallClockTime {
+    if (!isValidTimeZone(timeZone)) {
+        const date = new Date(ms);
+        return {
+            year: date.getFullYear(),
+            month: date.getMonth() + 1,
+            day: date.getDate(),
+            hour: date.getHours(),
+            minute: date.getMinutes(),
+            second: date.getSeconds(),
+        };
+    }
+
+    const fields: Record<string, string> = {};
+    for (const part of getFormatter(timeZone).formatToParts(new Date(ms))) {
+        fields[part.type] = part.value;
+    }
+
+    // Intl reports BCE years as positive numbers with era "BC"
+    let year = parseInt(fields.year, 10);
+    if (fields.era === 'BC' || fields.era === 'B') {
+        year = 1 - year;
+    }
+
+    return {
+        year,
+        month: parseInt(fields.month, 10),
+        day: parseInt(fields.day, 10),
+        hour: parseInt(fields.hour, 10),
+        minute: parseInt(fields.minute, 10),
+        second: parseInt(fields.second, 10),
+    };
+}
+
+/**
+ * Offset of a time zone from UTC at the given instant, in milliseconds
+ */
+export function getTimeZoneOffset(ms: number, timeZone?: string): number {
+    const wall = epochToWallClock(ms, timeZone);
+    // Drop sub-second precision so the comparison is exact
+    const whole = Math.floor(ms / 1000) * 1000;
+    return wallClockToUtc(wall) - whole;
+}
+
+/**
+ * Convert wall-clock fields in a time zone to epoch milliseconds.
+ *
+ * Without a (valid) time zone the fields are treated as floating time
+ * in the runtime's local zone. Times that fall into a DST gap are
+ * shifted forward by the length of the gap.
+ */
+export function wallClockToEpoch(time: WallClockTime, timeZone?: string): number {
+    if (!isValidTimeZone(timeZone)) {
+        const date = new Date(0);
+        date.setFullYear(time.year, time.month - 1, time.day);
+        date.setHours(time.hour, time.minute, time.second, 0);
+        return date.getTime();
+    }
+
+    const asUtc = wallClockToUtc(time);
+
+    // First guess using the offset at the naive instant, then correct once
+    // in case that instant sits on the other side of a DST transition
+    const firstOffset = getTimeZoneOffset(asUtc, timeZone);
+    const guess = asUtc - firstOffset;
+    const secondOffset = getTimeZoneOffset(guess, timeZone);
+    if (secondOffset === firstOffset) {
+        return guess;
+    }
+
+    const corrected = asUtc - secondOffset;
+    if (getTimeZoneOffset(corrected, timeZone) === secondOffset) {
+        return corrected;
+    }
+
+    // Neither offset reproduces the wall-clock time: it is inside a gap
+    return asUtc - Math.min(firstOffset, secondOffset);
+}
+
+/**
+ * Start of the calendar day containing the given date fields, in a time zone
+ */
+export function startOfDayInZone(year: number, month: number, day: number, timeZone?: string): number {
+    return wallClockToEpoch({ year, month, day, hour: 0, minute: 0, second: 0 }, timeZone);
+}
@@ -0,0 +1,26 @@
+/**
+ * CalDAV Proxy - Calendars
+ *
+ * Discovers calendar collections on the configured CalDAV server.
+ */
+
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { CalDAVError, getCalDAVClient } from '$lib/server/caldav';
+
+export const GET: RequestHandler = async () => {
+    const client = getCalDAVClient();
+
+    if (!client) {
+        return json({ error: 'CalDAV not configured' }, { status: 503 });
+    }
+
+    try {
+        const items = await client.discoverCalendars();
+        return json({ items });
+    } catch (err) {
+        console.error('CalDAV discovery error:', err);
+        const status = err instanceof CalDAVError ? err.status : 500;
+        return json({ error: 'Failed to discover calendars' }, { status });
+    }
+};
@@ -0,0 +1,37 @@
+/**
+ * CalDAV Proxy - Changes
+ *
+ * Runs a sync-collection REPORT and returns changed objects, deleted hrefs
+ * and the next sync token. Responds 410 when the token is no longer valid.
+ */
+
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { CalDAVError, getCalDAVClient } from '$lib/server/caldav';
+
+export const GET: RequestHandler = async ({ url }) => {
+    const client = getCalDAVClient();
+
+    if (!client) {
+        return json({ error: 'CalDAV not configured' }, { status: 503 });
+    }
+
+    const calendarId = url.searchParams.get('calendarId');
+    const syncToken = url.searchParams.get('syncToken') || '';
+
+    if (!calendarId) {
+        return json({ error: 'calendarId required' }, { status: 400 });
+    }
+
+    try {
+        const result = await client.syncCollection(calendarId, syncToken);
+        return json(result);
+    } catch (err) {
+        if (err instanceof CalDAVError && err.invalidSyncToken) {
+            return json({ error: 'Sync token expired' }, { status: 410 });
+        }
+        console.error('CalDAV sync error:', err);
+        const status = err instanceof CalDAVError ? err.status : 500;
+        return json({ error: 'Failed to sync calendar' }, { status });
+    }
+};
@@ -0,0 +1,39 @@
+/**
+ * CalDAV Proxy - Events
+ *
+ * Runs a calendar-query REPORT for a time range and returns the raw
+ * iCalendar objects. Parsing happens client-side (shared with .ics import).
+ */
+
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { CalDAVError, getCalDAVClient } from '$lib/server/caldav';
+
+export const GET: RequestHandler = async ({ url }) => {
+    const client = getCalDAVClient();
+
+    if (!client) {
+        return json({ error: 'CalDAV not configured' }, { status: 503 });
+    }
+
+    const calendarId = url.searchParams.get('calendarId');
+    const timeMin = url.searchParams.get('timeMin');
+    const timeMax = url.searchParams.get('timeMax');
+
+    if (!calendarId || !timeMin || !timeMax) {
+        return json({ error: 'calendarId, timeMin and timeMax required' }, { status: 400 });
+    }
+
+    try {
+        const items = await client.queryEvents(
+            calendarId,
+            new Date(timeMin).getTime(),
+            new Date(timeMax).getTime()
+        );
+        return json({ items });
+    } catch (err) {
+        console.error('CalDAV events error:', err);
+        const status = err instanceof CalDAVError ? err.status : 500;
+        return json({ error: 'Failed to fetch events' }, { status });
+    }
+};
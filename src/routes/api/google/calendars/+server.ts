@@ -1,38 +1,40 @@
 /**
  * Google Calendar API Proxy - Calendars
  * 
- * Proxies requests to Google Calendar API using tokens from cookies.
+ * Proxies requests to Google Calendar API using the token cookie of the
+ * account given in `?account=<id>`. Rate limits are retried with backoff;
+ * errors carry a ProviderErrorCode (see $lib/server/googleApi).
  */
 
 import { json } from '@sveltejs/kit';
+import { getRequestAccessToken } from '$lib/server/googleAuth';
+import { errorResponse, fetchGoogle, googleErrorResponse } from '$lib/server/googleApi';
 import type { RequestHandler } from './$types';
 
 const GOOGLE_CALENDAR_API = 'https://www.googleapis.com/calendar/v3';
 
-export const GET: RequestHandler = async ({ cookies }) => {
-    const accessToken = cookies.get('google_access_token');
+export const GET: RequestHandler = async ({ url, cookies }) => {
+    const accessToken = getRequestAccessToken(url, cookies);
 
     if (!accessToken) {
-        return json({ error: 'Not authenticated' }, { status: 401 });
+        return errorResponse('Not authenticated', 'unauthenticated', 401);
     }
 
     try {
-        const response = await fetch(`${GOOGLE_CALENDAR_API}/users/me/calendarList`, {
+        const response = await fetchGoogle(`${GOOGLE_CALENDAR_API}/users/me/calendarList`, {
             headers: {
                 Authorization: `Bearer ${accessToken}`,
             },
         });
 
         if (!response.ok) {
-            const error = await response.text();
-            console.error('Calendar API error:', error);
-            return json({ error: 'Failed to fetch calendars' }, { status: response.status });
+            return googleErrorResponse(response, 'Failed to fetch calendars');
         }
 
         const data = await response.json();
         return json(data);
     } catch (err) {
         console.error('Calendar proxy error:', err);
-        return json({ error: 'Internal error' }, { status: 500 });
+        return errorResponse('Internal error', 'internal', 500);
     }
 };
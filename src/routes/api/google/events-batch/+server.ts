@@ -0,0 +1,46 @@
+/**
+ * Google Calendar API Proxy - Batched events
+ *
+ * GET with several `calendarId` parameters and a `timeMin`/`timeMax` range
+ * loads all calendars concurrently (following pagination) using the token
+ * cookie of the account given in `?account=<id>`, and streams the mapped
+ * events back as NDJSON, one message per calendar as each completes.
+ * See $lib/api/eventStream for the message format.
+ */
+
+import { getRequestAccessToken } from '$lib/server/googleAuth';
+import { errorResponse } from '$lib/server/googleApi';
+import { streamCalendarEvents } from '$lib/server/googleEvents';
+import { NDJSON_CONTENT_TYPE } from '$lib/api/eventStream';
+import type { RequestHandler } from './$types';
+
+export const GET: RequestHandler = async ({ url, request, cookies }) => {
+    const accessToken = getRequestAccessToken(url, cookies);
+
+    if (!accessToken) {
+        return errorResponse('Not authenticated', 'unauthenticated', 401);
+    }
+
+    const calendarIds = url.searchParams.getAll('calendarId');
+    const timeMin = url.searchParams.get('timeMin');
+    const timeMax = url.searchParams.get('timeMax');
+
+    if (calendarIds.length === 0 || !timeMin || !timeMax) {
+        return errorResponse('calendarId, timeMin and timeMax required', 'bad_request', 400);
+    }
+
+    const stream = streamCalendarEvents({
+        accessToken,
+        calendarIds,
+        timeMin,
+        timeMax,
+        signal: request.signal,
+    });
+
+    return new Response(stream, {
+        headers: {
+            'Content-Type': NDJSON_CONTENT_TYPE,
+            'Cache-Control': 'no-store',
+        },
+    });
+};
@@ -1,19 +1,31 @@
 /**
  * Google Calendar API Proxy - Events
  * 
- * Proxies requests to Google Calendar API using tokens from cookies.
+ * Proxies requests to Google Calendar API using the token cookie of the
+ * account given in `?account=<id>`.
+ * GET with `syncToken` returns only changes since that token (including
+ * cancelled events); an expired token yields 410 and requires a full reload.
+ * GET requests are abandoned upstream when the client aborts them (e.g.
+ * the user panned away from the range being loaded), and retry rate limits
+ * with backoff. Errors carry a ProviderErrorCode (see $lib/server/googleApi).
+ * POST creates an event (requires the calendar.events scope). Rate limits
+ * are retried, as Google rejects rate-limited writes before applying them;
+ * outages are not, as the event may have been created before the 5xx and
+ * a retry would create it twice.
  */
 
 import { json } from '@sveltejs/kit';
+import { getRequestAccessToken } from '$lib/server/googleAuth';
+import { errorResponse, fetchGoogle, googleErrorResponse } from '$lib/server/googleApi';
 import type { RequestHandler } from './$types';
 
 const GOOGLE_CALENDAR_API = 'https://www.googleapis.com/calendar/v3';
 
-export const GET: RequestHandler = async ({ url, cookies }) => {
-    const accessToken = cookies.get('google_access_token');
+export const GET: RequestHandler = async ({ url, request, cookies }) => {
+    const accessToken = getRequestAccessToken(url, cookies);
 
     if (!accessToken) {
-        return json({ error: 'Not authenticated' }, { status: 401 });
+        return errorResponse('Not authenticated', 'unauthenticated', 401);
     }
 
     const calendarId = url.searchParams.get('calendarId');
@@ -22,40 +34,90 @@ export const GET: RequestHandler = async ({ url, cookies }) => {
     const singleEvents = url.searchParams.get('singleEvents') || 'true';
     const maxResults = url.searchParams.get('maxResults') || '2500';
     const pageToken = url.searchParams.get('pageToken');
+    const syncToken = url.searchParams.get('syncToken');
 
     if (!calendarId) {
-        return json({ error: 'calendarId required' }, { status: 400 });
+        return errorResponse('calendarId required', 'bad_request', 400);
     }
 
     try {
         const params = new URLSearchParams({
             singleEvents,
             maxResults,
-            orderBy: 'startTime',
         });
 
-        if (timeMin) params.set('timeMin', timeMin);
-        if (timeMax) params.set('timeMax', timeMax);
+        // Google rejects time bounds and ordering on incremental requests
+        if (syncToken) {
+            params.set('syncToken', syncToken);
+        } else {
+            params.set('orderBy', 'startTime');
+            if (timeMin) params.set('timeMin', timeMin);
+            if (timeMax) params.set('timeMax', timeMax);
+        }
         if (pageToken) params.set('pageToken', pageToken);
 
         const apiUrl = `${GOOGLE_CALENDAR_API}/calendars/${encodeURIComponent(calendarId)}/events?${params}`;
 
-        const response = await fetch(apiUrl, {
+        const response = await fetchGoogle(apiUrl, {
             headers: {
                 Authorization: `Bearer ${accessToken}`,
             },
+            signal: request.signal,
         });
 
+        if (syncToken && response.status === 410) {
+            return errorResponse('Sync token expired', 'sync_token_expired', 410);
+        }
+
         if (!response.ok) {
-            const error = await response.text();
-            console.error('Events API error:', error);
-            return json({ error: 'Failed to fetch events' }, { status: response.status });
+            return googleErrorResponse(response, 'Failed to fetch events');
         }
 
         const data = await response.json();
         return json(data);
+    } catch (err) {
+        if (request.signal.aborted) {
+            // Nobody is waiting for the response
+            return errorResponse('Request aborted', 'aborted', 499);
+        }
+        console.error('Events proxy error:', err);
+        return errorResponse('Internal error', 'internal', 500);
+    }
+};
+
+export const POST: RequestHandler = async ({ url, request, cookies }) => {
+    const accessToken = getRequestAccessToken(url, cookies);
+
+    if (!accessToken) {
+        return errorResponse('Not authenticated', 'unauthenticated', 401);
+    }
+
+    const calendarId = url.searchParams.get('calendarId');
+
+    if (!calendarId) {
+        return errorResponse('calendarId required', 'bad_request', 400);
+    }
+
+    try {
+        const apiUrl = `${GOOGLE_CALENDAR_API}/calendars/${encodeURIComponent(calendarId)}/events`;
+
+        const response = await fetchGoogle(apiUrl, {
+            method: 'POST',
+            headers: {
+                Authorization: `Bearer ${accessToken}`,
+                'Content-Type': 'application/json',
+            },
+            body: await request.text(),
+        }, { retryOutages: false });
+
+        if (!response.ok) {
+            return googleErrorResponse(response, 'Failed to create event');
+        }
+
+        const data = await response.json();
+        return json(data, { status: 201 });
     } catch (err) {
         console.error('Events proxy error:', err);
-        return json({ error: 'Internal error' }, { status: 500 });
+        return errorResponse('Internal error', 'internal', 500);
     }
 };
@@ -0,0 +1,160 @@
+/**
+ * Google Calendar API Proxy - Single Event
+ *
+ * GET fetches one event by ID.
+ * PATCH updates and DELETE removes an event (requires the calendar.events scope).
+ * Clients send the event's ETag in If-Match; if the event changed in Google
+ * since it was loaded, the request fails with 412 and the current version
+ * is returned so the client can refresh it.
+ * Rate limits and outages are retried with backoff; errors carry a
+ * ProviderErrorCode (see $lib/server/googleApi).
+ */
+
+import { json } from '@sveltejs/kit';
+import { getRequestAccessToken } from '$lib/server/googleAuth';
+import { errorResponse, fetchGoogle, googleErrorResponse, type GoogleErrorBody } from '$lib/server/googleApi';
+import type { RequestHandler } from './$types';
+
+const GOOGLE_CALENDAR_API = 'https://www.googleapis.com/calendar/v3';
+
+function eventUrl(calendarId: string, eventId: string): string {
+    return `${GOOGLE_CALENDAR_API}/calendars/${encodeURIComponent(calendarId)}/events/${encodeURIComponent(eventId)}`;
+}
+
+/**
+ * Build the 412 response, including the latest server copy of the event
+ */
+async function conflictResponse(url: string, accessToken: string): Promise<Response> {
+    const current = await fetchGoogle(url, {
+        headers: {
+            Authorization: `Bearer ${accessToken}`,
+        },
+    });
+
+    const body: GoogleErrorBody & { current: unknown } = {
+        error: 'Event was modified in Google Calendar',
+        code: 'conflict',
+        current: current.ok ? await current.json() : null,
+    };
+    return json(body, { status: 412 });
+}
+
+export const GET: RequestHandler = async ({ params, url, cookies }) => {
+    const accessToken = getRequestAccessToken(url, cookies);
+
+    if (!accessToken) {
+        return errorResponse('Not authenticated', 'unauthenticated', 401);
+    }
+
+    const calendarId = url.searchParams.get('calendarId');
+
+    if (!calendarId) {
+        return errorResponse('calendarId required', 'bad_request', 400);
+    }
+
+    try {
+        const response = await fetchGoogle(eventUrl(calendarId, params.eventId), {
+            headers: {
+                Authorization: `Bearer ${accessToken}`,
+            },
+        });
+
+        if (!response.ok) {
+            return googleErrorResponse(response, 'Failed to fetch event');
+        }
+
+        const data = await response.json();
+        return json(data);
+    } catch (err) {
+        console.error('Events proxy error:', err);
+        return errorResponse('Internal error', 'internal', 500);
+    }
+};
+
+export const PATCH: RequestHandler = async ({ params, url, request, cookies }) => {
+    const accessToken = getRequestAccessToken(url, cookies);
+
+    if (!accessToken) {
+        return errorResponse('Not authenticated', 'unauthenticated', 401);
+    }
+
+    const calendarId = url.searchParams.get('calendarId');
+
+    if (!calendarId) {
+        return errorResponse('calendarId required', 'bad_request', 400);
+    }
+
+    try {
+        const apiUrl = eventUrl(calendarId, params.eventId);
+        const headers: Record<string, string> = {
+            Authorization: `Bearer ${accessToken}`,
+            'Content-Type': 'application/json',
+        };
+
+        const ifMatch = request.headers.get('If-Match');
+        if (ifMatch) headers['If-Match'] = ifMatch;
+
+        const response = await fetchGoogle(apiUrl, {
+            method: 'PATCH',
+            headers,
+            body: await request.text(),
+        });
+
+        if (response.status === 412) {
+            return conflictResponse(apiUrl, accessToken);
+        }
+
+        if (!response.ok) {
+            return googleErrorResponse(response, 'Failed to update event');
+        }
+
+        const data = await response.json();
+        return json(data);
+    } catch (err) {
+        console.error('Events proxy error:', err);
+        return errorResponse('Internal error', 'internal', 500);
+    }
+};
+
+export const DELETE: RequestHandler = async ({ params, url, request, cookies }) => {
+    const accessToken = getRequestAccessToken(url, cookies);
+
+    if (!accessToken) {
+        return errorResponse('Not authenticated', 'unauthenticated', 401);
+    }
+
+    const calendarId = url.searchParams.get('calendarId');
+
+    if (!calendarId) {
+        return errorResponse('calendarId required', 'bad_request', 400);
+    }
+
+    try {
+        const apiUrl = eventUrl(calendarId, params.eventId);
+        const headers: Record<string, string> = {
+            Authorization: `Bearer ${accessToken}`,
+        };
+
+        const ifMatch = request.headers.get('If-Match');
+        if (ifMatch) headers['If-Match'] = ifMatch;
+
+        const response = await fetchGoogle(apiUrl, {
+            method: 'DELETE',
+            headers,
+        });
+
+        if (response.status === 412) {
+            return conflictResponse(apiUrl, accessToken);
+        }
+
+        // 410 Gone: already deleted, which is what the client wanted
+        if (!response.ok && response.status !== 410) {
+            return googleErrorResponse(response, 'Failed to delete event');
+        }
+
+        return new Response(null, { status: 204 });
+    } catch (err) {
+        console.error('Events proxy error:', err);
+        return errorResponse('Internal error', 'internal', 500);
+    }
+};
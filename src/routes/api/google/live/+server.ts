@@ -0,0 +1,47 @@
+/**
+ * Google Calendar Live Updates
+ *
+ * GET with one or more `calendarId` parameters opens a Server-Sent Events
+ * stream for the account given in `?account=<id>`. It sends `ready` once
+ * the calendars are watched, then `changed` with the IDs of calendars that
+ * changed in Google; clients pull the deltas themselves. See
+ * $lib/server/liveUpdates for how changes are detected.
+ *
+ * Watches are shared by every client of an account and use their access
+ * tokens, so the token is checked with Google before the client joins.
+ */
+
+import { getAccountId, getRequestAccessToken, hasVerifiedSession } from '$lib/server/googleAuth';
+import { errorResponse } from '$lib/server/googleApi';
+import { getLiveUpdateHub, streamLiveUpdates } from '$lib/server/liveUpdates';
+import { SSE_CONTENT_TYPE } from '$lib/api/liveStream';
+import type { RequestHandler } from './$types';
+
+export const GET: RequestHandler = async ({ url, request, cookies }) => {
+    const accessToken = getRequestAccessToken(url, cookies);
+    const accountId = getAccountId(url);
+
+    if (!accessToken || !accountId || !await hasVerifiedSession(cookies, accountId)) {
+        return errorResponse('Not authenticated', 'unauthenticated', 401);
+    }
+
+    const calendarIds = url.searchParams.getAll('calendarId');
+
+    if (calendarIds.length === 0) {
+        return errorResponse('calendarId required', 'bad_request', 400);
+    }
+
+    const stream = streamLiveUpdates(getLiveUpdateHub(), {
+        accountId,
+        accessToken,
+        calendarIds,
+        signal: request.signal,
+    });
+
+    return new Response(stream, {
+        headers: {
+            'Content-Type': SSE_CONTENT_TYPE,
+            'Cache-Control': 'no-store',
+        },
+    });
+};
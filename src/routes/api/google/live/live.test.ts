@@ -0,0 +1,79 @@
+/**
+ * Live Updates Endpoint Unit Tests
+ *
+ * Tests that only clients whose access token Google confirms join an
+ * account's watches, against a stubbed token check and hub.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import type { Cookies } from '@sveltejs/kit';
+import { streamLiveUpdates } from '$lib/server/liveUpdates';
+import { GET } from './+server';
+
+vi.mock('$env/dynamic/private', () => ({
+    env: { GOOGLE_CLIENT_ID: 'client-id', GOOGLE_CLIENT_SECRET: 'client-secret' },
+}));
+
+vi.mock('$lib/server/liveUpdates', () => ({
+    getLiveUpdateHub: vi.fn(() => ({})),
+    streamLiveUpdates: vi.fn(() => new ReadableStream()),
+}));
+
+// Cookie jar holding the given cookies
+function cookieJar(initial: Record<string, string> = {}): Cookies {
+    const values = new Map(Object.entries(initial));
+    return {
+        get: (name: string) => values.get(name),
+        getAll: () => Array.from(values, ([name, value]) => ({ name, value })),
+        set: (name: string, value: string) => {
+            values.set(name, value);
+        },
+        delete: (name: string) => {
+            values.delete(name);
+        },
+        serialize: () => '',
+    };
+}
+
+// Open a stream for account 42 with the given access token cookie
+function open(accessToken: string) {
+    const event = {
+        url: new URL('/api/google/live?account=42&calendarId=primary', 'http://localhost'),
+        request: new Request('http://localhost/api/google/live'),
+        cookies: cookieJar({ google_access_token_42: accessToken }),
+    };
+    return GET(event as unknown as Parameters<typeof GET>[0]);
+}
+
+describe('GET /api/google/live', () => {
+    beforeEach(() => {
+        vi.mocked(streamLiveUpdates).mockClear();
+    });
+
+    afterEach(() => {
+        vi.unstubAllGlobals();
+    });
+
+    it('should stream for tokens Google confirms belong to the account', async () => {
+        vi.stubGlobal('fetch', vi.fn(async () => Response.json({ aud: 'client-id', sub: '42', expires_in: '3599' })));
+
+        const response = await open('live-token');
+
+        expect(response.status).toBe(200);
+        expect(streamLiveUpdates).toHaveBeenCalledWith(expect.anything(), expect.objectContaining({
+            accountId: '42',
+            accessToken: 'live-token',
+            calendarIds: ['primary'],
+        }));
+    });
+
+    it('should keep made-up and other accounts\' tokens out of the watch', async () => {
+        vi.stubGlobal('fetch', vi.fn(async () => Response.json({ error: 'invalid_token' }, { status: 400 })));
+        expect((await open('made-up')).status).toBe(401);
+
+        vi.stubGlobal('fetch', vi.fn(async () => Response.json({ aud: 'client-id', sub: '7', expires_in: '3599' })));
+        expect((await open('attackers-own-token')).status).toBe(401);
+
+        expect(streamLiveUpdates).not.toHaveBeenCalled();
+    });
+});
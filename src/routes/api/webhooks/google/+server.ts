@@ -0,0 +1,17 @@
+/**
+ * Google Calendar Push Notifications
+ *
+ * Receives watch channel notifications and forwards them to the live
+ * updates hub. Set GOOGLE_WEBHOOK_URL to this route's public HTTPS address
+ * to use push notifications; Google identifies the channel in the
+ * X-Goog-Channel-* headers and the body is empty. Notifications for
+ * unknown channels (or with a wrong token) are answered with 404.
+ */
+
+import { getLiveUpdateHub } from '$lib/server/liveUpdates';
+import type { RequestHandler } from './$types';
+
+export const POST: RequestHandler = async ({ request }) => {
+    const handled = getLiveUpdateHub().handleNotification(request.headers);
+    return new Response(null, { status: handled ? 200 : 404 });
+};
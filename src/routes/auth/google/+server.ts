@@ -2,6 +2,9 @@
  * Google OAuth Initiation Endpoint
  * 
  * Redirects user to Google's OAuth consent screen.
+ * Pass `?access=write` to request the elevated scope needed for editing events,
+ * and `?login_hint=<email>` to preselect an already connected account.
+ * Without a hint Google shows the account chooser, so further accounts can be added.
  */
 
 import { redirect } from '@sveltejs/kit';
@@ -16,7 +19,10 @@ const SCOPES = [
     'https://www.googleapis.com/auth/userinfo.email',
 ];
 
-export const GET: RequestHandler = async () => {
+// Elevated scope, only requested when the user opts in to editing
+const WRITE_SCOPE = 'https://www.googleapis.com/auth/calendar.events';
+
+export const GET: RequestHandler = async ({ url }) => {
     const clientId = env.GOOGLE_CLIENT_ID;
     const redirectUri = env.GOOGLE_REDIRECT_URI;
 
@@ -24,14 +30,24 @@ export const GET: RequestHandler = async () => {
         throw redirect(302, '/?auth_error=missing_credentials');
     }
 
+    const scopes = url.searchParams.get('access') === 'write'
+        ? [...SCOPES, WRITE_SCOPE]
+        : SCOPES;
+
     const params = new URLSearchParams({
         client_id: clientId,
         redirect_uri: redirectUri,
         response_type: 'code',
-        scope: SCOPES.join(' '),
+        scope: scopes.join(' '),
         access_type: 'offline',
-        prompt: 'consent',
+        prompt: 'select_account consent',
+        include_granted_scopes: 'true',
     });
 
+    const loginHint = url.searchParams.get('login_hint');
+    if (loginHint) {
+        params.set('login_hint', loginHint);
+    }
+
     throw redirect(302, `${GOOGLE_AUTH_URL}?${params.toString()}`);
 };
@@ -2,12 +2,12 @@
  * Google OAuth Callback Endpoint
  * 
  * Receives authorization code from Google, exchanges for tokens,
- * and stores them securely.
+ * and stores them securely under the account's Google user ID.
  */
 
 import { redirect, isRedirect } from '@sveltejs/kit';
 import { env } from '$env/dynamic/private';
-import { dev } from '$app/environment';
+import { storeAccessToken, storeRefreshToken } from '$lib/server/googleAuth';
 import type { RequestHandler } from './$types';
 
 const GOOGLE_TOKEN_URL = 'https://oauth2.googleapis.com/token';
@@ -72,33 +72,22 @@ export const GET: RequestHandler = async ({ url, cookies }) => {
 
         const userInfo = await userResponse.json();
 
-        // Calculate expiry time
-        const expiresAt = Date.now() + (tokens.expires_in * 1000);
+        const accountId: string = userInfo.id;
 
-        // Store tokens in HTTP-only cookie (secure)
-        cookies.set('google_access_token', tokens.access_token, {
-            path: '/',
-            httpOnly: true,
-            secure: !dev,
-            sameSite: 'lax',
-            maxAge: tokens.expires_in,
-        });
+        // Store tokens in HTTP-only cookies (secure)
+        const expiresAt = storeAccessToken(cookies, accountId, tokens.access_token, tokens.expires_in);
 
         if (tokens.refresh_token) {
-            cookies.set('google_refresh_token', tokens.refresh_token, {
-                path: '/',
-                httpOnly: true,
-                secure: !dev,
-                sameSite: 'lax',
-                maxAge: 60 * 60 * 24 * 30, // 30 days
-            });
+            storeRefreshToken(cookies, accountId, tokens.refresh_token);
         }
 
         // Redirect back to app with success params (for client-side state update)
         const successParams = new URLSearchParams({
             auth_success: 'true',
+            account: accountId,
             email: userInfo.email,
             expires_at: expiresAt.toString(),
+            scope: tokens.scope || '',
         });
 
         redirect(302, '/?' + successParams.toString());
@@ -0,0 +1,29 @@
+/**
+ * Google OAuth Refresh Endpoint
+ *
+ * Exchanges the stored refresh token of an account (`?account=<id>`)
+ * for a new access token.
+ * Returns 401 with `reconsent: true` if the user has to sign in again.
+ */
+
+import { json } from '@sveltejs/kit';
+import { getAccountId, refreshFromCookies } from '$lib/server/googleAuth';
+import type { RequestHandler } from './$types';
+
+export const POST: RequestHandler = async ({ url, cookies }) => {
+    const accountId = getAccountId(url);
+    if (!accountId) {
+        return json({ error: 'account required' }, { status: 400 });
+    }
+
+    const result = await refreshFromCookies(cookies, accountId);
+
+    switch (result.status) {
+        case 'refreshed':
+            return json({ expiresAt: result.expiresAt, scope: result.scope ?? '' });
+        case 'error':
+            return json({ error: 'Token refresh failed' }, { status: 502 });
+        default:
+            return json({ error: 'Google session expired', reconsent: true }, { status: 401 });
+    }
+};
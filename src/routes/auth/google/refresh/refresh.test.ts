@@ -0,0 +1,92 @@
+/**
+ * Token Refresh Endpoint Unit Tests
+ *
+ * Tests the responses for refreshed, rejected and failed refreshes against
+ * a stubbed token endpoint.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import type { Cookies } from '@sveltejs/kit';
+import { POST } from './+server';
+
+vi.mock('$env/dynamic/private', () => ({
+    env: { GOOGLE_CLIENT_ID: 'client-id', GOOGLE_CLIENT_SECRET: 'client-secret' },
+}));
+
+// Cookie jar holding the given cookies
+function cookieJar(initial: Record<string, string> = {}): Cookies {
+    const values = new Map(Object.entries(initial));
+    return {
+        get: (name: string) => values.get(name),
+        getAll: () => Array.from(values, ([name, value]) => ({ name, value })),
+        set: (name: string, value: string) => {
+            values.set(name, value);
+        },
+        delete: (name: string) => {
+            values.delete(name);
+        },
+        serialize: () => '',
+    };
+}
+
+// Call the endpoint for an account whose refresh token cookie is set
+function refresh(path = '/auth/google/refresh?account=42') {
+    const event = {
+        url: new URL(path, 'http://localhost'),
+        cookies: cookieJar({ google_refresh_token_42: 'refresh-1' }),
+    };
+    return POST(event as unknown as Parameters<typeof POST>[0]);
+}
+
+describe('POST /auth/google/refresh', () => {
+    beforeEach(() => {
+        vi.useFakeTimers();
+        vi.setSystemTime(Date.UTC(2024, 0, 1));
+        vi.spyOn(console, 'warn').mockImplementation(() => {});
+        vi.spyOn(console, 'error').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+        vi.unstubAllGlobals();
+        vi.restoreAllMocks();
+    });
+
+    it('should require an account', async () => {
+        expect((await refresh('/auth/google/refresh')).status).toBe(400);
+    });
+
+    it('should return the new expiry and scopes', async () => {
+        vi.stubGlobal('fetch', vi.fn(async () => Response.json({
+            access_token: 'new',
+            expires_in: 3600,
+            scope: 'calendar.readonly',
+        })));
+
+        const response = await refresh();
+
+        expect(response.status).toBe(200);
+        expect(await response.json()).toEqual({
+            expiresAt: Date.UTC(2024, 0, 1) + 3600 * 1000,
+            scope: 'calendar.readonly',
+        });
+    });
+
+    it('should ask for reconsent when Google rejects the refresh token', async () => {
+        vi.stubGlobal('fetch', vi.fn(async () => Response.json({ error: 'invalid_grant' }, { status: 401 })));
+
+        const response = await refresh();
+
+        expect(response.status).toBe(401);
+        expect(await response.json()).toMatchObject({ reconsent: true });
+    });
+
+    it('should report outages without asking for reconsent', async () => {
+        vi.stubGlobal('fetch', vi.fn(async () => new Response('', { status: 503 })));
+
+        const response = await refresh();
+
+        expect(response.status).toBe(502);
+        expect(await response.json()).not.toHaveProperty('reconsent');
+    });
+});
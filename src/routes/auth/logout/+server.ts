@@ -1,20 +1,27 @@
 /**
  * Logout Endpoint
  * 
- * Clears auth cookies and optionally revokes the token with Google.
+ * Clears the auth cookies of one account (`?account=<id>`) and optionally
+ * revokes its token with Google. Other connected accounts stay signed in.
  */
 
 import { json } from '@sveltejs/kit';
+import { clearTokens, getAccessToken, getAccountId } from '$lib/server/googleAuth';
 import type { RequestHandler } from './$types';
 
 const GOOGLE_REVOKE_URL = 'https://oauth2.googleapis.com/revoke';
 
-export const POST: RequestHandler = async ({ cookies }) => {
-    const accessToken = cookies.get('google_access_token');
+export const POST: RequestHandler = async ({ url, cookies }) => {
+    const accountId = getAccountId(url);
 
-    // Clear all auth cookies
-    cookies.delete('google_access_token', { path: '/' });
-    cookies.delete('google_refresh_token', { path: '/' });
+    if (!accountId) {
+        return json({ error: 'account required' }, { status: 400 });
+    }
+
+    const accessToken = getAccessToken(cookies, accountId);
+
+    // Clear the account's auth cookies
+    clearTokens(cookies, accountId);
 
     // Optionally revoke the token with Google
     if (accessToken) {